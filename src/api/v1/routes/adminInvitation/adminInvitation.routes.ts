@@ -0,0 +1,33 @@
+/**
+ * @file src/api/v1/routes/adminInvitation/adminInvitation.routes.ts
+ * @description Defines API routes for managing admin invitations.
+ * Accepting an invitation is public and lives under the auth routes.
+ */
+
+import { Router } from 'express';
+import { Designation } from '@prisma/client';
+import {
+  getInvitations,
+  createInvitation,
+  resendInvitation,
+  revokeInvitation,
+} from '../../../../controllers/adminInvitation/adminInvitation.controller';
+import {
+  isAuthenticated,
+  authorizeRoles,
+} from '../../../../middlewares/auth.middleware';
+
+const router = Router();
+
+// Super admins invite to their colleges, HODs to their own department
+router.use(
+  isAuthenticated,
+  authorizeRoles(Designation.SUPER_ADMIN, Designation.HOD)
+);
+
+router.get('/', getInvitations);
+router.post('/', createInvitation);
+router.post('/:id/resend', resendInvitation);
+router.delete('/:id', revokeInvitation);
+
+export default router;
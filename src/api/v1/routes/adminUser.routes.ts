@@ -16,7 +16,7 @@ import { isAuthenticated, authorizeRoles } from '../../../middlewares/auth.middl
 
 const router = Router();
 
-// All routes require superadmin
+// All routes require a superadmin, of the platform or of a college
 router.use(isAuthenticated, authorizeRoles(Designation.SUPER_ADMIN));
 
 router.get('/', getAllAdmins);
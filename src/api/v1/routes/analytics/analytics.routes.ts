@@ -2,6 +2,7 @@
  * @file src/api/v1/routes/analytics/analytics.routes.ts
  * @description Defines API routes for feedback analytics operations.
  * Maps URLs to controller methods and applies authentication/authorization middleware.
+ * Faculty admins may only read the performance and detailed analytics of their own faculty record.
  */
 
 import { Router } from 'express';
@@ -13,6 +14,7 @@ import {
   getHighImpactFeedbackAreas,
   getSemesterTrendAnalysis,
   getAnnualPerformanceTrend,
+  rebuildFeedbackAnalytics,
   getDivisionBatchComparisons,
   getLabLectureComparison,
   getFacultyPerformanceYearData,
@@ -26,9 +28,25 @@ import {
   getFacultyDetailedAnalytics,
   getDivisionDetailedAnalytics,
 } from '../../../../controllers/analytics/analytics.controller';
+import {
+  getAnalyticsViews,
+  getAnalyticsViewById,
+  createAnalyticsView,
+  updateAnalyticsView,
+  deleteAnalyticsView,
+  getAnalyticsViewData,
+} from '../../../../controllers/analyticsView/analyticsView.controller';
+import {
+  exportFacultyDetailedAnalytics,
+  exportSubjectDetailedAnalytics,
+  exportDivisionDetailedAnalytics,
+  exportAllFacultyPerformance,
+} from '../../../../controllers/analyticsExport/analyticsExport.controller';
+import { getFacultyReportCard } from '../../../../controllers/facultyReport/facultyReport.controller';
 import {
   isAuthenticated,
   authorizeRoles,
+  restrictToOwnFaculty,
 } from '../../../../middlewares/auth.middleware';
 
 const router = Router();
@@ -39,88 +57,63 @@ router.use(isAuthenticated);
 // Route to get semesters that have responses
 router.get(
   '/semesters-with-responses',
-  authorizeRoles(
-    Designation.SUPER_ADMIN,
-    Designation.HOD,
-    Designation.AsstProf
-  ),
+  authorizeRoles(Designation.SUPER_ADMIN, Designation.HOD),
   getSemestersWithResponses
 );
 
 // Route to get overall semester rating
 router.get(
   '/semesters/:id/overall-rating',
-  authorizeRoles(
-    Designation.SUPER_ADMIN,
-    Designation.HOD,
-    Designation.AsstProf
-  ),
+  authorizeRoles(Designation.SUPER_ADMIN, Designation.HOD),
   getOverallSemesterRating
 );
 
 // Route to get subject-wise lecture/lab rating
 router.get(
   '/semesters/:id/subject-wise-rating',
-  authorizeRoles(
-    Designation.SUPER_ADMIN,
-    Designation.HOD,
-    Designation.AsstProf
-  ),
+  authorizeRoles(Designation.SUPER_ADMIN, Designation.HOD),
   getSubjectWiseLectureLabRating
 );
 
 // Route to get high impact feedback areas
 router.get(
   '/semesters/:id/high-impact-areas',
-  authorizeRoles(
-    Designation.SUPER_ADMIN,
-    Designation.HOD,
-    Designation.AsstProf
-  ),
+  authorizeRoles(Designation.SUPER_ADMIN, Designation.HOD),
   getHighImpactFeedbackAreas
 );
 
 // Route to get semester trend analysis (optional subjectId in query)
 router.get(
   '/semester-trend-analysis',
-  authorizeRoles(
-    Designation.SUPER_ADMIN,
-    Designation.HOD,
-    Designation.AsstProf
-  ),
+  authorizeRoles(Designation.SUPER_ADMIN, Designation.HOD),
   getSemesterTrendAnalysis
 );
 
 // Route to get annual performance trend
 router.get(
   '/annual-performance-trend',
-  authorizeRoles(
-    Designation.SUPER_ADMIN,
-    Designation.HOD,
-    Designation.AsstProf
-  ),
+  authorizeRoles(Designation.SUPER_ADMIN, Designation.HOD),
   getAnnualPerformanceTrend
 );
 
+// Route to queue a full rebuild of the precomputed feedback analytics rows
+router.post(
+  '/feedback-analytics/rebuild',
+  authorizeRoles(Designation.SUPER_ADMIN),
+  rebuildFeedbackAnalytics
+);
+
 // Route to get division and batch comparisons
 router.get(
   '/semesters/:id/division-batch-comparisons',
-  authorizeRoles(
-    Designation.SUPER_ADMIN,
-    Designation.HOD,
-    Designation.AsstProf
-  ),
+  authorizeRoles(Designation.SUPER_ADMIN, Designation.HOD),
   getDivisionBatchComparisons
 );
 
 // Route to get lab and lecture comparison
 router.get(
   '/semesters/:id/lab-lecture-comparison',
-  authorizeRoles(
-    Designation.SUPER_ADMIN,
-    Designation.HOD,
-    Designation.AsstProf
-  ),
+  authorizeRoles(Designation.SUPER_ADMIN, Designation.HOD),
   getLabLectureComparison
 );
 
@@ -132,6 +125,7 @@ router.get(
     Designation.HOD,
     Designation.AsstProf
   ),
+  restrictToOwnFaculty,
   getFacultyPerformanceYearData
 );
 
@@ -145,66 +139,42 @@ router.get(
 // Route for total responses count
 router.get(
   '/total-responses',
-  authorizeRoles(
-    Designation.SUPER_ADMIN,
-    Designation.HOD,
-    Designation.AsstProf
-  ),
+  authorizeRoles(Designation.SUPER_ADMIN, Designation.HOD),
   getTotalResponses
 );
 
 // NEW: Route for semester divisions with response counts
 router.get(
   '/semester-divisions-with-responses',
-  authorizeRoles(
-    Designation.SUPER_ADMIN,
-    Designation.HOD,
-    Designation.AsstProf
-  ),
+  authorizeRoles(Designation.SUPER_ADMIN, Designation.HOD),
   getSemesterDivisions
 );
 
 // NEW: Route for filter dictionary (Academic Years → Departments → Subjects)
 router.get(
   '/filter-dictionary',
-  authorizeRoles(
-    Designation.SUPER_ADMIN,
-    Designation.HOD,
-    Designation.AsstProf
-  ),
+  authorizeRoles(Designation.SUPER_ADMIN, Designation.HOD),
   getFilterDictionary
 );
 
 // NEW: Route for complete analytics data with filters
 router.get(
   '/complete-data',
-  authorizeRoles(
-    Designation.SUPER_ADMIN,
-    Designation.HOD,
-    Designation.AsstProf
-  ),
+  authorizeRoles(Designation.SUPER_ADMIN, Designation.HOD),
   getCompleteAnalyticsData
 );
 
 // NEW: Route for optimized analytics data (pre-aggregated, no raw snapshots)
 router.get(
   '/optimized-data',
-  authorizeRoles(
-    Designation.SUPER_ADMIN,
-    Designation.HOD,
-    Designation.AsstProf
-  ),
+  authorizeRoles(Designation.SUPER_ADMIN, Designation.HOD),
   getOptimizedAnalyticsData
 );
 
 // NEW: Detailed drill-down routes
 router.get(
   '/subjects/:subjectId/detailed',
-  authorizeRoles(
-    Designation.SUPER_ADMIN,
-    Designation.HOD,
-    Designation.AsstProf
-  ),
+  authorizeRoles(Designation.SUPER_ADMIN, Designation.HOD),
   getSubjectDetailedAnalytics
 );
 
@@ -215,17 +185,89 @@ router.get(
     Designation.HOD,
     Designation.AsstProf
   ),
+  restrictToOwnFaculty,
   getFacultyDetailedAnalytics
 );
 
 router.get(
   '/divisions/:divisionId/detailed',
-  authorizeRoles(
-    Designation.SUPER_ADMIN,
-    Designation.HOD,
-    Designation.AsstProf
-  ),
+  authorizeRoles(Designation.SUPER_ADMIN, Designation.HOD),
   getDivisionDetailedAnalytics
 );
 
+// Excel exports of the detailed analytics and the all-faculty performance table
+// GET /api/v1/analytics/faculty/performance/:academicYearId/export
+router.get(
+  '/faculty/performance/:academicYearId/export',
+  authorizeRoles(Designation.SUPER_ADMIN, Designation.HOD),
+  exportAllFacultyPerformance
+);
+
+// GET /api/v1/analytics/subjects/:subjectId/detailed/export
+router.get(
+  '/subjects/:subjectId/detailed/export',
+  authorizeRoles(Designation.SUPER_ADMIN, Designation.HOD),
+  exportSubjectDetailedAnalytics
+);
+
+// GET /api/v1/analytics/faculty/:facultyId/detailed/export
+router.get(
+  '/faculty/:facultyId/detailed/export',
+  authorizeRoles(Designation.SUPER_ADMIN, Designation.HOD),
+  exportFacultyDetailedAnalytics
+);
+
+// GET /api/v1/analytics/divisions/:divisionId/detailed/export
+router.get(
+  '/divisions/:divisionId/detailed/export',
+  authorizeRoles(Designation.SUPER_ADMIN, Designation.HOD),
+  exportDivisionDetailedAnalytics
+);
+
+// GET /api/v1/analytics/faculty/:facultyId/report.pdf
+router.get(
+  '/faculty/:facultyId/report.pdf',
+  authorizeRoles(Designation.SUPER_ADMIN, Designation.HOD),
+  getFacultyReportCard
+);
+
+// Saved analytics views: admins manage their own views and can read views shared by others
+// GET /api/v1/analytics/views
+// POST /api/v1/analytics/views
+router
+  .route('/views')
+  .get(
+    authorizeRoles(Designation.SUPER_ADMIN, Designation.HOD),
+    getAnalyticsViews
+  )
+  .post(
+    authorizeRoles(Designation.SUPER_ADMIN, Designation.HOD),
+    createAnalyticsView
+  );
+
+// GET /api/v1/analytics/views/:id
+// PATCH /api/v1/analytics/views/:id
+// DELETE /api/v1/analytics/views/:id
+router
+  .route('/views/:id')
+  .get(
+    authorizeRoles(Designation.SUPER_ADMIN, Designation.HOD),
+    getAnalyticsViewById
+  )
+  .patch(
+    authorizeRoles(Designation.SUPER_ADMIN, Designation.HOD),
+    updateAnalyticsView
+  )
+  .delete(
+    authorizeRoles(Designation.SUPER_ADMIN, Designation.HOD),
+    deleteAnalyticsView
+  );
+
+// GET /api/v1/analytics/views/:id/data
+router.get(
+  '/views/:id/data',
+  authorizeRoles(Designation.SUPER_ADMIN, Designation.HOD),
+  getAnalyticsViewData
+);
+
 export default router;
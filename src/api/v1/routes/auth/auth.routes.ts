@@ -6,25 +6,59 @@
 
 import { Router } from 'express';
 import {
-  registerAdmin,
   registerSuperAdmin,
   loginAdmin,
   getMe,
   updateAdminPassword,
+  forgotPassword,
+  resetPassword,
+  requestLoginOtp,
+  loginWithOtp,
+  loginWithTwoFactor,
+  refreshTokens,
+  logout,
+  getSessions,
+  revokeSession,
 } from '../../../../controllers/auth/auth.controller';
-import { isAuthenticated } from '../../../../middlewares/auth.middleware';
+import {
+  getInvitationByToken,
+  acceptInvitation,
+} from '../../../../controllers/adminInvitation/adminInvitation.controller';
+import {
+  setupTwoFactor,
+  enableTwoFactor,
+  disableTwoFactor,
+  regenerateRecoveryCodes,
+  verifyTwoFactor,
+} from '../../../../controllers/auth/twoFactor.controller';
+import { isAuthenticatedForAccount } from '../../../../middlewares/auth.middleware';
 
 const router = Router();
 
 // Public routes
-router.post('/register', registerAdmin);
 router.post('/super-register', registerSuperAdmin);
 router.post('/login', loginAdmin);
+router.post('/forgot-password', forgotPassword);
+router.post('/reset-password', resetPassword);
+router.post('/otp-login/request', requestLoginOtp);
+router.post('/otp-login', loginWithOtp);
+router.post('/login/2fa', loginWithTwoFactor);
+router.post('/refresh', refreshTokens);
+router.get('/invitations/:token', getInvitationByToken);
+router.post('/invitations/accept', acceptInvitation);
 
-// Protected routes (require authentication)
-router.use(isAuthenticated);
+// Protected routes (require authentication), open to admins who must still enable 2FA
+router.use(isAuthenticatedForAccount);
 
 router.get('/me', getMe);
 router.patch('/update-password', updateAdminPassword);
+router.post('/logout', logout);
+router.get('/sessions', getSessions);
+router.delete('/sessions/:id', revokeSession);
+router.post('/2fa/setup', setupTwoFactor);
+router.post('/2fa/enable', enableTwoFactor);
+router.post('/2fa/disable', disableTwoFactor);
+router.post('/2fa/recovery-codes', regenerateRecoveryCodes);
+router.post('/2fa/verify', verifyTwoFactor);
 
 export default router;
@@ -8,15 +8,15 @@ import { Router } from 'express';
 import { Designation } from '@prisma/client';
 import {
   getColleges,
-  upsertPrimaryCollege,
-  getPrimaryCollege,
-  updatePrimaryCollege,
-  softDeletePrimaryCollege,
-  batchUpdatePrimaryCollege,
+  createCollege,
+  getCollegeById,
+  updateCollege,
+  softDeleteCollege,
 } from '../../../../controllers/college/college.controller';
 import {
   isAuthenticated,
   authorizeRoles,
+  requirePlatformAdmin,
 } from '../../../../middlewares/auth.middleware';
 
 const router = Router();
@@ -24,25 +24,16 @@ const router = Router();
 // Apply authentication middleware to all college routes
 router.use(isAuthenticated);
 
-// Routes for managing the primary college
-router
-  .route('/')
-  .get(getColleges)
-  .post(authorizeRoles(Designation.SUPER_ADMIN), upsertPrimaryCollege);
+// Colleges are listed to their admins; only the platform super admin creates or deletes them
+router.route('/').get(getColleges).post(requirePlatformAdmin, createCollege);
 
 router
-  .route('/primary')
-  .get(getPrimaryCollege)
+  .route('/:id')
+  .get(getCollegeById)
   .patch(
     authorizeRoles(Designation.SUPER_ADMIN, Designation.HOD),
-    updatePrimaryCollege
+    updateCollege
   )
-  .delete(authorizeRoles(Designation.SUPER_ADMIN), softDeletePrimaryCollege);
-
-router.patch(
-  '/primary/batch-update',
-  authorizeRoles(Designation.SUPER_ADMIN, Designation.HOD),
-  batchUpdatePrimaryCollege
-);
+  .delete(requirePlatformAdmin, softDeleteCollege);
 
 export default router;
@@ -9,15 +9,18 @@ import { cleanDatabase } from '../../../../controllers/common/database.controlle
 import {
   isAuthenticated,
   authorizeRoles,
+  requirePlatformAdmin,
+  requireTwoFactorStepUp,
 } from '../../../../middlewares/auth.middleware';
 
 const router = Router();
 
-// Apply authentication and authorization middleware
+// Apply authentication and authorization middleware; wiping every college is for the platform admin
 router.use(isAuthenticated);
 router.use(authorizeRoles(Designation.SUPER_ADMIN));
+router.use(requirePlatformAdmin);
 
-// Endpoint to clean all database tables.
-router.delete('/clean', cleanDatabase);
+// Endpoint to clean all database tables, after a two-factor step-up.
+router.delete('/clean', requireTwoFactorStepUp, cleanDatabase);
 
 export default router;
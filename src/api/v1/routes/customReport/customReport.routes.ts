@@ -0,0 +1,48 @@
+/**
+ * @file src/api/v1/routes/customReport/customReport.routes.ts
+ * @description Defines API routes for Custom Report operations.
+ * Maps URLs to controller methods and applies authentication/authorization middleware.
+ */
+
+import { Router } from 'express';
+import { Designation } from '@prisma/client';
+import {
+  getAllCustomReports,
+  getCustomReportById,
+  createCustomReport,
+  updateCustomReport,
+  deleteCustomReport,
+  runCustomReport,
+  previewCustomReport,
+} from '../../../../controllers/customReport/customReport.controller';
+import {
+  isAuthenticated,
+  authorizeRoles,
+} from '../../../../middlewares/auth.middleware';
+
+const router = Router();
+
+// Apply authentication and authorization middleware to all custom report routes
+router.use(isAuthenticated);
+router.use(authorizeRoles(Designation.SUPER_ADMIN, Designation.HOD));
+
+// POST /api/v1/custom-reports/preview
+router.post('/preview', previewCustomReport);
+
+// GET /api/v1/custom-reports
+// POST /api/v1/custom-reports
+router.route('/').get(getAllCustomReports).post(createCustomReport);
+
+// GET /api/v1/custom-reports/:id
+// PATCH /api/v1/custom-reports/:id
+// DELETE /api/v1/custom-reports/:id
+router
+  .route('/:id')
+  .get(getCustomReportById)
+  .patch(updateCustomReport)
+  .delete(deleteCustomReport);
+
+// GET /api/v1/custom-reports/:id/run
+router.get('/:id/run', runCustomReport);
+
+export default router;
@@ -13,6 +13,8 @@ import {
 import {
   isAuthenticated,
   authorizeRoles,
+  requirePlatformAdmin,
+  requireTwoFactorStepUp,
 } from '../../../../middlewares/auth.middleware';
 
 const router = Router();
@@ -34,7 +36,8 @@ router.get(
 // Route for deleting all database data (development only)
 router.delete(
   '/delete-all-data',
-  authorizeRoles(Designation.SUPER_ADMIN),
+  requirePlatformAdmin,
+  requireTwoFactorStepUp,
   deleteAllData
 );
 
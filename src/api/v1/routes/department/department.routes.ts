@@ -14,6 +14,11 @@ import {
   softDeleteDepartment,
   batchCreateDepartments,
 } from '../../../../controllers/department/department.controller';
+import {
+  getDepartmentAliases,
+  createDepartmentAlias,
+  deleteDepartmentAlias,
+} from '../../../../controllers/department/departmentAlias.controller';
 import {
   isAuthenticated,
   authorizeRoles,
@@ -45,6 +50,21 @@ router
     softDeleteDepartment
   );
 
+// Routes for the aliases uploads may name a department by
+router
+  .route('/:id/aliases')
+  .get(getDepartmentAliases)
+  .post(
+    authorizeRoles(Designation.SUPER_ADMIN, Designation.HOD),
+    createDepartmentAlias
+  );
+
+router.delete(
+  '/:id/aliases/:aliasId',
+  authorizeRoles(Designation.SUPER_ADMIN, Designation.HOD),
+  deleteDepartmentAlias
+);
+
 router.post(
   '/batch',
   authorizeRoles(Designation.SUPER_ADMIN, Designation.HOD),
@@ -28,6 +28,11 @@ import {
   clearOverrideStudents,
   getOverrideStudentsCount,
 } from '../../../../controllers/overrideStudents/overrideStudents.controller';
+import {
+  getFormReminders,
+  updateReminderSettings,
+  sendFormReminders,
+} from '../../../../controllers/feedbackReminder/feedbackReminder.controller';
 import {
   isAuthenticated,
   authorizeRoles,
@@ -153,6 +158,33 @@ router.delete(
   deleteOverrideStudent
 );
 
+// --- Reminder Routes ---
+
+// GET /api/v1/feedback-forms/:id/reminders
+router.get(
+  '/:id/reminders',
+  authorizeRoles(
+    Designation.SUPER_ADMIN,
+    Designation.HOD,
+    Designation.AsstProf
+  ),
+  getFormReminders
+);
+
+// PATCH /api/v1/feedback-forms/:id/reminders/settings
+router.patch(
+  '/:id/reminders/settings',
+  authorizeRoles(Designation.SUPER_ADMIN, Designation.HOD),
+  updateReminderSettings
+);
+
+// POST /api/v1/feedback-forms/:id/reminders/send
+router.post(
+  '/:id/reminders/send',
+  authorizeRoles(Designation.SUPER_ADMIN, Designation.HOD),
+  sendFormReminders
+);
+
 // --- Less Specific Routes (Generic ID routes) ---
 
 router
@@ -7,6 +7,7 @@
 import { Router } from 'express';
 import { Designation } from '@prisma/client';
 import {
+  getQuestionTypes,
   getAllQuestionCategories,
   getQuestionCategoryById,
   createQuestionCategory,
@@ -28,6 +29,17 @@ const router = Router();
 // Apply authentication middleware to all feedback question and category routes
 router.use(isAuthenticated);
 
+// GET /api/v1/feedback-questions/types
+router.get(
+  '/types',
+  authorizeRoles(
+    Designation.SUPER_ADMIN,
+    Designation.HOD,
+    Designation.AsstProf
+  ),
+  getQuestionTypes
+);
+
 // PATCH /api/v1/feedback-questions/questions/batch
 router.patch(
   '/questions/batch',
@@ -0,0 +1,65 @@
+/**
+ * @file src/api/v1/routes/formTemplate/formTemplate.routes.ts
+ * @description Defines API routes for Form Template operations.
+ * Maps URLs to controller methods and applies authentication/authorization middleware.
+ */
+
+import { Router } from 'express';
+import { Designation } from '@prisma/client';
+import {
+  getAllFormTemplates,
+  getFormTemplateById,
+  createFormTemplate,
+  updateFormTemplate,
+  deleteFormTemplate,
+} from '../../../../controllers/formTemplate/formTemplate.controller';
+import {
+  isAuthenticated,
+  authorizeRoles,
+} from '../../../../middlewares/auth.middleware';
+
+const router = Router();
+
+// Apply authentication middleware to all form template routes
+router.use(isAuthenticated);
+
+// GET /api/v1/form-templates
+// POST /api/v1/form-templates
+router
+  .route('/')
+  .get(
+    authorizeRoles(
+      Designation.SUPER_ADMIN,
+      Designation.HOD,
+      Designation.AsstProf
+    ),
+    getAllFormTemplates
+  )
+  .post(
+    authorizeRoles(Designation.SUPER_ADMIN, Designation.HOD),
+    createFormTemplate
+  );
+
+// GET /api/v1/form-templates/:id
+// PATCH /api/v1/form-templates/:id
+// DELETE /api/v1/form-templates/:id
+router
+  .route('/:id')
+  .get(
+    authorizeRoles(
+      Designation.SUPER_ADMIN,
+      Designation.HOD,
+      Designation.AsstProf
+    ),
+    getFormTemplateById
+  )
+  .patch(
+    authorizeRoles(Designation.SUPER_ADMIN, Designation.HOD),
+    updateFormTemplate
+  )
+  .delete(
+    authorizeRoles(Designation.SUPER_ADMIN, Designation.HOD),
+    deleteFormTemplate
+  );
+
+export default router;
@@ -8,6 +8,7 @@ import { Router } from 'express';
 
 import academicYearRoutes from './academicYear/academicYear.routes';
 import adminUserRoutes from './adminUser.routes';
+import adminInvitationRoutes from './adminInvitation/adminInvitation.routes';
 import authRoutes from './auth/auth.routes';
 import collegeRoutes from './college/college.routes';
 import departmentRoutes from './department/department.routes';
@@ -18,6 +19,8 @@ import studentRoutes from './student/student.routes';
 import subjectRoutes from './subject/subject.routes';
 import subjectAllocationRoutes from './subjectAllocation/subjectAllocation.routes';
 import feedbackQuestionRoutes from './feedbackQuestion/feedbackQuestion.routes';
+import questionBankRoutes from './questionBank/questionBank.routes';
+import formTemplateRoutes from './formTemplate/formTemplate.routes';
 import feedbackFormRoutes from './feedbackForm/feedbackForm.routes';
 import studentResponseRoutes from './studentResponse/studentResponse.routes';
 import databaseRoutes from './common/database.routes';
@@ -25,6 +28,8 @@ import uploadRoutes from './upload/upload.routes';
 import dashboardRoutes from './dashboard/dashboard.routes';
 import academicStructureRoutes from './common/academicStructure.routes';
 import analyticsRoutes from './analytics/analytics.routes';
+import customReportRoutes from './customReport/customReport.routes';
+import promotionRoutes from './promotion/promotion.routes';
 import emailRoutes from './email/email.routes';
 import contactRoutes from './contact/contact.routes';
 
@@ -32,6 +37,7 @@ const router = Router();
 
 // Mount feature-specific routers
 router.use('/admin-users', adminUserRoutes);
+router.use('/admin-invitations', adminInvitationRoutes);
 router.use('/auth', authRoutes);
 router.use('/academic-years', academicYearRoutes);
 router.use('/colleges', collegeRoutes);
@@ -43,6 +49,8 @@ router.use('/students', studentRoutes);
 router.use('/subjects', subjectRoutes);
 router.use('/subject-allocations', subjectAllocationRoutes);
 router.use('/feedback-questions', feedbackQuestionRoutes);
+router.use('/question-bank', questionBankRoutes);
+router.use('/form-templates', formTemplateRoutes);
 router.use('/feedback-forms', feedbackFormRoutes);
 router.use('/student-responses', studentResponseRoutes);
 router.use('/database', databaseRoutes);
@@ -50,6 +58,8 @@ router.use('/upload', uploadRoutes);
 router.use('/dashboard', dashboardRoutes);
 router.use('/academic-structure', academicStructureRoutes);
 router.use('/analytics', analyticsRoutes);
+router.use('/custom-reports', customReportRoutes);
+router.use('/promotions', promotionRoutes);
 router.use('/emails', emailRoutes);
 router.use('/contact', contactRoutes);
 
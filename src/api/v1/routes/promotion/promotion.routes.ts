@@ -0,0 +1,36 @@
+/**
+ * @file src/api/v1/routes/promotion/promotion.routes.ts
+ * @description Defines API routes for Student Promotion operations.
+ * Maps URLs to controller methods and applies authentication/authorization middleware.
+ */
+
+import { Router } from 'express';
+import { Designation } from '@prisma/client';
+import {
+  promoteStudents,
+  getPromotionBatches,
+  getPromotionBatchById,
+  undoPromotion,
+} from '../../../../controllers/promotion/promotion.controller';
+import {
+  isAuthenticated,
+  authorizeRoles,
+} from '../../../../middlewares/auth.middleware';
+
+const router = Router();
+
+// Apply authentication and authorization middleware to all promotion routes
+router.use(isAuthenticated);
+router.use(authorizeRoles(Designation.SUPER_ADMIN, Designation.HOD));
+
+// GET /api/v1/promotions
+// POST /api/v1/promotions?dryRun=true
+router.route('/').get(getPromotionBatches).post(promoteStudents);
+
+// GET /api/v1/promotions/:id
+router.get('/:id', getPromotionBatchById);
+
+// POST /api/v1/promotions/:id/undo
+router.post('/:id/undo', undoPromotion);
+
+export default router;
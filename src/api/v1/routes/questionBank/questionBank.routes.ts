@@ -0,0 +1,65 @@
+/**
+ * @file src/api/v1/routes/questionBank/questionBank.routes.ts
+ * @description Defines API routes for Question Bank operations.
+ * Maps URLs to controller methods and applies authentication/authorization middleware.
+ */
+
+import { Router } from 'express';
+import { Designation } from '@prisma/client';
+import {
+  getAllQuestionBankItems,
+  getQuestionBankItemById,
+  createQuestionBankItem,
+  updateQuestionBankItem,
+  deleteQuestionBankItem,
+} from '../../../../controllers/questionBank/questionBank.controller';
+import {
+  isAuthenticated,
+  authorizeRoles,
+} from '../../../../middlewares/auth.middleware';
+
+const router = Router();
+
+// Apply authentication middleware to all question bank routes
+router.use(isAuthenticated);
+
+// GET /api/v1/question-bank
+// POST /api/v1/question-bank
+router
+  .route('/')
+  .get(
+    authorizeRoles(
+      Designation.SUPER_ADMIN,
+      Designation.HOD,
+      Designation.AsstProf
+    ),
+    getAllQuestionBankItems
+  )
+  .post(
+    authorizeRoles(Designation.SUPER_ADMIN, Designation.HOD),
+    createQuestionBankItem
+  );
+
+// GET /api/v1/question-bank/:id
+// PATCH /api/v1/question-bank/:id
+// DELETE /api/v1/question-bank/:id
+router
+  .route('/:id')
+  .get(
+    authorizeRoles(
+      Designation.SUPER_ADMIN,
+      Designation.HOD,
+      Designation.AsstProf
+    ),
+    getQuestionBankItemById
+  )
+  .patch(
+    authorizeRoles(Designation.SUPER_ADMIN, Designation.HOD),
+    updateQuestionBankItem
+  )
+  .delete(
+    authorizeRoles(Designation.SUPER_ADMIN, Designation.HOD),
+    deleteQuestionBankItem
+  );
+
+export default router;
@@ -11,6 +11,22 @@ import { uploadStudentData } from '../../../../controllers/upload/studentData.co
 import { uploadFacultyData } from '../../../../controllers/upload/facultyData.controller';
 import { uploadSubjectData } from '../../../../controllers/upload/subjectData.controller';
 import { uploadFacultyMatrix } from '../../../../controllers/upload/facultyMatrix.controller';
+import { downloadUploadErrorReport } from '../../../../controllers/upload/uploadErrorReport.controller';
+import {
+  getUploadHistory,
+  getUploadBatchById,
+  rollbackUploadBatch,
+} from '../../../../controllers/upload/uploadHistory.controller';
+import { getUploadJob } from '../../../../controllers/upload/uploadJob.controller';
+import { downloadUploadTemplate } from '../../../../controllers/upload/uploadTemplate.controller';
+import {
+  getUploadColumns,
+  getColumnMappings,
+  getColumnMappingById,
+  createColumnMapping,
+  updateColumnMapping,
+  deleteColumnMapping,
+} from '../../../../controllers/upload/uploadColumnMapping.controller';
 
 import {
   isAuthenticated,
@@ -41,4 +57,37 @@ router.post('/subject-data', upload.single('file'), uploadSubjectData);
 // Route for uploading and processing faculty matrix data from an Excel file.
 router.post('/faculty-matrix', upload.single('file'), uploadFacultyMatrix);
 
+// Route for downloading a blank .xlsx template for an upload type.
+router.get('/templates/:type', downloadUploadTemplate);
+
+// Route for listing the fields of each upload type with the headers they are recognised by.
+router.get('/columns', getUploadColumns);
+
+// Routes for saved column mapping profiles, selectable on uploads by ID.
+router
+  .route('/column-mappings')
+  .get(getColumnMappings)
+  .post(createColumnMapping);
+
+router
+  .route('/column-mappings/:id')
+  .get(getColumnMappingById)
+  .patch(updateColumnMapping)
+  .delete(deleteColumnMapping);
+
+// Route for checking the progress and outcome of a queued upload.
+router.get('/jobs/:id', getUploadJob);
+
+// Route for downloading an upload's workbook with its rejected rows highlighted.
+router.get('/error-reports/:id', downloadUploadErrorReport);
+
+// Route for listing recorded uploads, newest first.
+router.get('/history', getUploadHistory);
+
+// Route for getting a recorded upload with the records it wrote.
+router.get('/history/:id', getUploadBatchById);
+
+// Route for rolling back the records written by an upload.
+router.post('/history/:id/rollback', rollbackUploadBatch);
+
 export default router;
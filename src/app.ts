@@ -8,6 +8,8 @@ import cors from 'cors';
 import helmet from 'helmet';
 import morgan from 'morgan';
 import './services/email/worker';
+import './services/feedbackAnalytics/worker';
+import './services/upload/worker';
 import AppError from './utils/appError';
 import apiV1Router from './api/v1/routes';
 import serviceRouter from './api/v1/routes/service/service.routes';
@@ -16,6 +16,8 @@ export interface AppConfig {
   databaseUrl?: string;
   jwtSecret: string;
   jwtExpiresIn: string | number;
+  refreshTokenExpiresInDays: number;
+  requireSuperAdminTwoFactor: boolean;
   redisUrl?: string;
 }
 
@@ -25,7 +27,12 @@ const config: AppConfig = {
   nodeEnv: (process.env.NODE_ENV as AppConfig['nodeEnv']) || 'development',
   databaseUrl: process.env.DATABASE_URL as string,
   jwtSecret: process.env.JWT_SECRET as string,
-  jwtExpiresIn: process.env.JWT_EXPIRES_IN || '24h',
+  jwtExpiresIn: process.env.JWT_EXPIRES_IN || '15m',
+  refreshTokenExpiresInDays: parseInt(
+    process.env.REFRESH_TOKEN_EXPIRES_IN_DAYS || '30',
+    10
+  ),
+  requireSuperAdminTwoFactor: process.env.REQUIRE_SUPER_ADMIN_2FA === 'true',
   redisUrl: process.env.REDIS_URL || 'redis://localhost:6379',
 };
 
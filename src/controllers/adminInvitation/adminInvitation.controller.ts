@@ -0,0 +1,120 @@
+/**
+ * @file src/controllers/adminInvitation/adminInvitation.controller.ts
+ * @description Controller for admin invitations.
+ * Super admins invite admins to their colleges and HODs invite staff to their department;
+ * invitees accept through the emailed link.
+ */
+
+import { Request, Response } from 'express';
+import { adminInvitationService } from '../../services/adminInvitation/adminInvitation.service';
+import { getCollegeScope } from '../../services/college/collegeScope';
+import { getSessionDevice } from '../../services/auth/session.service';
+import asyncHandler from '../../utils/asyncHandler';
+import AppError from '../../utils/appError';
+import {
+  acceptInvitationSchema,
+  createInvitationSchema,
+  idParamSchema,
+  tokenParamSchema,
+} from '../../utils/validators/adminInvitation.validation';
+
+// Returns the authenticated admin managing invitations.
+const getInviter = (req: Request) => {
+  if (!req.admin) {
+    throw new AppError('Authentication required.', 401);
+  }
+  return req.admin;
+};
+
+export const getInvitations = asyncHandler(
+  // Retrieves the invitations the caller manages.
+  async (req: Request, res: Response) => {
+    const invitations = await adminInvitationService.getInvitations(
+      getCollegeScope(req)
+    );
+    res.status(200).json({ status: 'success', data: invitations });
+  }
+);
+
+export const createInvitation = asyncHandler(
+  // Invites an admin and emails them the link for setting their password.
+  async (req: Request, res: Response) => {
+    const validatedData = createInvitationSchema.parse(req.body);
+    const invitation = await adminInvitationService.createInvitation(
+      validatedData,
+      getInviter(req),
+      getCollegeScope(req)
+    );
+    res.status(201).json({
+      status: 'success',
+      message: 'Invitation sent successfully.',
+      data: invitation,
+    });
+  }
+);
+
+export const resendInvitation = asyncHandler(
+  // Emails a pending invitation again with a new link.
+  async (req: Request, res: Response) => {
+    const { id } = idParamSchema.parse(req.params);
+    const invitation = await adminInvitationService.resendInvitation(
+      id,
+      getInviter(req),
+      getCollegeScope(req)
+    );
+    res.status(200).json({
+      status: 'success',
+      message: 'Invitation resent successfully.',
+      data: invitation,
+    });
+  }
+);
+
+export const revokeInvitation = asyncHandler(
+  // Revokes a pending invitation.
+  async (req: Request, res: Response) => {
+    const { id } = idParamSchema.parse(req.params);
+    const invitation = await adminInvitationService.revokeInvitation(
+      id,
+      getCollegeScope(req)
+    );
+    res.status(200).json({
+      status: 'success',
+      message: 'Invitation revoked successfully.',
+      data: invitation,
+    });
+  }
+);
+
+export const getInvitationByToken = asyncHandler(
+  // Retrieves an open invitation by its emailed token, for the page where it is accepted.
+  async (req: Request, res: Response) => {
+    const { token } = tokenParamSchema.parse(req.params);
+    const invitation = await adminInvitationService.getInvitationByToken(token);
+    res.status(200).json({ status: 'success', data: invitation });
+  }
+);
+
+export const acceptInvitation = asyncHandler(
+  // Accepts an invitation, creating the invitee's account, and opens their first session.
+  async (req: Request, res: Response) => {
+    const { token, password, name } = acceptInvitationSchema.parse(req.body);
+
+    const result = await adminInvitationService.acceptInvitation(
+      token,
+      password,
+      getSessionDevice(req),
+      name
+    );
+
+    res.status(201).json({
+      status: 'success',
+      message: 'Invitation accepted successfully.',
+      token: result.token,
+      refreshToken: result.refreshToken,
+      data: {
+        admin: result.admin,
+      },
+    });
+  }
+);
@@ -1,70 +1,67 @@
 /**
  * @file src/controllers/adminUser/adminUser.controller.ts
  * @description Controller for non-superadmin user management (by superadmin).
+ * Admins are listed and managed within the colleges the caller can access.
  */
 
 import { Request, Response } from 'express';
-import { prisma } from '../../services/common/prisma.service';
+import { adminUserService } from '../../services/adminUser/adminUser.service';
+import { getCollegeScope } from '../../services/college/collegeScope';
 import asyncHandler from '../../utils/asyncHandler';
-import AppError from '../../utils/appError';
-import { Designation } from '@prisma/client';
-import { hashPassword } from '../../utils/hash';
+import {
+  createAdminUserSchema,
+  idParamSchema,
+  updateAdminUserSchema,
+} from '../../utils/validators/adminUser.validation';
 
-export const getAllAdmins = asyncHandler(async (_req: Request, res: Response) => {
-  // Exclude superadmins
-  const admins = await prisma.admin.findMany({
-    where: { isSuper: false, isDeleted: false },
-    select: { id: true, name: true, email: true, designation: true, createdAt: true, updatedAt: true },
-  });
-  res.status(200).json({ status: 'success', data: admins });
-});
+export const getAllAdmins = asyncHandler(
+  // Retrieves the admins of the caller's colleges, excluding superadmins.
+  async (req: Request, res: Response) => {
+    const admins = await adminUserService.getAllAdmins(getCollegeScope(req));
+    res.status(200).json({ status: 'success', data: admins });
+  }
+);
 
-export const getAdminById = asyncHandler(async (req: Request, res: Response) => {
-  const { id } = req.params;
-  const admin = await prisma.admin.findUnique({
-    where: { id, isSuper: false, isDeleted: false },
-    select: { id: true, name: true, email: true, designation: true, createdAt: true, updatedAt: true },
-  });
-  if (!admin) throw new AppError('Admin not found.', 404);
-  res.status(200).json({ status: 'success', data: admin });
-});
+export const getAdminById = asyncHandler(
+  // Retrieves a single admin by ID.
+  async (req: Request, res: Response) => {
+    const { id } = idParamSchema.parse(req.params);
+    const admin = await adminUserService.getAdminById(id, getCollegeScope(req));
+    res.status(200).json({ status: 'success', data: admin });
+  }
+);
 
-export const createAdmin = asyncHandler(async (req: Request, res: Response) => {
-  const { name, email, password, designation } = req.body;
-  if (!Object.values(Designation).includes(designation)) {
-    throw new AppError('Invalid designation.', 400);
+export const createAdmin = asyncHandler(
+  // Creates an admin assigned to one or more colleges.
+  async (req: Request, res: Response) => {
+    const validatedData = createAdminUserSchema.parse(req.body);
+    const admin = await adminUserService.createAdmin(
+      validatedData,
+      getCollegeScope(req)
+    );
+    res.status(201).json({ status: 'success', data: admin });
   }
-  const hashedPassword = await hashPassword(password);
-  const admin = await prisma.admin.create({
-    data: { name, email, password: hashedPassword, designation, isSuper: false },
-    select: { id: true, name: true, email: true, designation: true, createdAt: true, updatedAt: true },
-  });
-  res.status(201).json({ status: 'success', data: admin });
-});
+);
 
-export const updateAdmin = asyncHandler(async (req: Request, res: Response) => {
-  const { id } = req.params;
-  const { name, email, password, designation } = req.body;
-  const updateData: any = {};
-  if (name) updateData.name = name;
-  if (email) updateData.email = email;
-  if (designation) {
-    if (!Object.values(Designation).includes(designation)) {
-      throw new AppError('Invalid designation.', 400);
-    }
-    updateData.designation = designation;
+export const updateAdmin = asyncHandler(
+  // Updates an admin, including the colleges they are assigned to.
+  async (req: Request, res: Response) => {
+    const { id } = idParamSchema.parse(req.params);
+    const validatedData = updateAdminUserSchema.parse(req.body);
+    const admin = await adminUserService.updateAdmin(
+      id,
+      validatedData,
+      getCollegeScope(req)
+    );
+    res.status(200).json({ status: 'success', data: admin });
   }
-  if (password) updateData.password = await hashPassword(password);
-  const admin = await prisma.admin.update({
-    where: { id, isSuper: false, isDeleted: false },
-    data: updateData,
-    select: { id: true, name: true, email: true, designation: true, createdAt: true, updatedAt: true },
-  });
-  res.status(200).json({ status: 'success', data: admin });
-});
+);
 
-export const softDeleteAdmin = asyncHandler(async (req: Request, res: Response) => {
-  const { id } = req.params;
-  await prisma.admin.update({ where: { id, isSuper: false }, data: { isDeleted: true } });
-  res.status(204).json({ status: 'success', data: null });
-});
+export const softDeleteAdmin = asyncHandler(
+  // Soft deletes an admin.
+  async (req: Request, res: Response) => {
+    const { id } = idParamSchema.parse(req.params);
+    await adminUserService.softDeleteAdmin(id, getCollegeScope(req));
+    res.status(204).json({ status: 'success', data: null });
+  }
+);
@@ -7,6 +7,8 @@
 
 import { Request, Response } from 'express';
 import { analyticsService } from '../../services/analytics/analytics.service';
+import { enqueueFullRebuild } from '../../services/feedbackAnalytics/queue';
+import { getCollegeScope } from '../../services/college/collegeScope';
 import asyncHandler from '../../utils/asyncHandler';
 import AppError from '../../utils/appError';
 import { ZodError } from 'zod';
@@ -31,6 +33,7 @@ export const getOverallSemesterRating = asyncHandler(
 
       const result = await analyticsService.getOverallSemesterRating(
         semesterId,
+        getCollegeScope(req),
         divisionId,
         batch
       );
@@ -59,6 +62,7 @@ export const getSemestersWithResponses = asyncHandler(
         getSemestersWithResponsesQuerySchema.parse(req.query);
 
       const semesters = await analyticsService.getSemestersWithResponses(
+        getCollegeScope(req),
         academicYearId,
         departmentId
       );
@@ -91,6 +95,7 @@ export const getSubjectWiseLectureLabRating = asyncHandler(
         getSubjectWiseLectureLabRatingQuerySchema.parse(req.query);
       const ratings = await analyticsService.getSubjectWiseLectureLabRating(
         semesterId,
+        getCollegeScope(req),
         academicYearId
       );
       res.status(200).json({
@@ -117,8 +122,10 @@ export const getHighImpactFeedbackAreas = asyncHandler(
   async (req: Request, res: Response) => {
     try {
       const { id: semesterId } = idParamSchema.parse(req.params);
-      const impactAreas =
-        await analyticsService.getHighImpactFeedbackAreas(semesterId);
+      const impactAreas = await analyticsService.getHighImpactFeedbackAreas(
+        semesterId,
+        getCollegeScope(req)
+      );
       res.status(200).json({
         status: 'success',
         results: impactAreas.length,
@@ -145,6 +152,7 @@ export const getSemesterTrendAnalysis = asyncHandler(
       const { subjectId, academicYearId } =
         getSemesterTrendAnalysisQuerySchema.parse(req.query);
       const trends = await analyticsService.getSemesterTrendAnalysis(
+        getCollegeScope(req),
         subjectId,
         academicYearId
       );
@@ -169,8 +177,10 @@ export const getSemesterTrendAnalysis = asyncHandler(
 
 export const getAnnualPerformanceTrend = asyncHandler(
   // Retrieves annual performance trends based on aggregated feedback analytics.
-  async (_req: Request, res: Response) => {
-    const trends = await analyticsService.getAnnualPerformanceTrend();
+  async (req: Request, res: Response) => {
+    const trends = await analyticsService.getAnnualPerformanceTrend(
+      getCollegeScope(req)
+    );
     res.status(200).json({
       status: 'success',
       results: trends.length,
@@ -181,13 +191,29 @@ export const getAnnualPerformanceTrend = asyncHandler(
   }
 );
 
+export const rebuildFeedbackAnalytics = asyncHandler(
+  // Queues a full rebuild of the materialized feedback analytics rows.
+  async (_req: Request, res: Response) => {
+    const jobId = await enqueueFullRebuild();
+    res.status(202).json({
+      status: 'success',
+      message: 'Feedback analytics rebuild queued.',
+      data: {
+        jobId,
+      },
+    });
+  }
+);
+
 export const getDivisionBatchComparisons = asyncHandler(
   // Compares average ratings across different divisions and batches for a given semester.
   async (req: Request, res: Response) => {
     try {
       const { id: semesterId } = idParamSchema.parse(req.params);
-      const comparisons =
-        await analyticsService.getDivisionBatchComparisons(semesterId);
+      const comparisons = await analyticsService.getDivisionBatchComparisons(
+        semesterId,
+        getCollegeScope(req)
+      );
       res.status(200).json({
         status: 'success',
         results: comparisons.length,
@@ -212,8 +238,10 @@ export const getLabLectureComparison = asyncHandler(
   async (req: Request, res: Response) => {
     try {
       const { id: semesterId } = idParamSchema.parse(req.params);
-      const comparisons =
-        await analyticsService.getLabLectureComparison(semesterId);
+      const comparisons = await analyticsService.getLabLectureComparison(
+        semesterId,
+        getCollegeScope(req)
+      );
       res.status(200).json({
         status: 'success',
         results: comparisons.length,
@@ -241,7 +269,8 @@ export const getFacultyPerformanceYearData = asyncHandler(
         facultyPerformanceParamsSchema.parse(req.params);
       const result = await analyticsService.getFacultyPerformanceYearData(
         academicYearId,
-        facultyId
+        facultyId,
+        getCollegeScope(req)
       );
       res.status(200).json({
         status: 'success',
@@ -266,8 +295,10 @@ export const getAllFacultyPerformanceData = asyncHandler(
       const { academicYearId } = allFacultyPerformanceParamsSchema.parse(
         req.params
       );
-      const result =
-        await analyticsService.getAllFacultyPerformanceData(academicYearId);
+      const result = await analyticsService.getAllFacultyPerformanceData(
+        academicYearId,
+        getCollegeScope(req)
+      );
       res.status(200).json({
         status: 'success',
         data: result,
@@ -286,8 +317,10 @@ export const getAllFacultyPerformanceData = asyncHandler(
 
 export const getTotalResponses = asyncHandler(
   // Retrieves the total number of student responses.
-  async (_req: Request, res: Response) => {
-    const totalCount = await analyticsService.getTotalResponses();
+  async (req: Request, res: Response) => {
+    const totalCount = await analyticsService.getTotalResponses(
+      getCollegeScope(req)
+    );
     res.status(200).json({
       status: 'success',
       data: {
@@ -299,9 +332,10 @@ export const getTotalResponses = asyncHandler(
 
 export const getSemesterDivisions = asyncHandler(
   // Retrieves semesters and their divisions, including response counts for each division.
-  async (_req: Request, res: Response) => {
-    const data =
-      await analyticsService.getSemesterDivisionsWithResponseCounts();
+  async (req: Request, res: Response) => {
+    const data = await analyticsService.getSemesterDivisionsWithResponseCounts(
+      getCollegeScope(req)
+    );
     res.status(200).json({
       success: true,
       data: data,
@@ -311,8 +345,10 @@ export const getSemesterDivisions = asyncHandler(
 
 export const getFilterDictionary = asyncHandler(
   // Retrieves hierarchical filter dictionary for analytics (Academic Years → Departments → Subjects).
-  async (_req: Request, res: Response) => {
-    const filterData = await analyticsService.getFilterDictionary();
+  async (req: Request, res: Response) => {
+    const filterData = await analyticsService.getFilterDictionary(
+      getCollegeScope(req)
+    );
     res.status(200).json({
       status: 'success',
       data: filterData,
@@ -334,6 +370,7 @@ export const getCompleteAnalyticsData = asyncHandler(
     } = req.query;
 
     const result = await analyticsService.getCompleteAnalyticsData(
+      getCollegeScope(req),
       academicYearId as string | undefined,
       departmentId as string | undefined,
       subjectId as string | undefined,
@@ -366,6 +403,7 @@ export const getOptimizedAnalyticsData = asyncHandler(
     } = req.query;
 
     const result = await analyticsService.getOptimizedAnalyticsData(
+      getCollegeScope(req),
       academicYearId as string | undefined,
       departmentId as string | undefined,
       subjectId as string | undefined,
@@ -400,6 +438,7 @@ export const getSubjectDetailedAnalytics = asyncHandler(
 
       const result = await analyticsService.getSubjectDetailedAnalytics(
         subjectId,
+        getCollegeScope(req),
         academicYearId as string | undefined,
         semesterId as string | undefined,
         departmentId as string | undefined
@@ -432,6 +471,7 @@ export const getFacultyDetailedAnalytics = asyncHandler(
 
       const result = await analyticsService.getFacultyDetailedAnalytics(
         facultyId,
+        getCollegeScope(req),
         academicYearId as string | undefined
       );
 
@@ -462,6 +502,7 @@ export const getDivisionDetailedAnalytics = asyncHandler(
 
       const result = await analyticsService.getDivisionDetailedAnalytics(
         divisionId,
+        getCollegeScope(req),
         academicYearId as string | undefined
       );
 
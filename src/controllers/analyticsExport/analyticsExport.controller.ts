@@ -0,0 +1,108 @@
+/**
+ * @file src/controllers/analyticsExport/analyticsExport.controller.ts
+ * @description Controller for analytics Excel exports.
+ * Handles request parsing, delegates to AnalyticsExportService, and streams the workbook back.
+ * Uses asyncHandler for error handling and Zod for validation.
+ */
+
+import { Request, Response } from 'express';
+import { analyticsExportService } from '../../services/analyticsExport/analyticsExport.service';
+import { getCollegeScope } from '../../services/college/collegeScope';
+import asyncHandler from '../../utils/asyncHandler';
+import {
+  facultyIdParamSchema,
+  subjectIdParamSchema,
+  divisionIdParamSchema,
+  detailedAnalyticsExportQuerySchema,
+  allFacultyPerformanceParamsSchema,
+} from '../../utils/validators/analytics.validation';
+
+const XLSX_CONTENT_TYPE =
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+// Sends a generated workbook as a file download.
+const sendWorkbook = (
+  res: Response,
+  workbook: { fileName: string; buffer: Buffer }
+) => {
+  res.setHeader('Content-Type', XLSX_CONTENT_TYPE);
+  res.setHeader(
+    'Content-Disposition',
+    `attachment; filename="${workbook.fileName}"`
+  );
+  res.status(200).send(workbook.buffer);
+};
+
+export const exportFacultyDetailedAnalytics = asyncHandler(
+  // Exports a faculty member's detailed analytics as an Excel workbook.
+  async (req: Request, res: Response) => {
+    const { facultyId } = facultyIdParamSchema.parse(req.params);
+    const { academicYearId } = detailedAnalyticsExportQuerySchema.parse(
+      req.query
+    );
+
+    const workbook =
+      await analyticsExportService.exportFacultyDetailedAnalytics(
+        facultyId,
+        getCollegeScope(req),
+        academicYearId
+      );
+
+    sendWorkbook(res, workbook);
+  }
+);
+
+export const exportSubjectDetailedAnalytics = asyncHandler(
+  // Exports a subject's detailed analytics as an Excel workbook.
+  async (req: Request, res: Response) => {
+    const { subjectId } = subjectIdParamSchema.parse(req.params);
+    const { academicYearId, semesterId, departmentId } =
+      detailedAnalyticsExportQuerySchema.parse(req.query);
+
+    const workbook =
+      await analyticsExportService.exportSubjectDetailedAnalytics(
+        subjectId,
+        getCollegeScope(req),
+        academicYearId,
+        semesterId,
+        departmentId
+      );
+
+    sendWorkbook(res, workbook);
+  }
+);
+
+export const exportDivisionDetailedAnalytics = asyncHandler(
+  // Exports a division's detailed analytics as an Excel workbook.
+  async (req: Request, res: Response) => {
+    const { divisionId } = divisionIdParamSchema.parse(req.params);
+    const { academicYearId } = detailedAnalyticsExportQuerySchema.parse(
+      req.query
+    );
+
+    const workbook =
+      await analyticsExportService.exportDivisionDetailedAnalytics(
+        divisionId,
+        getCollegeScope(req),
+        academicYearId
+      );
+
+    sendWorkbook(res, workbook);
+  }
+);
+
+export const exportAllFacultyPerformance = asyncHandler(
+  // Exports the all-faculty performance table for an academic year as an Excel workbook.
+  async (req: Request, res: Response) => {
+    const { academicYearId } = allFacultyPerformanceParamsSchema.parse(
+      req.params
+    );
+
+    const workbook = await analyticsExportService.exportAllFacultyPerformance(
+      academicYearId,
+      getCollegeScope(req)
+    );
+
+    sendWorkbook(res, workbook);
+  }
+);
@@ -0,0 +1,147 @@
+/**
+ * @file src/controllers/analyticsView/analyticsView.controller.ts
+ * @description Controller for saved analytics view operations.
+ * Handles request parsing, delegates to AnalyticsViewService, and sends responses.
+ * Uses asyncHandler for error handling and Zod for validation.
+ */
+
+import { Request, Response } from 'express';
+import { analyticsViewService } from '../../services/analyticsView/analyticsView.service';
+import { getCollegeScope } from '../../services/college/collegeScope';
+import asyncHandler from '../../utils/asyncHandler';
+import AppError from '../../utils/appError';
+import {
+  createAnalyticsViewSchema,
+  updateAnalyticsViewSchema,
+  idParamSchema,
+} from '../../utils/validators/analyticsView.validation';
+
+// Returns the authenticated admin's ID, since views are scoped to their owner.
+const getAdminId = (req: Request): string => {
+  if (!req.admin?.id) {
+    throw new AppError(
+      'Authentication required. Admin ID not found on request.',
+      401
+    );
+  }
+  return req.admin.id;
+};
+
+export const getAnalyticsViews = asyncHandler(
+  // Retrieves the admin's own analytics views and views shared in their colleges.
+  async (req: Request, res: Response) => {
+    const views = await analyticsViewService.getViews(
+      getAdminId(req),
+      getCollegeScope(req)
+    );
+
+    res.status(200).json({
+      status: 'success',
+      results: views.length,
+      data: {
+        views: views,
+      },
+    });
+  }
+);
+
+export const getAnalyticsViewById = asyncHandler(
+  // Retrieves a single analytics view by ID.
+  async (req: Request, res: Response) => {
+    const { id } = idParamSchema.parse(req.params);
+
+    const view = await analyticsViewService.getViewById(
+      id,
+      getAdminId(req),
+      getCollegeScope(req)
+    );
+
+    res.status(200).json({
+      status: 'success',
+      data: {
+        view: view,
+      },
+    });
+  }
+);
+
+export const createAnalyticsView = asyncHandler(
+  // Saves a named analytics filter set for the admin.
+  async (req: Request, res: Response) => {
+    const validatedData = createAnalyticsViewSchema.parse(req.body);
+
+    const view = await analyticsViewService.createView(
+      getAdminId(req),
+      validatedData,
+      getCollegeScope(req)
+    );
+
+    res.status(201).json({
+      status: 'success',
+      message: 'Analytics view created successfully.',
+      data: {
+        view: view,
+      },
+    });
+  }
+);
+
+export const updateAnalyticsView = asyncHandler(
+  // Updates an analytics view owned by the admin.
+  async (req: Request, res: Response) => {
+    const { id } = idParamSchema.parse(req.params);
+    const validatedData = updateAnalyticsViewSchema.parse(req.body);
+
+    const view = await analyticsViewService.updateView(
+      id,
+      getAdminId(req),
+      validatedData,
+      getCollegeScope(req)
+    );
+
+    res.status(200).json({
+      status: 'success',
+      message: 'Analytics view updated successfully.',
+      data: {
+        view: view,
+      },
+    });
+  }
+);
+
+export const deleteAnalyticsView = asyncHandler(
+  // Soft deletes an analytics view owned by the admin.
+  async (req: Request, res: Response) => {
+    const { id } = idParamSchema.parse(req.params);
+
+    await analyticsViewService.softDeleteView(
+      id,
+      getAdminId(req),
+      getCollegeScope(req)
+    );
+
+    res.status(204).json({
+      status: 'success',
+      message: 'Analytics view soft-deleted successfully.',
+      data: null,
+    });
+  }
+);
+
+export const getAnalyticsViewData = asyncHandler(
+  // Computes the optimized analytics data for a saved view's filters.
+  async (req: Request, res: Response) => {
+    const { id } = idParamSchema.parse(req.params);
+
+    const result = await analyticsViewService.getViewData(
+      id,
+      getAdminId(req),
+      getCollegeScope(req)
+    );
+
+    res.status(200).json({
+      status: 'success',
+      data: result,
+    });
+  }
+);
@@ -6,47 +6,68 @@
  */
 
 import { Request, Response } from 'express';
-import { authService } from '../../services/auth/auth.service';
+import { authService, LoginResult } from '../../services/auth/auth.service';
+import {
+  getSessionDevice,
+  sessionService,
+} from '../../services/auth/session.service';
 import asyncHandler from '../../utils/asyncHandler';
 import AppError from '../../utils/appError';
 import {
   registerAdminSchema,
   loginAdminSchema,
   updatePasswordSchema,
+  requestOtpSchema,
+  resetPasswordSchema,
+  otpLoginSchema,
+  twoFactorLoginSchema,
+  refreshTokenSchema,
+  sessionIdParamSchema,
 } from '../../utils/validators/auth.validation';
 
-export const registerAdmin = asyncHandler(
-  // Registers a new regular admin/user.
-  async (req: Request, res: Response) => {
-    const validatedData = registerAdminSchema.parse(req.body);
+// Sent whether or not the email belongs to an admin, so accounts cannot be discovered.
+const OTP_SENT_MESSAGE =
+  'If an account exists for this email, a one-time password has been sent to it.';
 
-    const { admin, token } = await authService.createAdmin(
-      validatedData,
-      false
-    );
-
-    res.status(201).json({
+// Sends the result of a login: the new session's tokens, or a request for the two-factor code.
+const sendLoginResult = (res: Response, result: LoginResult) => {
+  if ('twoFactorToken' in result) {
+    res.status(200).json({
       status: 'success',
-      message: 'Admin registered successfully.',
-      token,
-      data: {
-        admin,
-      },
+      message: 'Enter the code from your authenticator app.',
+      twoFactorRequired: true,
+      twoFactorToken: result.twoFactorToken,
     });
+    return;
   }
-);
+
+  const { admin, token, refreshToken } = result;
+  res.status(200).json({
+    status: 'success',
+    message: 'Logged in successfully.',
+    token,
+    refreshToken,
+    data: {
+      admin,
+    },
+  });
+};
 
 export const registerSuperAdmin = asyncHandler(
   // Registers a new super admin.
   async (req: Request, res: Response) => {
     const validatedData = registerAdminSchema.parse(req.body);
 
-    const { admin, token } = await authService.createAdmin(validatedData, true);
+    const { admin, token, refreshToken } = await authService.createSuperAdmin(
+      validatedData,
+      getSessionDevice(req)
+    );
 
     res.status(201).json({
       status: 'success',
       message: 'Super admin registered successfully.',
       token,
+      refreshToken,
       data: {
         admin,
       },
@@ -55,19 +76,16 @@ export const registerSuperAdmin = asyncHandler(
 );
 
 export const loginAdmin = asyncHandler(async (req: Request, res: Response) => {
-  // Authenticates an admin and provides a JWT token.
+  // Authenticates an admin and provides their tokens, or asks for their two-factor code.
   const { email, password } = loginAdminSchema.parse(req.body);
 
-  const { admin, token } = await authService.loginAdmin(email, password);
+  const result = await authService.loginAdmin(
+    email,
+    password,
+    getSessionDevice(req)
+  );
 
-  res.status(200).json({
-    status: 'success',
-    message: 'Logged in successfully.',
-    token,
-    data: {
-      admin,
-    },
-  });
+  sendLoginResult(res, result);
 });
 
 export const getMe = asyncHandler(async (req: Request, res: Response) => {
@@ -115,3 +133,157 @@ export const updateAdminPassword = asyncHandler(
     });
   }
 );
+
+export const forgotPassword = asyncHandler(
+  // Emails a one-time password for resetting a forgotten password.
+  async (req: Request, res: Response) => {
+    const { email } = requestOtpSchema.parse(req.body);
+
+    await authService.requestPasswordReset(email);
+
+    res.status(200).json({
+      status: 'success',
+      message: OTP_SENT_MESSAGE,
+    });
+  }
+);
+
+export const resetPassword = asyncHandler(
+  // Resets a forgotten password with the emailed one-time password.
+  async (req: Request, res: Response) => {
+    const { email, otp, newPassword } = resetPasswordSchema.parse(req.body);
+
+    const message = await authService.resetPassword(email, otp, newPassword);
+
+    res.status(200).json({
+      status: 'success',
+      message,
+    });
+  }
+);
+
+export const requestLoginOtp = asyncHandler(
+  // Emails a one-time password for logging in without a password.
+  async (req: Request, res: Response) => {
+    const { email } = requestOtpSchema.parse(req.body);
+
+    await authService.requestLoginOtp(email);
+
+    res.status(200).json({
+      status: 'success',
+      message: OTP_SENT_MESSAGE,
+    });
+  }
+);
+
+export const loginWithOtp = asyncHandler(
+  // Authenticates an admin with an emailed one-time password, or asks for their 2FA code.
+  async (req: Request, res: Response) => {
+    const { email, otp } = otpLoginSchema.parse(req.body);
+
+    const result = await authService.loginWithOtp(
+      email,
+      otp,
+      getSessionDevice(req)
+    );
+
+    sendLoginResult(res, result);
+  }
+);
+
+export const loginWithTwoFactor = asyncHandler(
+  // Completes a login with the admin's two-factor code and provides their tokens.
+  async (req: Request, res: Response) => {
+    const { twoFactorToken, code } = twoFactorLoginSchema.parse(req.body);
+
+    const result = await authService.completeTwoFactorLogin(
+      twoFactorToken,
+      code,
+      getSessionDevice(req)
+    );
+
+    sendLoginResult(res, result);
+  }
+);
+
+export const refreshTokens = asyncHandler(
+  // Exchanges a refresh token for a new access token and refresh token.
+  async (req: Request, res: Response) => {
+    const { refreshToken } = refreshTokenSchema.parse(req.body);
+
+    const tokens = await sessionService.refreshSession(
+      refreshToken,
+      getSessionDevice(req)
+    );
+
+    res.status(200).json({
+      status: 'success',
+      ...tokens,
+    });
+  }
+);
+
+export const logout = asyncHandler(
+  // Logs the current device out by ending its session.
+  async (req: Request, res: Response) => {
+    if (!req.admin?.id) {
+      throw new AppError(
+        'Authentication required. Admin ID not found on request.',
+        401
+      );
+    }
+
+    await sessionService.revokeSession(req.admin.id, req.admin.sessionId);
+
+    res.status(200).json({
+      status: 'success',
+      message: 'Logged out successfully.',
+    });
+  }
+);
+
+export const getSessions = asyncHandler(
+  // Lists the active sessions of the currently authenticated admin.
+  async (req: Request, res: Response) => {
+    if (!req.admin?.id) {
+      throw new AppError(
+        'Authentication required. Admin ID not found on request.',
+        401
+      );
+    }
+
+    const sessions = await sessionService.getSessions(
+      req.admin.id,
+      req.admin.sessionId
+    );
+
+    res.status(200).json({
+      status: 'success',
+      results: sessions.length,
+      data: {
+        sessions,
+      },
+    });
+  }
+);
+
+export const revokeSession = asyncHandler(
+  // Revokes one of the currently authenticated admin's sessions, logging that device out.
+  async (req: Request, res: Response) => {
+    const { id } = sessionIdParamSchema.parse(req.params);
+
+    if (!req.admin?.id) {
+      throw new AppError(
+        'Authentication required. Admin ID not found on request.',
+        401
+      );
+    }
+
+    await sessionService.revokeSession(req.admin.id, id);
+
+    res.status(200).json({
+      status: 'success',
+      message: 'Session revoked successfully.',
+    });
+  }
+);
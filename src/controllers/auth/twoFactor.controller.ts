@@ -0,0 +1,107 @@
+/**
+ * @file src/controllers/auth/twoFactor.controller.ts
+ * @description Controller for the authenticated admin's two-factor authentication.
+ * Handles enrollment, recovery codes, and the step-up verification destructive actions require.
+ */
+
+import { Request, Response } from 'express';
+import { twoFactorService } from '../../services/auth/twoFactor.service';
+import asyncHandler from '../../utils/asyncHandler';
+import AppError from '../../utils/appError';
+import { twoFactorCodeSchema } from '../../utils/validators/auth.validation';
+
+// Returns the authenticated admin.
+const getAdmin = (req: Request) => {
+  if (!req.admin?.id) {
+    throw new AppError(
+      'Authentication required. Admin ID not found on request.',
+      401
+    );
+  }
+  return req.admin;
+};
+
+export const setupTwoFactor = asyncHandler(
+  // Starts enrollment, returning the secret and otpauth URI for an authenticator app.
+  async (req: Request, res: Response) => {
+    const enrollment = await twoFactorService.setupTwoFactor(getAdmin(req).id);
+
+    res.status(200).json({
+      status: 'success',
+      message: 'Scan the URI into your authenticator app, then confirm a code.',
+      data: enrollment,
+    });
+  }
+);
+
+export const enableTwoFactor = asyncHandler(
+  // Enables two-factor authentication with a code from the newly enrolled app.
+  async (req: Request, res: Response) => {
+    const { code } = twoFactorCodeSchema.parse(req.body);
+
+    const recoveryCodes = await twoFactorService.enableTwoFactor(
+      getAdmin(req).id,
+      code
+    );
+
+    res.status(200).json({
+      status: 'success',
+      message:
+        'Two-factor authentication enabled. Store the recovery codes somewhere safe; they are not shown again.',
+      data: { recoveryCodes },
+    });
+  }
+);
+
+export const disableTwoFactor = asyncHandler(
+  // Disables two-factor authentication after checking a current code.
+  async (req: Request, res: Response) => {
+    const { code } = twoFactorCodeSchema.parse(req.body);
+
+    await twoFactorService.disableTwoFactor(getAdmin(req).id, code);
+
+    res.status(200).json({
+      status: 'success',
+      message: 'Two-factor authentication disabled.',
+    });
+  }
+);
+
+export const regenerateRecoveryCodes = asyncHandler(
+  // Replaces the recovery codes after checking a current code.
+  async (req: Request, res: Response) => {
+    const { code } = twoFactorCodeSchema.parse(req.body);
+
+    const recoveryCodes = await twoFactorService.regenerateRecoveryCodes(
+      getAdmin(req).id,
+      code
+    );
+
+    res.status(200).json({
+      status: 'success',
+      message:
+        'Recovery codes replaced. Store them somewhere safe; they are not shown again.',
+      data: { recoveryCodes },
+    });
+  }
+);
+
+export const verifyTwoFactor = asyncHandler(
+  // Re-verifies a code on the current session, allowing destructive actions for a few minutes.
+  async (req: Request, res: Response) => {
+    const { code } = twoFactorCodeSchema.parse(req.body);
+    const admin = getAdmin(req);
+
+    const validUntil = await twoFactorService.stepUp(
+      admin.id,
+      admin.sessionId,
+      code
+    );
+
+    res.status(200).json({
+      status: 'success',
+      message: 'Two-factor code verified.',
+      data: { validUntil },
+    });
+  }
+);
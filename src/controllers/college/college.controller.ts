@@ -7,18 +7,19 @@
 
 import { Request, Response } from 'express';
 import { collegeService } from '../../services/college/college.service';
+import { getCollegeScope } from '../../services/college/collegeScope';
 import asyncHandler from '../../utils/asyncHandler';
 import AppError from '../../utils/appError';
 import {
   createCollegeSchema,
   updateCollegeSchema,
-  batchUpdateCollegeSchema,
+  idParamSchema,
 } from '../../utils/validators/college.validation';
 
 export const getColleges = asyncHandler(
-  // Retrieves all active colleges.
-  async (_req: Request, res: Response) => {
-    const colleges = await collegeService.getAllColleges();
+  // Retrieves the active colleges the caller can access.
+  async (req: Request, res: Response) => {
+    const colleges = await collegeService.getAllColleges(getCollegeScope(req));
 
     res.status(200).json({
       status: 'success',
@@ -30,16 +31,16 @@ export const getColleges = asyncHandler(
   }
 );
 
-export const upsertPrimaryCollege = asyncHandler(
-  // Creates or updates the primary college.
+export const createCollege = asyncHandler(
+  // Creates a new college.
   async (req: Request, res: Response) => {
     const validatedData = createCollegeSchema.parse(req.body);
 
-    const college = await collegeService.upsertPrimaryCollege(validatedData);
+    const college = await collegeService.createCollege(validatedData);
 
     res.status(201).json({
       status: 'success',
-      message: 'College created/updated successfully.',
+      message: 'College created successfully.',
       data: {
         college: college,
       },
@@ -47,13 +48,18 @@ export const upsertPrimaryCollege = asyncHandler(
   }
 );
 
-export const getPrimaryCollege = asyncHandler(
-  // Retrieves the primary college by its fixed ID.
-  async (_req: Request, res: Response) => {
-    const college = await collegeService.getPrimaryCollege();
+export const getCollegeById = asyncHandler(
+  // Retrieves a single college by ID.
+  async (req: Request, res: Response) => {
+    const { id } = idParamSchema.parse(req.params);
+
+    const college = await collegeService.getCollegeById(
+      id,
+      getCollegeScope(req)
+    );
 
     if (!college) {
-      throw new AppError('Primary college not found.', 404);
+      throw new AppError('College not found.', 404);
     }
 
     res.status(200).json({
@@ -65,12 +71,17 @@ export const getPrimaryCollege = asyncHandler(
   }
 );
 
-export const updatePrimaryCollege = asyncHandler(
-  // Updates the primary college.
+export const updateCollege = asyncHandler(
+  // Updates an existing college.
   async (req: Request, res: Response) => {
+    const { id } = idParamSchema.parse(req.params);
     const validatedData = updateCollegeSchema.parse(req.body);
 
-    const college = await collegeService.updatePrimaryCollege(validatedData);
+    const college = await collegeService.updateCollege(
+      id,
+      validatedData,
+      getCollegeScope(req)
+    );
 
     res.status(200).json({
       status: 'success',
@@ -82,10 +93,12 @@ export const updatePrimaryCollege = asyncHandler(
   }
 );
 
-export const softDeletePrimaryCollege = asyncHandler(
-  // Soft deletes the primary college.
-  async (_req: Request, res: Response) => {
-    await collegeService.softDeletePrimaryCollege();
+export const softDeleteCollege = asyncHandler(
+  // Soft deletes a college.
+  async (req: Request, res: Response) => {
+    const { id } = idParamSchema.parse(req.params);
+
+    await collegeService.softDeleteCollege(id);
 
     res.status(204).json({
       status: 'success',
@@ -94,20 +107,3 @@ export const softDeletePrimaryCollege = asyncHandler(
     });
   }
 );
-
-export const batchUpdatePrimaryCollege = asyncHandler(
-  // Performs a batch update on the primary college.
-  async (req: Request, res: Response) => {
-    const { updates } = batchUpdateCollegeSchema.parse(req.body);
-
-    const college = await collegeService.batchUpdatePrimaryCollege(updates);
-
-    res.status(200).json({
-      status: 'success',
-      message: 'Batch update successful.',
-      data: {
-        college: college,
-      },
-    });
-  }
-);
@@ -7,18 +7,21 @@
 
 import { Request, Response } from 'express';
 import { academicStructureService } from '../../services/common/academicStructure.service';
+import { getCollegeScope } from '../../services/college/collegeScope';
 import asyncHandler from '../../utils/asyncHandler';
 
 export const getAcademicStructure = asyncHandler(
   // Retrieves the complete academic structure.
   async (req: Request, res: Response) => {
     const { academicYearId } = req.query;
+    const scope = getCollegeScope(req);
 
     const academicStructure = academicYearId
       ? await academicStructureService.getAcademicStructureByYear(
-          academicYearId as string
+          academicYearId as string,
+          scope
         )
-      : await academicStructureService.getAcademicStructure();
+      : await academicStructureService.getAcademicStructure(scope);
 
     res.status(200).json({
       status: 'success',
@@ -0,0 +1,151 @@
+/**
+ * @file src/controllers/customReport/customReport.controller.ts
+ * @description Controller for custom report operations.
+ * Handles request parsing, delegates to CustomReportService, and sends responses.
+ * Uses asyncHandler for error handling and Zod for validation.
+ */
+
+import { Request, Response } from 'express';
+import { customReportService } from '../../services/customReport/customReport.service';
+import { getCollegeScope } from '../../services/college/collegeScope';
+import asyncHandler from '../../utils/asyncHandler';
+import AppError from '../../utils/appError';
+import {
+  createCustomReportSchema,
+  updateCustomReportSchema,
+  previewCustomReportSchema,
+  idParamSchema,
+} from '../../utils/validators/customReport.validation';
+
+export const getAllCustomReports = asyncHandler(
+  // Retrieves the saved custom reports of the admin's colleges.
+  async (req: Request, res: Response) => {
+    const reports = await customReportService.getAllReports(
+      getCollegeScope(req)
+    );
+
+    res.status(200).json({
+      status: 'success',
+      results: reports.length,
+      data: {
+        reports: reports,
+      },
+    });
+  }
+);
+
+export const getCustomReportById = asyncHandler(
+  // Retrieves a single saved custom report by ID.
+  async (req: Request, res: Response) => {
+    const { id } = idParamSchema.parse(req.params);
+
+    const report = await customReportService.getReportById(
+      id,
+      getCollegeScope(req)
+    );
+
+    if (!report) {
+      throw new AppError('Custom report not found.', 404);
+    }
+
+    res.status(200).json({
+      status: 'success',
+      data: {
+        report: report,
+      },
+    });
+  }
+);
+
+export const createCustomReport = asyncHandler(
+  // Saves a new custom report definition.
+  async (req: Request, res: Response) => {
+    const validatedData = createCustomReportSchema.parse(req.body);
+
+    const report = await customReportService.createReport(
+      validatedData,
+      getCollegeScope(req)
+    );
+
+    res.status(201).json({
+      status: 'success',
+      message: 'Custom report created successfully.',
+      data: {
+        report: report,
+      },
+    });
+  }
+);
+
+export const updateCustomReport = asyncHandler(
+  // Updates an existing custom report definition.
+  async (req: Request, res: Response) => {
+    const { id } = idParamSchema.parse(req.params);
+    const validatedData = updateCustomReportSchema.parse(req.body);
+
+    const report = await customReportService.updateReport(
+      id,
+      validatedData,
+      getCollegeScope(req)
+    );
+
+    res.status(200).json({
+      status: 'success',
+      message: 'Custom report updated successfully.',
+      data: {
+        report: report,
+      },
+    });
+  }
+);
+
+export const deleteCustomReport = asyncHandler(
+  // Soft deletes a custom report.
+  async (req: Request, res: Response) => {
+    const { id } = idParamSchema.parse(req.params);
+
+    await customReportService.softDeleteReport(id, getCollegeScope(req));
+
+    res.status(204).json({
+      status: 'success',
+      message: 'Custom report soft-deleted successfully.',
+      data: null,
+    });
+  }
+);
+
+export const runCustomReport = asyncHandler(
+  // Runs a saved custom report against the feedback snapshots.
+  async (req: Request, res: Response) => {
+    const { id } = idParamSchema.parse(req.params);
+
+    const result = await customReportService.runReport(
+      id,
+      getCollegeScope(req)
+    );
+
+    res.status(200).json({
+      status: 'success',
+      results: result.rows.length,
+      data: result,
+    });
+  }
+);
+
+export const previewCustomReport = asyncHandler(
+  // Runs an unsaved report configuration without storing it.
+  async (req: Request, res: Response) => {
+    const { reportConfig } = previewCustomReportSchema.parse(req.body);
+
+    const result = await customReportService.previewReport(
+      reportConfig,
+      getCollegeScope(req)
+    );
+
+    res.status(200).json({
+      status: 'success',
+      results: result.rows.length,
+      data: result,
+    });
+  }
+);
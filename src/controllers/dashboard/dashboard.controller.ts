@@ -5,12 +5,15 @@
 
 import { Request, Response } from 'express';
 import { dashboardService } from '../../services/dashboard/dashboard.service';
+import { getCollegeScope } from '../../services/college/collegeScope';
 import asyncHandler from '../../utils/asyncHandler';
 
 export const getDashboardStats = asyncHandler(
   // Handles the request to fetch aggregated dashboard statistics.
-  async (_req: Request, res: Response) => {
-    const stats = await dashboardService.getDashboardStats();
+  async (req: Request, res: Response) => {
+    const stats = await dashboardService.getDashboardStats(
+      getCollegeScope(req)
+    );
 
     res.status(200).json({
       status: 'success',
@@ -7,6 +7,7 @@
 
 import { Request, Response } from 'express';
 import { departmentService } from '../../services/department/department.service';
+import { getCollegeScope } from '../../services/college/collegeScope';
 import asyncHandler from '../../utils/asyncHandler';
 import AppError from '../../utils/appError';
 import {
@@ -17,9 +18,11 @@ import {
 } from '../../utils/validators/department.validation';
 
 export const getDepartments = asyncHandler(
-  // Retrieves all active departments.
-  async (_req: Request, res: Response) => {
-    const departments = await departmentService.getAllDepartments();
+  // Retrieves all active departments of the caller's colleges.
+  async (req: Request, res: Response) => {
+    const departments = await departmentService.getAllDepartments(
+      getCollegeScope(req)
+    );
 
     res.status(200).json({
       status: 'success',
@@ -36,7 +39,10 @@ export const createDepartment = asyncHandler(
   async (req: Request, res: Response) => {
     const validatedData = createDepartmentSchema.parse(req.body);
 
-    const department = await departmentService.createDepartment(validatedData);
+    const department = await departmentService.createDepartment(
+      validatedData,
+      getCollegeScope(req)
+    );
 
     res.status(201).json({
       status: 'success',
@@ -53,7 +59,10 @@ export const getDepartmentById = asyncHandler(
   async (req: Request, res: Response) => {
     const { id } = idParamSchema.parse(req.params);
 
-    const department = await departmentService.getDepartmentById(id);
+    const department = await departmentService.getDepartmentById(
+      id,
+      getCollegeScope(req)
+    );
 
     if (!department) {
       throw new AppError('Department not found.', 404);
@@ -76,7 +85,8 @@ export const updateDepartment = asyncHandler(
 
     const department = await departmentService.updateDepartment(
       id,
-      validatedData
+      validatedData,
+      getCollegeScope(req)
     );
 
     res.status(200).json({
@@ -94,7 +104,7 @@ export const softDeleteDepartment = asyncHandler(
   async (req: Request, res: Response) => {
     const { id } = idParamSchema.parse(req.params);
 
-    await departmentService.softDeleteDepartment(id);
+    await departmentService.softDeleteDepartment(id, getCollegeScope(req));
 
     res.status(204).json({
       status: 'success',
@@ -109,7 +119,10 @@ export const batchCreateDepartments = asyncHandler(
   async (req: Request, res: Response) => {
     const { departments } = batchCreateDepartmentsSchema.parse(req.body);
 
-    const results = await departmentService.batchCreateDepartments(departments);
+    const results = await departmentService.batchCreateDepartments(
+      departments,
+      getCollegeScope(req)
+    );
 
     res.status(201).json({
       status: 'success',
@@ -0,0 +1,76 @@
+/**
+ * @file src/controllers/department/departmentAlias.controller.ts
+ * @description Controller for Department alias operations.
+ * Handles request parsing, delegates to DepartmentAliasService, and sends responses.
+ */
+
+import { Request, Response } from 'express';
+import { departmentAliasService } from '../../services/department/departmentAlias.service';
+import { getCollegeScope } from '../../services/college/collegeScope';
+import asyncHandler from '../../utils/asyncHandler';
+import {
+  createDepartmentAliasSchema,
+  departmentAliasParamSchema,
+  idParamSchema,
+} from '../../utils/validators/department.validation';
+
+export const getDepartmentAliases = asyncHandler(
+  // Retrieves the aliases of a department.
+  async (req: Request, res: Response) => {
+    const { id } = idParamSchema.parse(req.params);
+
+    const aliases = await departmentAliasService.getAliases(
+      id,
+      getCollegeScope(req)
+    );
+
+    res.status(200).json({
+      status: 'success',
+      results: aliases.length,
+      data: {
+        aliases: aliases,
+      },
+    });
+  }
+);
+
+export const createDepartmentAlias = asyncHandler(
+  // Adds an alias that uploads may name the department by.
+  async (req: Request, res: Response) => {
+    const { id } = idParamSchema.parse(req.params);
+    const { alias } = createDepartmentAliasSchema.parse(req.body);
+
+    const departmentAlias = await departmentAliasService.createAlias(
+      id,
+      alias,
+      getCollegeScope(req)
+    );
+
+    res.status(201).json({
+      status: 'success',
+      message: 'Department alias created successfully.',
+      data: {
+        alias: departmentAlias,
+      },
+    });
+  }
+);
+
+export const deleteDepartmentAlias = asyncHandler(
+  // Soft deletes an alias of a department.
+  async (req: Request, res: Response) => {
+    const { id, aliasId } = departmentAliasParamSchema.parse(req.params);
+
+    await departmentAliasService.softDeleteAlias(
+      id,
+      aliasId,
+      getCollegeScope(req)
+    );
+
+    res.status(204).json({
+      status: 'success',
+      message: 'Department alias soft-deleted successfully.',
+      data: null,
+    });
+  }
+);
@@ -7,6 +7,7 @@
 
 import { Request, Response } from 'express';
 import { divisionService } from '../../services/division/division.service';
+import { getCollegeScope } from '../../services/college/collegeScope';
 import asyncHandler from '../../utils/asyncHandler';
 import AppError from '../../utils/appError';
 import {
@@ -25,6 +26,7 @@ export const getDivisions = asyncHandler(
     );
 
     const divisions = await divisionService.getAllDivisions(
+      getCollegeScope(req),
       departmentId,
       semesterId
     );
@@ -44,7 +46,10 @@ export const createDivision = asyncHandler(
   async (req: Request, res: Response) => {
     const validatedData = createDivisionSchema.parse(req.body);
 
-    const division = await divisionService.createDivision(validatedData);
+    const division = await divisionService.createDivision(
+      validatedData,
+      getCollegeScope(req)
+    );
 
     res.status(201).json({
       status: 'success',
@@ -61,7 +66,10 @@ export const getDivisionById = asyncHandler(
   async (req: Request, res: Response) => {
     const { id } = idParamSchema.parse(req.params);
 
-    const division = await divisionService.getDivisionById(id);
+    const division = await divisionService.getDivisionById(
+      id,
+      getCollegeScope(req)
+    );
 
     if (!division) {
       throw new AppError('Division not found.', 404);
@@ -82,7 +90,11 @@ export const updateDivision = asyncHandler(
     const { id } = idParamSchema.parse(req.params);
     const validatedData = updateDivisionSchema.parse(req.body);
 
-    const division = await divisionService.updateDivision(id, validatedData);
+    const division = await divisionService.updateDivision(
+      id,
+      validatedData,
+      getCollegeScope(req)
+    );
 
     res.status(200).json({
       status: 'success',
@@ -99,7 +111,7 @@ export const softDeleteDivision = asyncHandler(
   async (req: Request, res: Response) => {
     const { id } = idParamSchema.parse(req.params);
 
-    await divisionService.softDeleteDivision(id);
+    await divisionService.softDeleteDivision(id, getCollegeScope(req));
 
     res.status(204).json({
       status: 'success',
@@ -114,7 +126,10 @@ export const batchCreateDivisions = asyncHandler(
   async (req: Request, res: Response) => {
     const { divisions } = batchCreateDivisionsSchema.parse(req.body);
 
-    const results = await divisionService.batchCreateDivisions(divisions);
+    const results = await divisionService.batchCreateDivisions(
+      divisions,
+      getCollegeScope(req)
+    );
 
     res.status(201).json({
       status: 'success',
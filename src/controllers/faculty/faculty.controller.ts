@@ -7,6 +7,7 @@
 
 import { Request, Response } from 'express';
 import { facultyService } from '../../services/faculty/faculty.service';
+import { getCollegeScope } from '../../services/college/collegeScope';
 import asyncHandler from '../../utils/asyncHandler';
 import AppError from '../../utils/appError';
 import {
@@ -18,9 +19,11 @@ import {
 } from '../../utils/validators/faculty.validation';
 
 export const getFaculties = asyncHandler(
-  // Retrieves all active faculties.
-  async (_req: Request, res: Response) => {
-    const faculties = await facultyService.getAllFaculties();
+  // Retrieves all active faculties of the caller's colleges.
+  async (req: Request, res: Response) => {
+    const faculties = await facultyService.getAllFaculties(
+      getCollegeScope(req)
+    );
 
     res.status(200).json({
       status: 'success',
@@ -37,7 +40,10 @@ export const createFaculty = asyncHandler(
   async (req: Request, res: Response) => {
     const validatedData = createFacultySchema.parse(req.body);
 
-    const faculty = await facultyService.createFaculty(validatedData);
+    const faculty = await facultyService.createFaculty(
+      validatedData,
+      getCollegeScope(req)
+    );
 
     res.status(201).json({
       status: 'success',
@@ -54,7 +60,10 @@ export const getFacultyById = asyncHandler(
   async (req: Request, res: Response) => {
     const { id } = idParamSchema.parse(req.params);
 
-    const faculty = await facultyService.getFacultyById(id);
+    const faculty = await facultyService.getFacultyById(
+      id,
+      getCollegeScope(req)
+    );
 
     if (!faculty) {
       throw new AppError('Faculty not found.', 404);
@@ -75,7 +84,11 @@ export const updateFaculty = asyncHandler(
     const { id } = idParamSchema.parse(req.params);
     const validatedData = updateFacultySchema.parse(req.body);
 
-    const faculty = await facultyService.updateFaculty(id, validatedData);
+    const faculty = await facultyService.updateFaculty(
+      id,
+      validatedData,
+      getCollegeScope(req)
+    );
 
     res.status(200).json({
       status: 'success',
@@ -92,7 +105,7 @@ export const softDeleteFaculty = asyncHandler(
   async (req: Request, res: Response) => {
     const { id } = idParamSchema.parse(req.params);
 
-    await facultyService.softDeleteFaculty(id);
+    await facultyService.softDeleteFaculty(id, getCollegeScope(req));
 
     res.status(204).json({
       status: 'success',
@@ -107,7 +120,10 @@ export const batchCreateFaculties = asyncHandler(
   async (req: Request, res: Response) => {
     const { faculties } = batchCreateFacultiesSchema.parse(req.body);
 
-    const results = await facultyService.batchCreateFaculties(faculties);
+    const results = await facultyService.batchCreateFaculties(
+      faculties,
+      getCollegeScope(req)
+    );
 
     res.status(201).json({
       status: 'success',
@@ -125,8 +141,10 @@ export const getFacultyAbbreviations = asyncHandler(
   async (req: Request, res: Response) => {
     const { deptAbbr } = deptAbbrParamSchema.parse(req.params);
 
-    const abbreviations =
-      await facultyService.getFacultyAbbreviations(deptAbbr);
+    const abbreviations = await facultyService.getFacultyAbbreviations(
+      getCollegeScope(req),
+      deptAbbr
+    );
 
     res.status(200).json({
       status: 'success',
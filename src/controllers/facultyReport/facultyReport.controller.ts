@@ -0,0 +1,36 @@
+/**
+ * @file src/controllers/facultyReport/facultyReport.controller.ts
+ * @description Controller for faculty feedback report cards.
+ * Handles request parsing, delegates to FacultyReportService, and sends the generated PDF.
+ * Uses asyncHandler for error handling and Zod for validation.
+ */
+
+import { Request, Response } from 'express';
+import { facultyReportService } from '../../services/facultyReport/facultyReport.service';
+import { getCollegeScope } from '../../services/college/collegeScope';
+import asyncHandler from '../../utils/asyncHandler';
+import {
+  facultyIdParamSchema,
+  facultyReportQuerySchema,
+} from '../../utils/validators/analytics.validation';
+
+export const getFacultyReportCard = asyncHandler(
+  // Generates a printable PDF feedback report card for a faculty member.
+  async (req: Request, res: Response) => {
+    const { facultyId } = facultyIdParamSchema.parse(req.params);
+    const { academicYearId } = facultyReportQuerySchema.parse(req.query);
+
+    const report = await facultyReportService.generateReportCard(
+      facultyId,
+      getCollegeScope(req),
+      academicYearId
+    );
+
+    res.setHeader('Content-Type', 'application/pdf');
+    res.setHeader(
+      'Content-Disposition',
+      `attachment; filename="${report.fileName}"`
+    );
+    res.status(200).send(report.buffer);
+  }
+);
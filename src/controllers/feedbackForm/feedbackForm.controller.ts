@@ -7,6 +7,7 @@
 
 import { Request, Response } from 'express';
 import { feedbackFormService } from '../../services/feedbackForm/feedbackForm.service';
+import { getCollegeScope } from '../../services/college/collegeScope';
 import asyncHandler from '../../utils/asyncHandler';
 import AppError from '../../utils/appError';
 import {
@@ -24,8 +25,10 @@ export const generateForms = asyncHandler(
   async (req: Request, res: Response) => {
     const validatedData = generateFormsSchema.parse(req.body);
 
-    const generatedForms =
-      await feedbackFormService.generateForms(validatedData);
+    const generatedForms = await feedbackFormService.generateForms(
+      validatedData,
+      getCollegeScope(req)
+    );
 
     res.status(201).json({
       status: 'success',
@@ -40,8 +43,8 @@ export const generateForms = asyncHandler(
 
 export const getAllForms = asyncHandler(
   // Retrieves all active feedback forms.
-  async (_req: Request, res: Response) => {
-    const forms = await feedbackFormService.getAllForms();
+  async (req: Request, res: Response) => {
+    const forms = await feedbackFormService.getAllForms(getCollegeScope(req));
 
     res.status(200).json({
       status: 'success',
@@ -57,7 +60,7 @@ export const getFormById = asyncHandler(async (req: Request, res: Response) => {
   // Retrieves a single feedback form by ID.
   const { id } = idParamSchema.parse(req.params);
 
-  const form = await feedbackFormService.getFormById(id);
+  const form = await feedbackFormService.getFormById(id, getCollegeScope(req));
 
   if (!form) {
     throw new AppError('Feedback form not found.', 404);
@@ -76,10 +79,14 @@ export const updateForm = asyncHandler(async (req: Request, res: Response) => {
   const { id } = idParamSchema.parse(req.params);
   const validatedData = updateFormSchema.parse(req.body);
 
-  const updatedForm = await feedbackFormService.updateForm(id, {
-    ...validatedData,
-    description: validatedData.description ?? undefined,
-  });
+  const updatedForm = await feedbackFormService.updateForm(
+    id,
+    {
+      ...validatedData,
+      description: validatedData.description ?? undefined,
+    },
+    getCollegeScope(req)
+  );
 
   res.status(200).json({
     status: 'success',
@@ -95,7 +102,7 @@ export const softDeleteForm = asyncHandler(
   async (req: Request, res: Response) => {
     const { id } = idParamSchema.parse(req.params);
 
-    await feedbackFormService.softDeleteForm(id);
+    await feedbackFormService.softDeleteForm(id, getCollegeScope(req));
 
     res.status(204).json({
       status: 'success',
@@ -113,7 +120,8 @@ export const addQuestionToForm = asyncHandler(
 
     const updatedForm = await feedbackFormService.addQuestionToForm(
       id,
-      validatedData
+      validatedData,
+      getCollegeScope(req)
     );
 
     res.status(200).json({
@@ -134,7 +142,8 @@ export const updateFormStatus = asyncHandler(
 
     const updatedForm = await feedbackFormService.updateFormStatus(
       id,
-      validatedData
+      validatedData,
+      getCollegeScope(req)
     );
 
     res.status(200).json({
@@ -152,8 +161,10 @@ export const bulkUpdateFormStatus = asyncHandler(
   async (req: Request, res: Response) => {
     const validatedData = bulkUpdateFormStatusSchema.parse(req.body);
 
-    const updatedForms =
-      await feedbackFormService.bulkUpdateFormStatus(validatedData);
+    const updatedForms = await feedbackFormService.bulkUpdateFormStatus(
+      validatedData,
+      getCollegeScope(req)
+    );
 
     res.status(200).json({
       status: 'success',
@@ -7,6 +7,7 @@
 
 import { Request, Response } from 'express';
 import { feedbackQuestionService } from '../../services/feedbackQuestion/feedbackQuestion.service';
+import { getCollegeScope } from '../../services/college/collegeScope';
 import asyncHandler from '../../utils/asyncHandler';
 import AppError from '../../utils/appError';
 import {
@@ -19,6 +20,21 @@ import {
   formIdParamSchema,
 } from '../../utils/validators/feedbackQuestion.validation';
 
+export const getQuestionTypes = asyncHandler(
+  // Lists the supported question types and their default options.
+  async (_req: Request, res: Response) => {
+    const questionTypes = feedbackQuestionService.getQuestionTypes();
+
+    res.status(200).json({
+      status: 'success',
+      results: questionTypes.length,
+      data: {
+        questionTypes: questionTypes,
+      },
+    });
+  }
+);
+
 export const getAllQuestionCategories = asyncHandler(
   // Retrieves all active question categories.
   async (_req: Request, res: Response) => {
@@ -115,8 +131,10 @@ export const createFeedbackQuestion = asyncHandler(
       formId,
     });
 
-    const question =
-      await feedbackQuestionService.createFeedbackQuestion(validatedData);
+    const question = await feedbackQuestionService.createFeedbackQuestion(
+      validatedData,
+      getCollegeScope(req)
+    );
 
     res.status(201).json({
       status: 'success',
@@ -135,7 +153,11 @@ export const updateFeedbackQuestion = asyncHandler(
     const validatedData = updateFeedbackQuestionSchema.parse(req.body);
 
     const updatedQuestion =
-      await feedbackQuestionService.updateFeedbackQuestion(id, validatedData);
+      await feedbackQuestionService.updateFeedbackQuestion(
+        id,
+        validatedData,
+        getCollegeScope(req)
+      );
 
     res.status(200).json({
       status: 'success',
@@ -152,7 +174,10 @@ export const softDeleteFeedbackQuestion = asyncHandler(
   async (req: Request, res: Response) => {
     const { id } = idParamSchema.parse(req.params);
 
-    await feedbackQuestionService.softDeleteFeedbackQuestion(id);
+    await feedbackQuestionService.softDeleteFeedbackQuestion(
+      id,
+      getCollegeScope(req)
+    );
 
     res.status(204).json({
       status: 'success',
@@ -168,7 +193,10 @@ export const getFeedbackQuestionsByFormId = asyncHandler(
     const { formId } = formIdParamSchema.parse(req.params);
 
     const questions =
-      await feedbackQuestionService.getFeedbackQuestionsByFormId(formId);
+      await feedbackQuestionService.getFeedbackQuestionsByFormId(
+        formId,
+        getCollegeScope(req)
+      );
 
     res.status(200).json({
       status: 'success',
@@ -187,7 +215,10 @@ export const batchUpdateFeedbackQuestions = asyncHandler(
     const { questions } = batchUpdateFeedbackQuestionsSchema.parse(req.body);
 
     const updatedQuestions =
-      await feedbackQuestionService.batchUpdateFeedbackQuestions(questions);
+      await feedbackQuestionService.batchUpdateFeedbackQuestions(
+        questions,
+        getCollegeScope(req)
+      );
 
     res.status(200).json({
       status: 'success',
@@ -0,0 +1,73 @@
+/**
+ * @file src/controllers/feedbackReminder/feedbackReminder.controller.ts
+ * @description Controller for feedback form reminder operations.
+ * Handles request parsing, delegates to FeedbackReminderService, and sends responses.
+ * Uses asyncHandler for error handling and Zod for validation.
+ */
+
+import { Request, Response } from 'express';
+import { feedbackReminderService } from '../../services/feedbackReminder/feedbackReminder.service';
+import { getCollegeScope } from '../../services/college/collegeScope';
+import asyncHandler from '../../utils/asyncHandler';
+import {
+  formIdParamSchema,
+  updateReminderSettingsSchema,
+} from '../../utils/validators/feedbackReminder.validation';
+
+export const getFormReminders = asyncHandler(
+  // Retrieves reminder settings and history for a feedback form.
+  async (req: Request, res: Response) => {
+    const { id } = formIdParamSchema.parse(req.params);
+
+    const overview = await feedbackReminderService.getFormReminders(
+      id,
+      getCollegeScope(req)
+    );
+
+    res.status(200).json({
+      status: 'success',
+      data: overview,
+    });
+  }
+);
+
+export const updateReminderSettings = asyncHandler(
+  // Updates the reminder schedule and per-student cap for a feedback form.
+  async (req: Request, res: Response) => {
+    const { id } = formIdParamSchema.parse(req.params);
+    const validatedData = updateReminderSettingsSchema.parse(req.body);
+
+    const form = await feedbackReminderService.updateReminderSettings(
+      id,
+      validatedData,
+      getCollegeScope(req)
+    );
+
+    res.status(200).json({
+      status: 'success',
+      message: 'Reminder settings updated successfully.',
+      data: {
+        reminderDaysBeforeEnd: form.reminderDaysBeforeEnd,
+        maxRemindersPerStudent: form.maxRemindersPerStudent,
+      },
+    });
+  }
+);
+
+export const sendFormReminders = asyncHandler(
+  // Immediately queues reminder emails to students who have not submitted the form.
+  async (req: Request, res: Response) => {
+    const { id } = formIdParamSchema.parse(req.params);
+
+    const result = await feedbackReminderService.sendRemindersForForm(
+      id,
+      getCollegeScope(req)
+    );
+
+    res.status(200).json({
+      status: 'success',
+      message: `${result.remindersQueued} reminder emails queued.`,
+      data: result,
+    });
+  }
+);
@@ -0,0 +1,114 @@
+/**
+ * @file src/controllers/formTemplate/formTemplate.controller.ts
+ * @description Controller for Form Template operations.
+ * Handles request parsing, delegates to FormTemplateService, and sends responses.
+ * Uses asyncHandler for error handling and Zod for validation.
+ */
+
+import { Request, Response } from 'express';
+import { formTemplateService } from '../../services/formTemplate/formTemplate.service';
+import { getCollegeScope } from '../../services/college/collegeScope';
+import asyncHandler from '../../utils/asyncHandler';
+import AppError from '../../utils/appError';
+import {
+  createFormTemplateSchema,
+  updateFormTemplateSchema,
+  idParamSchema,
+} from '../../utils/validators/formTemplate.validation';
+
+export const getAllFormTemplates = asyncHandler(
+  // Retrieves the form templates of the admin's colleges with their questions.
+  async (req: Request, res: Response) => {
+    const templates = await formTemplateService.getAllTemplates(
+      getCollegeScope(req)
+    );
+
+    res.status(200).json({
+      status: 'success',
+      results: templates.length,
+      data: {
+        templates: templates,
+      },
+    });
+  }
+);
+
+export const getFormTemplateById = asyncHandler(
+  // Retrieves a single form template by ID.
+  async (req: Request, res: Response) => {
+    const { id } = idParamSchema.parse(req.params);
+
+    const template = await formTemplateService.getTemplateById(
+      id,
+      getCollegeScope(req)
+    );
+
+    if (!template) {
+      throw new AppError('Form template not found.', 404);
+    }
+
+    res.status(200).json({
+      status: 'success',
+      data: {
+        template: template,
+      },
+    });
+  }
+);
+
+export const createFormTemplate = asyncHandler(
+  // Creates a new form template.
+  async (req: Request, res: Response) => {
+    const validatedData = createFormTemplateSchema.parse(req.body);
+
+    const template = await formTemplateService.createTemplate(
+      validatedData,
+      getCollegeScope(req)
+    );
+
+    res.status(201).json({
+      status: 'success',
+      message: 'Form template created successfully.',
+      data: {
+        template: template,
+      },
+    });
+  }
+);
+
+export const updateFormTemplate = asyncHandler(
+  // Updates an existing form template.
+  async (req: Request, res: Response) => {
+    const { id } = idParamSchema.parse(req.params);
+    const validatedData = updateFormTemplateSchema.parse(req.body);
+
+    const template = await formTemplateService.updateTemplate(
+      id,
+      validatedData,
+      getCollegeScope(req)
+    );
+
+    res.status(200).json({
+      status: 'success',
+      message: 'Form template updated successfully.',
+      data: {
+        template: template,
+      },
+    });
+  }
+);
+
+export const deleteFormTemplate = asyncHandler(
+  // Soft deletes a form template.
+  async (req: Request, res: Response) => {
+    const { id } = idParamSchema.parse(req.params);
+
+    await formTemplateService.softDeleteTemplate(id, getCollegeScope(req));
+
+    res.status(204).json({
+      status: 'success',
+      message: 'Form template soft-deleted successfully.',
+      data: null,
+    });
+  }
+);
@@ -7,11 +7,15 @@
 
 import { Request, Response } from 'express';
 import { overrideStudentsService } from '../../services/overrideStudents/overrideStudents.service';
+import { uploadErrorReportService } from '../../services/upload/uploadErrorReport.service';
+import { uploadColumnMappingService } from '../../services/upload/uploadColumnMapping.service';
+import { getCollegeScope } from '../../services/college/collegeScope';
 import asyncHandler from '../../utils/asyncHandler';
 import AppError from '../../utils/appError';
 import {
   overrideStudentsFileUploadSchema,
   formIdParamSchema,
+  uploadOverrideStudentsQuerySchema,
   getOverrideStudentsQuerySchema,
   updateOverrideStudentSchema,
   overrideStudentIdParamSchema,
@@ -42,12 +46,34 @@ export const uploadOverrideStudents = asyncHandler(
 
     const uploadedBy = (req as any).user?.id || 'unknown-admin';
 
+    const { columnMappingId } = uploadOverrideStudentsQuerySchema.parse(
+      req.query
+    );
+    const columnMapping = columnMappingId
+      ? await uploadColumnMappingService.getMappingForUpload(
+          columnMappingId,
+          'override-students',
+          getCollegeScope(req)
+        )
+      : undefined;
+
     const result = await overrideStudentsService.uploadOverrideStudents(
       formId,
       req.file.buffer,
-      uploadedBy
+      uploadedBy,
+      columnMapping
     );
 
+    const errorReport = await uploadErrorReportService.createReport({
+      uploadType: 'override-students',
+      fileName: req.file.originalname,
+      fileBuffer: req.file.buffer,
+      rejectedRows: result.rejectedRows,
+      createdBy: req.admin?.id,
+      collegeId: result.collegeId,
+      departmentId: result.departmentId,
+    });
+
     res.status(200).json({
       status: 'success',
       message: result.message,
@@ -55,6 +81,8 @@ export const uploadOverrideStudents = asyncHandler(
         rowsAffected: result.rowsAffected,
         skippedRows: result.skippedRows,
         skippedDetails: result.skippedDetails,
+        warnings: result.warnings,
+        errorReport,
       },
     });
   }
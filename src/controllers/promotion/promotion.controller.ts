@@ -0,0 +1,100 @@
+/**
+ * @file src/controllers/promotion/promotion.controller.ts
+ * @description Controller for student promotion operations.
+ * Handles request parsing, delegates to PromotionService, and sends responses.
+ * Uses asyncHandler for error handling and Zod for validation.
+ */
+
+import { Request, Response } from 'express';
+import { promotionService } from '../../services/promotion/promotion.service';
+import { getCollegeScope } from '../../services/college/collegeScope';
+import asyncHandler from '../../utils/asyncHandler';
+import AppError from '../../utils/appError';
+import {
+  promoteStudentsSchema,
+  promotionQuerySchema,
+  idParamSchema,
+} from '../../utils/validators/promotion.validation';
+
+export const promoteStudents = asyncHandler(
+  // Promotes a semester's students, or previews the promotion when dryRun=true.
+  async (req: Request, res: Response) => {
+    const validatedData = promoteStudentsSchema.parse(req.body);
+    const { dryRun } = promotionQuerySchema.parse(req.query);
+
+    const result = await promotionService.promoteStudents(
+      validatedData,
+      dryRun,
+      getCollegeScope(req),
+      req.admin?.id
+    );
+
+    res.status(dryRun ? 200 : 201).json({
+      status: 'success',
+      message: dryRun
+        ? 'Promotion preview generated successfully.'
+        : 'Students promoted successfully.',
+      data: {
+        promotion: result,
+      },
+    });
+  }
+);
+
+export const getPromotionBatches = asyncHandler(
+  // Retrieves the promotion batches in the admin's scope.
+  async (req: Request, res: Response) => {
+    const batches = await promotionService.getPromotionBatches(
+      getCollegeScope(req)
+    );
+
+    res.status(200).json({
+      status: 'success',
+      results: batches.length,
+      data: {
+        batches: batches,
+      },
+    });
+  }
+);
+
+export const getPromotionBatchById = asyncHandler(
+  // Retrieves a single promotion batch by ID.
+  async (req: Request, res: Response) => {
+    const { id } = idParamSchema.parse(req.params);
+
+    const batch = await promotionService.getPromotionBatchById(
+      id,
+      getCollegeScope(req)
+    );
+
+    if (!batch) {
+      throw new AppError('Promotion batch not found.', 404);
+    }
+
+    res.status(200).json({
+      status: 'success',
+      data: {
+        batch: batch,
+      },
+    });
+  }
+);
+
+export const undoPromotion = asyncHandler(
+  // Moves the students of a promotion batch back to where they were.
+  async (req: Request, res: Response) => {
+    const { id } = idParamSchema.parse(req.params);
+
+    const result = await promotionService.undoPromotion(
+      id,
+      getCollegeScope(req)
+    );
+
+    res.status(200).json({
+      status: 'success',
+      message: 'Promotion undone successfully.',
+      data: result,
+    });
+  }
+);
@@ -0,0 +1,118 @@
+/**
+ * @file src/controllers/questionBank/questionBank.controller.ts
+ * @description Controller for Question Bank operations.
+ * Handles request parsing, delegates to QuestionBankService, and sends responses.
+ * Uses asyncHandler for error handling and Zod for validation.
+ */
+
+import { Request, Response } from 'express';
+import { questionBankService } from '../../services/questionBank/questionBank.service';
+import { getCollegeScope } from '../../services/college/collegeScope';
+import asyncHandler from '../../utils/asyncHandler';
+import AppError from '../../utils/appError';
+import {
+  createQuestionBankItemSchema,
+  updateQuestionBankItemSchema,
+  questionBankFilterSchema,
+  idParamSchema,
+} from '../../utils/validators/questionBank.validation';
+
+export const getAllQuestionBankItems = asyncHandler(
+  // Retrieves all question bank items, optionally filtered by category, tag, lecture type or question type.
+  async (req: Request, res: Response) => {
+    const filters = questionBankFilterSchema.parse(req.query);
+
+    const questions = await questionBankService.getAllQuestions(
+      getCollegeScope(req),
+      filters
+    );
+
+    res.status(200).json({
+      status: 'success',
+      results: questions.length,
+      data: {
+        questions: questions,
+      },
+    });
+  }
+);
+
+export const getQuestionBankItemById = asyncHandler(
+  // Retrieves a single question bank item by ID.
+  async (req: Request, res: Response) => {
+    const { id } = idParamSchema.parse(req.params);
+
+    const question = await questionBankService.getQuestionById(
+      id,
+      getCollegeScope(req)
+    );
+
+    if (!question) {
+      throw new AppError('Question bank item not found.', 404);
+    }
+
+    res.status(200).json({
+      status: 'success',
+      data: {
+        question: question,
+      },
+    });
+  }
+);
+
+export const createQuestionBankItem = asyncHandler(
+  // Creates a new question bank item.
+  async (req: Request, res: Response) => {
+    const validatedData = createQuestionBankItemSchema.parse(req.body);
+
+    const question = await questionBankService.createQuestion(
+      validatedData,
+      getCollegeScope(req)
+    );
+
+    res.status(201).json({
+      status: 'success',
+      message: 'Question bank item created successfully.',
+      data: {
+        question: question,
+      },
+    });
+  }
+);
+
+export const updateQuestionBankItem = asyncHandler(
+  // Updates an existing question bank item.
+  async (req: Request, res: Response) => {
+    const { id } = idParamSchema.parse(req.params);
+    const validatedData = updateQuestionBankItemSchema.parse(req.body);
+
+    const question = await questionBankService.updateQuestion(
+      id,
+      validatedData,
+      getCollegeScope(req)
+    );
+
+    res.status(200).json({
+      status: 'success',
+      message: 'Question bank item updated successfully.',
+      data: {
+        question: question,
+      },
+    });
+  }
+);
+
+export const deleteQuestionBankItem = asyncHandler(
+  // Soft deletes a question bank item.
+  async (req: Request, res: Response) => {
+    const { id } = idParamSchema.parse(req.params);
+
+    await questionBankService.softDeleteQuestion(id, getCollegeScope(req));
+
+    res.status(204).json({
+      status: 'success',
+      message: 'Question bank item soft-deleted successfully.',
+      data: null,
+    });
+  }
+);
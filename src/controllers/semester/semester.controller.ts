@@ -7,6 +7,7 @@
 
 import { Request, Response } from 'express';
 import { semesterService } from '../../services/semester/semester.service';
+import { getCollegeScope } from '../../services/college/collegeScope';
 import asyncHandler from '../../utils/asyncHandler';
 import AppError from '../../utils/appError';
 import {
@@ -22,7 +23,10 @@ export const getSemesters = asyncHandler(
   async (req: Request, res: Response) => {
     const filters = getSemestersQuerySchema.parse(req.query);
 
-    const semesters = await semesterService.getAllSemesters(filters);
+    const semesters = await semesterService.getAllSemesters(
+      filters,
+      getCollegeScope(req)
+    );
 
     res.status(200).json({
       status: 'success',
@@ -39,7 +43,10 @@ export const createSemester = asyncHandler(
   async (req: Request, res: Response) => {
     const validatedData = createSemesterSchema.parse(req.body);
 
-    const semester = await semesterService.createSemester(validatedData);
+    const semester = await semesterService.createSemester(
+      validatedData,
+      getCollegeScope(req)
+    );
 
     res.status(201).json({
       status: 'success',
@@ -56,7 +63,10 @@ export const getSemesterById = asyncHandler(
   async (req: Request, res: Response) => {
     const { id } = idParamSchema.parse(req.params);
 
-    const semester = await semesterService.getSemesterById(id);
+    const semester = await semesterService.getSemesterById(
+      id,
+      getCollegeScope(req)
+    );
 
     if (!semester) {
       throw new AppError('Semester not found.', 404);
@@ -77,7 +87,11 @@ export const updateSemester = asyncHandler(
     const { id } = idParamSchema.parse(req.params);
     const validatedData = updateSemesterSchema.parse(req.body);
 
-    const semester = await semesterService.updateSemester(id, validatedData);
+    const semester = await semesterService.updateSemester(
+      id,
+      validatedData,
+      getCollegeScope(req)
+    );
 
     res.status(200).json({
       status: 'success',
@@ -94,7 +108,7 @@ export const softDeleteSemester = asyncHandler(
   async (req: Request, res: Response) => {
     const { id } = idParamSchema.parse(req.params);
 
-    await semesterService.softDeleteSemester(id);
+    await semesterService.softDeleteSemester(id, getCollegeScope(req));
 
     res.status(204).json({
       status: 'success',
@@ -109,7 +123,10 @@ export const batchCreateSemesters = asyncHandler(
   async (req: Request, res: Response) => {
     const { semesters } = batchCreateSemestersSchema.parse(req.body);
 
-    const results = await semesterService.batchCreateSemesters(semesters);
+    const results = await semesterService.batchCreateSemesters(
+      semesters,
+      getCollegeScope(req)
+    );
 
     res.status(201).json({
       status: 'success',
@@ -127,8 +144,10 @@ export const getSemestersByDepartment = asyncHandler(
   async (req: Request, res: Response) => {
     const { id: departmentId } = idParamSchema.parse(req.params);
 
-    const semesters =
-      await semesterService.getSemestersByDepartmentId(departmentId);
+    const semesters = await semesterService.getSemestersByDepartmentId(
+      departmentId,
+      getCollegeScope(req)
+    );
 
     res.status(200).json({
       status: 'success',
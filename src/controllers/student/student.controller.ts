@@ -7,6 +7,7 @@
 
 import { Request, Response } from 'express';
 import { studentService } from '../../services/student/student.service';
+import { getCollegeScope } from '../../services/college/collegeScope';
 import asyncHandler from '../../utils/asyncHandler';
 import AppError from '../../utils/appError';
 import {
@@ -18,8 +19,8 @@ import {
 
 export const getStudents = asyncHandler(
   // Retrieves all active students.
-  async (_req: Request, res: Response) => {
-    const students = await studentService.getAllStudents();
+  async (req: Request, res: Response) => {
+    const students = await studentService.getAllStudents(getCollegeScope(req));
 
     res.status(200).json({
       status: 'success',
@@ -36,7 +37,10 @@ export const createStudent = asyncHandler(
   async (req: Request, res: Response) => {
     const validatedData = createStudentSchema.parse(req.body);
 
-    const student = await studentService.createStudent(validatedData);
+    const student = await studentService.createStudent(
+      validatedData,
+      getCollegeScope(req)
+    );
 
     res.status(201).json({
       status: 'success',
@@ -53,7 +57,10 @@ export const getStudentById = asyncHandler(
   async (req: Request, res: Response) => {
     const { id } = idParamSchema.parse(req.params);
 
-    const student = await studentService.getStudentById(id);
+    const student = await studentService.getStudentById(
+      id,
+      getCollegeScope(req)
+    );
 
     if (!student) {
       throw new AppError('Student not found.', 404);
@@ -74,7 +81,11 @@ export const updateStudent = asyncHandler(
     const { id } = idParamSchema.parse(req.params);
     const validatedData = updateStudentSchema.parse(req.body);
 
-    const student = await studentService.updateStudent(id, validatedData);
+    const student = await studentService.updateStudent(
+      id,
+      validatedData,
+      getCollegeScope(req)
+    );
 
     res.status(200).json({
       status: 'success',
@@ -91,7 +102,7 @@ export const softDeleteStudent = asyncHandler(
   async (req: Request, res: Response) => {
     const { id } = idParamSchema.parse(req.params);
 
-    await studentService.softDeleteStudent(id);
+    await studentService.softDeleteStudent(id, getCollegeScope(req));
 
     res.status(204).json({
       status: 'success',
@@ -106,7 +117,10 @@ export const batchCreateStudents = asyncHandler(
   async (req: Request, res: Response) => {
     const { students } = batchCreateStudentsSchema.parse(req.body);
 
-    const results = await studentService.batchCreateStudents(students);
+    const results = await studentService.batchCreateStudents(
+      students,
+      getCollegeScope(req)
+    );
 
     res.status(201).json({
       status: 'success',
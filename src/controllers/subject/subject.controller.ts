@@ -7,6 +7,7 @@
 
 import { Request, Response } from 'express';
 import { subjectService } from '../../services/subject/subject.service';
+import { getCollegeScope } from '../../services/college/collegeScope';
 import asyncHandler from '../../utils/asyncHandler';
 import AppError from '../../utils/appError';
 import {
@@ -20,8 +21,8 @@ import {
 
 export const getAllSubjects = asyncHandler(
   // Retrieves all active subjects.
-  async (_req: Request, res: Response) => {
-    const subjects = await subjectService.getAllSubjects();
+  async (req: Request, res: Response) => {
+    const subjects = await subjectService.getAllSubjects(getCollegeScope(req));
 
     res.status(200).json({
       status: 'success',
@@ -38,7 +39,10 @@ export const getSubjectById = asyncHandler(
   async (req: Request, res: Response) => {
     const { id } = idParamSchema.parse(req.params);
 
-    const subject = await subjectService.getSubjectById(id);
+    const subject = await subjectService.getSubjectById(
+      id,
+      getCollegeScope(req)
+    );
 
     if (!subject) {
       throw new AppError('Subject not found.', 404);
@@ -58,7 +62,10 @@ export const createSubject = asyncHandler(
   async (req: Request, res: Response) => {
     const validatedData = createSubjectSchema.parse(req.body);
 
-    const subject = await subjectService.createSubject(validatedData);
+    const subject = await subjectService.createSubject(
+      validatedData,
+      getCollegeScope(req)
+    );
 
     res.status(201).json({
       status: 'success',
@@ -78,7 +85,8 @@ export const updateSubject = asyncHandler(
 
     const updatedSubject = await subjectService.updateSubject(
       id,
-      validatedData
+      validatedData,
+      getCollegeScope(req)
     );
 
     res.status(200).json({
@@ -96,7 +104,7 @@ export const softDeleteSubject = asyncHandler(
   async (req: Request, res: Response) => {
     const { id } = idParamSchema.parse(req.params);
 
-    await subjectService.softDeleteSubject(id);
+    await subjectService.softDeleteSubject(id, getCollegeScope(req));
 
     res.status(204).json({
       status: 'success',
@@ -111,7 +119,10 @@ export const getSubjectsBySemester = asyncHandler(
   async (req: Request, res: Response) => {
     const { semesterId } = semesterIdParamSchema.parse(req.params);
 
-    const subjects = await subjectService.getSubjectsBySemester(semesterId);
+    const subjects = await subjectService.getSubjectsBySemester(
+      semesterId,
+      getCollegeScope(req)
+    );
 
     res.status(200).json({
       status: 'success',
@@ -140,8 +151,10 @@ export const getSubjectAbbreviations = asyncHandler(
 
     const { deptAbbr } = parsedParams.data;
 
-    const abbreviations =
-      await subjectService.getSubjectAbbreviations(deptAbbr);
+    const abbreviations = await subjectService.getSubjectAbbreviations(
+      getCollegeScope(req),
+      deptAbbr
+    );
 
     res.status(200).json({
       status: 'success',
@@ -159,7 +172,10 @@ export const batchCreateSubjects = asyncHandler(
   async (req: Request, res: Response) => {
     const { subjects } = batchCreateSubjectsSchema.parse(req.body);
 
-    const results = await subjectService.batchCreateSubjects(subjects);
+    const results = await subjectService.batchCreateSubjects(
+      subjects,
+      getCollegeScope(req)
+    );
 
     res.status(201).json({
       status: 'success',
@@ -7,6 +7,7 @@
 
 import { Request, Response } from 'express';
 import { subjectAllocationService } from '../../services/subjectAllocation/subjectAllocation.service';
+import { getCollegeScope } from '../../services/college/collegeScope';
 import asyncHandler from '../../utils/asyncHandler';
 import AppError from '../../utils/appError';
 import {
@@ -17,9 +18,11 @@ import {
 
 export const getAllSubjectAllocations = asyncHandler(
   // Retrieves all active subject allocations.
-  async (_req: Request, res: Response) => {
+  async (req: Request, res: Response) => {
     const subjectAllocations =
-      await subjectAllocationService.getAllSubjectAllocations();
+      await subjectAllocationService.getAllSubjectAllocations(
+        getCollegeScope(req)
+      );
 
     res.status(200).json({
       status: 'success',
@@ -37,7 +40,10 @@ export const getSubjectAllocationById = asyncHandler(
     const { id } = idParamSchema.parse(req.params);
 
     const subjectAllocation =
-      await subjectAllocationService.getSubjectAllocationById(id);
+      await subjectAllocationService.getSubjectAllocationById(
+        id,
+        getCollegeScope(req)
+      );
 
     if (!subjectAllocation) {
       throw new AppError('Subject allocation not found.', 404);
@@ -58,7 +64,10 @@ export const createSubjectAllocation = asyncHandler(
     const validatedData = createSubjectAllocationSchema.parse(req.body);
 
     const subjectAllocation =
-      await subjectAllocationService.createSubjectAllocation(validatedData);
+      await subjectAllocationService.createSubjectAllocation(
+        validatedData,
+        getCollegeScope(req)
+      );
 
     res.status(201).json({
       status: 'success',
@@ -77,7 +86,11 @@ export const updateSubjectAllocation = asyncHandler(
     const validatedData = updateSubjectAllocationSchema.parse(req.body);
 
     const updatedAllocation =
-      await subjectAllocationService.updateSubjectAllocation(id, validatedData);
+      await subjectAllocationService.updateSubjectAllocation(
+        id,
+        validatedData,
+        getCollegeScope(req)
+      );
 
     res.status(200).json({
       status: 'success',
@@ -94,7 +107,10 @@ export const softDeleteSubjectAllocation = asyncHandler(
   async (req: Request, res: Response) => {
     const { id } = idParamSchema.parse(req.params);
 
-    await subjectAllocationService.softDeleteSubjectAllocation(id);
+    await subjectAllocationService.softDeleteSubjectAllocation(
+      id,
+      getCollegeScope(req)
+    );
 
     res.status(204).json({
       status: 'success',
@@ -4,10 +4,18 @@
  */
 
 import { Request, Response } from 'express';
-import { facultyDataUploadService } from '../../services/upload/facultyData.service';
+import { enqueueUpload } from '../../services/upload/queue';
+import {
+  getCollegeScope,
+  getSingleCollegeScope,
+} from '../../services/college/collegeScope';
+import { uploadColumnMappingService } from '../../services/upload/uploadColumnMapping.service';
 import asyncHandler from '../../utils/asyncHandler';
 import AppError from '../../utils/appError';
-import { fileUploadSchema } from '../../utils/validators/upload.validation';
+import {
+  fileUploadSchema,
+  uploadQuerySchema,
+} from '../../utils/validators/upload.validation';
 
 export const uploadFacultyData = asyncHandler(
   // Handles the upload and processing of faculty data from an Excel file.
@@ -28,14 +36,34 @@ export const uploadFacultyData = asyncHandler(
       );
     }
 
-    const result = await facultyDataUploadService.processFacultyData(
-      req.file.buffer
+    const { dryRun, columnMappingId, collegeId } = uploadQuerySchema.parse(
+      req.query
     );
+    const collegeScope = getSingleCollegeScope(getCollegeScope(req), collegeId);
+    const columnMapping = columnMappingId
+      ? await uploadColumnMappingService.getMappingForUpload(
+          columnMappingId,
+          'faculty-data',
+          collegeScope
+        )
+      : undefined;
 
-    res.status(200).json({
+    const jobId = await enqueueUpload({
+      uploadType: 'faculty-data',
+      fileName: req.file.originalname,
+      fileBase64: req.file.buffer.toString('base64'),
+      uploadedBy: req.admin?.id,
+      collegeScope,
+      dryRun,
+      columnMapping,
+    });
+
+    res.status(202).json({
       status: 'success',
-      message: result.message,
-      rowsAffected: result.rowsAffected,
+      message: 'Upload queued for processing.',
+      data: {
+        jobId,
+      },
     });
   }
 );
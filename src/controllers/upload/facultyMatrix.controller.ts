@@ -8,8 +8,15 @@ import { Request, Response } from 'express';
 import { SemesterTypeEnum } from '@prisma/client';
 import asyncHandler from '../../utils/asyncHandler';
 import { multerFileSchema } from '../../utils/validators/upload.validation';
-import { facultyMatrixUploadService } from '../../services/upload/facultyMatrix.service';
-import { uploadFacultyMatrixBodySchema } from '../../utils/validators/upload.validation';
+import { enqueueUpload } from '../../services/upload/queue';
+import {
+  getCollegeScope,
+  getSingleCollegeScope,
+} from '../../services/college/collegeScope';
+import {
+  uploadFacultyMatrixBodySchema,
+  uploadQuerySchema,
+} from '../../utils/validators/upload.validation';
 
 export const uploadFacultyMatrix = asyncHandler(
   // Handles the upload and processing of the faculty matrix Excel file.
@@ -52,41 +59,28 @@ export const uploadFacultyMatrix = asyncHandler(
 
     const { academicYear, semesterRun, deptAbbreviation } =
       bodyValidationResult.data;
+    const { dryRun, collegeId } = uploadQuerySchema.parse(req.query);
 
-    const result = await facultyMatrixUploadService.processFacultyMatrix(
-      req.file.buffer,
-      academicYear,
-      semesterRun as SemesterTypeEnum,
-      deptAbbreviation
-    );
-
-    const hasBackendErrors =
-      result.missingFaculties.length > 0 || result.missingSubjects.length > 0;
-    const hasFlaskErrors = result.flaskErrors.length > 0;
-    const hasFlaskWarnings = result.flaskWarnings.length > 0;
-    const hasAnyIssues = hasBackendErrors || hasFlaskErrors || hasFlaskWarnings;
-
-    let statusMessage = result.message;
-    if (!result.flaskSuccess) {
-      statusMessage =
-        'Faculty matrix processing completed with Flask errors. Please review the issues.';
-    } else if (hasAnyIssues) {
-      statusMessage =
-        'Faculty matrix processing completed with some warnings. Please review the issues.';
-    }
+    const jobId = await enqueueUpload({
+      uploadType: 'faculty-matrix',
+      fileName: req.file.originalname,
+      fileBase64: req.file.buffer.toString('base64'),
+      uploadedBy: req.admin?.id,
+      collegeScope: getSingleCollegeScope(getCollegeScope(req), collegeId),
+      dryRun,
+      facultyMatrix: {
+        academicYear,
+        semesterRun: semesterRun as SemesterTypeEnum,
+        deptAbbreviation,
+      },
+    });
 
-    res.status(200).json({
+    res.status(202).json({
       status: 'success',
-      message: statusMessage,
-      rowsAffected: result.rowsAffected,
-      totalRowsSkippedDueToMissingEntities:
-        result.totalRowsSkippedDueToMissingEntities,
-      missingFaculties: result.missingFaculties,
-      missingSubjects: result.missingSubjects,
-      skippedRowsDetails: result.skippedRowsDetails,
-      flaskWarnings: result.flaskWarnings,
-      flaskErrors: result.flaskErrors,
-      flaskSuccess: result.flaskSuccess,
+      message: 'Upload queued for processing.',
+      data: {
+        jobId,
+      },
     });
   }
 );
@@ -1,10 +1,18 @@
 // src/controllers/upload/studentData.controller.ts
 
 import { Request, Response } from 'express';
-import { studentDataUploadService } from '../../services/upload/studentData.service';
+import { enqueueUpload } from '../../services/upload/queue';
+import {
+  getCollegeScope,
+  getSingleCollegeScope,
+} from '../../services/college/collegeScope';
+import { uploadColumnMappingService } from '../../services/upload/uploadColumnMapping.service';
 import asyncHandler from '../../utils/asyncHandler';
 import AppError from '../../utils/appError';
-import { fileUploadSchema } from '../../utils/validators/upload.validation';
+import {
+  fileUploadSchema,
+  uploadQuerySchema,
+} from '../../utils/validators/upload.validation';
 
 export const uploadStudentData = asyncHandler(
   // Handles the upload and processing of student data from an Excel file.
@@ -29,14 +37,34 @@ export const uploadStudentData = asyncHandler(
       throw new AppError(`File validation failed: ${errorMessage}`, 400);
     }
 
-    const result = await studentDataUploadService.processStudentData(
-      req.file.buffer
+    const { dryRun, columnMappingId, collegeId } = uploadQuerySchema.parse(
+      req.query
     );
+    const collegeScope = getSingleCollegeScope(getCollegeScope(req), collegeId);
+    const columnMapping = columnMappingId
+      ? await uploadColumnMappingService.getMappingForUpload(
+          columnMappingId,
+          'student-data',
+          collegeScope
+        )
+      : undefined;
 
-    res.status(200).json({
+    const jobId = await enqueueUpload({
+      uploadType: 'student-data',
+      fileName: req.file.originalname,
+      fileBase64: req.file.buffer.toString('base64'),
+      uploadedBy: req.admin?.id,
+      collegeScope,
+      dryRun,
+      columnMapping,
+    });
+
+    res.status(202).json({
       status: 'success',
-      message: result.message,
-      rowsAffected: result.rowsAffected,
+      message: 'Upload queued for processing.',
+      data: {
+        jobId,
+      },
     });
   }
 );
@@ -0,0 +1,130 @@
+/**
+ * @file src/controllers/upload/uploadColumnMapping.controller.ts
+ * @description Controller for saved upload column mapping profiles.
+ * Handles request parsing, delegates to UploadColumnMappingService, and sends responses.
+ */
+
+import { Request, Response } from 'express';
+import { uploadColumnMappingService } from '../../services/upload/uploadColumnMapping.service';
+import { getCollegeScope } from '../../services/college/collegeScope';
+import asyncHandler from '../../utils/asyncHandler';
+import {
+  columnMappingIdParamSchema,
+  columnMappingQuerySchema,
+  createColumnMappingSchema,
+  updateColumnMappingSchema,
+} from '../../utils/validators/upload.validation';
+
+export const getUploadColumns = asyncHandler(
+  // Lists the fields of each upload type with the headers they are recognised by.
+  async (_req: Request, res: Response) => {
+    const columns = uploadColumnMappingService.getUploadColumns();
+
+    res.status(200).json({
+      status: 'success',
+      data: {
+        columns: columns,
+      },
+    });
+  }
+);
+
+export const getColumnMappings = asyncHandler(
+  // Retrieves the column mapping profiles in the admin's scope.
+  async (req: Request, res: Response) => {
+    const { uploadType } = columnMappingQuerySchema.parse(req.query);
+
+    const columnMappings = await uploadColumnMappingService.getColumnMappings(
+      getCollegeScope(req),
+      uploadType
+    );
+
+    res.status(200).json({
+      status: 'success',
+      results: columnMappings.length,
+      data: {
+        columnMappings: columnMappings,
+      },
+    });
+  }
+);
+
+export const getColumnMappingById = asyncHandler(
+  // Retrieves a single column mapping profile by ID.
+  async (req: Request, res: Response) => {
+    const { id } = columnMappingIdParamSchema.parse(req.params);
+
+    const columnMapping = await uploadColumnMappingService.getColumnMappingById(
+      id,
+      getCollegeScope(req)
+    );
+
+    res.status(200).json({
+      status: 'success',
+      data: {
+        columnMapping: columnMapping,
+      },
+    });
+  }
+);
+
+export const createColumnMapping = asyncHandler(
+  // Saves a column mapping profile for an upload type.
+  async (req: Request, res: Response) => {
+    const validatedData = createColumnMappingSchema.parse(req.body);
+
+    const columnMapping = await uploadColumnMappingService.createColumnMapping(
+      validatedData,
+      getCollegeScope(req),
+      req.admin?.id
+    );
+
+    res.status(201).json({
+      status: 'success',
+      message: 'Column mapping created successfully.',
+      data: {
+        columnMapping: columnMapping,
+      },
+    });
+  }
+);
+
+export const updateColumnMapping = asyncHandler(
+  // Updates the name or mapping of a column mapping profile.
+  async (req: Request, res: Response) => {
+    const { id } = columnMappingIdParamSchema.parse(req.params);
+    const validatedData = updateColumnMappingSchema.parse(req.body);
+
+    const columnMapping = await uploadColumnMappingService.updateColumnMapping(
+      id,
+      validatedData,
+      getCollegeScope(req)
+    );
+
+    res.status(200).json({
+      status: 'success',
+      message: 'Column mapping updated successfully.',
+      data: {
+        columnMapping: columnMapping,
+      },
+    });
+  }
+);
+
+export const deleteColumnMapping = asyncHandler(
+  // Soft deletes a column mapping profile.
+  async (req: Request, res: Response) => {
+    const { id } = columnMappingIdParamSchema.parse(req.params);
+
+    await uploadColumnMappingService.softDeleteColumnMapping(
+      id,
+      getCollegeScope(req)
+    );
+
+    res.status(204).json({
+      status: 'success',
+      message: 'Column mapping soft-deleted successfully.',
+      data: null,
+    });
+  }
+);
@@ -0,0 +1,38 @@
+/**
+ * @file src/controllers/upload/uploadErrorReport.controller.ts
+ * @description Controller for upload error reports.
+ * Handles request parsing, delegates to UploadErrorReportService, and streams the workbook back.
+ */
+
+import { Request, Response } from 'express';
+import { uploadErrorReportService } from '../../services/upload/uploadErrorReport.service';
+import { getCollegeScope } from '../../services/college/collegeScope';
+import asyncHandler from '../../utils/asyncHandler';
+import {
+  errorReportIdParamSchema,
+  errorReportQuerySchema,
+} from '../../utils/validators/upload.validation';
+
+export const downloadUploadErrorReport = asyncHandler(
+  // Downloads the uploaded workbook with its rejected rows highlighted.
+  async (req: Request, res: Response) => {
+    const { id } = errorReportIdParamSchema.parse(req.params);
+    const { rejectedOnly } = errorReportQuerySchema.parse(req.query);
+
+    const workbook = await uploadErrorReportService.getReportWorkbook(
+      id,
+      rejectedOnly,
+      getCollegeScope(req)
+    );
+
+    res.setHeader(
+      'Content-Type',
+      'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+    );
+    res.setHeader(
+      'Content-Disposition',
+      `attachment; filename="${workbook.fileName}"`
+    );
+    res.status(200).send(workbook.buffer);
+  }
+);
@@ -0,0 +1,77 @@
+/**
+ * @file src/controllers/upload/uploadHistory.controller.ts
+ * @description Controller for upload history and rollback.
+ * Handles request parsing, delegates to UploadBatchService, and sends responses.
+ */
+
+import { Request, Response } from 'express';
+import { uploadBatchService } from '../../services/upload/uploadBatch.service';
+import { getCollegeScope } from '../../services/college/collegeScope';
+import asyncHandler from '../../utils/asyncHandler';
+import AppError from '../../utils/appError';
+import {
+  uploadBatchIdParamSchema,
+  uploadHistoryQuerySchema,
+} from '../../utils/validators/upload.validation';
+
+export const getUploadHistory = asyncHandler(
+  // Retrieves recorded upload batches, newest first.
+  async (req: Request, res: Response) => {
+    const filters = uploadHistoryQuerySchema.parse(req.query);
+
+    const batches = await uploadBatchService.getUploadHistory(
+      filters,
+      getCollegeScope(req)
+    );
+
+    res.status(200).json({
+      status: 'success',
+      results: batches.length,
+      data: {
+        batches: batches,
+      },
+    });
+  }
+);
+
+export const getUploadBatchById = asyncHandler(
+  // Retrieves a single upload batch with the records it wrote.
+  async (req: Request, res: Response) => {
+    const { id } = uploadBatchIdParamSchema.parse(req.params);
+
+    const batch = await uploadBatchService.getUploadBatchById(
+      id,
+      getCollegeScope(req)
+    );
+
+    if (!batch) {
+      throw new AppError('Upload batch not found.', 404);
+    }
+
+    res.status(200).json({
+      status: 'success',
+      data: {
+        batch: batch,
+      },
+    });
+  }
+);
+
+export const rollbackUploadBatch = asyncHandler(
+  // Reverts the records created and updated by an upload batch.
+  async (req: Request, res: Response) => {
+    const { id } = uploadBatchIdParamSchema.parse(req.params);
+
+    const result = await uploadBatchService.rollbackUploadBatch(
+      id,
+      getCollegeScope(req),
+      req.admin?.id
+    );
+
+    res.status(200).json({
+      status: 'success',
+      message: 'Upload rolled back successfully.',
+      data: result,
+    });
+  }
+);
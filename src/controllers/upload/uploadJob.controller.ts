@@ -0,0 +1,31 @@
+/**
+ * @file src/controllers/upload/uploadJob.controller.ts
+ * @description Controller for background upload jobs.
+ * Handles request parsing, delegates to UploadJobService, and sends responses.
+ */
+
+import { Request, Response } from 'express';
+import { uploadJobService } from '../../services/upload/uploadJob.service';
+import { getCollegeScope } from '../../services/college/collegeScope';
+import asyncHandler from '../../utils/asyncHandler';
+import { uploadJobIdParamSchema } from '../../utils/validators/upload.validation';
+
+export const getUploadJob = asyncHandler(
+  // Retrieves the progress and outcome of a queued upload.
+  async (req: Request, res: Response) => {
+    const { id } = uploadJobIdParamSchema.parse(req.params);
+
+    const job = await uploadJobService.getUploadJob(
+      id,
+      getCollegeScope(req),
+      req.admin?.id
+    );
+
+    res.status(200).json({
+      status: 'success',
+      data: {
+        job: job,
+      },
+    });
+  }
+);
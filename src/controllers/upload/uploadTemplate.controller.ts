@@ -0,0 +1,38 @@
+/**
+ * @file src/controllers/upload/uploadTemplate.controller.ts
+ * @description Controller for blank upload templates.
+ * Handles request parsing, delegates to UploadTemplateService, and streams the workbook back.
+ */
+
+import { Request, Response } from 'express';
+import { uploadTemplateService } from '../../services/upload/uploadTemplate.service';
+import { getCollegeScope } from '../../services/college/collegeScope';
+import asyncHandler from '../../utils/asyncHandler';
+import {
+  uploadTemplateParamSchema,
+  uploadTemplateQuerySchema,
+} from '../../utils/validators/upload.validation';
+
+export const downloadUploadTemplate = asyncHandler(
+  // Downloads a blank .xlsx template for an upload type.
+  async (req: Request, res: Response) => {
+    const { type } = uploadTemplateParamSchema.parse(req.params);
+    const { deptAbbreviation } = uploadTemplateQuerySchema.parse(req.query);
+
+    const workbook = await uploadTemplateService.getTemplate(
+      type,
+      getCollegeScope(req),
+      deptAbbreviation
+    );
+
+    res.setHeader(
+      'Content-Type',
+      'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+    );
+    res.setHeader(
+      'Content-Disposition',
+      `attachment; filename="${workbook.fileName}"`
+    );
+    res.status(200).send(workbook.buffer);
+  }
+);
@@ -10,10 +10,15 @@ import { verifyAuthToken } from '../utils/jwt';
 import { prisma } from '../services/common/prisma.service';
 import { JwtPayload } from 'jsonwebtoken';
 import { Designation } from '@prisma/client';
+import { twoFactorService } from '../services/auth/twoFactor.service';
 
-// Middleware to protect routes, ensuring only authenticated admins can access.
-export const isAuthenticated = asyncHandler(
-  async (req: Request, _res: Response, next: NextFunction) => {
+/**
+ * Creates the middleware authenticating admins by their access token.
+ * @param enforceTwoFactor - Whether admins required to enable two-factor authentication are
+ * refused until they do.
+ */
+const authenticate = (enforceTwoFactor: boolean) =>
+  asyncHandler(async (req: Request, _res: Response, next: NextFunction) => {
     let token: string | undefined;
 
     // Extracts token from the Authorization header.
@@ -50,6 +55,12 @@ export const isAuthenticated = asyncHandler(
     // Checks if the authenticated admin still exists and is not soft-deleted.
     const currentAdmin = await prisma.admin.findUnique({
       where: { id: decoded.id, isDeleted: false },
+      include: {
+        colleges: {
+          where: { college: { isDeleted: false } },
+          select: { collegeId: true },
+        },
+      },
     });
 
     // Throws an error if the admin no longer exists.
@@ -60,6 +71,33 @@ export const isAuthenticated = asyncHandler(
       );
     }
 
+    // Checks that the token's session has not been revoked, by logout or a password change.
+    const session =
+      typeof decoded.sid === 'string' &&
+      (await prisma.adminSession.findFirst({
+        where: {
+          id: decoded.sid,
+          adminId: currentAdmin.id,
+          revokedAt: null,
+          expiresAt: { gt: new Date() },
+        },
+        select: { id: true },
+      }));
+    if (!session) {
+      throw new AppError('Your session has ended. Please log in again.', 401);
+    }
+
+    if (
+      enforceTwoFactor &&
+      !currentAdmin.twoFactorEnabled &&
+      twoFactorService.isRequiredFor(currentAdmin)
+    ) {
+      throw new AppError(
+        'Two-factor authentication is required for your account. Enable it through /auth/2fa before continuing.',
+        403
+      );
+    }
+
     // Attaches the authenticated admin's data to the request object.
     req.admin = {
       id: currentAdmin.id,
@@ -67,11 +105,20 @@ export const isAuthenticated = asyncHandler(
       name: currentAdmin.name,
       isSuper: currentAdmin.isSuper,
       designation: currentAdmin.designation,
+      departmentId: currentAdmin.departmentId,
+      collegeIds: currentAdmin.colleges.map((c) => c.collegeId),
+      sessionId: session.id,
     };
 
     next();
-  }
-);
+  });
+
+// Middleware to protect routes, ensuring only authenticated admins can access.
+export const isAuthenticated = authenticate(true);
+
+// Like isAuthenticated, but also admits admins who have yet to enable required two-factor
+// authentication, for the account routes they enable it through.
+export const isAuthenticatedForAccount = authenticate(false);
 
 // Middleware to restrict access based on user roles.
 export const authorizeRoles = (...allowedRoles: Designation[]) => {
@@ -91,3 +138,70 @@ export const authorizeRoles = (...allowedRoles: Designation[]) => {
     next();
   };
 };
+
+// Middleware to restrict access to the platform super admin, who manages every college.
+export const requirePlatformAdmin = (
+  req: Request,
+  _res: Response,
+  next: NextFunction
+) => {
+  if (!req.admin) {
+    return next(new AppError('User not authenticated.', 401));
+  }
+
+  if (!req.admin.isSuper) {
+    return next(
+      new AppError(
+        'Only the platform super admin can perform this action.',
+        403
+      )
+    );
+  }
+
+  next();
+};
+
+// Middleware to require a two-factor code re-entered moments ago, before destructive actions.
+export const requireTwoFactorStepUp = asyncHandler(
+  async (req: Request, _res: Response, next: NextFunction) => {
+    if (!req.admin) {
+      throw new AppError('User not authenticated.', 401);
+    }
+
+    await twoFactorService.assertSteppedUp(req.admin.sessionId);
+
+    next();
+  }
+);
+
+/**
+ * Middleware to restrict faculty admins, who are neither super admins nor HODs, to the
+ * analytics of their own faculty record, as named by the facultyId route parameter.
+ * A faculty admin's record is the faculty sharing their email.
+ */
+export const restrictToOwnFaculty = asyncHandler(
+  async (req: Request, _res: Response, next: NextFunction) => {
+    if (!req.admin) {
+      throw new AppError('User not authenticated.', 401);
+    }
+
+    const { designation } = req.admin;
+    if (
+      designation !== Designation.SUPER_ADMIN &&
+      designation !== Designation.HOD
+    ) {
+      const faculty = await prisma.faculty.findFirst({
+        where: { email: req.admin.email, isDeleted: false },
+        select: { id: true },
+      });
+      if (!faculty || faculty.id !== req.params.facultyId) {
+        throw new AppError(
+          'You can only view the analytics of your own faculty record.',
+          403
+        );
+      }
+    }
+
+    next();
+  }
+);
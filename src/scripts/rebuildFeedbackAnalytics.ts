@@ -0,0 +1,25 @@
+/**
+ * @file src/scripts/rebuildFeedbackAnalytics.ts
+ * @description Command-line entry point that rebuilds every materialized FeedbackAnalytics row.
+ * Run with `npm run analytics:rebuild`.
+ */
+
+import { prisma } from '../services/common/prisma.service';
+import { feedbackAnalyticsService } from '../services/feedbackAnalytics/feedbackAnalytics.service';
+
+const run = async () => {
+  console.log('Rebuilding feedback analytics...');
+  const result = await feedbackAnalyticsService.rebuildAll();
+  console.log(
+    `Feedback analytics rebuilt: ${result.rowsWritten} rows from ${result.allocationsProcessed} allocations.`
+  );
+};
+
+run()
+  .catch((error) => {
+    console.error('Feedback analytics rebuild failed:', error);
+    process.exitCode = 1;
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
@@ -14,7 +14,9 @@ const PORT = config.port;
 const server = app.listen(PORT, () => {
   console.log(`Server running in ${config.nodeEnv} mode on port ${PORT}`);
   console.log(`Access API at: http://localhost:${PORT}/api/v1`);
-  setupScheduledTasks();
+  setupScheduledTasks().catch((error) => {
+    console.error('[Scheduler] Failed to register scheduled tasks:', error);
+  });
 });
 
 // Handle unhandled promise rejections globally.
@@ -0,0 +1,416 @@
+/**
+ * @file src/services/adminInvitation/adminInvitation.service.ts
+ * @description Service layer for inviting admins, the only way to onboard one besides the
+ * platform super admin. A super admin invites admins to the colleges they manage, and an HOD
+ * invites assistant professors and lab assistants to their own department. The invitee gets a
+ * single-use emailed link for setting their password.
+ */
+
+import crypto from 'crypto';
+import {
+  Admin,
+  AdminInvitation,
+  Designation,
+  InvitationStatus,
+  Prisma,
+} from '@prisma/client';
+import { prisma } from '../common/prisma.service';
+import AppError from '../../utils/appError';
+import { hashPassword } from '../../utils/hash';
+import { emailService } from '../email/email.service';
+import {
+  AuthTokens,
+  SessionDevice,
+  sessionService,
+} from '../auth/session.service';
+import { PublicAdmin, toPublicAdmin } from '../auth/auth.service';
+import { getAdminInvitationTemplate } from '../../utils/emailTemplates/adminInvitation.template';
+import {
+  CollegeScope,
+  assertCollegeInScope,
+  assertDepartmentInScope,
+} from '../college/collegeScope';
+
+const INVITATION_EXPIRY_DAYS = 7;
+
+// The designations an HOD may invite to their department.
+const HOD_INVITABLE_DESIGNATIONS: Designation[] = [
+  Designation.AsstProf,
+  Designation.LabAsst,
+];
+
+interface CreateInvitationInput {
+  email: string;
+  name: string;
+  designation: Designation;
+  collegeId?: string;
+  departmentId?: string;
+}
+
+// The admin sending or managing invitations.
+type Inviter = Pick<Admin, 'id' | 'name' | 'designation' | 'departmentId'>;
+
+const invitationSelect = {
+  id: true,
+  email: true,
+  name: true,
+  designation: true,
+  status: true,
+  expiresAt: true,
+  createdAt: true,
+  updatedAt: true,
+  college: { select: { id: true, name: true } },
+  department: { select: { id: true, name: true, abbreviation: true } },
+  invitedBy: { select: { id: true, name: true } },
+} satisfies Prisma.AdminInvitationSelect;
+
+type Invitation = Prisma.AdminInvitationGetPayload<{
+  select: typeof invitationSelect;
+}>;
+
+// Hashes an invitation token for storage and lookup.
+const hashToken = (token: string): string =>
+  crypto.createHash('sha256').update(token).digest('hex');
+
+class AdminInvitationService {
+  private getFrontendUrl(): string {
+    const apiUrl =
+      process.env.NODE_ENV === 'production'
+        ? process.env.FRONTEND_PROD_URL
+        : process.env.FRONTEND_DEV_URL;
+    return apiUrl || 'http://localhost:3000';
+  }
+
+  // Limits invitations to those the inviter manages: their colleges, or an HOD's department.
+  private manageableWhere(
+    scope: CollegeScope
+  ): Prisma.AdminInvitationWhereInput {
+    return {
+      ...(scope.collegeIds && { collegeId: { in: scope.collegeIds } }),
+      ...(scope.departmentIds && {
+        departmentId: { in: scope.departmentIds },
+      }),
+    };
+  }
+
+  /**
+   * Resolves the college and department of a new invitation, enforcing what the inviter may grant.
+   * @throws AppError 403 when an HOD invites outside their department or above their designation.
+   */
+  private async resolvePlacement(
+    data: CreateInvitationInput,
+    inviter: Inviter,
+    scope: CollegeScope
+  ): Promise<{ collegeId: string; departmentId: string | null }> {
+    let departmentId = data.departmentId;
+
+    if (inviter.designation === Designation.HOD) {
+      if (!inviter.departmentId) {
+        throw new AppError('You are not assigned to a department.', 403);
+      }
+      if (departmentId && departmentId !== inviter.departmentId) {
+        throw new AppError(
+          'HODs can only invite admins to their own department.',
+          403
+        );
+      }
+      if (!HOD_INVITABLE_DESIGNATIONS.includes(data.designation)) {
+        throw new AppError(
+          'HODs can only invite assistant professors and lab assistants.',
+          403
+        );
+      }
+      departmentId = inviter.departmentId;
+    }
+
+    if (data.designation === Designation.SUPER_ADMIN) {
+      if (departmentId) {
+        throw new AppError(
+          'A college super admin cannot be invited to a department.',
+          400
+        );
+      }
+      let collegeId = data.collegeId;
+      if (!collegeId) {
+        if (scope.collegeIds?.length !== 1) {
+          throw new AppError(
+            'College ID is required when you can access more than one college.',
+            400
+          );
+        }
+        collegeId = scope.collegeIds[0];
+      }
+      assertCollegeInScope(scope, collegeId);
+      const college = await prisma.college.findUnique({
+        where: { id: collegeId, isDeleted: false },
+        select: { id: true },
+      });
+      if (!college) {
+        throw new AppError('College not found.', 400);
+      }
+      return { collegeId, departmentId: null };
+    }
+
+    if (!departmentId) {
+      throw new AppError(
+        `A department is required to invite a ${data.designation}.`,
+        400
+      );
+    }
+    const department = await prisma.department.findUnique({
+      where: { id: departmentId, isDeleted: false },
+      select: { id: true, collegeId: true },
+    });
+    if (!department) {
+      throw new AppError('Department not found.', 400);
+    }
+    await assertDepartmentInScope(scope, department.id);
+    if (data.collegeId && data.collegeId !== department.collegeId) {
+      throw new AppError(
+        'The department does not belong to the given college.',
+        400
+      );
+    }
+    return { collegeId: department.collegeId, departmentId: department.id };
+  }
+
+  // Issues a new token for an invitation and emails its link to the invitee.
+  private async sendInvitation(
+    invitationId: string,
+    inviter: Inviter
+  ): Promise<Invitation> {
+    const token = crypto.randomBytes(32).toString('hex');
+    const expiresAt = new Date(
+      Date.now() + INVITATION_EXPIRY_DAYS * 24 * 60 * 60 * 1000
+    );
+
+    const invitation = await prisma.adminInvitation.update({
+      where: { id: invitationId },
+      data: { tokenHash: hashToken(token), expiresAt },
+      select: invitationSelect,
+    });
+
+    const place = invitation.department
+      ? `${invitation.department.name}, ${invitation.college.name}`
+      : invitation.college.name;
+    await emailService.addEmailJobToQueue(
+      `send-admin-invitation-to-${invitation.email}`,
+      {
+        to: invitation.email,
+        subject: `You're invited to administer ${invitation.college.name}`,
+        html: getAdminInvitationTemplate(
+          invitation.name,
+          inviter.name,
+          place,
+          invitation.designation,
+          `${this.getFrontendUrl()}/accept-invitation?token=${token}`,
+          expiresAt
+        ),
+      }
+    );
+
+    return invitation;
+  }
+
+  // Finds a pending, unexpired invitation by its emailed token.
+  private async findOpenInvitation(token: string): Promise<AdminInvitation> {
+    const invitation = await prisma.adminInvitation.findUnique({
+      where: { tokenHash: hashToken(token) },
+    });
+    if (
+      !invitation ||
+      invitation.status !== InvitationStatus.PENDING ||
+      invitation.expiresAt <= new Date()
+    ) {
+      throw new AppError('Invitation is invalid or has expired.', 404);
+    }
+    return invitation;
+  }
+
+  // Retrieves the invitations the inviter manages, most recent first.
+  public async getInvitations(scope: CollegeScope): Promise<Invitation[]> {
+    try {
+      const invitations = await prisma.adminInvitation.findMany({
+        where: this.manageableWhere(scope),
+        select: invitationSelect,
+        orderBy: { createdAt: 'desc' },
+      });
+      return invitations;
+    } catch (error: any) {
+      console.error('Error in AdminInvitationService.getInvitations:', error);
+      throw new AppError('Failed to retrieve invitations.', 500);
+    }
+  }
+
+  // Creates an invitation and emails it to the invitee.
+  public async createInvitation(
+    data: CreateInvitationInput,
+    inviter: Inviter,
+    scope: CollegeScope
+  ): Promise<Invitation> {
+    const { collegeId, departmentId } = await this.resolvePlacement(
+      data,
+      inviter,
+      scope
+    );
+
+    const existingAdmin = await prisma.admin.findUnique({
+      where: { email: data.email },
+      select: { id: true },
+    });
+    if (existingAdmin) {
+      throw new AppError('An admin with this email already exists.', 409);
+    }
+    const pendingInvitation = await prisma.adminInvitation.findFirst({
+      where: {
+        email: data.email,
+        status: InvitationStatus.PENDING,
+        expiresAt: { gt: new Date() },
+      },
+      select: { id: true },
+    });
+    if (pendingInvitation) {
+      throw new AppError(
+        'A pending invitation already exists for this email. Resend it instead.',
+        409
+      );
+    }
+
+    let invitationId: string;
+    try {
+      const invitation = await prisma.adminInvitation.create({
+        data: {
+          email: data.email,
+          name: data.name,
+          designation: data.designation,
+          collegeId,
+          departmentId,
+          // Replaced by the token of the first email.
+          tokenHash: hashToken(crypto.randomBytes(32).toString('hex')),
+          expiresAt: new Date(),
+          invitedById: inviter.id,
+        },
+        select: { id: true },
+      });
+      invitationId = invitation.id;
+    } catch (error: any) {
+      console.error('Error in AdminInvitationService.createInvitation:', error);
+      throw new AppError('Failed to create invitation.', 500);
+    }
+
+    return this.sendInvitation(invitationId, inviter);
+  }
+
+  // Emails a pending invitation again with a new link, invalidating the previous one.
+  public async resendInvitation(
+    id: string,
+    inviter: Inviter,
+    scope: CollegeScope
+  ): Promise<Invitation> {
+    const invitation = await prisma.adminInvitation.findFirst({
+      where: { id, ...this.manageableWhere(scope) },
+      select: { id: true, status: true },
+    });
+    if (!invitation) {
+      throw new AppError('Invitation not found.', 404);
+    }
+    if (invitation.status !== InvitationStatus.PENDING) {
+      throw new AppError('Only pending invitations can be resent.', 400);
+    }
+
+    return this.sendInvitation(invitation.id, inviter);
+  }
+
+  // Revokes a pending invitation so its link no longer works.
+  public async revokeInvitation(
+    id: string,
+    scope: CollegeScope
+  ): Promise<Invitation> {
+    const invitation = await prisma.adminInvitation.findFirst({
+      where: { id, ...this.manageableWhere(scope) },
+      select: { id: true, status: true },
+    });
+    if (!invitation) {
+      throw new AppError('Invitation not found.', 404);
+    }
+    if (invitation.status !== InvitationStatus.PENDING) {
+      throw new AppError('Only pending invitations can be revoked.', 400);
+    }
+
+    return prisma.adminInvitation.update({
+      where: { id },
+      data: { status: InvitationStatus.REVOKED },
+      select: invitationSelect,
+    });
+  }
+
+  // Retrieves what an emailed invitation grants, for the page where it is accepted.
+  public async getInvitationByToken(token: string): Promise<Invitation> {
+    const { id } = await this.findOpenInvitation(token);
+    return prisma.adminInvitation.findUniqueOrThrow({
+      where: { id },
+      select: invitationSelect,
+    });
+  }
+
+  /**
+   * Accepts an invitation, creating the invitee's admin account with the given password.
+   * The invitation is used up, so its link cannot create a second account.
+   * @returns The new admin and the tokens of their first session, as returned by login.
+   */
+  public async acceptInvitation(
+    token: string,
+    password: string,
+    device: SessionDevice,
+    name?: string
+  ): Promise<{ admin: PublicAdmin } & AuthTokens> {
+    const invitation = await this.findOpenInvitation(token);
+    const hashedPassword = await hashPassword(password);
+
+    try {
+      const admin = await prisma.$transaction(async (tx) => {
+        const { count } = await tx.adminInvitation.updateMany({
+          where: { id: invitation.id, status: InvitationStatus.PENDING },
+          data: { status: InvitationStatus.ACCEPTED },
+        });
+        if (!count) {
+          throw new AppError('Invitation is invalid or has expired.', 404);
+        }
+
+        const admin = await tx.admin.create({
+          data: {
+            name: name ?? invitation.name,
+            email: invitation.email,
+            password: hashedPassword,
+            designation: invitation.designation,
+            departmentId: invitation.departmentId,
+            isSuper: false,
+            colleges: { create: { collegeId: invitation.collegeId } },
+          },
+        });
+        await tx.adminInvitation.update({
+          where: { id: invitation.id },
+          data: { adminId: admin.id },
+        });
+        return admin;
+      });
+
+      return {
+        admin: toPublicAdmin(admin),
+        ...(await sessionService.createSession(admin, device)),
+      };
+    } catch (error: any) {
+      if (error instanceof AppError) throw error;
+      console.error(
+        `Error in AdminInvitationService.acceptInvitation for ID ${invitation.id}:`,
+        error
+      );
+      if (error.code === 'P2002') {
+        throw new AppError('An admin with this email already exists.', 409);
+      }
+      throw new AppError('Failed to accept invitation.', 500);
+    }
+  }
+}
+
+export const adminInvitationService = new AdminInvitationService();
@@ -0,0 +1,308 @@
+/**
+ * @file src/services/adminUser/adminUser.service.ts
+ * @description Service layer for managing admins other than the platform super admin.
+ * The platform super admin manages every admin. The super admin of a college manages the
+ * admins of their colleges, and can only grant or revoke access to those colleges. Admins
+ * who also belong to other colleges are only changed or deleted by the platform super admin.
+ */
+
+import { Designation, Prisma } from '@prisma/client';
+import { prisma } from '../common/prisma.service';
+import AppError from '../../utils/appError';
+import { hashPassword } from '../../utils/hash';
+import { sessionService } from '../auth/session.service';
+import {
+  CollegeScope,
+  assertCollegeInScope,
+  assertDepartmentInScope,
+} from '../college/collegeScope';
+
+interface CreateAdminUserInput {
+  name: string;
+  email: string;
+  password: string;
+  designation: Designation;
+  collegeIds: string[];
+  departmentId?: string;
+}
+
+interface UpdateAdminUserInput {
+  name?: string;
+  email?: string;
+  password?: string;
+  designation?: Designation;
+  collegeIds?: string[];
+  departmentId?: string;
+}
+
+const adminUserSelect = {
+  id: true,
+  name: true,
+  email: true,
+  designation: true,
+  department: { select: { id: true, name: true, abbreviation: true } },
+  twoFactorEnabled: true,
+  createdAt: true,
+  updatedAt: true,
+  colleges: {
+    where: { college: { isDeleted: false } },
+    select: { college: { select: { id: true, name: true } } },
+  },
+} satisfies Prisma.AdminSelect;
+
+type AdminUser = Prisma.AdminGetPayload<{ select: typeof adminUserSelect }>;
+
+class AdminUserService {
+  // Limits admins to those assigned to a college in the scope.
+  private scopeWhere(scope: CollegeScope): Prisma.AdminWhereInput {
+    return scope.collegeIds
+      ? { colleges: { some: { collegeId: { in: scope.collegeIds } } } }
+      : {};
+  }
+
+  /**
+   * Ensures the caller may change or delete an admin: every college the admin is assigned
+   * to must be in the scope, so no college can act on an admin another college shares.
+   * @throws AppError 403 when the admin is assigned to a college outside the scope.
+   */
+  private async assertManageable(
+    id: string,
+    scope: CollegeScope
+  ): Promise<void> {
+    if (!scope.collegeIds) return;
+
+    const outsideScope = await prisma.adminCollege.count({
+      where: { adminId: id, collegeId: { notIn: scope.collegeIds } },
+    });
+    if (outsideScope) {
+      throw new AppError(
+        'This admin also belongs to colleges outside your access and can only be changed by the platform super admin.',
+        403
+      );
+    }
+  }
+
+  // Ensures every college exists and is in the scope.
+  private async validateColleges(
+    collegeIds: string[],
+    scope: CollegeScope
+  ): Promise<void> {
+    collegeIds.forEach((collegeId) => assertCollegeInScope(scope, collegeId));
+
+    const colleges = await prisma.college.findMany({
+      where: { id: { in: collegeIds }, isDeleted: false },
+      select: { id: true },
+    });
+    const found = new Set(colleges.map((c) => c.id));
+    const missing = collegeIds.filter((id) => !found.has(id));
+    if (missing.length) {
+      throw new AppError(`Colleges not found: ${missing.join(', ')}.`, 400);
+    }
+  }
+
+  /**
+   * Ensures the department an admin is bound to suits their designation, is in the scope and
+   * belongs to one of their colleges. College super admins are not bound to a department.
+   */
+  private async validateDepartment(
+    designation: Designation,
+    departmentId: string | null | undefined,
+    collegeIds: string[],
+    scope: CollegeScope
+  ): Promise<void> {
+    if (designation === Designation.SUPER_ADMIN) {
+      if (departmentId) {
+        throw new AppError(
+          'A college super admin cannot be assigned to a department.',
+          400
+        );
+      }
+      return;
+    }
+    if (!departmentId) {
+      throw new AppError(
+        `A department is required for a ${designation} admin.`,
+        400
+      );
+    }
+
+    await assertDepartmentInScope(scope, departmentId);
+    const department = await prisma.department.findUnique({
+      where: { id: departmentId, isDeleted: false },
+      select: { collegeId: true },
+    });
+    if (!department) {
+      throw new AppError('Department not found.', 400);
+    }
+    if (!collegeIds.includes(department.collegeId)) {
+      throw new AppError(
+        "The department must belong to one of the admin's colleges.",
+        400
+      );
+    }
+  }
+
+  // Retrieves the admins in the scope, excluding the platform super admin.
+  public async getAllAdmins(scope: CollegeScope): Promise<AdminUser[]> {
+    return prisma.admin.findMany({
+      where: { isSuper: false, isDeleted: false, ...this.scopeWhere(scope) },
+      select: adminUserSelect,
+    });
+  }
+
+  // Retrieves a single admin in the scope.
+  public async getAdminById(
+    id: string,
+    scope: CollegeScope
+  ): Promise<AdminUser> {
+    const admin = await prisma.admin.findFirst({
+      where: {
+        id,
+        isSuper: false,
+        isDeleted: false,
+        ...this.scopeWhere(scope),
+      },
+      select: adminUserSelect,
+    });
+    if (!admin) {
+      throw new AppError('Admin not found.', 404);
+    }
+    return admin;
+  }
+
+  // Creates an admin assigned to the given colleges.
+  public async createAdmin(
+    data: CreateAdminUserInput,
+    scope: CollegeScope
+  ): Promise<AdminUser> {
+    const { collegeIds, password, ...adminData } = data;
+    await this.validateColleges(collegeIds, scope);
+    await this.validateDepartment(
+      data.designation,
+      data.departmentId,
+      collegeIds,
+      scope
+    );
+
+    try {
+      const admin = await prisma.admin.create({
+        data: {
+          ...adminData,
+          password: await hashPassword(password),
+          isSuper: false,
+          colleges: {
+            create: collegeIds.map((collegeId) => ({ collegeId })),
+          },
+        },
+        select: adminUserSelect,
+      });
+      return admin;
+    } catch (error: any) {
+      console.error('Error in AdminUserService.createAdmin:', error);
+      if (error.code === 'P2002') {
+        throw new AppError('Email already registered.', 400);
+      }
+      throw new AppError('Failed to create admin.', 500);
+    }
+  }
+
+  /**
+   * Updates an admin whose colleges are all in the scope. When collegeIds is given it replaces
+   * the admin's colleges. Only the platform super admin can change the email, password or
+   * designation of a college super admin.
+   */
+  public async updateAdmin(
+    id: string,
+    data: UpdateAdminUserInput,
+    scope: CollegeScope
+  ): Promise<AdminUser> {
+    const { collegeIds, password, ...adminData } = data;
+    const existing = await this.getAdminById(id, scope);
+    await this.assertManageable(id, scope);
+    if (
+      scope.collegeIds &&
+      existing.designation === Designation.SUPER_ADMIN &&
+      (password ||
+        (data.email && data.email !== existing.email) ||
+        (data.designation && data.designation !== existing.designation))
+    ) {
+      throw new AppError(
+        "Only the platform super admin can change a college super admin's email, password or designation.",
+        403
+      );
+    }
+    if (collegeIds) {
+      await this.validateColleges(collegeIds, scope);
+    }
+    // A college super admin loses the department they were bound to.
+    const designation = data.designation ?? existing.designation;
+    const departmentId =
+      designation === Designation.SUPER_ADMIN
+        ? null
+        : (data.departmentId ?? existing.department?.id ?? null);
+    if (data.designation || data.departmentId || collegeIds) {
+      await this.validateDepartment(
+        designation,
+        departmentId,
+        collegeIds ?? existing.colleges.map((c) => c.college.id),
+        scope
+      );
+    }
+    const hashedPassword = password && (await hashPassword(password));
+
+    try {
+      const admin = await prisma.$transaction(async (tx) => {
+        if (collegeIds) {
+          await tx.adminCollege.deleteMany({
+            where: {
+              adminId: id,
+              ...(scope.collegeIds && { collegeId: { in: scope.collegeIds } }),
+            },
+          });
+          await tx.adminCollege.createMany({
+            data: collegeIds.map((collegeId) => ({ adminId: id, collegeId })),
+            skipDuplicates: true,
+          });
+        }
+
+        return tx.admin.update({
+          where: { id, isSuper: false, isDeleted: false },
+          data: {
+            ...adminData,
+            departmentId,
+            ...(hashedPassword && { password: hashedPassword }),
+          },
+          select: adminUserSelect,
+        });
+      });
+      // A new password logs the admin out everywhere.
+      if (hashedPassword) {
+        await sessionService.revokeAllSessions(id);
+      }
+      return admin;
+    } catch (error: any) {
+      console.error(
+        `Error in AdminUserService.updateAdmin for ID ${id}:`,
+        error
+      );
+      if (error.code === 'P2002') {
+        throw new AppError('Email already registered.', 400);
+      }
+      throw new AppError('Failed to update admin.', 500);
+    }
+  }
+
+  // Soft deletes an admin whose colleges are all in the scope.
+  public async softDeleteAdmin(id: string, scope: CollegeScope): Promise<void> {
+    await this.getAdminById(id, scope);
+    await this.assertManageable(id, scope);
+
+    await prisma.admin.update({
+      where: { id, isSuper: false },
+      data: { isDeleted: true },
+    });
+    await sessionService.revokeAllSessions(id);
+  }
+}
+
+export const adminUserService = new AdminUserService();
@@ -7,6 +7,13 @@
 import { Prisma, LectureType } from '@prisma/client';
 import { prisma } from '../common/prisma.service';
 import AppError from '../../utils/appError';
+import { RATING_SCORE_SQL } from '../../utils/questionTypes';
+import {
+  CollegeScope,
+  assertDepartmentInScope,
+  departmentScopeWhere,
+  getScopedDepartmentIds,
+} from '../college/collegeScope';
 import {
   OptimizedAnalyticsResponse,
   SubjectDetailedAnalytics,
@@ -74,6 +81,7 @@ interface SemesterTrendAnalysisOutput {
 
 interface AnnualPerformanceTrendOutput {
   year: number;
+  academicYear: string;
   averageRating: number;
   completionRate: number;
 }
@@ -284,9 +292,21 @@ class AnalyticsService {
     return typeof score === 'number' && !isNaN(score) ? score : null;
   }
 
+  // Restricts a feedback snapshot filter to the departments in the scope.
+  private async scopeSnapshotWhere(
+    where: Prisma.FeedbackSnapshotWhereInput,
+    scope: CollegeScope
+  ): Promise<Prisma.FeedbackSnapshotWhereInput> {
+    const departmentIds = await getScopedDepartmentIds(scope);
+    return departmentIds
+      ? { AND: [where, { departmentId: { in: departmentIds } }] }
+      : where;
+  }
+
   // Calculates the overall average rating for a specific semester.
   public async getOverallSemesterRating(
     semesterId: string,
+    scope: CollegeScope,
     divisionId?: string,
     batch?: string
   ): Promise<OverallSemesterRatingOutput> {
@@ -298,7 +318,10 @@ class AnalyticsService {
           subjectAllocation: {
             isDeleted: false,
             semesterId,
-            semester: { isDeleted: false },
+            semester: {
+              isDeleted: false,
+              department: departmentScopeWhere(scope),
+            },
           },
           division: {
             isDeleted: false,
@@ -353,14 +376,18 @@ class AnalyticsService {
 
   // Retrieves a list of semesters that have associated feedback responses.
   public async getSemestersWithResponses(
+    scope: CollegeScope,
     academicYearId?: string,
     departmentId?: string
   ): Promise<SemesterWithResponsesOutput[]> {
+    if (departmentId) {
+      await assertDepartmentInScope(scope, departmentId);
+    }
     try {
       const whereClause: any = {
         isDeleted: false,
         academicYear: { isDeleted: false },
-        department: { isDeleted: false },
+        department: { isDeleted: false, ...departmentScopeWhere(scope) },
         allocations: {
           some: {
             isDeleted: false,
@@ -471,11 +498,16 @@ class AnalyticsService {
   // Gets subject-wise ratings split by lecture and lab types for a specific semester.
   public async getSubjectWiseLectureLabRating(
     semesterId: string,
+    scope: CollegeScope,
     academicYearId?: string
   ): Promise<SubjectWiseRatingOutput[]> {
     try {
       const semester = await prisma.semester.findUnique({
-        where: { id: semesterId, isDeleted: false },
+        where: {
+          id: semesterId,
+          isDeleted: false,
+          department: departmentScopeWhere(scope),
+        },
         select: { semesterNumber: true, academicYearId: true },
       });
 
@@ -492,7 +524,7 @@ class AnalyticsService {
       };
 
       const snapshots = await prisma.feedbackSnapshot.findMany({
-        where: whereClause,
+        where: await this.scopeSnapshotWhere(whereClause, scope),
         select: {
           subjectName: true,
           questionCategoryName: true,
@@ -561,7 +593,8 @@ class AnalyticsService {
 
   // Identifies high-impact feedback areas (questions with significant low ratings) for a given semester.
   public async getHighImpactFeedbackAreas(
-    semesterId: string
+    semesterId: string,
+    scope: CollegeScope
   ): Promise<HighImpactFeedbackAreaOutput[]> {
     try {
       const LOW_RATING_THRESHOLD = 3;
@@ -575,7 +608,10 @@ class AnalyticsService {
             subjectAllocation: {
               isDeleted: false,
               semesterId,
-              semester: { isDeleted: false },
+              semester: {
+                isDeleted: false,
+                department: departmentScopeWhere(scope),
+              },
             },
           },
         },
@@ -635,35 +671,36 @@ class AnalyticsService {
     }
   }
 
-  // Analyzes performance trends across semesters for subjects.
+  // Analyzes performance trends across semesters for subjects using the materialized FeedbackAnalytics rows.
   public async getSemesterTrendAnalysis(
+    scope: CollegeScope,
     subjectId?: string,
     academicYearId?: string
   ): Promise<SemesterTrendAnalysisOutput[]> {
     try {
-      const whereClause: Prisma.FeedbackSnapshotWhereInput = {
-        isDeleted: false,
-        formDeleted: false,
-        ...(subjectId && { subjectId }),
-        ...(academicYearId && { academicYearId }),
-      };
-
-      const snapshots = await prisma.feedbackSnapshot.findMany({
-        where: whereClause,
+      const rows = await prisma.feedbackAnalytics.findMany({
+        where: {
+          isDeleted: false,
+          ...(academicYearId && { academicYearId }),
+          subjectAllocation: {
+            isDeleted: false,
+            ...(subjectId && { subjectId }),
+            department: departmentScopeWhere(scope),
+          },
+        },
         select: {
-          semesterNumber: true,
-          subjectName: true,
-          responseValue: true,
-          academicYearString: true,
+          averageRating: true,
+          responseCount: true,
+          subjectAllocation: {
+            select: {
+              subject: { select: { name: true } },
+              semester: { select: { semesterNumber: true } },
+            },
+          },
         },
-        orderBy: [
-          { academicYearString: 'asc' },
-          { semesterNumber: 'asc' },
-          { subjectName: 'asc' },
-        ],
       });
 
-      if (!snapshots.length) {
+      if (!rows.length) {
         throw new AppError(
           'No trend data available for the given criteria.',
           404
@@ -671,32 +708,34 @@ class AnalyticsService {
       }
 
       const groupedData = this.groupBy(
-        snapshots,
-        (snapshot) => `${snapshot.semesterNumber}|${snapshot.subjectName}`
+        rows,
+        (row) =>
+          `${row.subjectAllocation.semester.semesterNumber}|${row.subjectAllocation.subject.name}`
       );
 
       const trends: SemesterTrendAnalysisOutput[] = Object.entries(
         groupedData
-      ).map(([key, snapshots]) => {
+      ).map(([key, rows]) => {
         const [semesterNumber, subjectName] = key.split('|');
 
-        const numericResponses = snapshots
-          .map((snapshot) =>
-            this.parseResponseValueToScore(snapshot.responseValue)
-          )
-          .filter((score): score is number => score !== null);
-
+        // Each allocation's average is weighted by the number of students who rated it.
+        const responseCount = rows.reduce(
+          (acc, row) => acc + row.responseCount,
+          0
+        );
         const avgRating =
-          numericResponses.length > 0
-            ? numericResponses.reduce((acc, score) => acc + score, 0) /
-            numericResponses.length
+          responseCount > 0
+            ? rows.reduce(
+                (acc, row) => acc + row.averageRating * row.responseCount,
+                0
+              ) / responseCount
             : 0;
 
         return {
           semester: parseInt(semesterNumber),
           subject: subjectName,
           averageRating: Number(avgRating.toFixed(2)),
-          responseCount: snapshots.length,
+          responseCount,
         };
       });
 
@@ -715,42 +754,68 @@ class AnalyticsService {
     }
   }
 
-  // Retrieves annual performance trends based on aggregated feedback analytics.
-  public async getAnnualPerformanceTrend(): Promise<
-    AnnualPerformanceTrendOutput[]
-  > {
+  // Retrieves annual performance trends from the materialized FeedbackAnalytics rows, grouped by academic year.
+  public async getAnnualPerformanceTrend(
+    scope: CollegeScope
+  ): Promise<AnnualPerformanceTrendOutput[]> {
     try {
-      const annualTrends = await prisma.feedbackAnalytics.groupBy({
-        by: ['calculatedAt'],
-        where: { isDeleted: false },
-        _avg: {
+      const rows = await prisma.feedbackAnalytics.findMany({
+        where: {
+          isDeleted: false,
+          academicYear: { isDeleted: false },
+          subjectAllocation: { department: departmentScopeWhere(scope) },
+        },
+        select: {
           averageRating: true,
+          responseCount: true,
           completionRate: true,
-        },
-        orderBy: {
-          calculatedAt: 'asc',
+          academicYear: { select: { yearString: true } },
         },
       });
 
-      if (!annualTrends.length) {
+      if (!rows.length) {
         throw new AppError('No annual performance data available.', 404);
       }
 
-      const formattedTrends: AnnualPerformanceTrendOutput[] = annualTrends.map(
-        (trend) => ({
-          year: new Date(trend.calculatedAt).getFullYear(),
-          averageRating: Number(trend._avg.averageRating?.toFixed(2) ?? 0),
-          completionRate: Number(trend._avg.completionRate?.toFixed(2) ?? 0),
-        })
+      const groupedData = this.groupBy(
+        rows,
+        (row) => row.academicYear.yearString
       );
 
-      return formattedTrends;
+      const formattedTrends: AnnualPerformanceTrendOutput[] = Object.entries(
+        groupedData
+      ).map(([yearString, rows]) => {
+        const responseCount = rows.reduce(
+          (acc, row) => acc + row.responseCount,
+          0
+        );
+        const averageRating =
+          responseCount > 0
+            ? rows.reduce(
+                (acc, row) => acc + row.averageRating * row.responseCount,
+                0
+              ) / responseCount
+            : 0;
+        const completionRate =
+          rows.reduce((acc, row) => acc + row.completionRate, 0) / rows.length;
+
+        return {
+          year: parseInt(yearString),
+          academicYear: yearString,
+          averageRating: Number(averageRating.toFixed(2)),
+          completionRate: Number(completionRate.toFixed(2)),
+        };
+      });
+
+      return formattedTrends.sort((a, b) =>
+        a.academicYear.localeCompare(b.academicYear)
+      );
     } catch (error: any) {
       console.error(
         'Error in AnalyticsService.getAnnualPerformanceTrend:',
         error
       );
-      console.error('Full error details:', JSON.stringify(error, null, 2));
+      if (error instanceof AppError) throw error;
 
       if (error instanceof Prisma.PrismaClientKnownRequestError) {
         throw new AppError(
@@ -764,7 +829,8 @@ class AnalyticsService {
 
   // Compares average ratings across different divisions and batches for a given semester.
   public async getDivisionBatchComparisons(
-    semesterId: string
+    semesterId: string,
+    scope: CollegeScope
   ): Promise<DivisionBatchComparisonOutput[]> {
     try {
       const forms = await prisma.feedbackForm.findMany({
@@ -773,7 +839,10 @@ class AnalyticsService {
           subjectAllocation: {
             isDeleted: false,
             semesterId,
-            semester: { isDeleted: false },
+            semester: {
+              isDeleted: false,
+              department: departmentScopeWhere(scope),
+            },
           },
           division: { isDeleted: false },
         },
@@ -872,7 +941,8 @@ class AnalyticsService {
 
   // Compares average ratings between different lecture types (e.g., LECTURE, LAB) for a given semester.
   public async getLabLectureComparison(
-    semesterId: string
+    semesterId: string,
+    scope: CollegeScope
   ): Promise<LabLectureComparisonOutput[]> {
     try {
       const forms = await prisma.feedbackForm.findMany({
@@ -881,7 +951,10 @@ class AnalyticsService {
           subjectAllocation: {
             isDeleted: false,
             semesterId,
-            semester: { isDeleted: false },
+            semester: {
+              isDeleted: false,
+              department: departmentScopeWhere(scope),
+            },
           },
         },
         select: {
@@ -961,17 +1034,21 @@ class AnalyticsService {
   // Retrieves performance data for a single faculty member across semesters for a given academic year.
   public async getFacultyPerformanceYearData(
     academicYearId: string,
-    facultyId: string
+    facultyId: string,
+    scope: CollegeScope
   ): Promise<FacultyPerformanceYearDataOutput> {
     try {
       const feedbackSnapshots = await prisma.feedbackSnapshot.findMany({
-        where: {
-          facultyId: facultyId,
-          academicYearId: academicYearId,
-          questionType: 'rating',
-          formDeleted: false,
-          isDeleted: false,
-        },
+        where: await this.scopeSnapshotWhere(
+          {
+            facultyId: facultyId,
+            academicYearId: academicYearId,
+            questionType: 'rating',
+            formDeleted: false,
+            isDeleted: false,
+          },
+          scope
+        ),
         select: {
           id: true,
           semesterNumber: true,
@@ -986,7 +1063,11 @@ class AnalyticsService {
 
       if (feedbackSnapshots.length === 0) {
         const faculty = await prisma.faculty.findUnique({
-          where: { id: facultyId, isDeleted: false },
+          where: {
+            id: facultyId,
+            isDeleted: false,
+            department: departmentScopeWhere(scope),
+          },
           select: { name: true },
         });
         const academicYear = await prisma.academicYear.findUnique({
@@ -1070,16 +1151,20 @@ class AnalyticsService {
 
   // Retrieves performance data for all faculty members for a given academic year.
   public async getAllFacultyPerformanceData(
-    academicYearId: string
+    academicYearId: string,
+    scope: CollegeScope
   ): Promise<AllFacultyPerformanceDataOutput> {
     try {
       const feedbackSnapshots = await prisma.feedbackSnapshot.findMany({
-        where: {
-          academicYearId: academicYearId,
-          questionType: 'rating',
-          formDeleted: false,
-          isDeleted: false,
-        },
+        where: await this.scopeSnapshotWhere(
+          {
+            academicYearId: academicYearId,
+            questionType: 'rating',
+            formDeleted: false,
+            isDeleted: false,
+          },
+          scope
+        ),
         select: {
           id: true,
           facultyId: true,
@@ -1204,12 +1289,15 @@ class AnalyticsService {
     }
   }
 
-  // Retrieves the total number of student responses.
-  public async getTotalResponses(): Promise<number> {
+  // Retrieves the total number of student responses in the scope.
+  public async getTotalResponses(scope: CollegeScope): Promise<number> {
     try {
       const totalResponses = await prisma.studentResponse.count({
         where: {
           isDeleted: false,
+          feedbackForm: {
+            division: { department: departmentScopeWhere(scope) },
+          },
         },
       });
       return totalResponses;
@@ -1220,14 +1308,15 @@ class AnalyticsService {
   }
 
   // Retrieves semesters and their divisions, including response counts for each division.
-  public async getSemesterDivisionsWithResponseCounts(): Promise<
-    SemesterDivisionResponseOutput[]
-  > {
+  public async getSemesterDivisionsWithResponseCounts(
+    scope: CollegeScope
+  ): Promise<SemesterDivisionResponseOutput[]> {
     try {
       const semesters = await prisma.semester.findMany({
         where: {
           isDeleted: false,
           academicYear: { isDeleted: false },
+          department: departmentScopeWhere(scope),
         },
         select: {
           id: true,
@@ -1311,7 +1400,9 @@ class AnalyticsService {
   }
 
   // Gets the filter dictionary with Academic Years -> Departments -> Subjects hierarchy.
-  public async getFilterDictionary(): Promise<FilterDictionaryOutput> {
+  public async getFilterDictionary(
+    scope: CollegeScope
+  ): Promise<FilterDictionaryOutput> {
     try {
       const academicYears = await prisma.academicYear.findMany({
         where: {
@@ -1338,6 +1429,7 @@ class AnalyticsService {
         const departments = await prisma.department.findMany({
           where: {
             isDeleted: false,
+            ...departmentScopeWhere(scope),
             semesters: {
               some: {
                 academicYearId: year.id,
@@ -1757,6 +1849,7 @@ class AnalyticsService {
   //   }
   // }
   public async getCompleteAnalyticsData(
+    scope: CollegeScope,
     academicYearId?: string,
     departmentId?: string,
     subjectId?: string,
@@ -1765,14 +1858,19 @@ class AnalyticsService {
     lectureType?: LectureType,
     includeDeleted = false
   ): Promise<CompleteAnalyticsDataOutput> {
+    if (departmentId) {
+      await assertDepartmentInScope(scope, departmentId);
+    }
     try {
       const semesterWhereClause: Prisma.SemesterWhereInput = {
         isDeleted: includeDeleted ? undefined : false,
+        department: departmentScopeWhere(scope),
       };
 
       if (!includeDeleted) {
         semesterWhereClause.department = {
           isDeleted: false,
+          ...departmentScopeWhere(scope),
         };
       }
 
@@ -1897,7 +1995,7 @@ class AnalyticsService {
       }
 
       let feedbackSnapshots = await prisma.feedbackSnapshot.findMany({
-        where: snapshotWhereClause,
+        where: await this.scopeSnapshotWhere(snapshotWhereClause, scope),
         select: {
           id: true,
           academicYearId: true,
@@ -2089,6 +2187,7 @@ class AnalyticsService {
   // Returns pre-aggregated data instead of raw snapshots
 
   public async getOptimizedAnalyticsData(
+    scope: CollegeScope,
     academicYearId?: string,
     departmentId?: string,
     subjectId?: string,
@@ -2097,6 +2196,9 @@ class AnalyticsService {
     lectureType?: 'LECTURE' | 'LAB',
     includeDeleted: boolean = false
   ): Promise<OptimizedAnalyticsResponse> {
+    if (departmentId) {
+      await assertDepartmentInScope(scope, departmentId);
+    }
     try {
       const conditions: Prisma.Sql[] = [];
 
@@ -2120,6 +2222,15 @@ class AnalyticsService {
       if (semesterId) conditions.push(Prisma.sql`semester_id = ${semesterId}`);
       if (divisionId) conditions.push(Prisma.sql`division_id = ${divisionId}`);
 
+      const scopedDepartmentIds = await getScopedDepartmentIds(scope);
+      if (scopedDepartmentIds) {
+        conditions.push(
+          scopedDepartmentIds.length
+            ? Prisma.sql`department_id IN (${Prisma.join(scopedDepartmentIds)})`
+            : Prisma.sql`FALSE`
+        );
+      }
+
       const labCondition = Prisma.sql`question_category_name ILIKE '%laboratory%' OR question_category_name ILIKE '%lab%' OR (question_batch IS NOT NULL AND question_batch NOT ILIKE 'none')`;
 
       if (lectureType === 'LAB') {
@@ -2129,7 +2240,8 @@ class AnalyticsService {
       }
 
       const whereSql = Prisma.sql`WHERE ${Prisma.join(conditions, ' AND ')}`;
-      const scoreExpr = Prisma.sql`CAST(COALESCE(NULLIF(response_value->>'score', ''), NULLIF(response_value#>>'{}', '')) AS NUMERIC)`;
+      // Only rating answers are scored, on one scale whatever the question's bounds.
+      const scoreExpr = RATING_SCORE_SQL;
 
       // 1. Overall Stats
       const overallQuery = prisma.$queryRaw<any[]>`
@@ -2493,10 +2605,14 @@ class AnalyticsService {
 
   public async getSubjectDetailedAnalytics(
     subjectId: string,
+    scope: CollegeScope,
     academicYearId?: string,
     semesterId?: string,
     departmentId?: string
   ): Promise<SubjectDetailedAnalytics> {
+    if (departmentId) {
+      await assertDepartmentInScope(scope, departmentId);
+    }
     try {
       // Build where conditions for FeedbackSnapshot table
       const whereClause: Prisma.FeedbackSnapshotWhereInput = {
@@ -2523,7 +2639,7 @@ class AnalyticsService {
 
       // Fetch subject data from FeedbackSnapshot (same source as getCompleteAnalyticsData)
       const snapshots = await prisma.feedbackSnapshot.findMany({
-        where: whereClause,
+        where: await this.scopeSnapshotWhere(whereClause, scope),
         select: {
           subjectId: true,
           subjectName: true,
@@ -2546,7 +2662,7 @@ class AnalyticsService {
       if (snapshots.length === 0) {
         // Check if the subject exists at all
         const subjectExists = await prisma.subject.findUnique({
-          where: { id: subjectId },
+          where: { id: subjectId, department: departmentScopeWhere(scope) },
           select: { id: true, name: true, isDeleted: true },
         });
 
@@ -2743,6 +2859,7 @@ class AnalyticsService {
 
   public async getFacultyDetailedAnalytics(
     facultyId: string,
+    scope: CollegeScope,
     academicYearId?: string
   ): Promise<FacultyDetailedAnalytics> {
     try {
@@ -2764,7 +2881,7 @@ class AnalyticsService {
 
       // Fetch faculty data from FeedbackSnapshot (same source as getCompleteAnalyticsData)
       const snapshots = await prisma.feedbackSnapshot.findMany({
-        where: whereClause,
+        where: await this.scopeSnapshotWhere(whereClause, scope),
         select: {
           facultyId: true,
           facultyName: true,
@@ -2789,7 +2906,7 @@ class AnalyticsService {
       if (snapshots.length === 0) {
         // Check if the faculty exists at all
         const facultyExists = await prisma.faculty.findUnique({
-          where: { id: facultyId },
+          where: { id: facultyId, department: departmentScopeWhere(scope) },
           select: { id: true, name: true, isDeleted: true },
         });
 
@@ -2832,12 +2949,15 @@ class AnalyticsService {
 
       // Get faculty rank using FeedbackSnapshot
       const allFacultySnapshots = await prisma.feedbackSnapshot.findMany({
-        where: {
-          isDeleted: false,
-          formIsDeleted: false,
-          academicYearIsDeleted: false,
-          ...(academicYearId && { academicYearId }),
-        },
+        where: await this.scopeSnapshotWhere(
+          {
+            isDeleted: false,
+            formIsDeleted: false,
+            academicYearIsDeleted: false,
+            ...(academicYearId && { academicYearId }),
+          },
+          scope
+        ),
         select: {
           facultyId: true,
           facultyName: true,
@@ -3061,6 +3181,7 @@ class AnalyticsService {
 
   public async getDivisionDetailedAnalytics(
     divisionId: string,
+    scope: CollegeScope,
     academicYearId?: string
   ): Promise<DivisionDetailedAnalytics> {
     try {
@@ -3083,7 +3204,7 @@ class AnalyticsService {
 
       // Fetch division data from FeedbackSnapshot (same source as getCompleteAnalyticsData)
       const snapshots = await prisma.feedbackSnapshot.findMany({
-        where: whereClause,
+        where: await this.scopeSnapshotWhere(whereClause, scope),
         select: {
           divisionId: true,
           divisionName: true,
@@ -3108,7 +3229,7 @@ class AnalyticsService {
       if (snapshots.length === 0) {
         // Check if the division exists at all
         const divisionExists = await prisma.division.findUnique({
-          where: { id: divisionId },
+          where: { id: divisionId, department: departmentScopeWhere(scope) },
           select: { id: true, divisionName: true, isDeleted: true },
         });
 
@@ -0,0 +1,483 @@
+/**
+ * @file src/services/analyticsExport/analyticsExport.service.ts
+ * @description Service layer for exporting analytics reports as Excel workbooks.
+ * Renders the detailed analytics and all-faculty performance data into formatted .xlsx files.
+ */
+
+import ExcelJS from 'exceljs';
+import { analyticsService } from '../analytics/analytics.service';
+import { CollegeScope } from '../college/collegeScope';
+
+interface ExportedWorkbook {
+  fileName: string;
+  buffer: Buffer;
+}
+
+interface SheetColumn<T> {
+  header: string;
+  width: number;
+  value: (row: T) => string | number | null;
+  isRating?: boolean;
+}
+
+type SummaryEntry = [label: string, value: string | number | null];
+
+// Ratings below this value are highlighted, matching the analytics low-rating threshold.
+const LOW_RATING_THRESHOLD = 3;
+
+const HEADER_FILL: ExcelJS.Fill = {
+  type: 'pattern',
+  pattern: 'solid',
+  fgColor: { argb: 'FF1F4E78' },
+};
+
+const LOW_RATING_STYLE: Partial<ExcelJS.Style> = {
+  fill: { type: 'pattern', pattern: 'solid', bgColor: { argb: 'FFFFC7CE' } },
+  font: { color: { argb: 'FF9C0006' } },
+};
+
+// Converts a display name into a safe file name fragment.
+const toFileNamePart = (value: string): string =>
+  value
+    .trim()
+    .replace(/[^a-zA-Z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .toLowerCase() || 'report';
+
+class AnalyticsExportService {
+  // Creates an empty workbook with standard metadata.
+  private createWorkbook(): ExcelJS.Workbook {
+    const workbook = new ExcelJS.Workbook();
+    workbook.creator = 'Reflectify';
+    workbook.created = new Date();
+    return workbook;
+  }
+
+  // Styles the header row of a sheet and freezes it.
+  private styleHeaderRow(worksheet: ExcelJS.Worksheet): void {
+    const headerRow = worksheet.getRow(1);
+    headerRow.font = { bold: true, color: { argb: 'FFFFFFFF' } };
+    headerRow.fill = HEADER_FILL;
+    headerRow.alignment = { vertical: 'middle', horizontal: 'center' };
+    headerRow.height = 20;
+    worksheet.views = [{ state: 'frozen', ySplit: 1 }];
+  }
+
+  // Adds a sheet of label/value pairs describing the report.
+  private addSummarySheet(
+    workbook: ExcelJS.Workbook,
+    title: string,
+    entries: SummaryEntry[]
+  ): void {
+    const worksheet = workbook.addWorksheet('Summary');
+    worksheet.columns = [
+      { header: title, width: 28 },
+      { header: '', width: 40 },
+    ];
+    worksheet.mergeCells('A1:B1');
+    this.styleHeaderRow(worksheet);
+
+    for (const [label, value] of [
+      ...entries,
+      ['Generated At', new Date().toLocaleString('en-IN')] as SummaryEntry,
+    ]) {
+      const row = worksheet.addRow([label, value ?? 'N/A']);
+      row.getCell(1).font = { bold: true };
+      row.getCell(2).alignment = { horizontal: 'left' };
+    }
+  }
+
+  // Adds a table sheet with a styled header, filters and low-rating highlighting.
+  private addTableSheet<T>(
+    workbook: ExcelJS.Workbook,
+    name: string,
+    columns: SheetColumn<T>[],
+    rows: T[]
+  ): void {
+    const worksheet = workbook.addWorksheet(name);
+    worksheet.columns = columns.map((column) => ({
+      header: column.header,
+      width: column.width,
+    }));
+    this.styleHeaderRow(worksheet);
+
+    if (!rows.length) {
+      worksheet.addRow(['No data available.']);
+      return;
+    }
+
+    for (const row of rows) {
+      worksheet.addRow(columns.map((column) => column.value(row)));
+    }
+
+    worksheet.autoFilter = {
+      from: { row: 1, column: 1 },
+      to: { row: 1, column: columns.length },
+    };
+
+    const lastRow = rows.length + 1;
+    columns.forEach((column, index) => {
+      if (!column.isRating) return;
+      const letter = worksheet.getColumn(index + 1).letter;
+      worksheet.getColumn(index + 1).numFmt = '0.00';
+      // Blank cells are skipped so missing ratings are not flagged as low.
+      worksheet.addConditionalFormatting({
+        ref: `${letter}2:${letter}${lastRow}`,
+        rules: [
+          {
+            type: 'expression',
+            priority: 1,
+            formulae: [
+              `AND(ISNUMBER(${letter}2),${letter}2<${LOW_RATING_THRESHOLD})`,
+            ],
+            style: LOW_RATING_STYLE,
+          },
+        ],
+      });
+    });
+  }
+
+  // Serializes a workbook into a downloadable file.
+  private async toExportedWorkbook(
+    workbook: ExcelJS.Workbook,
+    fileName: string
+  ): Promise<ExportedWorkbook> {
+    const buffer = Buffer.from(await workbook.xlsx.writeBuffer());
+    return { fileName: `${fileName}.xlsx`, buffer };
+  }
+
+  // Exports the detailed analytics of a faculty member.
+  public async exportFacultyDetailedAnalytics(
+    facultyId: string,
+    scope: CollegeScope,
+    academicYearId?: string
+  ): Promise<ExportedWorkbook> {
+    const data = await analyticsService.getFacultyDetailedAnalytics(
+      facultyId,
+      scope,
+      academicYearId
+    );
+    const workbook = this.createWorkbook();
+
+    this.addSummarySheet(workbook, 'Faculty Analytics', [
+      ['Faculty', data.faculty.name],
+      ['Abbreviation', data.faculty.abbreviation],
+      ['Designation', data.faculty.designation],
+      ['Overall Rating', data.overallRating],
+      ['Total Responses', data.totalResponses],
+      ['Rank', `${data.rank} of ${data.totalFaculty}`],
+    ]);
+
+    this.addTableSheet(
+      workbook,
+      'Subjects',
+      [
+        { header: 'Subject', width: 32, value: (r) => r.subjectName },
+        {
+          header: 'Abbreviation',
+          width: 14,
+          value: (r) => r.subjectAbbreviation,
+        },
+        { header: 'Type', width: 10, value: (r) => r.lectureType },
+        { header: 'Semester', width: 10, value: (r) => r.semester },
+        { header: 'Academic Year', width: 14, value: (r) => r.academicYear },
+        { header: 'Rating', width: 10, value: (r) => r.rating, isRating: true },
+        { header: 'Responses', width: 12, value: (r) => r.responses },
+      ],
+      data.subjectBreakdown
+    );
+
+    this.addTableSheet(
+      workbook,
+      'Divisions',
+      [
+        { header: 'Division', width: 12, value: (r) => r.divisionName },
+        { header: 'Subject', width: 32, value: (r) => r.subjectName },
+        { header: 'Type', width: 10, value: (r) => r.lectureType },
+        { header: 'Rating', width: 10, value: (r) => r.rating, isRating: true },
+        { header: 'Responses', width: 12, value: (r) => r.responses },
+      ],
+      data.divisionBreakdown
+    );
+
+    this.addTableSheet(
+      workbook,
+      'Question Categories',
+      [
+        { header: 'Category', width: 32, value: (r) => r.category },
+        {
+          header: 'Average Rating',
+          width: 16,
+          value: (r) => r.avgRating,
+          isRating: true,
+        },
+        { header: 'Questions', width: 12, value: (r) => r.questionCount },
+      ],
+      data.questionCategoryBreakdown
+    );
+
+    this.addTableSheet(
+      workbook,
+      'Trend',
+      [
+        { header: 'Academic Year', width: 14, value: (r) => r.academicYear },
+        { header: 'Semester', width: 10, value: (r) => r.semester },
+        { header: 'Rating', width: 10, value: (r) => r.rating, isRating: true },
+        { header: 'Responses', width: 12, value: (r) => r.responses },
+      ],
+      data.trendData
+    );
+
+    return this.toExportedWorkbook(
+      workbook,
+      `faculty-analytics-${toFileNamePart(data.faculty.abbreviation || data.faculty.name)}`
+    );
+  }
+
+  // Exports the detailed analytics of a subject.
+  public async exportSubjectDetailedAnalytics(
+    subjectId: string,
+    scope: CollegeScope,
+    academicYearId?: string,
+    semesterId?: string,
+    departmentId?: string
+  ): Promise<ExportedWorkbook> {
+    const data = await analyticsService.getSubjectDetailedAnalytics(
+      subjectId,
+      scope,
+      academicYearId,
+      semesterId,
+      departmentId
+    );
+    const workbook = this.createWorkbook();
+
+    this.addSummarySheet(workbook, 'Subject Analytics', [
+      ['Subject', data.subject.name],
+      ['Code', data.subject.code],
+      ['Abbreviation', data.subject.abbreviation],
+      ['Overall Rating', data.overallRating],
+      ['Lecture Rating', data.lectureRating],
+      ['Lab Rating', data.labRating],
+      ['Total Responses', data.totalResponses],
+      ['Lecture Responses', data.lectureResponses],
+      ['Lab Responses', data.labResponses],
+    ]);
+
+    this.addTableSheet(
+      workbook,
+      'Faculty',
+      [
+        { header: 'Faculty', width: 28, value: (r) => r.facultyName },
+        {
+          header: 'Abbreviation',
+          width: 14,
+          value: (r) => r.facultyAbbreviation,
+        },
+        { header: 'Type', width: 10, value: (r) => r.lectureType },
+        {
+          header: 'Divisions',
+          width: 20,
+          value: (r) => r.divisions.join(', '),
+        },
+        { header: 'Rating', width: 10, value: (r) => r.rating, isRating: true },
+        { header: 'Responses', width: 12, value: (r) => r.responses },
+      ],
+      data.facultyBreakdown
+    );
+
+    this.addTableSheet(
+      workbook,
+      'Divisions',
+      [
+        { header: 'Division', width: 12, value: (r) => r.divisionName },
+        {
+          header: 'Lecture Rating',
+          width: 15,
+          value: (r) => r.lectureRating,
+          isRating: true,
+        },
+        {
+          header: 'Lab Rating',
+          width: 12,
+          value: (r) => r.labRating,
+          isRating: true,
+        },
+        {
+          header: 'Overall Rating',
+          width: 15,
+          value: (r) => r.totalRating,
+          isRating: true,
+        },
+        { header: 'Responses', width: 12, value: (r) => r.responses },
+      ],
+      data.divisionBreakdown
+    );
+
+    this.addTableSheet(
+      workbook,
+      'Question Categories',
+      [
+        { header: 'Category', width: 32, value: (r) => r.categoryName },
+        {
+          header: 'Average Rating',
+          width: 16,
+          value: (r) => r.avgRating,
+          isRating: true,
+        },
+        { header: 'Questions', width: 12, value: (r) => r.questionCount },
+      ],
+      data.questionBreakdown
+    );
+
+    return this.toExportedWorkbook(
+      workbook,
+      `subject-analytics-${toFileNamePart(data.subject.code || data.subject.name)}`
+    );
+  }
+
+  // Exports the detailed analytics of a division.
+  public async exportDivisionDetailedAnalytics(
+    divisionId: string,
+    scope: CollegeScope,
+    academicYearId?: string
+  ): Promise<ExportedWorkbook> {
+    const data = await analyticsService.getDivisionDetailedAnalytics(
+      divisionId,
+      scope,
+      academicYearId
+    );
+    const workbook = this.createWorkbook();
+
+    this.addSummarySheet(workbook, 'Division Analytics', [
+      ['Division', data.division.name],
+      ['Department', data.division.departmentName],
+      ['Semester', data.division.semesterNumber],
+      ['Overall Rating', data.overallRating],
+      ['Total Responses', data.totalResponses],
+    ]);
+
+    this.addTableSheet(
+      workbook,
+      'Faculty',
+      [
+        { header: 'Faculty', width: 28, value: (r) => r.facultyName },
+        {
+          header: 'Abbreviation',
+          width: 14,
+          value: (r) => r.facultyAbbreviation,
+        },
+        { header: 'Subject', width: 32, value: (r) => r.subjectName },
+        { header: 'Type', width: 10, value: (r) => r.lectureType },
+        { header: 'Rating', width: 10, value: (r) => r.rating, isRating: true },
+        { header: 'Responses', width: 12, value: (r) => r.responses },
+      ],
+      data.facultyBreakdown
+    );
+
+    this.addTableSheet(
+      workbook,
+      'Subjects',
+      [
+        { header: 'Subject', width: 32, value: (r) => r.subjectName },
+        {
+          header: 'Abbreviation',
+          width: 14,
+          value: (r) => r.subjectAbbreviation,
+        },
+        {
+          header: 'Lecture Rating',
+          width: 15,
+          value: (r) => r.lectureRating,
+          isRating: true,
+        },
+        {
+          header: 'Lab Rating',
+          width: 12,
+          value: (r) => r.labRating,
+          isRating: true,
+        },
+        {
+          header: 'Overall Rating',
+          width: 15,
+          value: (r) => r.totalRating,
+          isRating: true,
+        },
+        { header: 'Responses', width: 12, value: (r) => r.responses },
+      ],
+      data.subjectBreakdown
+    );
+
+    this.addTableSheet(
+      workbook,
+      'Trend',
+      [
+        {
+          header: 'Academic Year',
+          width: 14,
+          value: (r) => r.academicYearString,
+        },
+        { header: 'Rating', width: 10, value: (r) => r.rating, isRating: true },
+        { header: 'Responses', width: 12, value: (r) => r.responses },
+      ],
+      data.academicYearComparison
+    );
+
+    return this.toExportedWorkbook(
+      workbook,
+      `division-analytics-sem${data.division.semesterNumber}-${toFileNamePart(data.division.name)}`
+    );
+  }
+
+  // Exports the semester-wise performance table of every faculty member for an academic year.
+  public async exportAllFacultyPerformance(
+    academicYearId: string,
+    scope: CollegeScope
+  ): Promise<ExportedWorkbook> {
+    const data = await analyticsService.getAllFacultyPerformanceData(
+      academicYearId,
+      scope
+    );
+    const workbook = this.createWorkbook();
+
+    type FacultyRow = (typeof data.faculties)[number];
+    const semesterColumns: SheetColumn<FacultyRow>[] = Array.from(
+      { length: 8 },
+      (_, index) => ({
+        header: `Semester ${index + 1}`,
+        width: 12,
+        value: (r) => (r[`semester ${index + 1}`] as number | null) ?? null,
+        isRating: true,
+      })
+    );
+
+    this.addTableSheet(
+      workbook,
+      'Faculty Performance',
+      [
+        { header: 'Faculty', width: 32, value: (r) => r.Faculty_name },
+        ...semesterColumns,
+        {
+          header: 'Overall Average',
+          width: 16,
+          value: (r) => r.total_average,
+          isRating: true,
+        },
+        {
+          header: 'Responses',
+          width: 12,
+          value: (r) => r.total_responses ?? 0,
+        },
+      ],
+      [...data.faculties].sort((a, b) =>
+        a.Faculty_name.localeCompare(b.Faculty_name)
+      )
+    );
+
+    return this.toExportedWorkbook(
+      workbook,
+      `faculty-performance-${toFileNamePart(data.academic_year)}`
+    );
+  }
+}
+
+export const analyticsExportService = new AnalyticsExportService();
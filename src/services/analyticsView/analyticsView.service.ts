@@ -0,0 +1,225 @@
+/**
+ * @file src/services/analyticsView/analyticsView.service.ts
+ * @description Service layer for saved analytics views.
+ * Stores named filter sets for the optimized analytics endpoint, owned by an admin and optionally shared
+ * with the other admins of the college they were saved for.
+ */
+
+import { AnalyticsView, Prisma } from '@prisma/client';
+import { prisma } from '../common/prisma.service';
+import AppError from '../../utils/appError';
+import { analyticsService } from '../analytics/analytics.service';
+import { OptimizedAnalyticsResponse } from '../analytics/analytics.interfaces';
+import {
+  CollegeScope,
+  collegeSharedRecordScopeWhere,
+  getRecordCollegeScope,
+} from '../college/collegeScope';
+import {
+  AnalyticsViewParameters,
+  analyticsViewParametersSchema,
+} from '../../utils/validators/analyticsView.validation';
+
+interface CreateAnalyticsViewInput {
+  viewName: string;
+  parameters: AnalyticsViewParameters;
+  isShared?: boolean;
+  // The college the view is shared in, optional for admins of a single college.
+  collegeId?: string;
+}
+
+interface UpdateAnalyticsViewInput extends Partial<
+  Omit<CreateAnalyticsViewInput, 'collegeId'>
+> {}
+
+interface AnalyticsViewData {
+  view: AnalyticsView;
+  analytics: OptimizedAnalyticsResponse;
+}
+
+// Identifies the query a view's parameters are applied to.
+const OPTIMIZED_DATA_QUERY = 'optimized-data';
+
+const viewInclude = {
+  admin: { select: { id: true, name: true } },
+} satisfies Prisma.AnalyticsViewInclude;
+
+// Limits views to the admin's own and those shared in the colleges of the scope.
+const visibleViewsWhere = (
+  adminId: string,
+  scope: CollegeScope
+): Prisma.AnalyticsViewWhereInput => ({
+  isDeleted: false,
+  OR: [
+    { adminId },
+    { isShared: true, ...collegeSharedRecordScopeWhere(scope) },
+  ],
+});
+
+class AnalyticsViewService {
+  // Retrieves a view visible to the admin: their own views and views shared in their colleges.
+  private async findVisibleView(
+    id: string,
+    adminId: string,
+    scope: CollegeScope
+  ): Promise<AnalyticsView> {
+    const view = await prisma.analyticsView.findFirst({
+      where: { id, ...visibleViewsWhere(adminId, scope) },
+      include: viewInclude,
+    });
+    if (!view) {
+      throw new AppError('Analytics view not found.', 404);
+    }
+    return view;
+  }
+
+  // Ensures the admin owns the view before it is changed.
+  private async assertOwnership(
+    id: string,
+    adminId: string,
+    scope: CollegeScope
+  ): Promise<void> {
+    const view = await this.findVisibleView(id, adminId, scope);
+    if (view.adminId !== adminId) {
+      throw new AppError('Only the owner can modify this analytics view.', 403);
+    }
+  }
+
+  // Retrieves the admin's own views along with views shared in their colleges.
+  public async getViews(
+    adminId: string,
+    scope: CollegeScope
+  ): Promise<AnalyticsView[]> {
+    try {
+      const views = await prisma.analyticsView.findMany({
+        where: visibleViewsWhere(adminId, scope),
+        include: viewInclude,
+        orderBy: { viewName: 'asc' },
+      });
+      return views;
+    } catch (error: any) {
+      console.error('Error in AnalyticsViewService.getViews:', error);
+      throw new AppError('Failed to retrieve analytics views.', 500);
+    }
+  }
+
+  // Retrieves a single view visible to the admin.
+  public async getViewById(
+    id: string,
+    adminId: string,
+    scope: CollegeScope
+  ): Promise<AnalyticsView> {
+    return this.findVisibleView(id, adminId, scope);
+  }
+
+  // Saves a new view owned by the admin, kept for a college in the scope.
+  public async createView(
+    adminId: string,
+    data: CreateAnalyticsViewInput,
+    scope: CollegeScope
+  ): Promise<AnalyticsView> {
+    const collegeScope = getRecordCollegeScope(scope, data.collegeId);
+
+    try {
+      const view = await prisma.analyticsView.create({
+        data: {
+          adminId,
+          viewName: data.viewName,
+          queryDefinition: OPTIMIZED_DATA_QUERY,
+          parameters: data.parameters,
+          isShared: data.isShared,
+          collegeId: collegeScope.collegeIds?.[0],
+          departmentId: collegeScope.departmentIds?.[0],
+        },
+        include: viewInclude,
+      });
+      return view;
+    } catch (error: any) {
+      console.error('Error in AnalyticsViewService.createView:', error);
+      throw new AppError('Failed to create analytics view.', 500);
+    }
+  }
+
+  // Updates a view owned by the admin.
+  public async updateView(
+    id: string,
+    adminId: string,
+    data: UpdateAnalyticsViewInput,
+    scope: CollegeScope
+  ): Promise<AnalyticsView> {
+    await this.assertOwnership(id, adminId, scope);
+
+    try {
+      const view = await prisma.analyticsView.update({
+        where: { id, isDeleted: false },
+        data,
+        include: viewInclude,
+      });
+      return view;
+    } catch (error: any) {
+      console.error(
+        `Error in AnalyticsViewService.updateView for ID ${id}:`,
+        error
+      );
+      if (error.code === 'P2025') {
+        throw new AppError('Analytics view not found for update.', 404);
+      }
+      throw new AppError('Failed to update analytics view.', 500);
+    }
+  }
+
+  // Soft deletes a view owned by the admin.
+  public async softDeleteView(
+    id: string,
+    adminId: string,
+    scope: CollegeScope
+  ): Promise<AnalyticsView> {
+    await this.assertOwnership(id, adminId, scope);
+
+    try {
+      const view = await prisma.analyticsView.update({
+        where: { id, isDeleted: false },
+        data: { isDeleted: true },
+      });
+      return view;
+    } catch (error: any) {
+      console.error(
+        `Error in AnalyticsViewService.softDeleteView for ID ${id}:`,
+        error
+      );
+      if (error.code === 'P2025') {
+        throw new AppError('Analytics view not found for deletion.', 404);
+      }
+      throw new AppError('Failed to soft delete analytics view.', 500);
+    }
+  }
+
+  // Computes the optimized analytics data for a view's saved filters.
+  public async getViewData(
+    id: string,
+    adminId: string,
+    scope: CollegeScope
+  ): Promise<AnalyticsViewData> {
+    const view = await this.findVisibleView(id, adminId, scope);
+
+    const parsed = analyticsViewParametersSchema.safeParse(view.parameters);
+    if (view.queryDefinition !== OPTIMIZED_DATA_QUERY || !parsed.success) {
+      throw new AppError('Analytics view has an invalid definition.', 400);
+    }
+    const filters = parsed.data;
+
+    const analytics = await analyticsService.getOptimizedAnalyticsData(
+      scope,
+      filters.academicYearId,
+      filters.departmentId,
+      filters.subjectId,
+      filters.semesterId,
+      filters.divisionId,
+      filters.lectureType
+    );
+
+    return { view, analytics };
+  }
+}
+
+export const analyticsViewService = new AnalyticsViewService();
@@ -1,87 +1,113 @@
 /**
  * @file src/services/auth/auth.service.ts
  * @description Service layer for authentication and admin management operations.
- * Handles user registration, login, profile retrieval, and password updates.
+ * Handles super admin registration, login, profile retrieval, password updates, and the
+ * emailed one-time password flows for password reset and passwordless login.
+ * Every login opens a session, after a two-factor code when the admin has enabled it;
+ * changing or resetting a password ends all of the admin's sessions.
  */
 
-import { Admin, Designation } from '@prisma/client';
+import { Admin, College, Designation, OtpPurpose } from '@prisma/client';
 import AppError from '../../utils/appError';
 import { prisma } from '../common/prisma.service';
-import { generateAuthToken } from '../../utils/jwt';
 import { hashPassword, comparePassword } from '../../utils/hash';
+import { generateTwoFactorToken, verifyTwoFactorToken } from '../../utils/jwt';
+import { otpService } from './otp.service';
+import { AuthTokens, SessionDevice, sessionService } from './session.service';
+import { twoFactorService } from './twoFactor.service';
+
+// An admin as returned to clients, without their password or two-factor secrets.
+export type PublicAdmin = Omit<
+  Admin,
+  | 'password'
+  | 'twoFactorSecret'
+  | 'twoFactorLastStep'
+  | 'twoFactorFailures'
+  | 'twoFactorLockedAt'
+>;
+
+export const toPublicAdmin = ({
+  password: _password,
+  twoFactorSecret: _secret,
+  twoFactorLastStep: _lastStep,
+  twoFactorFailures: _failures,
+  twoFactorLockedAt: _lockedAt,
+  ...admin
+}: Admin): PublicAdmin => admin;
+
+// The result of a login: a new session, or a challenge for the admin's two-factor code.
+export type LoginResult =
+  | ({ admin: PublicAdmin } & AuthTokens)
+  | { twoFactorRequired: true; twoFactorToken: string };
 
 class AuthService {
-  // Creates a new admin (regular or super).
-  public async createAdmin(
+  // Opens a session for an admin who passed their first factor, unless a two-factor code is due.
+  private async startSession(
+    admin: Admin,
+    device: SessionDevice
+  ): Promise<LoginResult> {
+    if (admin.twoFactorEnabled) {
+      return {
+        twoFactorRequired: true,
+        twoFactorToken: generateTwoFactorToken(admin.id),
+      };
+    }
+    const tokens = await sessionService.createSession(admin, device);
+    return { admin: toPublicAdmin(admin), ...tokens };
+  }
+
+  /**
+   * Creates the platform super admin, which bootstraps a fresh installation.
+   * Every other admin joins through an invitation.
+   */
+  public async createSuperAdmin(
     data: {
       name: string;
       email: string;
       password: string;
-      designation: string;
     },
-    isSuper: boolean
-  ): Promise<{ admin: Omit<Admin, 'password'>; token: string }> {
-    const { name, email, password, designation } = data;
-
-    // Check if email already exists for non-super admin registration
-    // Or if a super admin already exists when trying to register another super admin
-    if (!isSuper) {
-      const existingAdmin = await prisma.admin.findUnique({
-        where: { email, isDeleted: false }, // Check for active admins
-      });
-      if (existingAdmin) {
-        throw new AppError('Email already registered.', 400);
-      }
-    } else {
-      // Logic for super admin: only one super admin allowed
-      const existingSuperAdmin = await prisma.admin.findFirst({
-        where: { isSuper: true, isDeleted: false },
-      });
-      if (existingSuperAdmin) {
-        throw new AppError(
-          'Super admin already exists. Only one super admin is allowed.',
-          400
-        );
-      }
+    device: SessionDevice
+  ): Promise<{ admin: PublicAdmin } & AuthTokens> {
+    const { name, email, password } = data;
+
+    // Only one super admin allowed
+    const existingSuperAdmin = await prisma.admin.findFirst({
+      where: { isSuper: true, isDeleted: false },
+    });
+    if (existingSuperAdmin) {
+      throw new AppError(
+        'Super admin already exists. Only one super admin is allowed.',
+        400
+      );
     }
 
     // Hash password
     const hashedPassword = await hashPassword(password);
 
-    let finalDesignation: Designation;
-    if (isSuper) {
-      finalDesignation = Designation.SUPER_ADMIN;
-    } else {
-      if (!Object.values(Designation).includes(designation as Designation)) {
-        throw new AppError('Invalid designation provided.', 400);
-      }
-      finalDesignation = designation as Designation;
-    }
-
     // Create admin in the database
     const admin = await prisma.admin.create({
       data: {
         name,
         email,
         password: hashedPassword,
-        designation: finalDesignation,
-        isSuper,
+        designation: Designation.SUPER_ADMIN,
+        isSuper: true,
       },
     });
 
-    // Generate JWT token
-    const token = generateAuthToken(admin.id, admin.email, admin.isSuper);
+    // Open a session and generate its tokens
+    const tokens = await sessionService.createSession(admin, device);
 
     // Return admin data without the password
-    const { password: _, ...adminWithoutPassword } = admin;
-    return { admin: adminWithoutPassword, token };
+    return { admin: toPublicAdmin(admin), ...tokens };
   }
 
-  // Authenticates an admin and provides a JWT token.
+  // Authenticates an admin and opens a session for their device, or asks for their 2FA code.
   public async loginAdmin(
     email: string,
-    password: string
-  ): Promise<{ admin: Omit<Admin, 'password'>; token: string }> {
+    password: string,
+    device: SessionDevice
+  ): Promise<LoginResult> {
     const admin = await prisma.admin.findUnique({
       where: { email },
     });
@@ -98,18 +124,44 @@ class AuthService {
       throw new AppError('Invalid credentials.', 401);
     }
 
-    // Generate JWT token
-    const token = generateAuthToken(admin.id, admin.email, admin.isSuper);
+    return this.startSession(admin, device);
+  }
 
-    // Return admin data without the password
-    const { password: _, ...adminWithoutPassword } = admin;
-    return { admin: adminWithoutPassword, token };
+  /**
+   * Completes a login that was asked for a two-factor code, opening its session.
+   * @param twoFactorToken - The token returned by the first step of the login.
+   * @param code - A code from the authenticator app, or a recovery code.
+   */
+  public async completeTwoFactorLogin(
+    twoFactorToken: string,
+    code: string,
+    device: SessionDevice
+  ): Promise<{ admin: PublicAdmin } & AuthTokens> {
+    let adminId: string;
+    try {
+      adminId = verifyTwoFactorToken(twoFactorToken);
+    } catch {
+      throw new AppError('Your login has expired. Please log in again.', 401);
+    }
+
+    const admin = await prisma.admin.findUnique({
+      where: { id: adminId, isDeleted: false },
+    });
+    if (!admin) {
+      throw new AppError('Invalid credentials.', 401);
+    }
+    await twoFactorService.verifyLogin(admin, code);
+
+    const tokens = await sessionService.createSession(admin, device);
+    return { admin: toPublicAdmin(admin), ...tokens };
   }
 
-  // Retrieves an admin's profile by ID.
-  public async getAdminProfile(
-    adminId: string
-  ): Promise<Omit<Admin, 'password'>> {
+  // Retrieves an admin's profile by ID, with the colleges they belong to.
+  public async getAdminProfile(adminId: string): Promise<
+    PublicAdmin & {
+      colleges: { college: Pick<College, 'id' | 'name'> }[];
+    }
+  > {
     const admin = await prisma.admin.findUnique({
       where: { id: adminId, isDeleted: false }, // Ensure it's not soft-deleted
       select: {
@@ -117,10 +169,16 @@ class AuthService {
         name: true,
         email: true,
         designation: true,
+        departmentId: true,
         isSuper: true,
+        twoFactorEnabled: true,
         createdAt: true,
         updatedAt: true,
         isDeleted: true,
+        colleges: {
+          where: { college: { isDeleted: false } },
+          select: { college: { select: { id: true, name: true } } },
+        },
       },
     });
 
@@ -130,7 +188,7 @@ class AuthService {
     return admin;
   }
 
-  // Updates an admin's password.
+  // Updates an admin's password, logging them out on every device.
   public async updateAdminPassword(
     adminId: string,
     currentPassword: string,
@@ -158,8 +216,51 @@ class AuthService {
       where: { id: admin.id },
       data: { password: hashedPassword },
     });
+    await sessionService.revokeAllSessions(admin.id);
+
+    return 'Password updated successfully. Please log in again.';
+  }
+
+  // Emails a password reset OTP to the admin with the given email, if there is one.
+  public async requestPasswordReset(email: string): Promise<void> {
+    await otpService.sendOtp(email, OtpPurpose.PASSWORD_RESET);
+  }
+
+  // Sets a new password for the admin a password reset OTP was sent to, ending their sessions.
+  public async resetPassword(
+    email: string,
+    otp: string,
+    newPassword: string
+  ): Promise<string> {
+    const admin = await otpService.verifyOtp(
+      email,
+      otp,
+      OtpPurpose.PASSWORD_RESET
+    );
+
+    await prisma.admin.update({
+      where: { id: admin.id },
+      data: { password: await hashPassword(newPassword) },
+    });
+    await sessionService.revokeAllSessions(admin.id);
+
+    return 'Password reset successfully.';
+  }
+
+  // Emails a login OTP to the admin with the given email, if there is one.
+  public async requestLoginOtp(email: string): Promise<void> {
+    await otpService.sendOtp(email, OtpPurpose.LOGIN);
+  }
+
+  // Authenticates an admin with a login OTP instead of their password, or asks for their 2FA code.
+  public async loginWithOtp(
+    email: string,
+    otp: string,
+    device: SessionDevice
+  ): Promise<LoginResult> {
+    const admin = await otpService.verifyOtp(email, otp, OtpPurpose.LOGIN);
 
-    return 'Password updated successfully.';
+    return this.startSession(admin, device);
   }
 }
 
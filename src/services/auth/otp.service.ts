@@ -0,0 +1,150 @@
+/**
+ * @file src/services/auth/otp.service.ts
+ * @description Service layer for the one-time passwords emailed to admins.
+ * OTPs are stored hashed, expire, allow a limited number of attempts and are invalidated
+ * once used, so a code can never be replayed.
+ */
+
+import crypto from 'crypto';
+import { Admin, OtpPurpose } from '@prisma/client';
+import { prisma } from '../common/prisma.service';
+import AppError from '../../utils/appError';
+import { hashPassword, comparePassword } from '../../utils/hash';
+import { emailService } from '../email/email.service';
+import { getOtpTemplate } from '../../utils/emailTemplates/otp.template';
+
+const OTP_LENGTH = 6;
+const OTP_EXPIRY_MINUTES = 10;
+const MAX_OTP_ATTEMPTS = 5;
+// A new OTP is not sent while the previous one is this recent, so the endpoint cannot flood an inbox.
+const OTP_RESEND_COOLDOWN_SECONDS = 60;
+
+const OTP_ACTIONS: Record<OtpPurpose, { subject: string; action: string }> = {
+  PASSWORD_RESET: {
+    subject: 'Your password reset code',
+    action: 'reset your password',
+  },
+  LOGIN: { subject: 'Your login code', action: 'log in to Reflectify' },
+};
+
+class OtpService {
+  // Generates a random numeric one-time password.
+  private generateOtp(): string {
+    return crypto
+      .randomInt(0, 10 ** OTP_LENGTH)
+      .toString()
+      .padStart(OTP_LENGTH, '0');
+  }
+
+  /**
+   * Emails a new OTP to an admin, invalidating any earlier OTP of the same purpose.
+   * Nothing is sent when the email belongs to no active admin, or an OTP was sent moments ago;
+   * callers respond the same either way so accounts cannot be discovered.
+   */
+  public async sendOtp(email: string, purpose: OtpPurpose): Promise<void> {
+    const admin = await prisma.admin.findFirst({
+      where: { email, isDeleted: false },
+      select: { name: true },
+    });
+    if (!admin) return;
+
+    const recentOtp = await prisma.oTP.findFirst({
+      where: {
+        email,
+        purpose,
+        isDeleted: false,
+        createdAt: {
+          gt: new Date(Date.now() - OTP_RESEND_COOLDOWN_SECONDS * 1000),
+        },
+      },
+    });
+    if (recentOtp) return;
+
+    const otp = this.generateOtp();
+    try {
+      await prisma.$transaction([
+        prisma.oTP.updateMany({
+          where: { email, purpose, isDeleted: false },
+          data: { isDeleted: true },
+        }),
+        prisma.oTP.create({
+          data: {
+            email,
+            purpose,
+            otp: await hashPassword(otp),
+            expiresAt: new Date(Date.now() + OTP_EXPIRY_MINUTES * 60 * 1000),
+          },
+        }),
+      ]);
+    } catch (error: any) {
+      console.error(`Error in OtpService.sendOtp for ${email}:`, error);
+      throw new AppError('Failed to issue one-time password.', 500);
+    }
+
+    const { subject, action } = OTP_ACTIONS[purpose];
+    await emailService.addEmailJobToQueue(`send-otp-to-${email}`, {
+      to: email,
+      subject,
+      html: getOtpTemplate(admin.name, otp, action, OTP_EXPIRY_MINUTES),
+    });
+  }
+
+  /**
+   * Verifies an OTP and invalidates it, so it cannot be used again.
+   * A wrong code counts as an attempt; the OTP is invalidated once its attempts run out.
+   * @returns The admin the OTP was sent to.
+   * @throws AppError 400 when the OTP is wrong, expired, used or out of attempts.
+   */
+  public async verifyOtp(
+    email: string,
+    otp: string,
+    purpose: OtpPurpose
+  ): Promise<Admin> {
+    const invalidOtp = new AppError('Invalid or expired OTP.', 400);
+
+    const record = await prisma.oTP.findFirst({
+      where: {
+        email,
+        purpose,
+        isDeleted: false,
+        expiresAt: { gt: new Date() },
+      },
+      orderBy: { createdAt: 'desc' },
+    });
+    if (!record) throw invalidOtp;
+
+    // Every check uses up an attempt before comparing, so concurrent guesses cannot exceed the limit.
+    const { count: attemptsLeft } = await prisma.oTP.updateMany({
+      where: {
+        id: record.id,
+        isDeleted: false,
+        attempts: { lt: MAX_OTP_ATTEMPTS },
+      },
+      data: { attempts: { increment: 1 } },
+    });
+    if (!attemptsLeft) throw invalidOtp;
+
+    if (!(await comparePassword(otp, record.otp))) {
+      await prisma.oTP.updateMany({
+        where: { id: record.id, attempts: { gte: MAX_OTP_ATTEMPTS } },
+        data: { isDeleted: true },
+      });
+      throw invalidOtp;
+    }
+
+    // Only one request can invalidate the OTP, so a code is never accepted twice.
+    const { count } = await prisma.oTP.updateMany({
+      where: { id: record.id, isDeleted: false },
+      data: { isDeleted: true },
+    });
+    if (!count) throw invalidOtp;
+
+    const admin = await prisma.admin.findFirst({
+      where: { email, isDeleted: false },
+    });
+    if (!admin) throw invalidOtp;
+    return admin;
+  }
+}
+
+export const otpService = new OtpService();
@@ -0,0 +1,218 @@
+/**
+ * @file src/services/auth/session.service.ts
+ * @description Service layer for admin sessions, one per logged-in device.
+ * A session hands out short-lived access tokens and a refresh token that is replaced on every
+ * use. Refresh tokens are stored hashed, and revoking a session ends its access tokens at once.
+ */
+
+import crypto from 'crypto';
+import { Request } from 'express';
+import { Admin, AdminSession, Prisma } from '@prisma/client';
+import { prisma } from '../common/prisma.service';
+import AppError from '../../utils/appError';
+import { generateAuthToken } from '../../utils/jwt';
+import config from '../../config';
+
+// The tokens returned by login and refresh.
+export interface AuthTokens {
+  // Short-lived JWT sent as the Bearer token.
+  token: string;
+  // Single-use token exchanged for new tokens when the access token expires.
+  refreshToken: string;
+}
+
+// The device a session was opened from, shown when listing sessions.
+export interface SessionDevice {
+  userAgent?: string;
+  ipAddress?: string;
+}
+
+const sessionSelect = {
+  id: true,
+  userAgent: true,
+  ipAddress: true,
+  createdAt: true,
+  lastUsedAt: true,
+  expiresAt: true,
+} satisfies Prisma.AdminSessionSelect;
+
+type Session = Prisma.AdminSessionGetPayload<{
+  select: typeof sessionSelect;
+}> & { current: boolean };
+
+// Hashes a refresh token for storage and lookup.
+const hashToken = (token: string): string =>
+  crypto.createHash('sha256').update(token).digest('hex');
+
+// Reads the device of a request, for the sessions it opens or refreshes.
+export const getSessionDevice = (req: Request): SessionDevice => ({
+  userAgent: req.get('user-agent')?.slice(0, 500),
+  ipAddress: req.ip,
+});
+
+class SessionService {
+  // The time a session expires when it is not refreshed before then.
+  private getExpiry(): Date {
+    return new Date(
+      Date.now() + config.refreshTokenExpiresInDays * 24 * 60 * 60 * 1000
+    );
+  }
+
+  // Signs an access token for a session and pairs it with the session's refresh token.
+  private issueTokens(
+    admin: Pick<Admin, 'id' | 'email' | 'isSuper'>,
+    session: Pick<AdminSession, 'id'>,
+    refreshToken: string
+  ): AuthTokens {
+    return {
+      token: generateAuthToken(
+        admin.id,
+        admin.email,
+        admin.isSuper,
+        session.id
+      ),
+      refreshToken,
+    };
+  }
+
+  // Opens a session for an admin who has just authenticated.
+  public async createSession(
+    admin: Pick<Admin, 'id' | 'email' | 'isSuper'>,
+    device: SessionDevice
+  ): Promise<AuthTokens> {
+    const refreshToken = crypto.randomBytes(48).toString('hex');
+
+    try {
+      // Sessions that have ended are of no further use.
+      await prisma.adminSession.deleteMany({
+        where: {
+          adminId: admin.id,
+          OR: [
+            { expiresAt: { lte: new Date() } },
+            { revokedAt: { not: null } },
+          ],
+        },
+      });
+      const session = await prisma.adminSession.create({
+        data: {
+          adminId: admin.id,
+          refreshTokenHash: hashToken(refreshToken),
+          userAgent: device.userAgent,
+          ipAddress: device.ipAddress,
+          expiresAt: this.getExpiry(),
+        },
+        select: { id: true },
+      });
+      return this.issueTokens(admin, session, refreshToken);
+    } catch (error: any) {
+      console.error(
+        `Error in SessionService.createSession for admin ${admin.id}:`,
+        error
+      );
+      throw new AppError('Failed to create session.', 500);
+    }
+  }
+
+  /**
+   * Exchanges a refresh token for new tokens, replacing the refresh token.
+   * A refresh token that was already replaced is taken as stolen, and ends its session.
+   * @throws AppError 401 when the token is unknown, replayed, or its session has ended.
+   */
+  public async refreshSession(
+    refreshToken: string,
+    device: SessionDevice
+  ): Promise<AuthTokens> {
+    const tokenHash = hashToken(refreshToken);
+    const session = await prisma.adminSession.findFirst({
+      where: {
+        OR: [
+          { refreshTokenHash: tokenHash },
+          { previousRefreshTokenHash: tokenHash },
+        ],
+      },
+      include: {
+        admin: {
+          select: { id: true, email: true, isSuper: true, isDeleted: true },
+        },
+      },
+    });
+    const invalid = new AppError(
+      'Invalid or expired refresh token. Please log in again.',
+      401
+    );
+    if (
+      !session ||
+      session.revokedAt ||
+      session.expiresAt <= new Date() ||
+      session.admin.isDeleted
+    ) {
+      throw invalid;
+    }
+    if (session.refreshTokenHash !== tokenHash) {
+      await this.revokeSession(session.adminId, session.id);
+      throw invalid;
+    }
+
+    const newRefreshToken = crypto.randomBytes(48).toString('hex');
+    // Only one of concurrent refreshes with the same token succeeds.
+    const { count } = await prisma.adminSession.updateMany({
+      where: { id: session.id, refreshTokenHash: tokenHash, revokedAt: null },
+      data: {
+        refreshTokenHash: hashToken(newRefreshToken),
+        previousRefreshTokenHash: tokenHash,
+        userAgent: device.userAgent,
+        ipAddress: device.ipAddress,
+        lastUsedAt: new Date(),
+        expiresAt: this.getExpiry(),
+      },
+    });
+    if (!count) {
+      throw invalid;
+    }
+
+    return this.issueTokens(session.admin, session, newRefreshToken);
+  }
+
+  // Retrieves an admin's active sessions, most recently used first.
+  public async getSessions(
+    adminId: string,
+    currentSessionId: string
+  ): Promise<Session[]> {
+    const sessions = await prisma.adminSession.findMany({
+      where: { adminId, revokedAt: null, expiresAt: { gt: new Date() } },
+      select: sessionSelect,
+      orderBy: { lastUsedAt: 'desc' },
+    });
+    return sessions.map((session) => ({
+      ...session,
+      current: session.id === currentSessionId,
+    }));
+  }
+
+  /**
+   * Revokes one of an admin's sessions, logging that device out.
+   * @throws AppError 404 when the admin has no such active session.
+   */
+  public async revokeSession(
+    adminId: string,
+    sessionId: string
+  ): Promise<void> {
+    const { count } = await prisma.adminSession.updateMany({
+      where: { id: sessionId, adminId, revokedAt: null },
+      data: { revokedAt: new Date() },
+    });
+    if (!count) {
+      throw new AppError('Session not found.', 404);
+    }
+  }
+
+  // Revokes every session of an admin, logging them out on all devices.
+  public async revokeAllSessions(adminId: string): Promise<void> {
+    await prisma.adminSession.updateMany({
+      where: { adminId, revokedAt: null },
+      data: { revokedAt: new Date() },
+    });
+  }
+}
+
+export const sessionService = new SessionService();
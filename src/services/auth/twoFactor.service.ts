@@ -0,0 +1,333 @@
+/**
+ * @file src/services/auth/twoFactor.service.ts
+ * @description Service layer for two-factor authentication with an authenticator app (TOTP).
+ * Admins enroll by scanning an otpauth URI and confirming a code, and receive single-use
+ * recovery codes for when the app is unavailable. Codes are then asked for at login and before
+ * destructive actions. Repeated wrong codes lock two-factor verification for a while.
+ */
+
+import crypto from 'crypto';
+import { Admin } from '@prisma/client';
+import { prisma } from '../common/prisma.service';
+import AppError from '../../utils/appError';
+import config from '../../config';
+import {
+  buildOtpauthUri,
+  findTotpStep,
+  generateTotpSecret,
+} from '../../utils/totp';
+
+const TOTP_ISSUER = 'Reflectify';
+const RECOVERY_CODE_COUNT = 10;
+// Letters and digits that cannot be mistaken for one another when copied from paper.
+const RECOVERY_CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const MAX_FAILED_ATTEMPTS = 5;
+const LOCK_MINUTES = 15;
+// How long a step-up verification allows destructive actions on a session.
+const STEP_UP_VALIDITY_MINUTES = 5;
+
+// Hashes a recovery code for storage and lookup, ignoring case and separators.
+const hashRecoveryCode = (code: string): string =>
+  crypto
+    .createHash('sha256')
+    .update(code.toUpperCase().replace(/[^A-Z0-9]/g, ''))
+    .digest('hex');
+
+// Generates a random recovery code such as "K7QF-2M9X-PW4D".
+const generateRecoveryCode = (): string => {
+  const chars = Array.from(
+    { length: 12 },
+    () =>
+      RECOVERY_CODE_ALPHABET[crypto.randomInt(RECOVERY_CODE_ALPHABET.length)]
+  ).join('');
+  return [0, 4, 8].map((i) => chars.slice(i, i + 4)).join('-');
+};
+
+class TwoFactorService {
+  // Retrieves an active admin with their two-factor state.
+  private async getAdmin(adminId: string): Promise<Admin> {
+    const admin = await prisma.admin.findUnique({
+      where: { id: adminId, isDeleted: false },
+    });
+    if (!admin) {
+      throw new AppError('Admin not found.', 404);
+    }
+    return admin;
+  }
+
+  // Replaces an admin's recovery codes with new ones, returning them for the only time.
+  private async createRecoveryCodes(adminId: string): Promise<string[]> {
+    const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () =>
+      generateRecoveryCode()
+    );
+    await prisma.$transaction([
+      prisma.recoveryCode.deleteMany({ where: { adminId } }),
+      prisma.recoveryCode.createMany({
+        data: codes.map((code) => ({
+          adminId,
+          codeHash: hashRecoveryCode(code),
+        })),
+      }),
+    ]);
+    return codes;
+  }
+
+  /**
+   * Checks a code from the authenticator app, or a recovery code, which is used up.
+   * An app code is accepted once, so it cannot be replayed within its 30 seconds.
+   * @throws AppError 401 when the code is wrong, and 429 while verification is locked.
+   */
+  private async checkCode(admin: Admin, code: string): Promise<void> {
+    const lockedUntil =
+      admin.twoFactorLockedAt &&
+      new Date(admin.twoFactorLockedAt.getTime() + LOCK_MINUTES * 60 * 1000);
+    if (lockedUntil && lockedUntil > new Date()) {
+      throw new AppError(
+        `Too many invalid two-factor codes. Try again after ${lockedUntil.toISOString()}.`,
+        429
+      );
+    }
+
+    // Every check uses up an attempt before comparing, so concurrent guesses cannot exceed the limit.
+    const { count: attemptsLeft } = await prisma.admin.updateMany({
+      where: {
+        id: admin.id,
+        twoFactorFailures: { lt: MAX_FAILED_ATTEMPTS },
+        OR: [
+          { twoFactorLockedAt: null },
+          {
+            twoFactorLockedAt: {
+              lte: new Date(Date.now() - LOCK_MINUTES * 60 * 1000),
+            },
+          },
+        ],
+      },
+      data: { twoFactorFailures: { increment: 1 } },
+    });
+    if (!attemptsLeft) {
+      throw new AppError(
+        'Too many invalid two-factor codes. Try again later.',
+        429
+      );
+    }
+
+    let isValid = false;
+    if (/^\d{6}$/.test(code)) {
+      const step = admin.twoFactorSecret
+        ? findTotpStep(admin.twoFactorSecret, code)
+        : null;
+      if (step !== null) {
+        const { count } = await prisma.admin.updateMany({
+          where: {
+            id: admin.id,
+            OR: [
+              { twoFactorLastStep: null },
+              { twoFactorLastStep: { lt: step } },
+            ],
+          },
+          data: { twoFactorLastStep: step },
+        });
+        isValid = count > 0;
+      }
+    } else {
+      const { count } = await prisma.recoveryCode.updateMany({
+        where: {
+          adminId: admin.id,
+          codeHash: hashRecoveryCode(code),
+          usedAt: null,
+        },
+        data: { usedAt: new Date() },
+      });
+      isValid = count > 0;
+    }
+
+    if (!isValid) {
+      await prisma.admin.updateMany({
+        where: {
+          id: admin.id,
+          twoFactorFailures: { gte: MAX_FAILED_ATTEMPTS },
+        },
+        data: { twoFactorFailures: 0, twoFactorLockedAt: new Date() },
+      });
+      throw new AppError('Invalid two-factor code.', 401);
+    }
+    await prisma.admin.update({
+      where: { id: admin.id },
+      data: { twoFactorFailures: 0, twoFactorLockedAt: null },
+    });
+  }
+
+  // Whether an admin must have two-factor authentication enabled.
+  public isRequiredFor(admin: Pick<Admin, 'isSuper'>): boolean {
+    return admin.isSuper && config.requireSuperAdminTwoFactor;
+  }
+
+  /**
+   * Starts enrollment with a new secret, replacing that of an unfinished enrollment.
+   * @returns The secret and the otpauth URI to scan into an authenticator app.
+   * @throws AppError 409 when two-factor authentication is already enabled.
+   */
+  public async setupTwoFactor(
+    adminId: string
+  ): Promise<{ secret: string; otpauthUri: string }> {
+    const admin = await this.getAdmin(adminId);
+    if (admin.twoFactorEnabled) {
+      throw new AppError(
+        'Two-factor authentication is already enabled. Disable it first to enroll a new device.',
+        409
+      );
+    }
+
+    const secret = generateTotpSecret();
+    await prisma.admin.update({
+      where: { id: admin.id },
+      data: { twoFactorSecret: secret, twoFactorLastStep: null },
+    });
+
+    return {
+      secret,
+      otpauthUri: buildOtpauthUri(secret, admin.email, TOTP_ISSUER),
+    };
+  }
+
+  /**
+   * Finishes enrollment once the admin confirms a code from their authenticator app.
+   * @returns The recovery codes, which are not shown again.
+   */
+  public async enableTwoFactor(
+    adminId: string,
+    code: string
+  ): Promise<string[]> {
+    const admin = await this.getAdmin(adminId);
+    if (admin.twoFactorEnabled) {
+      throw new AppError('Two-factor authentication is already enabled.', 409);
+    }
+    if (!admin.twoFactorSecret) {
+      throw new AppError(
+        'Start two-factor enrollment before enabling it.',
+        400
+      );
+    }
+    if (!/^\d{6}$/.test(code)) {
+      throw new AppError('Enter the code from your authenticator app.', 400);
+    }
+
+    await this.checkCode(admin, code);
+    await prisma.admin.update({
+      where: { id: admin.id },
+      data: { twoFactorEnabled: true },
+    });
+    return this.createRecoveryCodes(admin.id);
+  }
+
+  /**
+   * Turns two-factor authentication off after checking a current code.
+   * @throws AppError 403 when the admin is required to keep it enabled.
+   */
+  public async disableTwoFactor(adminId: string, code: string): Promise<void> {
+    const admin = await this.getAdmin(adminId);
+    if (!admin.twoFactorEnabled) {
+      throw new AppError('Two-factor authentication is not enabled.', 400);
+    }
+    if (this.isRequiredFor(admin)) {
+      throw new AppError(
+        'Two-factor authentication is required for your account.',
+        403
+      );
+    }
+
+    await this.checkCode(admin, code);
+    await prisma.$transaction([
+      prisma.recoveryCode.deleteMany({ where: { adminId: admin.id } }),
+      prisma.admin.update({
+        where: { id: admin.id },
+        data: {
+          twoFactorEnabled: false,
+          twoFactorSecret: null,
+          twoFactorLastStep: null,
+        },
+      }),
+    ]);
+  }
+
+  // Replaces the recovery codes after checking a current code, returning the new ones.
+  public async regenerateRecoveryCodes(
+    adminId: string,
+    code: string
+  ): Promise<string[]> {
+    const admin = await this.getAdmin(adminId);
+    if (!admin.twoFactorEnabled) {
+      throw new AppError('Two-factor authentication is not enabled.', 400);
+    }
+
+    await this.checkCode(admin, code);
+    return this.createRecoveryCodes(admin.id);
+  }
+
+  // Checks the two-factor code of a login that has passed its first factor.
+  public async verifyLogin(admin: Admin, code: string): Promise<void> {
+    if (!admin.twoFactorEnabled) {
+      throw new AppError('Two-factor authentication is not enabled.', 400);
+    }
+    await this.checkCode(admin, code);
+  }
+
+  // Re-verifies a code on a session, allowing destructive actions on it for a few minutes.
+  public async stepUp(
+    adminId: string,
+    sessionId: string,
+    code: string
+  ): Promise<Date> {
+    const admin = await this.getAdmin(adminId);
+    if (!admin.twoFactorEnabled) {
+      throw new AppError(
+        'Enable two-factor authentication before verifying a code.',
+        400
+      );
+    }
+
+    await this.checkCode(admin, code);
+    const verifiedAt = new Date();
+    await prisma.adminSession.update({
+      where: { id: sessionId },
+      data: { twoFactorVerifiedAt: verifiedAt },
+    });
+    return new Date(
+      verifiedAt.getTime() + STEP_UP_VALIDITY_MINUTES * 60 * 1000
+    );
+  }
+
+  /**
+   * Throws unless a session re-verified a two-factor code in the last few minutes.
+   * @throws AppError 403 when two-factor authentication is off or the verification is stale.
+   */
+  public async assertSteppedUp(sessionId: string): Promise<void> {
+    const session = await prisma.adminSession.findUnique({
+      where: { id: sessionId },
+      select: {
+        twoFactorVerifiedAt: true,
+        admin: { select: { twoFactorEnabled: true } },
+      },
+    });
+    if (!session?.admin.twoFactorEnabled) {
+      throw new AppError(
+        'Enable two-factor authentication to perform this action.',
+        403
+      );
+    }
+    const validSince = new Date(
+      Date.now() - STEP_UP_VALIDITY_MINUTES * 60 * 1000
+    );
+    if (
+      !session.twoFactorVerifiedAt ||
+      session.twoFactorVerifiedAt < validSince
+    ) {
+      throw new AppError(
+        'Verify a two-factor code at /auth/2fa/verify before performing this action.',
+        403
+      );
+    }
+  }
+}
+
+export const twoFactorService = new TwoFactorService();
@@ -2,16 +2,21 @@
  * @file src/services/college/college.service.ts
  * @description Service layer for College operations.
  * Encapsulates business logic, interacts with the Prisma client, and manages a simple cache.
+ * Reads are limited to the colleges in the caller's scope; colleges are created and deleted
+ * by the platform super admin.
  */
 
-import { College, Prisma } from '@prisma/client';
+import { College } from '@prisma/client';
 import { prisma } from '../common/prisma.service';
 import AppError from '../../utils/appError';
-
-// Define the fixed COLLEGE_ID as per the original controller logic
-const COLLEGE_ID = 'LDRP-ITR'; // Consider making this configurable if more colleges are added
-
-// Simple in-memory cache for the primary college data
+import {
+  CollegeScope,
+  assertCollegeInScope,
+  assertCollegeWideScope,
+  collegeScopeWhere,
+} from './collegeScope';
+
+// Simple in-memory cache of colleges by ID
 const collegeCache = new Map<string, College>();
 
 // Interface for college data, matching the updated Prisma schema structure
@@ -22,20 +27,12 @@ interface CollegeDataInput {
   contactNumber: string;
 }
 
-// Default college data for initial upsert
-const defaultCollegeData: CollegeDataInput = {
-  name: 'LDRP Institute of Technology and Research',
-  websiteUrl: 'https://www.ldrp.ac.in',
-  address: 'Gujarat',
-  contactNumber: '7923241492',
-};
-
 class CollegeService {
-  // Retrieves all active colleges including related data.
-  public async getAllColleges(): Promise<College[]> {
+  // Retrieves all active colleges in the scope, including related data.
+  public async getAllColleges(scope: CollegeScope): Promise<College[]> {
     try {
       const colleges = await prisma.college.findMany({
-        where: { isDeleted: false }, // Filter out soft-deleted records
+        where: { isDeleted: false, ...collegeScopeWhere(scope) }, // Filter out soft-deleted records
         include: {
           departments: {
             where: { isDeleted: false }, // Also filter deleted departments
@@ -48,6 +45,7 @@ class CollegeService {
             },
           },
         },
+        orderBy: { name: 'asc' },
       });
       return colleges;
     } catch (error: any) {
@@ -56,57 +54,43 @@ class CollegeService {
     }
   }
 
-  // Creates or updates the primary college and manages cache.
-  public async upsertPrimaryCollege(
-    data: Partial<CollegeDataInput>
-  ): Promise<College> {
+  // Creates a new college.
+  public async createCollege(data: CollegeDataInput): Promise<College> {
     try {
-      // Clear cache before upsert to ensure fresh data is fetched
-      collegeCache.clear();
-
-      // Prepare data for Prisma
-      const createData = {
-        id: COLLEGE_ID,
-        ...defaultCollegeData,
-        ...data,
-      };
-
-      const updateData = { ...data };
-
-      const college = await prisma.college.upsert({
-        where: { id: COLLEGE_ID },
-        create: createData as Prisma.CollegeUncheckedCreateInput,
-        update: updateData as Prisma.CollegeUpdateInput,
+      const college = await prisma.college.create({
+        data,
         include: {
           departments: true, // Include departments for the response
         },
       });
-
-      // Update cache with the new/updated college data
-      collegeCache.set(COLLEGE_ID, college);
-
+      collegeCache.set(college.id, college);
       return college;
     } catch (error: any) {
-      console.error('Error in CollegeService.upsertPrimaryCollege:', error);
+      console.error('Error in CollegeService.createCollege:', error);
       // P2002 for unique constraint violation (e.g., if name is unique and conflicts)
       if (error.code === 'P2002' && error.meta?.target?.includes('name')) {
         throw new AppError('College with this name already exists.', 409);
       }
-      throw new AppError('Failed to create/update college.', 500);
+      throw new AppError('Failed to create college.', 500);
     }
   }
 
-  // Retrieves the primary college, using cache for faster retrieval.
-  public async getPrimaryCollege(): Promise<College | null> {
+  // Retrieves a college in the scope by its ID, using cache for faster retrieval.
+  public async getCollegeById(
+    id: string,
+    scope: CollegeScope
+  ): Promise<College | null> {
+    assertCollegeInScope(scope, id);
+
     // Try to get from cache first
-    let college: College | null | undefined = collegeCache.get(COLLEGE_ID);
+    let college: College | null | undefined = collegeCache.get(id);
     if (college) {
       return college;
     }
 
     try {
       college = await prisma.college.findUnique({
-        where: { id: COLLEGE_ID, isDeleted: false }, // Ensure it's not soft-deleted
+        where: { id, isDeleted: false }, // Ensure it's not soft-deleted
         include: {
           departments: {
             where: { isDeleted: false },
@@ -122,35 +106,46 @@ class CollegeService {
       });
 
       if (college) {
-        collegeCache.set(COLLEGE_ID, college); // Cache the result
+        collegeCache.set(id, college); // Cache the result
       }
       return college;
     } catch (error: any) {
-      console.error('Error in CollegeService.getPrimaryCollege:', error);
+      console.error(
+        `Error in CollegeService.getCollegeById for ID ${id}:`,
+        error
+      );
       throw new AppError('Failed to retrieve college details.', 500);
     }
   }
 
-  // Updates the primary college with provided data.
-  public async updatePrimaryCollege(
-    data: Partial<CollegeDataInput>
+  // Updates a college in the scope with provided data; admins bound to a department cannot.
+  public async updateCollege(
+    id: string,
+    data: Partial<CollegeDataInput>,
+    scope: CollegeScope
   ): Promise<College> {
+    assertCollegeInScope(scope, id);
+    assertCollegeWideScope(scope);
+
     try {
       // Clear cache before update to ensure fresh data is fetched
-      collegeCache.clear();
+      collegeCache.delete(id);
 
       const college = await prisma.college.update({
-        where: { id: COLLEGE_ID, isDeleted: false }, // Ensure it's active
+        where: { id, isDeleted: false }, // Ensure it's active
         data: data,
         include: {
           departments: true, // Include departments for response
         },
       });
       // Update cache with the new/updated college data
-      collegeCache.set(COLLEGE_ID, college);
+      collegeCache.set(id, college);
       return college;
     } catch (error: any) {
-      console.error('Error in CollegeService.updatePrimaryCollege:', error);
+      console.error(
+        `Error in CollegeService.updateCollege for ID ${id}:`,
+        error
+      );
       if (error.code === 'P2025') {
         // Prisma error for record not found for update
         throw new AppError('College not found for update.', 404);
@@ -162,69 +157,26 @@ class CollegeService {
     }
   }
 
-  // Soft deletes the primary college.
-  public async softDeletePrimaryCollege(): Promise<College> {
+  // Soft deletes a college.
+  public async softDeleteCollege(id: string): Promise<College> {
     try {
       // Clear cache before deletion
-      collegeCache.clear();
+      collegeCache.delete(id);
 
       const college = await prisma.college.update({
-        where: { id: COLLEGE_ID, isDeleted: false }, // Ensure it's not already soft-deleted
+        where: { id, isDeleted: false }, // Ensure it's not already soft-deleted
         data: { isDeleted: true },
       });
       return college;
-    } catch (error: any) {
-      console.error('Error in CollegeService.softDeletePrimaryCollege:', error);
-      if (error.code === 'P2025') {
-        throw new AppError('College not found for deletion.', 404);
-      }
-      throw new AppError('Failed to soft delete college.', 500);
-    }
-  }
-
-  // Performs a batch update on the primary college.
-  public async batchUpdatePrimaryCollege(
-    updates: Partial<CollegeDataInput>
-  ): Promise<College> {
-    try {
-      // Clear cache before update
-      collegeCache.clear();
-
-      const college = await prisma.$transaction(async (tx) => {
-        const result = await tx.college.update({
-          where: { id: COLLEGE_ID, isDeleted: false }, // Ensure it's active
-          data: updates,
-          include: {
-            departments: {
-              where: { isDeleted: false },
-              include: {
-                semesters: { where: { isDeleted: false } },
-                Division: { where: { isDeleted: false } },
-                subjects: { where: { isDeleted: false } },
-                faculties: { where: { isDeleted: false } },
-                students: { where: { isDeleted: false } },
-              },
-            },
-          },
-        });
-        return result;
-      });
-
-      // Update cache with the new/updated college data
-      collegeCache.set(COLLEGE_ID, college);
-      return college;
     } catch (error: any) {
       console.error(
-        'Error in CollegeService.batchUpdatePrimaryCollege:',
+        `Error in CollegeService.softDeleteCollege for ID ${id}:`,
         error
       );
       if (error.code === 'P2025') {
-        throw new AppError('College not found for batch update.', 404);
-      }
-      if (error.code === 'P2002' && error.meta?.target?.includes('name')) {
-        throw new AppError('College with this name already exists.', 409);
+        throw new AppError('College not found for deletion.', 404);
       }
-      throw new AppError('Error in batch updating college.', 500);
+      throw new AppError('Failed to soft delete college.', 500);
     }
   }
 }
@@ -0,0 +1,245 @@
+/**
+ * @file src/services/college/collegeScope.ts
+ * @description Restricts queries to the colleges and departments the requesting admin belongs to.
+ * The platform super admin sees every college. Every other admin, including the super admin
+ * of a college, sees only the colleges they are assigned to, and may narrow a request to one
+ * of them with the X-College-Id header. HODs and faculty admins are further bound to their
+ * own department.
+ */
+
+import { Request } from 'express';
+import { Department, Designation, Prisma } from '@prisma/client';
+import { prisma } from '../common/prisma.service';
+import AppError from '../../utils/appError';
+
+// The part of the colleges a request may see.
+export interface CollegeScope {
+  // The IDs of the colleges, or null when it may see all of them.
+  collegeIds: string[] | null;
+  // The IDs of the departments within those colleges, or null when it may see all of them.
+  departmentIds: string[] | null;
+}
+
+export const COLLEGE_HEADER = 'X-College-Id';
+
+// The scope of work done on no admin's behalf, such as scheduled reminders.
+export const UNRESTRICTED_SCOPE: CollegeScope = {
+  collegeIds: null,
+  departmentIds: null,
+};
+
+// Resolves the colleges and departments the authenticated admin may see in this request.
+export const getCollegeScope = (req: Request): CollegeScope => {
+  if (!req.admin) {
+    throw new AppError('User not authenticated.', 401);
+  }
+
+  let departmentIds: string[] | null = null;
+  if (!req.admin.isSuper && req.admin.designation !== Designation.SUPER_ADMIN) {
+    if (!req.admin.departmentId) {
+      throw new AppError('You are not assigned to a department.', 403);
+    }
+    departmentIds = [req.admin.departmentId];
+  }
+
+  const scope: CollegeScope = {
+    collegeIds: req.admin.isSuper ? null : req.admin.collegeIds,
+    departmentIds,
+  };
+  const requestedCollegeId = req.get(COLLEGE_HEADER);
+  if (!requestedCollegeId) {
+    return scope;
+  }
+
+  assertCollegeInScope(scope, requestedCollegeId);
+  return { ...scope, collegeIds: [requestedCollegeId] };
+};
+
+// Throws when a college is outside the scope.
+export const assertCollegeInScope = (
+  scope: CollegeScope,
+  collegeId: string
+): void => {
+  if (scope.collegeIds && !scope.collegeIds.includes(collegeId)) {
+    throw new AppError('You do not have access to this college.', 403);
+  }
+};
+
+/**
+ * Narrows the scope to the one college a request acts in, such as the college an upload is for.
+ * @param collegeId - The college named by the request, which may be left out when the scope has
+ * a single college.
+ * @throws AppError 400 when no college is named and the scope spans several, and 403 when the
+ * named college is outside the scope.
+ */
+export const getSingleCollegeScope = (
+  scope: CollegeScope,
+  collegeId?: string
+): CollegeScope => {
+  if (collegeId) {
+    assertCollegeInScope(scope, collegeId);
+    return { ...scope, collegeIds: [collegeId] };
+  }
+  if (scope.collegeIds?.length !== 1) {
+    throw new AppError(
+      `Specify the college with the collegeId query parameter or the ${COLLEGE_HEADER} header.`,
+      400
+    );
+  }
+  return scope;
+};
+
+/**
+ * Resolves the college an admin's saved definition, such as a report or form template, is kept
+ * for: the one college the request acts in. The platform super admin may name no college, which
+ * keeps the record for platform super admins only.
+ */
+export const getRecordCollegeScope = (
+  scope: CollegeScope,
+  collegeId?: string
+): CollegeScope =>
+  !collegeId && !scope.collegeIds
+    ? scope
+    : getSingleCollegeScope(scope, collegeId);
+
+// Throws when the scope is bound to departments, for actions that affect a whole college.
+export const assertCollegeWideScope = (scope: CollegeScope): void => {
+  if (scope.departmentIds) {
+    throw new AppError('You can only manage your own department.', 403);
+  }
+};
+
+// Whether a department is inside the scope.
+export const isDepartmentInScope = (
+  scope: CollegeScope,
+  department: Pick<Department, 'id' | 'collegeId'>
+): boolean =>
+  (!scope.collegeIds || scope.collegeIds.includes(department.collegeId)) &&
+  (!scope.departmentIds || scope.departmentIds.includes(department.id));
+
+/**
+ * Throws when a department is outside the scope, for requests that name a department directly
+ * or act on a record of one.
+ * @throws AppError 403 when the department belongs to another college or department.
+ */
+export const assertDepartmentInScope = async (
+  scope: CollegeScope,
+  departmentId: string
+): Promise<void> => {
+  if (!scope.collegeIds && !scope.departmentIds) return;
+
+  const department = await prisma.department.findUnique({
+    where: { id: departmentId },
+    select: { id: true, collegeId: true },
+  });
+  if (department && !isDepartmentInScope(scope, department)) {
+    throw new AppError('You do not have access to this department.', 403);
+  }
+};
+
+/**
+ * Throws when a record belongs to a department outside the scope. The record is only looked up
+ * when the scope is restricted, and one that does not exist is left for the caller to report.
+ */
+export const assertRecordInScope = async (
+  scope: CollegeScope,
+  findRecord: () => PromiseLike<{ departmentId: string } | null>
+): Promise<void> => {
+  if (!scope.collegeIds && !scope.departmentIds) return;
+
+  const record = await findRecord();
+  if (record) {
+    await assertDepartmentInScope(scope, record.departmentId);
+  }
+};
+
+/**
+ * Throws when a record kept for a college, such as an upload batch, belongs to a college outside
+ * the scope. Records an HOD made are kept for their department too, and the records of a whole
+ * college are left to its super admins. Records kept before they named their college are left
+ * to the platform super admin.
+ */
+export const assertCollegeRecordInScope = (
+  scope: CollegeScope,
+  record: { collegeId: string | null; departmentId: string | null }
+): void => {
+  if (
+    scope.collegeIds &&
+    !(record.collegeId && scope.collegeIds.includes(record.collegeId))
+  ) {
+    throw new AppError('You do not have access to this college.', 403);
+  }
+  if (
+    scope.departmentIds &&
+    !(record.departmentId && scope.departmentIds.includes(record.departmentId))
+  ) {
+    throw new AppError('You do not have access to this department.', 403);
+  }
+};
+
+// Filters records kept for a college, such as upload batches, to the scope.
+export const collegeRecordScopeWhere = (
+  scope: CollegeScope
+): { collegeId?: { in: string[] }; departmentId?: { in: string[] } } => ({
+  ...(scope.collegeIds && { collegeId: { in: scope.collegeIds } }),
+  ...(scope.departmentIds && { departmentId: { in: scope.departmentIds } }),
+});
+
+/**
+ * Filters the definitions a college shares, such as form templates, to those the scope may use.
+ * Unlike collegeRecordScopeWhere, an HOD also uses the ones kept for their whole college; they can
+ * still only change their department's, which assertCollegeRecordInScope checks.
+ */
+export const collegeSharedRecordScopeWhere = (
+  scope: CollegeScope
+): {
+  collegeId?: { in: string[] };
+  AND?: { OR: [{ departmentId: null }, { departmentId: { in: string[] } }] }[];
+} => ({
+  ...(scope.collegeIds && { collegeId: { in: scope.collegeIds } }),
+  // Kept apart from any `OR` of the caller's, which a spread would override.
+  ...(scope.departmentIds && {
+    AND: [
+      {
+        OR: [
+          { departmentId: null },
+          { departmentId: { in: scope.departmentIds } },
+        ],
+      },
+    ],
+  }),
+});
+
+// Filters colleges to the scope.
+export const collegeScopeWhere = (
+  scope: CollegeScope
+): Prisma.CollegeWhereInput =>
+  scope.collegeIds ? { id: { in: scope.collegeIds } } : {};
+
+// Filters departments to the scope, in list and unique lookups alike.
+export const departmentScopeWhere = (
+  scope: CollegeScope
+): {
+  collegeId?: { in: string[] };
+  AND?: Prisma.DepartmentWhereInput[];
+} => ({
+  ...(scope.collegeIds && { collegeId: { in: scope.collegeIds } }),
+  // Kept apart from the caller's own `id` condition, which a spread would override.
+  ...(scope.departmentIds && { AND: [{ id: { in: scope.departmentIds } }] }),
+});
+
+/**
+ * Lists the departments in the scope, for tables such as feedback snapshots that record a
+ * department ID without a relation to it.
+ * @returns The department IDs, or null when the scope is every college.
+ */
+export const getScopedDepartmentIds = async (
+  scope: CollegeScope
+): Promise<string[] | null> => {
+  if (!scope.collegeIds && !scope.departmentIds) return null;
+  const departments = await prisma.department.findMany({
+    where: departmentScopeWhere(scope),
+    select: { id: true },
+  });
+  return departments.map((d) => d.id);
+};
@@ -6,15 +6,19 @@
 
 import { prisma } from '../common/prisma.service';
 import AppError from '../../utils/appError';
+import { CollegeScope, departmentScopeWhere } from '../college/collegeScope';
 import { Department } from '@prisma/client';
 
 class AcademicStructureService {
-  // Retrieves the complete academic structure, filtering out soft-deleted records.
-  public async getAcademicStructure(): Promise<Department[]> {
+  // Retrieves the academic structure of the colleges in the scope, filtering out soft-deleted records.
+  public async getAcademicStructure(
+    scope: CollegeScope
+  ): Promise<Department[]> {
     try {
       const academicStructure = await prisma.department.findMany({
         where: {
           isDeleted: false, // Filter out soft-deleted departments
+          ...departmentScopeWhere(scope),
         },
         include: {
           semesters: {
@@ -57,12 +61,14 @@ class AcademicStructureService {
 
   // Retrieves the academic structure for a specific academic year.
   public async getAcademicStructureByYear(
-    academicYearId: string
+    academicYearId: string,
+    scope: CollegeScope
   ): Promise<Department[]> {
     try {
       const academicStructure = await prisma.department.findMany({
         where: {
           isDeleted: false, // Filter out soft-deleted departments
+          ...departmentScopeWhere(scope),
         },
         include: {
           semesters: {
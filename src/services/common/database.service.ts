@@ -12,6 +12,7 @@ class DatabaseService {
   public async cleanDatabase(): Promise<void> {
     try {
       await prisma.$transaction([
+        prisma.formReminder.deleteMany(),
         prisma.studentResponse.deleteMany(),
         prisma.formAccess.deleteMany(),
         prisma.overrideStudent.deleteMany(),
@@ -21,15 +22,26 @@ class DatabaseService {
         prisma.feedbackAnalytics.deleteMany(),
         prisma.subjectAllocation.deleteMany(),
         prisma.promotionHistory.deleteMany(),
+        prisma.promotionBatch.deleteMany(),
+        prisma.uploadErrorReport.deleteMany(),
+        prisma.uploadBatchRecord.deleteMany(),
+        prisma.uploadBatch.deleteMany(),
         prisma.student.deleteMany(),
         prisma.faculty.deleteMany(),
         prisma.subject.deleteMany(),
         prisma.division.deleteMany(),
         prisma.semester.deleteMany(),
+        prisma.departmentAlias.deleteMany(),
+        prisma.adminInvitation.deleteMany(),
         prisma.department.deleteMany(),
+        prisma.adminCollege.deleteMany(),
         prisma.college.deleteMany(),
         prisma.analyticsView.deleteMany(),
+        prisma.uploadColumnMapping.deleteMany(),
         prisma.customReport.deleteMany(),
+        prisma.formTemplateQuestion.deleteMany(),
+        prisma.formTemplate.deleteMany(),
+        prisma.questionBankItem.deleteMany(),
         prisma.questionCategory.deleteMany(),
         prisma.academicYear.deleteMany(),
         prisma.oTP.deleteMany(),
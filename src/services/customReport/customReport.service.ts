@@ -0,0 +1,543 @@
+/**
+ * @file src/services/customReport/customReport.service.ts
+ * @description Service layer for saved custom reports.
+ * Stores report definitions and runs them against feedback snapshots using whitelisted SQL fragments only.
+ * Definitions are kept for the college, and for an HOD the department, of the admin who saved them.
+ */
+
+import { CustomReport, Prisma } from '@prisma/client';
+import { prisma } from '../common/prisma.service';
+import AppError from '../../utils/appError';
+import { RATING_SCORE_SQL } from '../../utils/questionTypes';
+import {
+  CollegeScope,
+  assertCollegeRecordInScope,
+  assertDepartmentInScope,
+  collegeSharedRecordScopeWhere,
+  getRecordCollegeScope,
+  getScopedDepartmentIds,
+} from '../college/collegeScope';
+import {
+  ReportConfig,
+  ReportDimension,
+  reportConfigSchema,
+} from '../../utils/validators/customReport.validation';
+
+interface CreateCustomReportInput {
+  reportName: string;
+  description?: string;
+  reportConfig: ReportConfig;
+  isActive?: boolean;
+  // The college the report is for, optional for admins of a single college.
+  collegeId?: string;
+}
+
+interface UpdateCustomReportInput extends Partial<
+  Omit<CreateCustomReportInput, 'collegeId'>
+> {}
+
+interface ReportDimensionValue {
+  id: string;
+  label: string;
+}
+
+interface CustomReportRow {
+  dimensions: Partial<Record<ReportDimension, ReportDimensionValue>>;
+  metrics: {
+    averageRating?: number | null;
+    responseCount?: number;
+    respondentCount?: number;
+    distribution?: Record<string, number>;
+    completionRate?: number | null;
+  };
+}
+
+interface CustomReportResult {
+  reportId: string | null;
+  reportName: string | null;
+  generatedAt: Date;
+  config: ReportConfig;
+  totalRows: number;
+  rows: CustomReportRow[];
+}
+
+// Matches the lab/lecture classification used by the analytics service.
+const LAB_CONDITION = Prisma.sql`(question_category_name ILIKE '%laboratory%' OR question_category_name ILIKE '%lab%' OR (question_batch IS NOT NULL AND question_batch NOT ILIKE 'none'))`;
+
+// Only rating responses contribute to scores; text and choice answers are ignored.
+const SCORE_EXPR = RATING_SCORE_SQL;
+
+const RESPONDENT_EXPR = Prisma.sql`COALESCE(student_id, override_student_id)`;
+
+// SQL for each report dimension: the grouping key and a display label.
+const DIMENSION_SQL: Record<
+  ReportDimension,
+  { key: Prisma.Sql; label: Prisma.Sql }
+> = {
+  department: {
+    key: Prisma.sql`department_id`,
+    label: Prisma.sql`MAX(department_name)`,
+  },
+  semester: {
+    key: Prisma.sql`semester_id`,
+    label: Prisma.sql`MAX(semester_number)::text`,
+  },
+  division: {
+    key: Prisma.sql`division_id`,
+    label: Prisma.sql`MAX(division_name)`,
+  },
+  subject: {
+    key: Prisma.sql`subject_id`,
+    label: Prisma.sql`MAX(subject_name)`,
+  },
+  faculty: {
+    key: Prisma.sql`faculty_id`,
+    label: Prisma.sql`MAX(faculty_name)`,
+  },
+  lectureType: {
+    key: Prisma.sql`CASE WHEN ${LAB_CONDITION} THEN 'LAB' ELSE 'LECTURE' END`,
+    label: Prisma.sql`MAX(CASE WHEN ${LAB_CONDITION} THEN 'LAB' ELSE 'LECTURE' END)`,
+  },
+  batch: {
+    key: Prisma.sql`question_batch`,
+    label: Prisma.sql`MAX(question_batch)`,
+  },
+};
+
+// Rounds a metric to two decimal places, keeping nulls.
+const round = (value: number | null): number | null =>
+  value === null ? null : Number(value.toFixed(2));
+
+class CustomReportService {
+  // Builds the WHERE clause for a report from its validated filters and the scope's departments.
+  private buildWhereClause(
+    filters: ReportConfig['filters'],
+    scopedDepartmentIds: string[] | null
+  ): Prisma.Sql {
+    const conditions: Prisma.Sql[] = [
+      Prisma.sql`is_deleted = false`,
+      Prisma.sql`academic_year_is_deleted = false`,
+      Prisma.sql`department_is_deleted = false`,
+      Prisma.sql`semester_is_deleted = false`,
+      Prisma.sql`division_is_deleted = false`,
+      Prisma.sql`subject_is_deleted = false`,
+      Prisma.sql`form_is_deleted = false`,
+      Prisma.sql`question_is_deleted = false`,
+      Prisma.sql`form_deleted = false`,
+    ];
+
+    if (filters.academicYearId)
+      conditions.push(Prisma.sql`academic_year_id = ${filters.academicYearId}`);
+    if (filters.departmentId)
+      conditions.push(Prisma.sql`department_id = ${filters.departmentId}`);
+    if (filters.semesterId)
+      conditions.push(Prisma.sql`semester_id = ${filters.semesterId}`);
+    if (filters.divisionId)
+      conditions.push(Prisma.sql`division_id = ${filters.divisionId}`);
+    if (filters.subjectId)
+      conditions.push(Prisma.sql`subject_id = ${filters.subjectId}`);
+    if (filters.facultyId)
+      conditions.push(Prisma.sql`faculty_id = ${filters.facultyId}`);
+    if (filters.batch)
+      conditions.push(Prisma.sql`question_batch = ${filters.batch}`);
+    if (filters.submittedFrom)
+      conditions.push(Prisma.sql`submitted_at >= ${filters.submittedFrom}`);
+    if (filters.submittedTo)
+      conditions.push(Prisma.sql`submitted_at <= ${filters.submittedTo}`);
+    if (scopedDepartmentIds) {
+      conditions.push(
+        scopedDepartmentIds.length
+          ? Prisma.sql`department_id IN (${Prisma.join(scopedDepartmentIds)})`
+          : Prisma.sql`FALSE`
+      );
+    }
+
+    if (filters.lectureType === 'LAB') {
+      conditions.push(LAB_CONDITION);
+    } else if (filters.lectureType === 'LECTURE') {
+      conditions.push(Prisma.sql`NOT ${LAB_CONDITION}`);
+    }
+
+    return Prisma.sql`WHERE ${Prisma.join(conditions, ' AND ')}`;
+  }
+
+  // Runs a validated report configuration against the feedback snapshots in the scope.
+  private async executeReport(
+    config: ReportConfig,
+    scope: CollegeScope
+  ): Promise<Omit<CustomReportResult, 'reportId' | 'reportName'>> {
+    const whereSql = this.buildWhereClause(
+      config.filters,
+      await getScopedDepartmentIds(scope)
+    );
+    const dimensionCount = config.dimensions.length;
+
+    // Dimension keys are selected first, so they can be grouped by position.
+    const keySelects = config.dimensions.map(
+      (dimension, index) =>
+        Prisma.sql`${DIMENSION_SQL[dimension].key} AS ${Prisma.raw(`"k${index}"`)}`
+    );
+    const labelSelects = config.dimensions.map(
+      (dimension, index) =>
+        Prisma.sql`${DIMENSION_SQL[dimension].label} AS ${Prisma.raw(`"l${index}"`)}`
+    );
+    const groupByKeys = Prisma.raw(
+      config.dimensions.map((_, index) => index + 1).join(', ')
+    );
+
+    const groups = await prisma.$queryRaw<any[]>`
+      SELECT
+        ${Prisma.join([...keySelects, ...labelSelects])},
+        COUNT(*)::int AS "responseCount",
+        COUNT(DISTINCT ${RESPONDENT_EXPR})::int AS "respondentCount",
+        COUNT(DISTINCT form_id || ':' || ${RESPONDENT_EXPR})::int AS "formRespondentCount",
+        AVG(${SCORE_EXPR})::float AS "averageRating",
+        ARRAY_AGG(DISTINCT form_id) AS "formIds"
+      FROM feedback_snapshots
+      ${whereSql}
+      GROUP BY ${groupByKeys}
+    `;
+
+    const groupKeyOf = (row: any) =>
+      config.dimensions.map((_, index) => String(row[`k${index}`])).join('|');
+
+    const distributions = new Map<string, Record<string, number>>();
+    if (config.metrics.includes('distribution')) {
+      const buckets = await prisma.$queryRaw<any[]>`
+        SELECT
+          ${Prisma.join(keySelects)},
+          ROUND(${SCORE_EXPR})::int AS "bucket",
+          COUNT(*)::int AS "count"
+        FROM feedback_snapshots
+        ${whereSql} AND ${SCORE_EXPR} IS NOT NULL
+        GROUP BY ${groupByKeys}, ${Prisma.raw(String(dimensionCount + 1))}
+      `;
+      for (const bucket of buckets) {
+        const key = groupKeyOf(bucket);
+        const distribution = distributions.get(key) ?? {};
+        distribution[String(bucket.bucket)] = bucket.count;
+        distributions.set(key, distribution);
+      }
+    }
+
+    const accessCounts = new Map<string, number>();
+    if (config.metrics.includes('completionRate')) {
+      const formIds = [
+        ...new Set(groups.flatMap((group) => group.formIds as string[])),
+      ];
+      const counts = await prisma.formAccess.groupBy({
+        by: ['formId'],
+        where: { formId: { in: formIds }, isDeleted: false },
+        _count: { _all: true },
+      });
+      for (const count of counts) {
+        accessCounts.set(count.formId, count._count._all);
+      }
+    }
+
+    let rows: CustomReportRow[] = groups.map((group) => {
+      const dimensions: CustomReportRow['dimensions'] = {};
+      config.dimensions.forEach((dimension, index) => {
+        dimensions[dimension] = {
+          id: String(group[`k${index}`]),
+          label: String(group[`l${index}`]),
+        };
+      });
+
+      const metrics: CustomReportRow['metrics'] = {};
+      if (config.metrics.includes('average')) {
+        metrics.averageRating = round(group.averageRating);
+      }
+      if (config.metrics.includes('count')) {
+        metrics.responseCount = group.responseCount;
+        metrics.respondentCount = group.respondentCount;
+      }
+      if (config.metrics.includes('distribution')) {
+        metrics.distribution = distributions.get(groupKeyOf(group)) ?? {};
+      }
+      if (config.metrics.includes('completionRate')) {
+        // Completion compares students who answered against everyone the group's forms were sent to.
+        const eligible = (group.formIds as string[]).reduce(
+          (acc, formId) => acc + (accessCounts.get(formId) ?? 0),
+          0
+        );
+        metrics.completionRate =
+          eligible > 0
+            ? round(Math.min(100, (group.formRespondentCount / eligible) * 100))
+            : null;
+      }
+
+      return { dimensions, metrics };
+    });
+
+    rows = this.sortRows(rows, config);
+    const totalRows = rows.length;
+    if (config.limit) {
+      rows = rows.slice(0, config.limit);
+    }
+
+    return { generatedAt: new Date(), config, totalRows, rows };
+  }
+
+  // Sorts report rows by the configured dimension or metric, defaulting to the dimension labels.
+  private sortRows(
+    rows: CustomReportRow[],
+    config: ReportConfig
+  ): CustomReportRow[] {
+    const compareLabels = (a: CustomReportRow, b: CustomReportRow) => {
+      for (const dimension of config.dimensions) {
+        const result = (a.dimensions[dimension]?.label ?? '').localeCompare(
+          b.dimensions[dimension]?.label ?? '',
+          undefined,
+          { numeric: true }
+        );
+        if (result !== 0) return result;
+      }
+      return 0;
+    };
+
+    if (!config.sort) {
+      return rows.sort(compareLabels);
+    }
+
+    const { by, order } = config.sort;
+    const direction = order === 'asc' ? 1 : -1;
+    const metricValue = (row: CustomReportRow): number | null | undefined => {
+      if (by === 'average') return row.metrics.averageRating;
+      if (by === 'count') return row.metrics.responseCount;
+      if (by === 'completionRate') return row.metrics.completionRate;
+      return undefined;
+    };
+
+    return rows.sort((a, b) => {
+      if (by === 'average' || by === 'count' || by === 'completionRate') {
+        const aValue = metricValue(a);
+        const bValue = metricValue(b);
+        // Rows without a value always sort last.
+        if (aValue == null && bValue == null) return compareLabels(a, b);
+        if (aValue == null) return 1;
+        if (bValue == null) return -1;
+        return aValue === bValue
+          ? compareLabels(a, b)
+          : (aValue - bValue) * direction;
+      }
+      const result = (a.dimensions[by]?.label ?? '').localeCompare(
+        b.dimensions[by]?.label ?? '',
+        undefined,
+        { numeric: true }
+      );
+      return result * direction;
+    });
+  }
+
+  // Re-validates a stored report configuration before it is run.
+  private parseStoredConfig(report: CustomReport): ReportConfig {
+    const parsed = reportConfigSchema.safeParse(report.reportConfig);
+    if (!parsed.success) {
+      throw new AppError(
+        `Saved report configuration is invalid: ${parsed.error.errors.map((e) => e.message).join(', ')}`,
+        400
+      );
+    }
+    return parsed.data;
+  }
+
+  // Ensures a report can be changed in the scope, which an HOD cannot do to college-wide reports.
+  private async assertReportInScope(
+    id: string,
+    scope: CollegeScope
+  ): Promise<void> {
+    const report = await prisma.customReport.findFirst({
+      where: { id, isDeleted: false, ...collegeSharedRecordScopeWhere(scope) },
+      select: { collegeId: true, departmentId: true },
+    });
+    if (!report) {
+      throw new AppError('Custom report not found.', 404);
+    }
+    assertCollegeRecordInScope(scope, report);
+  }
+
+  // Retrieves the saved custom reports of the colleges in the scope.
+  public async getAllReports(scope: CollegeScope): Promise<CustomReport[]> {
+    try {
+      const reports = await prisma.customReport.findMany({
+        where: { isDeleted: false, ...collegeSharedRecordScopeWhere(scope) },
+        orderBy: { reportName: 'asc' },
+      });
+      return reports;
+    } catch (error: any) {
+      console.error('Error in CustomReportService.getAllReports:', error);
+      throw new AppError('Failed to retrieve custom reports.', 500);
+    }
+  }
+
+  // Retrieves a single saved custom report of a college in the scope.
+  public async getReportById(
+    id: string,
+    scope: CollegeScope
+  ): Promise<CustomReport | null> {
+    try {
+      const report = await prisma.customReport.findFirst({
+        where: {
+          id: id,
+          isDeleted: false,
+          ...collegeSharedRecordScopeWhere(scope),
+        },
+      });
+      return report;
+    } catch (error: any) {
+      console.error(
+        `Error in CustomReportService.getReportById for ID ${id}:`,
+        error
+      );
+      throw new AppError('Failed to retrieve custom report.', 500);
+    }
+  }
+
+  // Saves a new custom report definition for a college in the scope.
+  public async createReport(
+    data: CreateCustomReportInput,
+    scope: CollegeScope
+  ): Promise<CustomReport> {
+    const collegeScope = getRecordCollegeScope(scope, data.collegeId);
+    if (data.reportConfig.filters.departmentId) {
+      await assertDepartmentInScope(
+        scope,
+        data.reportConfig.filters.departmentId
+      );
+    }
+
+    try {
+      const report = await prisma.customReport.create({
+        data: {
+          reportName: data.reportName,
+          description: data.description ?? '',
+          reportConfig: data.reportConfig as Prisma.InputJsonValue,
+          isActive: data.isActive,
+          collegeId: collegeScope.collegeIds?.[0],
+          departmentId: collegeScope.departmentIds?.[0],
+        },
+      });
+      return report;
+    } catch (error: any) {
+      console.error('Error in CustomReportService.createReport:', error);
+      throw new AppError('Failed to create custom report.', 500);
+    }
+  }
+
+  // Updates an existing custom report definition.
+  public async updateReport(
+    id: string,
+    data: UpdateCustomReportInput,
+    scope: CollegeScope
+  ): Promise<CustomReport> {
+    await this.assertReportInScope(id, scope);
+    const { reportConfig, ...restOfData } = data;
+    if (reportConfig?.filters.departmentId) {
+      await assertDepartmentInScope(scope, reportConfig.filters.departmentId);
+    }
+
+    try {
+      const report = await prisma.customReport.update({
+        where: { id: id, isDeleted: false },
+        data: {
+          ...restOfData,
+          ...(reportConfig && {
+            reportConfig: reportConfig as Prisma.InputJsonValue,
+          }),
+        },
+      });
+      return report;
+    } catch (error: any) {
+      console.error(
+        `Error in CustomReportService.updateReport for ID ${id}:`,
+        error
+      );
+      if (error.code === 'P2025') {
+        throw new AppError('Custom report not found for update.', 404);
+      }
+      throw new AppError('Failed to update custom report.', 500);
+    }
+  }
+
+  // Soft deletes a custom report that can be changed in the scope.
+  public async softDeleteReport(
+    id: string,
+    scope: CollegeScope
+  ): Promise<CustomReport> {
+    await this.assertReportInScope(id, scope);
+
+    try {
+      const report = await prisma.customReport.update({
+        where: { id: id, isDeleted: false },
+        data: { isDeleted: true },
+      });
+      return report;
+    } catch (error: any) {
+      console.error(
+        `Error in CustomReportService.softDeleteReport for ID ${id}:`,
+        error
+      );
+      if (error.code === 'P2025') {
+        throw new AppError('Custom report not found for deletion.', 404);
+      }
+      throw new AppError('Failed to soft delete custom report.', 500);
+    }
+  }
+
+  // Runs a saved, active custom report over the feedback of the departments in the scope.
+  public async runReport(
+    id: string,
+    scope: CollegeScope
+  ): Promise<CustomReportResult> {
+    const report = await prisma.customReport.findFirst({
+      where: {
+        id: id,
+        isDeleted: false,
+        ...collegeSharedRecordScopeWhere(scope),
+      },
+    });
+    if (!report) {
+      throw new AppError('Custom report not found or is deleted.', 404);
+    }
+    if (!report.isActive) {
+      throw new AppError('Custom report is inactive.', 400);
+    }
+
+    const config = this.parseStoredConfig(report);
+    if (config.filters.departmentId) {
+      await assertDepartmentInScope(scope, config.filters.departmentId);
+    }
+
+    try {
+      const result = await this.executeReport(config, scope);
+      return { reportId: report.id, reportName: report.reportName, ...result };
+    } catch (error: any) {
+      console.error(
+        `Error in CustomReportService.runReport for ID ${id}:`,
+        error
+      );
+      throw new AppError('Failed to run custom report.', 500);
+    }
+  }
+
+  // Runs an unsaved report configuration, so admins can preview it before saving.
+  public async previewReport(
+    config: ReportConfig,
+    scope: CollegeScope
+  ): Promise<CustomReportResult> {
+    if (config.filters.departmentId) {
+      await assertDepartmentInScope(scope, config.filters.departmentId);
+    }
+
+    try {
+      const result = await this.executeReport(config, scope);
+      return { reportId: null, reportName: null, ...result };
+    } catch (error: any) {
+      console.error('Error in CustomReportService.previewReport:', error);
+      throw new AppError('Failed to preview custom report.', 500);
+    }
+  }
+}
+
+export const customReportService = new CustomReportService();
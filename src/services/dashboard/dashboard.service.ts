@@ -6,10 +6,15 @@
 
 import { prisma } from '../common/prisma.service';
 import AppError from '../../utils/appError';
+import {
+  CollegeScope,
+  departmentScopeWhere,
+  getScopedDepartmentIds,
+} from '../college/collegeScope';
 
 class DashboardService {
-  // Fetches aggregated counts of various entities for the dashboard.
-  public async getDashboardStats(): Promise<{
+  // Fetches aggregated counts of the entities in the scope for the dashboard.
+  public async getDashboardStats(scope: CollegeScope): Promise<{
     responseCount: number;
     facultyCount: number;
     studentCount: number;
@@ -24,6 +29,9 @@ class DashboardService {
     };
   }> {
     try {
+      const departmentIds = await getScopedDepartmentIds(scope);
+      const department = { isDeleted: false, ...departmentScopeWhere(scope) };
+
       const [
         responseCount,
         facultyCount,
@@ -35,13 +43,15 @@ class DashboardService {
         academicYearCount,
         activeAcademicYear,
       ] = await Promise.all([
-        prisma.feedbackSnapshot.count(),
-        prisma.faculty.count({ where: { isDeleted: false } }),
-        prisma.student.count({ where: { isDeleted: false } }),
-        prisma.department.count({ where: { isDeleted: false } }),
-        prisma.division.count({ where: { isDeleted: false } }),
-        prisma.subject.count({ where: { isDeleted: false } }),
-        prisma.semester.count({ where: { isDeleted: false } }),
+        prisma.feedbackSnapshot.count({
+          where: departmentIds ? { departmentId: { in: departmentIds } } : {},
+        }),
+        prisma.faculty.count({ where: { isDeleted: false, department } }),
+        prisma.student.count({ where: { isDeleted: false, department } }),
+        prisma.department.count({ where: department }),
+        prisma.division.count({ where: { isDeleted: false, department } }),
+        prisma.subject.count({ where: { isDeleted: false, department } }),
+        prisma.semester.count({ where: { isDeleted: false, department } }),
         prisma.academicYear.count({ where: { isDeleted: false } }),
         prisma.academicYear.findFirst({
           where: { isActive: true, isDeleted: false },
@@ -80,24 +90,36 @@ class DashboardService {
       }
 
       await prisma.$transaction(async (tx) => {
+        await tx.formReminder.deleteMany({});
         await tx.studentResponse.deleteMany({});
         await tx.formAccess.deleteMany({});
         await tx.overrideStudent.deleteMany({});
         await tx.feedbackFormOverride.deleteMany({});
         await tx.feedbackQuestion.deleteMany({});
         await tx.feedbackForm.deleteMany({});
+        await tx.feedbackAnalytics.deleteMany({});
         await tx.subjectAllocation.deleteMany({});
         await tx.faculty.deleteMany({});
+        await tx.promotionHistory.deleteMany({});
+        await tx.promotionBatch.deleteMany({});
         await tx.student.deleteMany({});
         await tx.subject.deleteMany({});
+        await tx.formTemplateQuestion.deleteMany({});
+        await tx.formTemplate.deleteMany({});
+        await tx.questionBankItem.deleteMany({});
         await tx.questionCategory.deleteMany({});
         await tx.division.deleteMany({});
         await tx.semester.deleteMany({});
         await tx.academicYear.deleteMany({});
+        await tx.adminInvitation.deleteMany({});
+        await tx.departmentAlias.deleteMany({});
         await tx.department.deleteMany({});
+        await tx.adminCollege.deleteMany({});
         await tx.college.deleteMany({});
-        await tx.feedbackAnalytics.deleteMany({});
         await tx.oTP.deleteMany({});
+        await tx.uploadErrorReport.deleteMany({});
+        await tx.uploadBatchRecord.deleteMany({});
+        await tx.uploadBatch.deleteMany({});
       });
     } catch (error: any) {
       console.error('Error in DashboardService.deleteAllData:', error);
@@ -4,10 +4,16 @@
  * Encapsulates business logic, interacts with the Prisma client, and manages a simple cache.
  */
 
-import { Department } from '@prisma/client';
+import { College, Department } from '@prisma/client';
 import { prisma } from '../common/prisma.service';
-import { collegeService } from '../college/college.service';
 import AppError from '../../utils/appError';
+import {
+  CollegeScope,
+  assertCollegeInScope,
+  assertCollegeWideScope,
+  departmentScopeWhere,
+  isDepartmentInScope,
+} from '../college/collegeScope';
 
 const departmentCache = new Map<string, Department>();
 
@@ -20,8 +26,53 @@ interface DepartmentDataInput {
 }
 
 class DepartmentService {
-  // Retrieves all active departments including related data.
-  public async getAllDepartments(): Promise<Department[]> {
+  /**
+   * Resolves the college a new department belongs to.
+   * @param collegeId - The requested college, which must be in the scope.
+   * @param scope - The caller's colleges; a caller with only one college may omit collegeId.
+   * @throws AppError 403 when the caller is bound to a department.
+   */
+  private async resolveCollege(
+    collegeId: string | undefined,
+    scope: CollegeScope
+  ): Promise<College> {
+    assertCollegeWideScope(scope);
+    if (!collegeId) {
+      if (scope.collegeIds?.length !== 1) {
+        throw new AppError(
+          'College ID is required when you can access more than one college.',
+          400
+        );
+      }
+      collegeId = scope.collegeIds[0];
+    }
+    assertCollegeInScope(scope, collegeId);
+
+    const existingCollege = await prisma.college.findUnique({
+      where: { id: collegeId, isDeleted: false },
+    });
+    if (!existingCollege) {
+      throw new AppError(
+        'Provided college ID does not exist or is deleted.',
+        400
+      );
+    }
+    return existingCollege;
+  }
+
+  // Builds the placeholder HOD email of a department from its college's website domain.
+  private defaultHodEmail(departmentName: string, college: College): string {
+    let domain: string;
+    try {
+      domain = new URL(college.websiteUrl).hostname.replace(/^www\./, '');
+    } catch {
+      domain = 'example.com';
+    }
+    return `hod.${departmentName.toLowerCase().replace(/\s/g, '')}@${domain}`;
+  }
+
+  // Retrieves all active departments in the scope including related data.
+  public async getAllDepartments(scope: CollegeScope): Promise<Department[]> {
     try {
       const departments = await prisma.department.findMany({
         where: {
@@ -29,6 +80,7 @@ class DepartmentService {
           college: {
             isDeleted: false,
           },
+          ...departmentScopeWhere(scope),
         },
         include: {
           college: true,
@@ -48,32 +100,19 @@ class DepartmentService {
 
   // Creates a new department or updates an existing one.
   public async createDepartment(
-    data: DepartmentDataInput
+    data: DepartmentDataInput,
+    scope: CollegeScope
   ): Promise<Department> {
     const { name, abbreviation, hodName, hodEmail } = data;
-    let { collegeId } = data;
 
     departmentCache.clear();
 
-    if (!collegeId) {
-      const primaryCollege = await collegeService.upsertPrimaryCollege({});
-      collegeId = primaryCollege.id;
-    } else {
-      const existingCollege = await prisma.college.findUnique({
-        where: { id: collegeId, isDeleted: false },
-      });
-      if (!existingCollege) {
-        throw new AppError(
-          'Provided college ID does not exist or is deleted.',
-          400
-        );
-      }
-    }
+    const college = await this.resolveCollege(data.collegeId, scope);
+    const collegeId = college.id;
 
     const finalAbbreviation = abbreviation || name;
     const finalHodName = hodName || `HOD of ${name}`;
-    const finalHodEmail =
-      hodEmail || `hod.${name.toLowerCase().replace(/\s/g, '')}@ldrp.ac.in`;
+    const finalHodEmail = hodEmail || this.defaultHodEmail(name, college);
 
     try {
       const department = await prisma.department.upsert({
@@ -122,11 +161,14 @@ class DepartmentService {
     }
   }
 
-  // Retrieves a single department by its ID, using cache.
-  public async getDepartmentById(id: string): Promise<Department | null> {
+  // Retrieves a single department in the scope by its ID, using cache.
+  public async getDepartmentById(
+    id: string,
+    scope: CollegeScope
+  ): Promise<Department | null> {
     let department: Department | null | undefined = departmentCache.get(id);
     if (department) {
-      return department;
+      return isDepartmentInScope(scope, department) ? department : null;
     }
 
     try {
@@ -151,7 +193,9 @@ class DepartmentService {
       if (department) {
         departmentCache.set(id, department);
       }
-      return department;
+      return !department || isDepartmentInScope(scope, department)
+        ? department
+        : null;
     } catch (error: any) {
       console.error('Error in DepartmentService.getDepartmentById:', error);
       throw new AppError('Failed to retrieve department.', 500);
@@ -161,25 +205,18 @@ class DepartmentService {
   // Updates an existing department.
   public async updateDepartment(
     id: string,
-    data: Partial<DepartmentDataInput>
+    data: Partial<DepartmentDataInput>,
+    scope: CollegeScope
   ): Promise<Department> {
+    if (data.collegeId) {
+      await this.resolveCollege(data.collegeId, scope);
+    }
+
     try {
       departmentCache.clear();
 
-      if (data.collegeId) {
-        const existingCollege = await prisma.college.findUnique({
-          where: { id: data.collegeId, isDeleted: false },
-        });
-        if (!existingCollege) {
-          throw new AppError(
-            'Provided college ID does not exist or is deleted.',
-            400
-          );
-        }
-      }
-
       const department = await prisma.department.update({
-        where: { id: id, isDeleted: false },
+        where: { id: id, isDeleted: false, ...departmentScopeWhere(scope) },
         data: data,
         include: {
           college: true,
@@ -210,12 +247,17 @@ class DepartmentService {
   }
 
   // Soft deletes a department.
-  public async softDeleteDepartment(id: string): Promise<Department> {
+  public async softDeleteDepartment(
+    id: string,
+    scope: CollegeScope
+  ): Promise<Department> {
+    assertCollegeWideScope(scope);
+
     try {
       departmentCache.clear();
 
       const department = await prisma.department.update({
-        where: { id: id, isDeleted: false },
+        where: { id: id, isDeleted: false, ...departmentScopeWhere(scope) },
         data: { isDeleted: true },
       });
       return department;
@@ -230,26 +272,26 @@ class DepartmentService {
 
   // Performs a batch creation of departments.
   public async batchCreateDepartments(
-    departmentsData: DepartmentDataInput[]
+    departmentsData: DepartmentDataInput[],
+    scope: CollegeScope
   ): Promise<Department[]> {
     departmentCache.clear();
 
     const results: Department[] = [];
-    const primaryCollege = await collegeService.upsertPrimaryCollege({});
 
     for (const dept of departmentsData) {
+      const college = await this.resolveCollege(dept.collegeId, scope);
       const finalAbbreviation = dept.abbreviation || dept.name;
       const finalHodName = dept.hodName || `HOD of ${dept.name}`;
       const finalHodEmail =
-        dept.hodEmail ||
-        `hod.${dept.name.toLowerCase().replace(/\s/g, '')}@ldrp.ac.in`;
+        dept.hodEmail || this.defaultHodEmail(dept.name, college);
 
       try {
         const department = await prisma.department.upsert({
           where: {
             name_collegeId: {
               name: dept.name,
-              collegeId: primaryCollege.id,
+              collegeId: college.id,
             },
           },
           create: {
@@ -257,7 +299,7 @@ class DepartmentService {
             abbreviation: finalAbbreviation,
             hodName: finalHodName,
             hodEmail: finalHodEmail,
-            collegeId: primaryCollege.id,
+            collegeId: college.id,
           },
           update: {
             abbreviation:
@@ -287,7 +329,7 @@ class DepartmentService {
           error.meta?.target?.includes('name_collegeId')
         ) {
           throw new AppError(
-            `Department '${dept.name}' already exists in the primary college.`,
+            `Department '${dept.name}' already exists in the college.`,
             409
           );
         }
@@ -0,0 +1,136 @@
+/**
+ * @file src/services/department/departmentAlias.service.ts
+ * @description Service layer for Department alias operations.
+ * Aliases are the other names a department goes by in uploaded sheets, such as "Computer"
+ * for Computer Engineering. Each alias refers to exactly one department of its college.
+ */
+
+import { Department, DepartmentAlias } from '@prisma/client';
+import { prisma } from '../common/prisma.service';
+import AppError from '../../utils/appError';
+import { normalizeDepartmentName } from '../upload/departmentLookup';
+import { CollegeScope, departmentScopeWhere } from '../college/collegeScope';
+
+class DepartmentAliasService {
+  // Retrieves an active department in the scope, or throws when it does not exist.
+  private async getDepartment(
+    departmentId: string,
+    scope: CollegeScope
+  ): Promise<Department> {
+    const department = await prisma.department.findUnique({
+      where: {
+        id: departmentId,
+        isDeleted: false,
+        ...departmentScopeWhere(scope),
+      },
+    });
+    if (!department) {
+      throw new AppError('Department not found.', 404);
+    }
+    return department;
+  }
+
+  // Ensures no other department of the college already goes by the alias.
+  private async ensureAliasAvailable(
+    department: Department,
+    alias: string
+  ): Promise<void> {
+    const key = normalizeDepartmentName(alias);
+    const collegeDepartments = await prisma.department.findMany({
+      where: { collegeId: department.collegeId, isDeleted: false },
+      include: { aliases: { where: { isDeleted: false } } },
+    });
+
+    for (const { aliases, ...other } of collegeDepartments) {
+      const names = [
+        other.abbreviation,
+        other.name,
+        ...aliases.map((a) => a.alias),
+      ];
+      if (names.some((name) => normalizeDepartmentName(name) === key)) {
+        throw new AppError(
+          other.id === department.id
+            ? `Department '${department.name}' is already known as '${alias}'.`
+            : `'${alias}' already refers to department '${other.name}'.`,
+          409
+        );
+      }
+    }
+  }
+
+  // Retrieves the active aliases of a department.
+  public async getAliases(
+    departmentId: string,
+    scope: CollegeScope
+  ): Promise<DepartmentAlias[]> {
+    await this.getDepartment(departmentId, scope);
+
+    try {
+      const aliases = await prisma.departmentAlias.findMany({
+        where: { departmentId, isDeleted: false },
+        orderBy: { alias: 'asc' },
+      });
+      return aliases;
+    } catch (error: any) {
+      console.error(
+        `Error in DepartmentAliasService.getAliases for department ID ${departmentId}:`,
+        error
+      );
+      throw new AppError('Failed to retrieve department aliases.', 500);
+    }
+  }
+
+  // Adds an alias to a department.
+  public async createAlias(
+    departmentId: string,
+    alias: string,
+    scope: CollegeScope
+  ): Promise<DepartmentAlias> {
+    const department = await this.getDepartment(departmentId, scope);
+    if (!normalizeDepartmentName(alias)) {
+      throw new AppError('Alias must contain a letter or digit.', 400);
+    }
+    await this.ensureAliasAvailable(department, alias);
+
+    try {
+      const departmentAlias = await prisma.departmentAlias.create({
+        data: { alias, departmentId },
+      });
+      return departmentAlias;
+    } catch (error: any) {
+      console.error(
+        `Error in DepartmentAliasService.createAlias for department ID ${departmentId}:`,
+        error
+      );
+      throw new AppError('Failed to create department alias.', 500);
+    }
+  }
+
+  // Soft deletes an alias of a department.
+  public async softDeleteAlias(
+    departmentId: string,
+    aliasId: string,
+    scope: CollegeScope
+  ): Promise<DepartmentAlias> {
+    await this.getDepartment(departmentId, scope);
+
+    try {
+      const departmentAlias = await prisma.departmentAlias.update({
+        where: { id: aliasId, departmentId, isDeleted: false },
+        data: { isDeleted: true },
+      });
+      return departmentAlias;
+    } catch (error: any) {
+      console.error(
+        `Error in DepartmentAliasService.softDeleteAlias for ID ${aliasId}:`,
+        error
+      );
+      if (error.code === 'P2025') {
+        throw new AppError('Department alias not found for deletion.', 404);
+      }
+      throw new AppError('Failed to soft delete department alias.', 500);
+    }
+  }
+}
+
+export const departmentAliasService = new DepartmentAliasService();
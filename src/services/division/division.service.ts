@@ -7,6 +7,12 @@
 import { Division, Prisma } from '@prisma/client';
 import { prisma } from '../common/prisma.service';
 import AppError from '../../utils/appError';
+import {
+  CollegeScope,
+  assertDepartmentInScope,
+  assertRecordInScope,
+  departmentScopeWhere,
+} from '../college/collegeScope';
 
 const divisionCache = new Map<string, Division>();
 
@@ -18,15 +24,29 @@ interface DivisionDataInput {
 }
 
 class DivisionService {
-  // Retrieves all active divisions, optionally filtered by departmentId and semesterId.
+  // Ensures a division belongs to a department in the scope.
+  private assertDivisionInScope(
+    id: string,
+    scope: CollegeScope
+  ): Promise<void> {
+    return assertRecordInScope(scope, () =>
+      prisma.division.findUnique({
+        where: { id },
+        select: { departmentId: true },
+      })
+    );
+  }
+
+  // Retrieves all active divisions in the scope, optionally filtered by departmentId and semesterId.
   public async getAllDivisions(
+    scope: CollegeScope,
     departmentId?: string,
     semesterId?: string
   ): Promise<Array<Omit<Division, 'students'> & { studentCount: number }>> {
     try {
       const whereClause: Prisma.DivisionWhereInput = {
         isDeleted: false,
-        department: { isDeleted: false },
+        department: { isDeleted: false, ...departmentScopeWhere(scope) },
         semester: { isDeleted: false },
       };
 
@@ -69,9 +89,14 @@ class DivisionService {
   }
 
   // Creates a new division.
-  public async createDivision(data: DivisionDataInput): Promise<Division> {
+  public async createDivision(
+    data: DivisionDataInput,
+    scope: CollegeScope
+  ): Promise<Division> {
     const { departmentId, semesterId, divisionName } = data;
 
+    await assertDepartmentInScope(scope, departmentId);
+
     divisionCache.clear();
 
     const existingDepartment = await prisma.department.findUnique({
@@ -132,7 +157,12 @@ class DivisionService {
   }
 
   // Retrieves a single active division by its ID.
-  public async getDivisionById(id: string): Promise<Division | null> {
+  public async getDivisionById(
+    id: string,
+    scope: CollegeScope
+  ): Promise<Division | null> {
+    await this.assertDivisionInScope(id, scope);
+
     let division: Division | null | undefined = divisionCache.get(id);
     if (division) {
       return division;
@@ -168,8 +198,14 @@ class DivisionService {
   // Updates an existing division.
   public async updateDivision(
     id: string,
-    data: Partial<DivisionDataInput>
+    data: Partial<DivisionDataInput>,
+    scope: CollegeScope
   ): Promise<Division> {
+    await this.assertDivisionInScope(id, scope);
+    if (data.departmentId) {
+      await assertDepartmentInScope(scope, data.departmentId);
+    }
+
     try {
       divisionCache.clear();
 
@@ -229,7 +265,12 @@ class DivisionService {
   }
 
   // Soft deletes a division.
-  public async softDeleteDivision(id: string): Promise<Division> {
+  public async softDeleteDivision(
+    id: string,
+    scope: CollegeScope
+  ): Promise<Division> {
+    await this.assertDivisionInScope(id, scope);
+
     try {
       divisionCache.clear();
 
@@ -249,13 +290,16 @@ class DivisionService {
 
   // Performs a batch creation of divisions.
   public async batchCreateDivisions(
-    divisionsData: DivisionDataInput[]
+    divisionsData: DivisionDataInput[],
+    scope: CollegeScope
   ): Promise<Division[]> {
     divisionCache.clear();
 
     const results: Division[] = [];
 
     for (const div of divisionsData) {
+      await assertDepartmentInScope(scope, div.departmentId);
+
       const existingDepartment = await prisma.department.findUnique({
         where: { id: div.departmentId, isDeleted: false },
       });
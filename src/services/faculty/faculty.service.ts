@@ -7,6 +7,12 @@
 import { Faculty, Prisma, Designation } from '@prisma/client';
 import { prisma } from '../common/prisma.service';
 import AppError from '../../utils/appError';
+import {
+  CollegeScope,
+  assertDepartmentInScope,
+  assertRecordInScope,
+  departmentScopeWhere,
+} from '../college/collegeScope';
 
 const facultyCache = new Map<string, Faculty>();
 
@@ -22,13 +28,23 @@ interface FacultyDataInput {
 }
 
 class FacultyService {
-  // Retrieves all active faculties.
-  public async getAllFaculties(): Promise<Faculty[]> {
+  // Ensures a faculty belongs to a department in the scope.
+  private assertFacultyInScope(id: string, scope: CollegeScope): Promise<void> {
+    return assertRecordInScope(scope, () =>
+      prisma.faculty.findUnique({
+        where: { id },
+        select: { departmentId: true },
+      })
+    );
+  }
+
+  // Retrieves all active faculties in the scope.
+  public async getAllFaculties(scope: CollegeScope): Promise<Faculty[]> {
     try {
       const faculties = await prisma.faculty.findMany({
         where: {
           isDeleted: false,
-          department: { isDeleted: false },
+          department: { isDeleted: false, ...departmentScopeWhere(scope) },
         },
         include: {
           department: true,
@@ -43,7 +59,10 @@ class FacultyService {
   }
 
   // Creates a new faculty or updates an existing one based on email.
-  public async createFaculty(data: FacultyDataInput): Promise<Faculty> {
+  public async createFaculty(
+    data: FacultyDataInput,
+    scope: CollegeScope
+  ): Promise<Faculty> {
     const {
       name,
       abbreviation,
@@ -55,6 +74,15 @@ class FacultyService {
       departmentId,
     } = data;
 
+    await assertDepartmentInScope(scope, departmentId);
+    // An existing email is updated, so its faculty must be in the scope as well.
+    await assertRecordInScope(scope, () =>
+      prisma.faculty.findUnique({
+        where: { email },
+        select: { departmentId: true },
+      })
+    );
+
     facultyCache.clear();
 
     const existingDepartment = await prisma.department.findUnique({
@@ -114,7 +142,12 @@ class FacultyService {
   }
 
   // Retrieves a single active faculty by its ID.
-  public async getFacultyById(id: string): Promise<Faculty | null> {
+  public async getFacultyById(
+    id: string,
+    scope: CollegeScope
+  ): Promise<Faculty | null> {
+    await this.assertFacultyInScope(id, scope);
+
     let faculty: Faculty | null | undefined = facultyCache.get(id);
     if (faculty) {
       return faculty;
@@ -146,8 +179,14 @@ class FacultyService {
   // Updates an existing faculty.
   public async updateFaculty(
     id: string,
-    data: Partial<FacultyDataInput>
+    data: Partial<FacultyDataInput>,
+    scope: CollegeScope
   ): Promise<Faculty> {
+    await this.assertFacultyInScope(id, scope);
+    if (data.departmentId) {
+      await assertDepartmentInScope(scope, data.departmentId);
+    }
+
     try {
       facultyCache.clear();
 
@@ -191,7 +230,12 @@ class FacultyService {
   }
 
   // Soft deletes a faculty.
-  public async softDeleteFaculty(id: string): Promise<Faculty> {
+  public async softDeleteFaculty(
+    id: string,
+    scope: CollegeScope
+  ): Promise<Faculty> {
+    await this.assertFacultyInScope(id, scope);
+
     try {
       facultyCache.clear();
 
@@ -211,13 +255,22 @@ class FacultyService {
 
   // Performs a batch creation of faculties.
   public async batchCreateFaculties(
-    facultiesData: FacultyDataInput[]
+    facultiesData: FacultyDataInput[],
+    scope: CollegeScope
   ): Promise<Faculty[]> {
     facultyCache.clear();
 
     const results: Faculty[] = [];
 
     for (const fac of facultiesData) {
+      await assertDepartmentInScope(scope, fac.departmentId);
+      await assertRecordInScope(scope, () =>
+        prisma.faculty.findUnique({
+          where: { email: fac.email },
+          select: { departmentId: true },
+        })
+      );
+
       const existingDepartment = await prisma.department.findUnique({
         where: { id: fac.departmentId, isDeleted: false },
       });
@@ -289,12 +342,16 @@ class FacultyService {
     return results;
   }
 
-  // Retrieves faculty abbreviations, optionally filtered by department abbreviation.
-  public async getFacultyAbbreviations(deptAbbr?: string): Promise<string[]> {
+  // Retrieves faculty abbreviations in the scope, optionally filtered by department abbreviation.
+  public async getFacultyAbbreviations(
+    scope: CollegeScope,
+    deptAbbr?: string
+  ): Promise<string[]> {
     try {
       const departmentFilter: Prisma.DepartmentWhereInput = {
         isDeleted: false,
-        college: { isDeleted: false, id: 'LDRP-ITR' },
+        college: { isDeleted: false },
+        ...departmentScopeWhere(scope),
       };
 
       if (deptAbbr) {
@@ -314,7 +371,8 @@ class FacultyService {
           where: {
             abbreviation: deptAbbr.trim().toUpperCase(),
             isDeleted: false,
-            college: { isDeleted: false, id: 'LDRP-ITR' },
+            college: { isDeleted: false },
+            ...departmentScopeWhere(scope),
           },
         });
         if (!departmentExists) {
@@ -338,6 +396,11 @@ class FacultyService {
       throw new AppError('Failed to retrieve faculty abbreviations.', 500);
     }
   }
+
+  // Clears cached faculties after they are changed in bulk outside this service.
+  public clearCache(): void {
+    facultyCache.clear();
+  }
 }
 
 export const facultyService = new FacultyService();
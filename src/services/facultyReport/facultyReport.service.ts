@@ -0,0 +1,523 @@
+/**
+ * @file src/services/facultyReport/facultyReport.service.ts
+ * @description Service layer for printable faculty feedback report cards.
+ * Renders FacultyDetailedAnalytics and anonymized comments into a PDF with PDFKit, branded with the faculty's college.
+ */
+
+import PDFDocument from 'pdfkit';
+import { College, Prisma } from '@prisma/client';
+import { prisma } from '../common/prisma.service';
+import { analyticsService } from '../analytics/analytics.service';
+import { CollegeScope } from '../college/collegeScope';
+import { FacultyDetailedAnalytics } from '../analytics/analytics.interfaces';
+
+type PdfDocument = PDFKit.PDFDocument;
+
+interface ReportCardFile {
+  fileName: string;
+  buffer: Buffer;
+}
+
+interface TableColumn {
+  header: string;
+  width: number;
+  align?: 'left' | 'right' | 'center';
+}
+
+interface AnonymizedComment {
+  subjectName: string;
+  text: string;
+}
+
+// Row limits keep the report card within two pages.
+const MAX_SUBJECT_ROWS = 10;
+const MAX_DIVISION_ROWS = 10;
+const MAX_CATEGORY_ROWS = 8;
+const MAX_TREND_ROWS = 8;
+const MAX_COMMENTS = 6;
+const MAX_COMMENT_LENGTH = 280;
+
+// Ratings under this value are printed in red.
+const LOW_RATING_THRESHOLD = 3;
+
+const BRAND_COLOR = '#1F4E78';
+const LOW_RATING_COLOR = '#9C0006';
+const TEXT_COLOR = '#1F2937';
+const MUTED_COLOR = '#6B7280';
+const ROW_HEIGHT = 16;
+
+// Formats a rating for display.
+const formatRating = (rating: number | null | undefined): string =>
+  typeof rating === 'number' ? rating.toFixed(2) : 'N/A';
+
+// Removes details that could identify a student from a free-text comment.
+const anonymizeComment = (text: string): string =>
+  text
+    .replace(/[^\s@]+@[^\s@]+\.[^\s@]+/g, '[redacted]')
+    .replace(/\d{6,}/g, '[redacted]')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+// Extracts the text of a stored response value, or null when it is not text.
+const extractCommentText = (responseValue: Prisma.JsonValue): string | null => {
+  let value: unknown = responseValue;
+  if (typeof value === 'string') {
+    try {
+      value = JSON.parse(value);
+    } catch {
+      // Plain strings are stored as-is.
+    }
+  }
+  return typeof value === 'string' && value.trim() !== '' ? value : null;
+};
+
+class FacultyReportService {
+  // Retrieves anonymized text comments for a faculty member.
+  private async getAnonymizedComments(
+    facultyId: string,
+    academicYearId?: string
+  ): Promise<AnonymizedComment[]> {
+    const snapshots = await prisma.feedbackSnapshot.findMany({
+      where: {
+        facultyId,
+        questionType: 'text',
+        isDeleted: false,
+        formIsDeleted: false,
+        formDeleted: false,
+        questionIsDeleted: false,
+        ...(academicYearId && { academicYearId }),
+      },
+      select: { subjectName: true, responseValue: true },
+      orderBy: { submittedAt: 'desc' },
+      take: MAX_COMMENTS * 5,
+    });
+
+    const comments: AnonymizedComment[] = [];
+    for (const snapshot of snapshots) {
+      const text = extractCommentText(snapshot.responseValue);
+      if (!text) continue;
+      const anonymized = anonymizeComment(text);
+      comments.push({
+        subjectName: snapshot.subjectName,
+        text:
+          anonymized.length > MAX_COMMENT_LENGTH
+            ? `${anonymized.slice(0, MAX_COMMENT_LENGTH - 3)}...`
+            : anonymized,
+      });
+      if (comments.length >= MAX_COMMENTS) break;
+    }
+
+    // Sorting by subject hides the submission order.
+    return comments.sort((a, b) => a.subjectName.localeCompare(b.subjectName));
+  }
+
+  // Shortens text so it fits within the given width on one line.
+  private fitText(doc: PdfDocument, text: string, width: number): string {
+    if (doc.widthOfString(text) <= width) return text;
+    let fitted = text;
+    while (fitted.length > 1 && doc.widthOfString(`${fitted}...`) > width) {
+      fitted = fitted.slice(0, -1);
+    }
+    return `${fitted}...`;
+  }
+
+  // Starts a new page when the remaining space is smaller than the given height.
+  private ensureSpace(doc: PdfDocument, height: number): void {
+    if (doc.y + height > doc.page.height - doc.page.margins.bottom) {
+      doc.addPage();
+    }
+  }
+
+  // Draws the college branding and report title.
+  private drawHeader(
+    doc: PdfDocument,
+    college: College | null,
+    data: FacultyDetailedAnalytics,
+    periodLabel: string
+  ): void {
+    const left = doc.page.margins.left;
+    const width = doc.page.width - left - doc.page.margins.right;
+
+    doc.rect(0, 0, doc.page.width, 70).fill(BRAND_COLOR);
+    doc
+      .fillColor('#FFFFFF')
+      .font('Helvetica-Bold')
+      .fontSize(16)
+      .text(college?.name ?? 'Faculty Feedback Report', left, 18, { width });
+    if (college) {
+      doc
+        .font('Helvetica')
+        .fontSize(9)
+        .text(
+          [college.address, college.contactNumber, college.websiteUrl]
+            .filter(Boolean)
+            .join('  |  '),
+          left,
+          42,
+          { width }
+        );
+    }
+
+    doc.y = 86;
+    doc
+      .fillColor(TEXT_COLOR)
+      .font('Helvetica-Bold')
+      .fontSize(14)
+      .text('Faculty Feedback Report Card', left, doc.y, { width });
+    doc
+      .font('Helvetica')
+      .fontSize(10)
+      .fillColor(MUTED_COLOR)
+      .text(
+        `${data.faculty.name}${data.faculty.abbreviation ? ` (${data.faculty.abbreviation})` : ''}  |  ${data.faculty.designation}  |  ${periodLabel}`,
+        left,
+        doc.y + 2,
+        { width }
+      );
+    doc.moveDown(0.8);
+  }
+
+  // Draws the headline figures: overall rating, rank and response count.
+  private drawSummary(doc: PdfDocument, data: FacultyDetailedAnalytics): void {
+    const left = doc.page.margins.left;
+    const width = doc.page.width - left - doc.page.margins.right;
+    const boxWidth = (width - 20) / 3;
+    const top = doc.y;
+
+    const boxes: Array<[string, string, string?]> = [
+      [
+        'Overall Rating',
+        formatRating(data.overallRating),
+        data.overallRating < LOW_RATING_THRESHOLD
+          ? LOW_RATING_COLOR
+          : undefined,
+      ],
+      ['Rank', `${data.rank} of ${data.totalFaculty}`],
+      ['Responses', String(data.totalResponses)],
+    ];
+
+    boxes.forEach(([label, value, color], index) => {
+      const x = left + index * (boxWidth + 10);
+      doc
+        .roundedRect(x, top, boxWidth, 48, 4)
+        .lineWidth(1)
+        .strokeColor('#D1D5DB')
+        .stroke();
+      doc
+        .font('Helvetica')
+        .fontSize(9)
+        .fillColor(MUTED_COLOR)
+        .text(label, x, top + 8, { width: boxWidth, align: 'center' });
+      doc
+        .font('Helvetica-Bold')
+        .fontSize(16)
+        .fillColor(color ?? BRAND_COLOR)
+        .text(value, x, top + 22, { width: boxWidth, align: 'center' });
+    });
+
+    doc.y = top + 60;
+  }
+
+  // Draws a section heading.
+  private drawSectionTitle(doc: PdfDocument, title: string): void {
+    this.ensureSpace(doc, 50);
+    doc
+      .font('Helvetica-Bold')
+      .fontSize(11)
+      .fillColor(BRAND_COLOR)
+      .text(title, doc.page.margins.left, doc.y);
+    doc.moveDown(0.3);
+  }
+
+  // Draws a simple table; the rating column, if given, is coloured when low.
+  private drawTable(
+    doc: PdfDocument,
+    columns: TableColumn[],
+    rows: string[][],
+    ratingColumnIndex?: number
+  ): void {
+    const left = doc.page.margins.left;
+    const tableWidth = columns.reduce((acc, column) => acc + column.width, 0);
+
+    const drawRow = (cells: string[], isHeader: boolean) => {
+      this.ensureSpace(doc, ROW_HEIGHT);
+      const y = doc.y;
+      if (isHeader) {
+        doc.rect(left, y, tableWidth, ROW_HEIGHT).fill('#E5ECF4');
+      }
+      let x = left;
+      cells.forEach((cell, index) => {
+        const column = columns[index];
+        const rating = parseFloat(cell);
+        const isLow =
+          !isHeader &&
+          index === ratingColumnIndex &&
+          !isNaN(rating) &&
+          rating < LOW_RATING_THRESHOLD;
+        doc
+          .font(isHeader ? 'Helvetica-Bold' : 'Helvetica')
+          .fontSize(8.5)
+          .fillColor(isLow ? LOW_RATING_COLOR : TEXT_COLOR);
+        doc.text(this.fitText(doc, cell, column.width - 8), x + 4, y + 4, {
+          width: column.width - 8,
+          align: column.align ?? 'left',
+          lineBreak: false,
+        });
+        x += column.width;
+      });
+      doc
+        .moveTo(left, y + ROW_HEIGHT)
+        .lineTo(left + tableWidth, y + ROW_HEIGHT)
+        .lineWidth(0.5)
+        .strokeColor('#E5E7EB')
+        .stroke();
+      doc.y = y + ROW_HEIGHT;
+    };
+
+    drawRow(
+      columns.map((column) => column.header),
+      true
+    );
+    if (!rows.length) {
+      drawRow(['No data available.', ...columns.slice(1).map(() => '')], false);
+    }
+    rows.forEach((row) => drawRow(row, false));
+    doc.moveDown(0.8);
+  }
+
+  // Draws the historical trend as horizontal rating bars.
+  private drawTrend(doc: PdfDocument, data: FacultyDetailedAnalytics): void {
+    const trend = data.trendData.slice(-MAX_TREND_ROWS);
+    if (!trend.length) {
+      this.drawTable(doc, [{ header: 'Period', width: 515 }], []);
+      return;
+    }
+
+    const left = doc.page.margins.left;
+    const labelWidth = 130;
+    const barWidth = 300;
+    const scaleMax = trend.some((point) => point.rating > 5) ? 10 : 5;
+
+    for (const point of trend) {
+      this.ensureSpace(doc, ROW_HEIGHT);
+      const y = doc.y;
+      const isLow = point.rating < LOW_RATING_THRESHOLD;
+      doc
+        .font('Helvetica')
+        .fontSize(8.5)
+        .fillColor(TEXT_COLOR)
+        .text(`${point.academicYear} - Sem ${point.semester}`, left, y + 3, {
+          width: labelWidth,
+          lineBreak: false,
+        });
+      doc.rect(left + labelWidth, y + 3, barWidth, 9).fill('#F3F4F6');
+      doc
+        .rect(
+          left + labelWidth,
+          y + 3,
+          Math.max(0, Math.min(1, point.rating / scaleMax)) * barWidth,
+          9
+        )
+        .fill(isLow ? LOW_RATING_COLOR : BRAND_COLOR);
+      doc
+        .fillColor(isLow ? LOW_RATING_COLOR : TEXT_COLOR)
+        .text(
+          `${formatRating(point.rating)}  (${point.responses} responses)`,
+          left + labelWidth + barWidth + 8,
+          y + 3,
+          { lineBreak: false }
+        );
+      doc.y = y + ROW_HEIGHT;
+    }
+    doc.moveDown(0.8);
+  }
+
+  // Draws the anonymized student comments.
+  private drawComments(doc: PdfDocument, comments: AnonymizedComment[]): void {
+    const left = doc.page.margins.left;
+    const width = doc.page.width - left - doc.page.margins.right;
+
+    if (!comments.length) {
+      doc
+        .font('Helvetica-Oblique')
+        .fontSize(9)
+        .fillColor(MUTED_COLOR)
+        .text('No written comments were submitted.', left, doc.y);
+      return;
+    }
+
+    for (const comment of comments) {
+      doc.font('Helvetica-Oblique').fontSize(9);
+      const text = `"${comment.text}"`;
+      this.ensureSpace(doc, doc.heightOfString(text, { width }) + 16);
+      doc.fillColor(TEXT_COLOR).text(text, left, doc.y, { width });
+      doc
+        .font('Helvetica')
+        .fontSize(8)
+        .fillColor(MUTED_COLOR)
+        .text(comment.subjectName, left, doc.y, { width });
+      doc.moveDown(0.5);
+    }
+  }
+
+  // Adds the generation date and page numbers to every page.
+  private drawFooters(doc: PdfDocument): void {
+    const range = doc.bufferedPageRange();
+    for (let i = range.start; i < range.start + range.count; i++) {
+      doc.switchToPage(i);
+      const bottomMargin = doc.page.margins.bottom;
+      // Writing inside the bottom margin would otherwise trigger a new page.
+      doc.page.margins.bottom = 0;
+      doc
+        .font('Helvetica')
+        .fontSize(8)
+        .fillColor(MUTED_COLOR)
+        .text(
+          `Generated on ${new Date().toLocaleDateString('en-IN')}  |  Page ${i + 1} of ${range.count}`,
+          doc.page.margins.left,
+          doc.page.height - 28,
+          {
+            width:
+              doc.page.width - doc.page.margins.left - doc.page.margins.right,
+            align: 'center',
+            lineBreak: false,
+          }
+        );
+      doc.page.margins.bottom = bottomMargin;
+    }
+  }
+
+  // Generates the PDF report card for a faculty member.
+  public async generateReportCard(
+    facultyId: string,
+    scope: CollegeScope,
+    academicYearId?: string
+  ): Promise<ReportCardFile> {
+    const [data, college, comments, academicYear] = await Promise.all([
+      analyticsService.getFacultyDetailedAnalytics(
+        facultyId,
+        scope,
+        academicYearId
+      ),
+      prisma.college.findFirst({
+        where: {
+          departments: { some: { faculties: { some: { id: facultyId } } } },
+        },
+      }),
+      this.getAnonymizedComments(facultyId, academicYearId),
+      academicYearId
+        ? prisma.academicYear.findUnique({
+            where: { id: academicYearId },
+            select: { yearString: true },
+          })
+        : Promise.resolve(null),
+    ]);
+    const periodLabel = academicYear
+      ? `Academic Year ${academicYear.yearString}`
+      : 'All Academic Years';
+
+    const doc = new PDFDocument({
+      size: 'A4',
+      margin: 40,
+      bufferPages: true,
+      info: {
+        Title: `Feedback Report - ${data.faculty.name}`,
+        Author: college?.name ?? 'Reflectify',
+      },
+    });
+
+    const chunks: Buffer[] = [];
+    const finished = new Promise<Buffer>((resolve, reject) => {
+      doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+      doc.on('end', () => resolve(Buffer.concat(chunks)));
+      doc.on('error', reject);
+    });
+
+    this.drawHeader(doc, college, data, periodLabel);
+    this.drawSummary(doc, data);
+
+    this.drawSectionTitle(doc, 'Subject Breakdown');
+    this.drawTable(
+      doc,
+      [
+        { header: 'Subject', width: 190 },
+        { header: 'Type', width: 60 },
+        { header: 'Semester', width: 60, align: 'center' },
+        { header: 'Academic Year', width: 85 },
+        { header: 'Rating', width: 55, align: 'right' },
+        { header: 'Responses', width: 65, align: 'right' },
+      ],
+      data.subjectBreakdown
+        .slice(0, MAX_SUBJECT_ROWS)
+        .map((row) => [
+          row.subjectName,
+          row.lectureType,
+          String(row.semester),
+          row.academicYear,
+          formatRating(row.rating),
+          String(row.responses),
+        ]),
+      4
+    );
+
+    this.drawSectionTitle(doc, 'Division Breakdown');
+    this.drawTable(
+      doc,
+      [
+        { header: 'Division', width: 80 },
+        { header: 'Subject', width: 255 },
+        { header: 'Type', width: 60 },
+        { header: 'Rating', width: 55, align: 'right' },
+        { header: 'Responses', width: 65, align: 'right' },
+      ],
+      data.divisionBreakdown
+        .slice(0, MAX_DIVISION_ROWS)
+        .map((row) => [
+          row.divisionName,
+          row.subjectName,
+          row.lectureType,
+          formatRating(row.rating),
+          String(row.responses),
+        ]),
+      3
+    );
+
+    this.drawSectionTitle(doc, 'Question Category Breakdown');
+    this.drawTable(
+      doc,
+      [
+        { header: 'Category', width: 335 },
+        { header: 'Average Rating', width: 100, align: 'right' },
+        { header: 'Questions', width: 80, align: 'right' },
+      ],
+      data.questionCategoryBreakdown
+        .slice(0, MAX_CATEGORY_ROWS)
+        .map((row) => [
+          row.category,
+          formatRating(row.avgRating),
+          String(row.questionCount),
+        ]),
+      1
+    );
+
+    this.drawSectionTitle(doc, 'Historical Trend');
+    this.drawTrend(doc, data);
+
+    this.drawSectionTitle(doc, 'Student Comments (Anonymized)');
+    this.drawComments(doc, comments);
+
+    this.drawFooters(doc);
+    doc.end();
+
+    const buffer = await finished;
+    const namePart =
+      (data.faculty.abbreviation || data.faculty.name)
+        .replace(/[^a-zA-Z0-9]+/g, '-')
+        .replace(/^-+|-+$/g, '')
+        .toLowerCase() || 'faculty';
+
+    return { fileName: `report-card-${namePart}.pdf`, buffer };
+  }
+}
+
+export const facultyReportService = new FacultyReportService();
@@ -0,0 +1,245 @@
+/**
+ * @file src/services/feedbackAnalytics/feedbackAnalytics.service.ts
+ * @description Service layer for materialized FeedbackAnalytics rows.
+ * Recomputes per-allocation averages, response counts and completion rates from stored responses.
+ */
+
+import { FeedbackAnalytics, LectureType } from '@prisma/client';
+import { prisma } from '../common/prisma.service';
+import AppError from '../../utils/appError';
+
+interface AllocationMatchFields {
+  facultyId: string;
+  subjectId: string;
+  batch: string;
+  lectureType: LectureType;
+}
+
+interface QuestionMatchFields {
+  facultyId: string;
+  subjectId: string;
+  batch: string;
+  categoryId: string;
+}
+
+interface RebuildResult {
+  allocationsProcessed: number;
+  rowsWritten: number;
+}
+
+// Maps an allocation batch to the batch value stored on its generated questions.
+const toQuestionBatch = (batch: string): string =>
+  batch && batch !== '-' ? batch : 'None';
+
+// Checks whether a feedback question was generated for the given subject allocation.
+export const questionMatchesAllocation = (
+  question: QuestionMatchFields,
+  allocation: AllocationMatchFields
+): boolean => {
+  if (
+    question.facultyId !== allocation.facultyId ||
+    question.subjectId !== allocation.subjectId ||
+    question.batch !== toQuestionBatch(allocation.batch)
+  ) {
+    return false;
+  }
+  // The built-in categories identify the session type; other categories rely on batch alone.
+  if (question.categoryId === 'lab-feedback') {
+    return allocation.lectureType === LectureType.LAB;
+  }
+  if (question.categoryId === 'lecture-feedback') {
+    return allocation.lectureType !== LectureType.LAB;
+  }
+  return true;
+};
+
+// Parses a stored response value into a numeric score, or null when it is not numeric.
+const parseScore = (responseValue: string): number | null => {
+  try {
+    const parsed = JSON.parse(responseValue);
+    if (typeof parsed === 'number') return parsed;
+    if (typeof parsed === 'string' && parsed.trim() !== '') {
+      const score = Number(parsed);
+      return Number.isFinite(score) ? score : null;
+    }
+    if (parsed && typeof parsed.score === 'number') return parsed.score;
+  } catch {
+    const score = parseFloat(responseValue);
+    return Number.isFinite(score) ? score : null;
+  }
+  return null;
+};
+
+class FeedbackAnalyticsService {
+  // Returns the subject allocations whose rows are affected by responses to the given questions.
+  public async findAllocationIdsForQuestions(
+    questionIds: string[]
+  ): Promise<string[]> {
+    const questions = await prisma.feedbackQuestion.findMany({
+      where: { id: { in: questionIds }, type: 'rating' },
+      select: {
+        facultyId: true,
+        subjectId: true,
+        batch: true,
+        categoryId: true,
+        form: { select: { divisionId: true } },
+      },
+    });
+    if (!questions.length) {
+      return [];
+    }
+
+    const divisionIds = [...new Set(questions.map((q) => q.form.divisionId))];
+    const allocations = await prisma.subjectAllocation.findMany({
+      where: { divisionId: { in: divisionIds }, isDeleted: false },
+      select: {
+        id: true,
+        divisionId: true,
+        facultyId: true,
+        subjectId: true,
+        batch: true,
+        lectureType: true,
+      },
+    });
+
+    return allocations
+      .filter((allocation) =>
+        questions.some(
+          (question) =>
+            question.form.divisionId === allocation.divisionId &&
+            questionMatchesAllocation(question, allocation)
+        )
+      )
+      .map((allocation) => allocation.id);
+  }
+
+  // Recomputes the FeedbackAnalytics row for a single subject allocation.
+  public async recomputeForAllocation(
+    subjectAllocationId: string
+  ): Promise<FeedbackAnalytics | null> {
+    const allocation = await prisma.subjectAllocation.findUnique({
+      where: { id: subjectAllocationId },
+    });
+
+    if (!allocation || allocation.isDeleted) {
+      await prisma.feedbackAnalytics.updateMany({
+        where: { subjectAllocationId, isDeleted: false },
+        data: { isDeleted: true },
+      });
+      return null;
+    }
+
+    const candidateQuestions = await prisma.feedbackQuestion.findMany({
+      where: {
+        isDeleted: false,
+        type: 'rating',
+        facultyId: allocation.facultyId,
+        subjectId: allocation.subjectId,
+        batch: toQuestionBatch(allocation.batch),
+        form: { divisionId: allocation.divisionId, isDeleted: false },
+      },
+      select: {
+        id: true,
+        formId: true,
+        facultyId: true,
+        subjectId: true,
+        batch: true,
+        categoryId: true,
+      },
+    });
+    const questions = candidateQuestions.filter((question) =>
+      questionMatchesAllocation(question, allocation)
+    );
+
+    const responses = questions.length
+      ? await prisma.studentResponse.findMany({
+          where: {
+            questionId: { in: questions.map((q) => q.id) },
+            isDeleted: false,
+          },
+          select: {
+            responseValue: true,
+            studentId: true,
+            overrideStudentId: true,
+          },
+        })
+      : [];
+
+    const scores = responses
+      .map((response) => parseScore(response.responseValue))
+      .filter((score): score is number => score !== null);
+
+    // Allocations without any numeric responses keep no analytics row.
+    if (!scores.length) {
+      await prisma.feedbackAnalytics.updateMany({
+        where: { subjectAllocationId, isDeleted: false },
+        data: { isDeleted: true },
+      });
+      return null;
+    }
+
+    const respondents = new Set(
+      responses.map((r) => r.studentId ?? r.overrideStudentId)
+    );
+    const eligibleStudents = await prisma.formAccess.count({
+      where: {
+        formId: { in: [...new Set(questions.map((q) => q.formId))] },
+        isDeleted: false,
+      },
+    });
+
+    const averageRating =
+      scores.reduce((acc, score) => acc + score, 0) / scores.length;
+    const completionRate =
+      eligibleStudents > 0
+        ? Math.min(100, (respondents.size / eligibleStudents) * 100)
+        : 0;
+
+    const values = {
+      divisionId: allocation.divisionId,
+      facultyId: allocation.facultyId,
+      averageRating,
+      responseCount: respondents.size,
+      completionRate,
+      calculatedAt: new Date(),
+      isDeleted: false,
+    };
+
+    return prisma.feedbackAnalytics.upsert({
+      where: {
+        subjectAllocationId_academicYearId: {
+          subjectAllocationId,
+          academicYearId: allocation.academicYearId,
+        },
+      },
+      create: {
+        subjectAllocationId,
+        academicYearId: allocation.academicYearId,
+        ...values,
+      },
+      update: values,
+    });
+  }
+
+  // Rebuilds FeedbackAnalytics rows for every subject allocation.
+  public async rebuildAll(): Promise<RebuildResult> {
+    try {
+      const allocations = await prisma.subjectAllocation.findMany({
+        select: { id: true },
+      });
+
+      let rowsWritten = 0;
+      for (const allocation of allocations) {
+        const row = await this.recomputeForAllocation(allocation.id);
+        if (row) rowsWritten++;
+      }
+
+      return { allocationsProcessed: allocations.length, rowsWritten };
+    } catch (error: any) {
+      console.error('Error in FeedbackAnalyticsService.rebuildAll:', error);
+      throw new AppError('Failed to rebuild feedback analytics.', 500);
+    }
+  }
+}
+
+export const feedbackAnalyticsService = new FeedbackAnalyticsService();
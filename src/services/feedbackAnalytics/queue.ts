@@ -0,0 +1,49 @@
+// src/services/feedbackAnalytics/queue.ts
+
+import { Queue } from 'bullmq';
+import { connection } from '../email/queue';
+
+export const FEEDBACK_ANALYTICS_QUEUE_NAME = 'feedback-analytics-queue';
+
+// Job names handled by the feedback analytics worker.
+export const RECOMPUTE_ALLOCATION_JOB = 'recompute-allocation';
+export const REBUILD_ALL_JOB = 'rebuild-all';
+
+// Queue for recomputing materialized FeedbackAnalytics rows, sharing the email queue's Redis connection.
+const feedbackAnalyticsQueue = new Queue(FEEDBACK_ANALYTICS_QUEUE_NAME, {
+  connection,
+  defaultJobOptions: {
+    attempts: 3,
+    backoff: {
+      type: 'exponential',
+      delay: 5000,
+    },
+    removeOnComplete: true,
+    removeOnFail: false,
+  },
+});
+
+// Enqueues a recompute for each affected subject allocation.
+const enqueueAllocationRecomputes = async (
+  subjectAllocationIds: string[]
+): Promise<void> => {
+  if (!subjectAllocationIds.length) return;
+  await feedbackAnalyticsQueue.addBulk(
+    subjectAllocationIds.map((subjectAllocationId) => ({
+      name: RECOMPUTE_ALLOCATION_JOB,
+      data: { subjectAllocationId },
+    }))
+  );
+};
+
+// Enqueues a full rebuild of all FeedbackAnalytics rows and returns the job ID.
+const enqueueFullRebuild = async (): Promise<string | undefined> => {
+  const job = await feedbackAnalyticsQueue.add(REBUILD_ALL_JOB, {});
+  return job.id;
+};
+
+export {
+  feedbackAnalyticsQueue,
+  enqueueAllocationRecomputes,
+  enqueueFullRebuild,
+};
@@ -0,0 +1,52 @@
+// src/services/feedbackAnalytics/worker.ts
+
+import { Worker } from 'bullmq';
+import IORedis from 'ioredis';
+import config from '../../config';
+import { feedbackAnalyticsService } from './feedbackAnalytics.service';
+import {
+  FEEDBACK_ANALYTICS_QUEUE_NAME,
+  RECOMPUTE_ALLOCATION_JOB,
+  REBUILD_ALL_JOB,
+} from './queue';
+
+// Workers require a blocking connection, so it cannot be shared with the Queue.
+const connection = new IORedis(config.redisUrl as string, {
+  maxRetriesPerRequest: null,
+});
+
+interface FeedbackAnalyticsJobData {
+  subjectAllocationId?: string;
+}
+
+// Processes recompute and rebuild jobs one at a time so rows are never written concurrently.
+const feedbackAnalyticsWorker = new Worker<FeedbackAnalyticsJobData>(
+  FEEDBACK_ANALYTICS_QUEUE_NAME,
+  async (job) => {
+    if (job.name === RECOMPUTE_ALLOCATION_JOB && job.data.subjectAllocationId) {
+      await feedbackAnalyticsService.recomputeForAllocation(
+        job.data.subjectAllocationId
+      );
+      return;
+    }
+    if (job.name === REBUILD_ALL_JOB) {
+      const result = await feedbackAnalyticsService.rebuildAll();
+      console.log(
+        `Feedback analytics rebuilt: ${result.rowsWritten} rows from ${result.allocationsProcessed} allocations.`
+      );
+      return;
+    }
+    console.warn(`Unknown feedback analytics job '${job.name}'.`);
+  },
+  { connection, concurrency: 1 }
+);
+
+feedbackAnalyticsWorker.on('failed', (job, err) => {
+  console.error(
+    `Feedback analytics job ${job?.id} (${job?.name}) failed: ${err.message}`
+  );
+});
+
+console.log('Feedback Analytics Worker initialized and listening for jobs.');
+
+export { feedbackAnalyticsWorker };
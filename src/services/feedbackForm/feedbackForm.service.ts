@@ -17,8 +17,23 @@ import {
 import crypto from 'crypto';
 import { prisma } from '../common/prisma.service';
 import AppError from '../../utils/appError';
+import {
+  CollegeScope,
+  assertDepartmentInScope,
+  assertRecordInScope,
+  departmentScopeWhere,
+} from '../college/collegeScope';
 import { emailService, EmailJobPayload } from '../email/email.service';
 import { getFeedbackFormTemplate } from '../../utils/emailTemplates/feedbackForm.template';
+import {
+  getDefaultQuestionOptions,
+  isQuestionForBatch,
+  resolveQuestionOptions,
+} from '../../utils/questionTypes';
+import {
+  formTemplateService,
+  FormTemplateWithQuestions,
+} from '../formTemplate/formTemplate.service';
 
 interface SemesterSelection {
   id: string;
@@ -28,6 +43,7 @@ interface SemesterSelection {
 interface FormGenerationRequest {
   departmentId: string;
   selectedSemesters: SemesterSelection[];
+  templateId?: string;
 }
 
 interface AddQuestionToFormInput {
@@ -37,6 +53,7 @@ interface AddQuestionToFormInput {
   batch?: string;
   text: string;
   type: string;
+  options?: Record<string, any>;
   isRequired?: boolean;
   displayOrder: number;
 }
@@ -106,6 +123,17 @@ const createFeedbackFormEmailHtml = async (
 };
 
 class FeedbackFormService {
+  // Ensures a feedback form belongs, through its division, to a department in the scope.
+  private assertFormInScope(id: string, scope: CollegeScope): Promise<void> {
+    return assertRecordInScope(scope, async () => {
+      const form = await prisma.feedbackForm.findUnique({
+        where: { id },
+        select: { division: { select: { departmentId: true } } },
+      });
+      return form && form.division;
+    });
+  }
+
   // Ensures essential question categories exist.
   private async ensureQuestionCategories(): Promise<void> {
     const categories = [
@@ -139,20 +167,41 @@ class FeedbackFormService {
     return `${department.abbreviation} ${semester.semesterNumber}${division.divisionName} - Student Feedback Form`;
   }
 
+  // A DRAFT form with a future start date is picked up by the scheduled activation job.
+  private shouldAutoActivate(status: FormStatus, startDate: Date): boolean {
+    return status === FormStatus.DRAFT && startDate > new Date();
+  }
+
   // Generates a random alphanumeric hash for form access.
   private generateHash(): string {
     return crypto.randomBytes(8).toString('hex');
   }
 
+  // Fills template placeholders ({faculty}, {subject}, {sessionType}, {batch}) in question bank text.
+  private renderTemplateQuestionText(
+    text: string,
+    values: Record<string, string>
+  ): string {
+    return text.replace(/\{(\w+)\}/g, (match, key) =>
+      key in values ? values[key] : match
+    );
+  }
+
   // Generates feedback questions based on subject allocations.
   private generateQuestionsForAllSubjects(
     allocations: (SubjectAllocation & {
       faculty: { id: string; name: string };
       subject: { id: string; name: string; type: SubjectType };
-    })[]
+    })[],
+    template?: FormTemplateWithQuestions
   ): Prisma.FeedbackQuestionCreateManyFormInput[] {
+    if (template) {
+      return this.generateQuestionsFromTemplate(allocations, template);
+    }
+
     let questions: Prisma.FeedbackQuestionCreateManyFormInput[] = [];
     let displayOrder = 1;
+    const ratingOptions = getDefaultQuestionOptions('rating');
 
     allocations.forEach((allocation) => {
       const sessionType =
@@ -176,6 +225,7 @@ class FeedbackFormService {
         batch: batchValue,
         text: `Rate ${allocation.faculty.name} in Subject: ${allocation.subject.name} (${sessionType}) - ${batchValue}`,
         type: 'rating',
+        options: ratingOptions,
         isRequired,
         displayOrder: displayOrder++,
         isDeleted: false,
@@ -185,15 +235,89 @@ class FeedbackFormService {
     return questions;
   }
 
+  // Expands each subject allocation into the template's applicable question bank items.
+  private generateQuestionsFromTemplate(
+    allocations: (SubjectAllocation & {
+      faculty: { id: string; name: string };
+      subject: { id: string; name: string; type: SubjectType };
+    })[],
+    template: FormTemplateWithQuestions
+  ): Prisma.FeedbackQuestionCreateManyFormInput[] {
+    const questions: Prisma.FeedbackQuestionCreateManyFormInput[] = [];
+    let displayOrder = 1;
+
+    allocations.forEach((allocation) => {
+      const sessionType =
+        allocation.lectureType === 'LECTURE' ? 'Theory' : 'Lab';
+      const batchValue =
+        allocation.batch && allocation.batch !== '-'
+          ? allocation.batch
+          : 'None';
+      const isElective = allocation.subject.type === SubjectType.ELECTIVE;
+
+      const applicableItems = template.questions.filter(
+        ({ questionBankItem }) =>
+          questionBankItem.applicableTo.includes(allocation.lectureType)
+      );
+      if (!applicableItems.length) {
+        console.warn(
+          `Template '${template.name}' has no questions for ${allocation.lectureType} allocation ${allocation.id}. No questions generated for it.`
+        );
+      }
+
+      applicableItems.forEach(({ questionBankItem }) => {
+        questions.push({
+          categoryId: questionBankItem.categoryId,
+          facultyId: allocation.faculty.id,
+          subjectId: allocation.subject.id,
+          batch: batchValue,
+          text: this.renderTemplateQuestionText(questionBankItem.text, {
+            faculty: allocation.faculty.name,
+            subject: allocation.subject.name,
+            sessionType,
+            batch: batchValue,
+          }),
+          type: questionBankItem.type,
+          options: (questionBankItem.options ?? undefined) as
+            | Prisma.InputJsonValue
+            | undefined,
+          // Ensure questions for elective subjects are optional
+          isRequired: questionBankItem.isRequired && !isElective,
+          displayOrder: displayOrder++,
+          isDeleted: false,
+        });
+      });
+    });
+
+    return questions;
+  }
+
   // Generates feedback forms based on department and selected semesters/divisions.
   public async generateForms(
-    requestData: FormGenerationRequest
+    requestData: FormGenerationRequest,
+    scope: CollegeScope
   ): Promise<FeedbackForm[]> {
+    await assertDepartmentInScope(scope, requestData.departmentId);
     await this.ensureQuestionCategories();
 
-    const { departmentId, selectedSemesters } = requestData;
+    const { departmentId, selectedSemesters, templateId } = requestData;
     const generatedForms: FeedbackForm[] = [];
 
+    let template: FormTemplateWithQuestions | undefined;
+    if (templateId) {
+      const existingTemplate = await formTemplateService.getTemplateById(
+        templateId,
+        scope
+      );
+      if (!existingTemplate) {
+        throw new AppError('Form template not found or is deleted.', 400);
+      }
+      if (!existingTemplate.questions.length) {
+        throw new AppError('Form template has no active questions.', 400);
+      }
+      template = existingTemplate;
+    }
+
     const existingDepartment = await prisma.department.findUnique({
       where: { id: departmentId, isDeleted: false },
     });
@@ -281,7 +405,10 @@ class FeedbackFormService {
               accessHash: this.generateHash(),
               isDeleted: false,
               questions: {
-                create: this.generateQuestionsForAllSubjects(allocations),
+                create: this.generateQuestionsForAllSubjects(
+                  allocations,
+                  template
+                ),
               },
             },
             include: {
@@ -310,13 +437,16 @@ class FeedbackFormService {
     return generatedForms;
   }
 
-  // Retrieves all active feedback forms.
-  public async getAllForms(): Promise<FeedbackForm[]> {
+  // Retrieves all active feedback forms in the scope.
+  public async getAllForms(scope: CollegeScope): Promise<FeedbackForm[]> {
     try {
       const forms = await prisma.feedbackForm.findMany({
         where: {
           isDeleted: false,
-          division: { isDeleted: false },
+          division: {
+            isDeleted: false,
+            department: departmentScopeWhere(scope),
+          },
           subjectAllocation: { isDeleted: false },
         },
         include: {
@@ -347,7 +477,12 @@ class FeedbackFormService {
   }
 
   // Retrieves a single active feedback form by its ID.
-  public async getFormById(id: string): Promise<FeedbackForm | null> {
+  public async getFormById(
+    id: string,
+    scope: CollegeScope
+  ): Promise<FeedbackForm | null> {
+    await this.assertFormInScope(id, scope);
+
     try {
       const form = await prisma.feedbackForm.findUnique({
         where: {
@@ -391,8 +526,11 @@ class FeedbackFormService {
   // Updates an existing feedback form.
   public async updateForm(
     id: string,
-    data: UpdateFormInput
+    data: UpdateFormInput,
+    scope: CollegeScope
   ): Promise<FeedbackForm> {
+    await this.assertFormInScope(id, scope);
+
     try {
       const existingForm = await prisma.feedbackForm.findUnique({
         where: { id: id, isDeleted: false },
@@ -410,6 +548,10 @@ class FeedbackFormService {
         startDate: data.startDate ? new Date(data.startDate) : undefined,
         endDate: data.endDate ? new Date(data.endDate) : undefined,
         description: data.description,
+        autoActivate: this.shouldAutoActivate(
+          data.status || existingForm.status,
+          data.startDate ? new Date(data.startDate) : existingForm.startDate
+        ),
       };
 
       console.log(`Updating form with ID ${id} with data:`, dataToUpdate);
@@ -501,7 +643,12 @@ class FeedbackFormService {
   }
 
   // Soft deletes a feedback form and cascades deletion to related entities.
-  public async softDeleteForm(id: string): Promise<FeedbackForm> {
+  public async softDeleteForm(
+    id: string,
+    scope: CollegeScope
+  ): Promise<FeedbackForm> {
+    await this.assertFormInScope(id, scope);
+
     try {
       const form = await prisma.$transaction(async (tx) => {
         const deletedForm = await tx.feedbackForm.update({
@@ -589,8 +736,11 @@ class FeedbackFormService {
   // Adds a new question to an existing feedback form.
   public async addQuestionToForm(
     formId: string,
-    questionData: AddQuestionToFormInput
+    questionData: AddQuestionToFormInput,
+    scope: CollegeScope
   ): Promise<FeedbackForm> {
+    await this.assertFormInScope(formId, scope);
+
     const {
       categoryId,
       facultyId,
@@ -598,10 +748,13 @@ class FeedbackFormService {
       batch,
       text,
       type,
+      options,
       isRequired,
       displayOrder,
     } = questionData;
 
+    const resolvedOptions = resolveQuestionOptions(type, options);
+
     const existingForm = await prisma.feedbackForm.findUnique({
       where: { id: formId, isDeleted: false },
     });
@@ -642,6 +795,7 @@ class FeedbackFormService {
               batch,
               text,
               type,
+              options: resolvedOptions,
               isRequired,
               displayOrder,
               isDeleted: false,
@@ -681,8 +835,11 @@ class FeedbackFormService {
   // Updates the status and dates of a single feedback form.
   public async updateFormStatus(
     id: string,
-    data: UpdateFormStatusInput
+    data: UpdateFormStatusInput,
+    scope: CollegeScope
   ): Promise<FeedbackForm> {
+    await this.assertFormInScope(id, scope);
+
     try {
       const existingForm = await prisma.feedbackForm.findUnique({
         where: { id: id, isDeleted: false },
@@ -697,6 +854,10 @@ class FeedbackFormService {
           status: data.status,
           startDate: data.startDate ? new Date(data.startDate) : undefined,
           endDate: data.endDate ? new Date(data.endDate) : undefined,
+          autoActivate: this.shouldAutoActivate(
+            data.status,
+            data.startDate ? new Date(data.startDate) : existingForm.startDate
+          ),
         },
         include: {
           division: {
@@ -779,12 +940,25 @@ class FeedbackFormService {
 
   // Bulk updates the status and dates for multiple feedback forms.
   public async bulkUpdateFormStatus(
-    data: BulkUpdateFormStatusInput
+    data: BulkUpdateFormStatusInput,
+    scope: CollegeScope
   ): Promise<FeedbackForm[]> {
     const { formIds, status, startDate, endDate } = data;
     const updatedForms: FeedbackForm[] = [];
 
+    for (const formId of formIds) {
+      await this.assertFormInScope(formId, scope);
+    }
+
     try {
+      const existingForms = await prisma.feedbackForm.findMany({
+        where: { id: { in: formIds }, isDeleted: false },
+        select: { id: true, startDate: true },
+      });
+      const startDatesById = new Map(
+        existingForms.map((form) => [form.id, form.startDate])
+      );
+
       const transactionResults = await prisma.$transaction(
         formIds.map((id: string) =>
           prisma.feedbackForm.update({
@@ -796,6 +970,12 @@ class FeedbackFormService {
               status,
               startDate: startDate ? new Date(startDate) : undefined,
               endDate: endDate ? new Date(endDate) : undefined,
+              autoActivate: this.shouldAutoActivate(
+                status,
+                startDate
+                  ? new Date(startDate)
+                  : (startDatesById.get(id) ?? new Date())
+              ),
             },
             include: {
               division: {
@@ -835,7 +1015,7 @@ class FeedbackFormService {
     }
   }
 
-  // Retrieves a feedback form using an access token.
+  // Retrieves a feedback form using an access token, with only the questions for the student's batch.
   public async getFormByAccessToken(
     token: string
   ): Promise<FeedbackForm | null> {
@@ -865,6 +1045,8 @@ class FeedbackFormService {
               },
             },
           },
+          student: { select: { batch: true } },
+          OverrideStudent: { select: { batch: true } },
         },
       });
 
@@ -910,7 +1092,15 @@ class FeedbackFormService {
         throw new AppError('Form already submitted.', 403);
       }
 
-      return formAccess.form;
+      const studentBatch =
+        formAccess.student?.batch ?? formAccess.OverrideStudent?.batch;
+      const form = {
+        ...formAccess.form,
+        questions: formAccess.form.questions.filter((question) =>
+          isQuestionForBatch(question.batch, studentBatch)
+        ),
+      };
+      return form;
     } catch (error: any) {
       console.error(
         'Error in FeedbackFormService.getFormByAccessToken:',
@@ -948,6 +1138,79 @@ class FeedbackFormService {
       throw new AppError('Failed to expire old forms.', 500);
     }
   }
+
+  // Activates scheduled DRAFT forms whose start date has arrived and sends their access emails.
+  public async activateScheduledForms(): Promise<number> {
+    const now = new Date();
+
+    const dueForms = await prisma.feedbackForm.findMany({
+      where: {
+        status: FormStatus.DRAFT,
+        autoActivate: true,
+        isDeleted: false,
+        startDate: { lte: now },
+      },
+      select: { id: true, endDate: true },
+    });
+
+    let activatedCount = 0;
+
+    for (const form of dueForms) {
+      if (form.endDate <= now) {
+        console.warn(
+          `Scheduled form ${form.id} reached its start date after its end date. Skipping activation.`
+        );
+        await prisma.feedbackForm.update({
+          where: { id: form.id },
+          data: { autoActivate: false },
+        });
+        continue;
+      }
+
+      // Guarded update so a form is only activated (and emailed) once.
+      const { count } = await prisma.feedbackForm.updateMany({
+        where: { id: form.id, status: FormStatus.DRAFT, autoActivate: true },
+        data: { status: FormStatus.ACTIVE, autoActivate: false },
+      });
+      if (count === 0) {
+        continue;
+      }
+
+      try {
+        await this.queueEmailsForFeedbackForm(form.id);
+      } catch (error: any) {
+        console.error(
+          `Error in FeedbackFormService.activateScheduledForms queuing emails for form ID ${form.id}:`,
+          error
+        );
+      }
+      activatedCount++;
+    }
+
+    return activatedCount;
+  }
+
+  // Closes active forms whose end date has passed.
+  public async closeEndedForms(): Promise<number> {
+    try {
+      const result = await prisma.feedbackForm.updateMany({
+        where: {
+          status: FormStatus.ACTIVE,
+          isDeleted: false,
+          endDate: { lte: new Date() },
+        },
+        data: {
+          status: FormStatus.CLOSED,
+          isExpired: true,
+        },
+      });
+
+      return result.count;
+    } catch (error: any) {
+      console.error('Error in FeedbackFormService.closeEndedForms:', error);
+      throw new AppError('Failed to close ended forms.', 500);
+    }
+  }
   /**
    * NEW: Queues access emails for all regular students in a division for a specific form.
    * @param formId - The ID of the feedback form.
@@ -7,6 +7,15 @@
 import { FeedbackQuestion, QuestionCategory, Prisma } from '@prisma/client';
 import { prisma } from '../common/prisma.service';
 import AppError from '../../utils/appError';
+import {
+  listQuestionTypes,
+  resolveQuestionOptions,
+} from '../../utils/questionTypes';
+import {
+  CollegeScope,
+  assertDepartmentInScope,
+  assertRecordInScope,
+} from '../college/collegeScope';
 
 interface CreateQuestionCategoryInput {
   categoryName: string;
@@ -26,6 +35,7 @@ interface CreateFeedbackQuestionInput {
   batch?: string;
   text: string;
   type: string;
+  options?: Record<string, any>;
   isRequired?: boolean;
   displayOrder: number;
 }
@@ -36,6 +46,60 @@ interface UpdateFeedbackQuestionInput
 }
 
 class FeedbackQuestionService {
+  // Ensures a feedback form belongs to a department in the scope.
+  private assertFormInScope(id: string, scope: CollegeScope): Promise<void> {
+    return assertRecordInScope(scope, async () => {
+      const form = await prisma.feedbackForm.findUnique({
+        where: { id },
+        select: { division: { select: { departmentId: true } } },
+      });
+      return form && form.division;
+    });
+  }
+
+  // Ensures feedback questions belong to forms of departments in the scope.
+  private async assertQuestionsInScope(
+    ids: string[],
+    scope: CollegeScope
+  ): Promise<void> {
+    if (!scope.collegeIds && !scope.departmentIds) return;
+
+    const questions = await prisma.feedbackQuestion.findMany({
+      where: { id: { in: ids } },
+      select: {
+        form: { select: { division: { select: { departmentId: true } } } },
+      },
+    });
+    const departmentIds = new Set(
+      questions.map((question) => question.form.division.departmentId)
+    );
+    for (const departmentId of departmentIds) {
+      await assertDepartmentInScope(scope, departmentId);
+    }
+  }
+
+  // Re-validates options when a question's type or options change; otherwise leaves them untouched.
+  private resolveUpdatedOptions(
+    existingQuestion: FeedbackQuestion,
+    data: Partial<CreateFeedbackQuestionInput>
+  ): Prisma.InputJsonValue | undefined {
+    if (data.options !== undefined) {
+      return resolveQuestionOptions(
+        data.type ?? existingQuestion.type,
+        data.options
+      );
+    }
+    if (data.type !== undefined && data.type !== existingQuestion.type) {
+      return resolveQuestionOptions(data.type, undefined);
+    }
+    return undefined;
+  }
+
+  // Lists the supported question types with their default options.
+  public getQuestionTypes() {
+    return listQuestionTypes();
+  }
+
   // Retrieves all active question categories.
   public async getAllQuestionCategories(): Promise<QuestionCategory[]> {
     try {
@@ -171,9 +235,10 @@ class FeedbackQuestionService {
     }
   }
 
-  // Creates a new feedback question.
+  // Creates a new feedback question on a form in the scope.
   public async createFeedbackQuestion(
-    data: CreateFeedbackQuestionInput
+    data: CreateFeedbackQuestionInput,
+    scope: CollegeScope
   ): Promise<FeedbackQuestion> {
     const {
       formId,
@@ -183,10 +248,14 @@ class FeedbackQuestionService {
       batch,
       text,
       type,
+      options,
       isRequired,
       displayOrder,
     } = data;
 
+    const resolvedOptions = resolveQuestionOptions(type, options);
+
+    await this.assertFormInScope(formId, scope);
     const existingForm = await prisma.feedbackForm.findUnique({
       where: { id: formId, isDeleted: false },
     });
@@ -225,6 +294,7 @@ class FeedbackQuestionService {
           batch,
           text,
           type,
+          options: resolvedOptions,
           isRequired,
           displayOrder,
           isDeleted: false,
@@ -246,11 +316,17 @@ class FeedbackQuestionService {
     }
   }
 
-  // Updates an existing feedback question.
+  // Updates an existing feedback question, which may only move to a form in the scope.
   public async updateFeedbackQuestion(
     id: string,
-    data: UpdateFeedbackQuestionInput
+    data: UpdateFeedbackQuestionInput,
+    scope: CollegeScope
   ): Promise<FeedbackQuestion> {
+    await this.assertQuestionsInScope([id], scope);
+    if (data.formId) {
+      await this.assertFormInScope(data.formId, scope);
+    }
+
     try {
       const existingQuestion = await prisma.feedbackQuestion.findUnique({
         where: { id: id, isDeleted: false },
@@ -259,7 +335,10 @@ class FeedbackQuestionService {
         throw new AppError('Feedback question not found or is deleted.', 404);
       }
 
-      const dataToUpdate: Prisma.FeedbackQuestionUpdateInput = { ...data };
+      const dataToUpdate: Prisma.FeedbackQuestionUpdateInput = {
+        ...data,
+        options: this.resolveUpdatedOptions(existingQuestion, data),
+      };
 
       if (data.formId) {
         const form = await prisma.feedbackForm.findUnique({
@@ -327,6 +406,9 @@ class FeedbackQuestionService {
         `Error in FeedbackQuestionService.updateFeedbackQuestion for ID ${id}:`,
         error
       );
+      if (error instanceof AppError) {
+        throw error;
+      }
       if (error.code === 'P2025') {
         throw new AppError('Feedback question not found for update.', 404);
       }
@@ -336,8 +418,11 @@ class FeedbackQuestionService {
 
   // Soft deletes a feedback question and associated student responses and snapshots.
   public async softDeleteFeedbackQuestion(
-    id: string
+    id: string,
+    scope: CollegeScope
   ): Promise<FeedbackQuestion> {
+    await this.assertQuestionsInScope([id], scope);
+
     try {
       const question = await prisma.$transaction(async (tx) => {
         const deletedQuestion = await tx.feedbackQuestion.update({
@@ -392,8 +477,11 @@ class FeedbackQuestionService {
 
   // Retrieves active feedback questions by form ID.
   public async getFeedbackQuestionsByFormId(
-    formId: string
+    formId: string,
+    scope: CollegeScope
   ): Promise<FeedbackQuestion[]> {
+    await this.assertFormInScope(formId, scope);
+
     try {
       const existingForm = await prisma.feedbackForm.findUnique({
         where: { id: formId, isDeleted: false },
@@ -434,11 +522,42 @@ class FeedbackQuestionService {
 
   // Performs a batch update of feedback questions.
   public async batchUpdateFeedbackQuestions(
-    questionsData: Array<{ id: string } & Partial<CreateFeedbackQuestionInput>>
+    questionsData: Array<{ id: string } & Partial<CreateFeedbackQuestionInput>>,
+    scope: CollegeScope
   ): Promise<FeedbackQuestion[]> {
     const results: FeedbackQuestion[] = [];
 
+    await this.assertQuestionsInScope(
+      questionsData.map((questionData) => questionData.id),
+      scope
+    );
+    for (const formId of new Set(
+      questionsData.map((questionData) => questionData.formId)
+    )) {
+      if (formId) {
+        await this.assertFormInScope(formId, scope);
+      }
+    }
+
     try {
+      const existingQuestions = await prisma.feedbackQuestion.findMany({
+        where: {
+          id: {
+            in: questionsData
+              .filter(
+                (questionData) =>
+                  questionData.type !== undefined ||
+                  questionData.options !== undefined
+              )
+              .map((questionData) => questionData.id),
+          },
+          isDeleted: false,
+        },
+      });
+      const existingQuestionsMap = new Map(
+        existingQuestions.map((question) => [question.id, question])
+      );
+
       const transactionResults = await prisma.$transaction(
         questionsData.map((questionData) => {
           const {
@@ -454,6 +573,14 @@ class FeedbackQuestionService {
             ...restOfData,
           };
 
+          const existingQuestion = existingQuestionsMap.get(id);
+          if (existingQuestion) {
+            dataToUpdate.options = this.resolveUpdatedOptions(
+              existingQuestion,
+              questionData
+            );
+          }
+
           if (formId) dataToUpdate.form = { connect: { id: formId } };
           if (categoryId)
             dataToUpdate.category = { connect: { id: categoryId } };
@@ -484,6 +611,9 @@ class FeedbackQuestionService {
         'Error in FeedbackQuestionService.batchUpdateFeedbackQuestions:',
         error
       );
+      if (error instanceof AppError) {
+        throw error;
+      }
       if (error.code === 'P2025') {
         throw new AppError(
           'One or more feedback questions not found or are deleted for batch update.',
@@ -0,0 +1,289 @@
+/**
+ * @file src/services/feedbackReminder/feedbackReminder.service.ts
+ * @description Service layer for feedback form reminder campaigns.
+ * Queues reminder emails to students who have not submitted a form and records every reminder sent.
+ */
+
+import { FeedbackForm, FormReminder } from '@prisma/client';
+import { prisma } from '../common/prisma.service';
+import AppError from '../../utils/appError';
+import { emailService, EmailJobPayload } from '../email/email.service';
+import { getFeedbackReminderTemplate } from '../../utils/emailTemplates/feedbackReminder.template';
+import {
+  CollegeScope,
+  UNRESTRICTED_SCOPE,
+  assertRecordInScope,
+} from '../college/collegeScope';
+
+interface ReminderSettingsInput {
+  reminderDaysBeforeEnd?: number[];
+  maxRemindersPerStudent?: number;
+}
+
+interface ReminderDispatchResult {
+  formId: string;
+  remindersQueued: number;
+  skippedCapReached: number;
+  skippedAlreadyReminded: number;
+}
+
+interface FormRemindersOverview {
+  settings: {
+    reminderDaysBeforeEnd: number[];
+    maxRemindersPerStudent: number;
+  };
+  pendingStudents: number;
+  totalRemindersSent: number;
+  reminders: FormReminder[];
+}
+
+const ONE_DAY_MS = 24 * 60 * 60 * 1000;
+
+class FeedbackReminderService {
+  // Resolves the frontend base URL used in email links.
+  private getFrontendUrl(): string {
+    const apiUrl =
+      process.env.NODE_ENV === 'production'
+        ? process.env.FRONTEND_PROD_URL
+        : process.env.FRONTEND_DEV_URL;
+    return apiUrl || 'http://localhost:3000';
+  }
+
+  // Ensures a feedback form belongs to a department in the scope.
+  private assertFormInScope(id: string, scope: CollegeScope): Promise<void> {
+    return assertRecordInScope(scope, async () => {
+      const form = await prisma.feedbackForm.findUnique({
+        where: { id },
+        select: { division: { select: { departmentId: true } } },
+      });
+      return form && form.division;
+    });
+  }
+
+  // Retrieves reminder settings, history and pending student count for a form.
+  public async getFormReminders(
+    formId: string,
+    scope: CollegeScope
+  ): Promise<FormRemindersOverview> {
+    await this.assertFormInScope(formId, scope);
+
+    const form = await prisma.feedbackForm.findUnique({
+      where: { id: formId, isDeleted: false },
+    });
+    if (!form) {
+      throw new AppError('Feedback form not found or is deleted.', 404);
+    }
+
+    try {
+      const [reminders, pendingStudents] = await Promise.all([
+        prisma.formReminder.findMany({
+          where: { formId },
+          orderBy: { sentAt: 'desc' },
+        }),
+        prisma.formAccess.count({
+          where: { formId, isSubmitted: false, isDeleted: false },
+        }),
+      ]);
+
+      return {
+        settings: {
+          reminderDaysBeforeEnd: form.reminderDaysBeforeEnd,
+          maxRemindersPerStudent: form.maxRemindersPerStudent,
+        },
+        pendingStudents,
+        totalRemindersSent: reminders.length,
+        reminders,
+      };
+    } catch (error: any) {
+      console.error(
+        `Error in FeedbackReminderService.getFormReminders for form ID ${formId}:`,
+        error
+      );
+      throw new AppError('Failed to retrieve form reminders.', 500);
+    }
+  }
+
+  // Updates the reminder schedule and per-student cap for a form.
+  public async updateReminderSettings(
+    formId: string,
+    data: ReminderSettingsInput,
+    scope: CollegeScope
+  ): Promise<FeedbackForm> {
+    await this.assertFormInScope(formId, scope);
+
+    try {
+      const updatedForm = await prisma.feedbackForm.update({
+        where: { id: formId, isDeleted: false },
+        data: {
+          reminderDaysBeforeEnd: data.reminderDaysBeforeEnd
+            ? [...new Set(data.reminderDaysBeforeEnd)].sort((a, b) => b - a)
+            : undefined,
+          maxRemindersPerStudent: data.maxRemindersPerStudent,
+        },
+      });
+      return updatedForm;
+    } catch (error: any) {
+      console.error(
+        `Error in FeedbackReminderService.updateReminderSettings for form ID ${formId}:`,
+        error
+      );
+      if (error.code === 'P2025') {
+        throw new AppError('Feedback form not found for update.', 404);
+      }
+      throw new AppError('Failed to update reminder settings.', 500);
+    }
+  }
+
+  /**
+   * Queues reminder emails to every student who has not submitted the form.
+   * Students who reached the form's reminder cap, or who were already reminded for
+   * the given schedule slot, are skipped.
+   * @param formId - The ID of the feedback form.
+   * @param scope - The departments whose forms the caller may send reminders for.
+   * @param daysBeforeEnd - The schedule slot being sent, or null for a manual reminder.
+   */
+  public async sendRemindersForForm(
+    formId: string,
+    scope: CollegeScope,
+    daysBeforeEnd: number | null = null
+  ): Promise<ReminderDispatchResult> {
+    await this.assertFormInScope(formId, scope);
+
+    const form = await prisma.feedbackForm.findUnique({
+      where: { id: formId, isDeleted: false },
+      include: {
+        division: {
+          include: {
+            semester: true,
+          },
+        },
+      },
+    });
+    if (!form) {
+      throw new AppError('Feedback form not found or is deleted.', 404);
+    }
+    if (form.status !== 'ACTIVE') {
+      throw new AppError('Reminders can only be sent for active forms.', 400);
+    }
+    if (form.endDate <= new Date()) {
+      throw new AppError('Form submission period has ended.', 400);
+    }
+
+    const pendingAccesses = await prisma.formAccess.findMany({
+      where: { formId, isSubmitted: false, isDeleted: false },
+      include: {
+        student: { select: { email: true, isDeleted: true } },
+        OverrideStudent: { select: { email: true, isDeleted: true } },
+        reminders: { select: { daysBeforeEnd: true } },
+      },
+    });
+
+    const result: ReminderDispatchResult = {
+      formId,
+      remindersQueued: 0,
+      skippedCapReached: 0,
+      skippedAlreadyReminded: 0,
+    };
+
+    for (const access of pendingAccesses) {
+      const recipient = access.student ?? access.OverrideStudent;
+      if (!recipient || recipient.isDeleted) {
+        continue;
+      }
+
+      if (access.reminders.length >= form.maxRemindersPerStudent) {
+        result.skippedCapReached++;
+        continue;
+      }
+
+      if (
+        daysBeforeEnd !== null &&
+        access.reminders.some((r) => r.daysBeforeEnd === daysBeforeEnd)
+      ) {
+        result.skippedAlreadyReminded++;
+        continue;
+      }
+
+      const payload: EmailJobPayload = {
+        to: recipient.email,
+        subject: `⏰ Reminder: ${form.title} - Feedback Pending`,
+        html: getFeedbackReminderTemplate(
+          form.division.semester.semesterNumber,
+          form.division.divisionName,
+          form.title,
+          access.accessToken,
+          this.getFrontendUrl(),
+          form.endDate
+        ),
+      };
+
+      await emailService.addEmailJobToQueue(
+        `send-form-reminder-to-${recipient.email}-${formId}`,
+        payload
+      );
+
+      await prisma.formReminder.create({
+        data: {
+          formId,
+          formAccessId: access.id,
+          recipientEmail: recipient.email,
+          daysBeforeEnd,
+        },
+      });
+      result.remindersQueued++;
+    }
+
+    console.log(
+      `Reminder summary for form ${formId}: ${result.remindersQueued} queued, ${result.skippedCapReached} skipped (cap reached), ${result.skippedAlreadyReminded} skipped (already reminded)`
+    );
+
+    return result;
+  }
+
+  // Sends scheduled reminders for every active form with a reminder slot that is due.
+  public async sendDueReminders(): Promise<number> {
+    const now = new Date();
+
+    const forms = await prisma.feedbackForm.findMany({
+      where: {
+        status: 'ACTIVE',
+        isDeleted: false,
+        endDate: { gt: now },
+        reminderDaysBeforeEnd: { isEmpty: false },
+      },
+      select: { id: true, endDate: true, reminderDaysBeforeEnd: true },
+    });
+
+    let totalQueued = 0;
+
+    for (const form of forms) {
+      const dueSlots = form.reminderDaysBeforeEnd.filter(
+        (days) => now.getTime() >= form.endDate.getTime() - days * ONE_DAY_MS
+      );
+      if (!dueSlots.length) {
+        continue;
+      }
+
+      // Only the closest due slot is sent, so a late run never sends several reminders at once.
+      const slot = Math.min(...dueSlots);
+
+      try {
+        const result = await this.sendRemindersForForm(
+          form.id,
+          UNRESTRICTED_SCOPE,
+          slot
+        );
+        totalQueued += result.remindersQueued;
+      } catch (error) {
+        console.error(
+          `Error in FeedbackReminderService.sendDueReminders for form ID ${form.id}:`,
+          error
+        );
+      }
+    }
+
+    return totalQueued;
+  }
+}
+
+export const feedbackReminderService = new FeedbackReminderService();
@@ -0,0 +1,267 @@
+/**
+ * @file src/services/formTemplate/formTemplate.service.ts
+ * @description Service layer for Form Template operations.
+ * A template is a named, ordered set of question bank items used when generating feedback forms.
+ * Templates are kept for the college, and for an HOD the department, of the admin who saved them,
+ * and are named uniquely within their college.
+ */
+
+import {
+  FormTemplate,
+  FormTemplateQuestion,
+  QuestionBankItem,
+} from '@prisma/client';
+import { prisma } from '../common/prisma.service';
+import AppError from '../../utils/appError';
+import {
+  CollegeScope,
+  assertCollegeRecordInScope,
+  collegeSharedRecordScopeWhere,
+  getRecordCollegeScope,
+} from '../college/collegeScope';
+
+interface TemplateQuestionInput {
+  questionBankItemId: string;
+  displayOrder?: number;
+}
+
+interface CreateFormTemplateInput {
+  name: string;
+  description?: string | null;
+  questions: TemplateQuestionInput[];
+  // The college the template is for, optional for admins of a single college.
+  collegeId?: string;
+}
+
+interface UpdateFormTemplateInput extends Partial<
+  Omit<CreateFormTemplateInput, 'collegeId'>
+> {}
+
+// Template with its ordered question bank items.
+export type FormTemplateWithQuestions = FormTemplate & {
+  questions: (FormTemplateQuestion & { questionBankItem: QuestionBankItem })[];
+};
+
+const templateInclude = {
+  questions: {
+    where: { questionBankItem: { isDeleted: false } },
+    include: { questionBankItem: true },
+    orderBy: { displayOrder: 'asc' as const },
+  },
+};
+
+class FormTemplateService {
+  // Ensures every referenced question bank item exists, is active and is of the template's college.
+  private async assertQuestionsExist(
+    questions: TemplateQuestionInput[],
+    collegeId: string | null,
+    scope: CollegeScope
+  ): Promise<void> {
+    const ids = questions.map((q) => q.questionBankItemId);
+    const found = await prisma.questionBankItem.findMany({
+      where: {
+        id: { in: ids },
+        isDeleted: false,
+        ...collegeSharedRecordScopeWhere(scope),
+        collegeId,
+      },
+      select: { id: true },
+    });
+    const foundIds = new Set(found.map((q) => q.id));
+    const missingIds = ids.filter((id) => !foundIds.has(id));
+    if (missingIds.length > 0) {
+      throw new AppError(
+        `Question bank items not found, deleted or of another college: ${missingIds.join(', ')}.`,
+        400
+      );
+    }
+  }
+
+  /**
+   * Retrieves an active form template the scope can change, which for an HOD excludes the
+   * templates of their whole college.
+   * @throws AppError 404 when the template is not in the scope's colleges, and 403 when it is
+   * another department's or college-wide.
+   */
+  private async findEditableTemplate(
+    id: string,
+    scope: CollegeScope
+  ): Promise<FormTemplate> {
+    const template = await prisma.formTemplate.findFirst({
+      where: { id, isDeleted: false, ...collegeSharedRecordScopeWhere(scope) },
+    });
+    if (!template) {
+      throw new AppError('Form template not found or is deleted.', 404);
+    }
+    assertCollegeRecordInScope(scope, template);
+    return template;
+  }
+
+  // Maps template question input to rows, defaulting display order to list position.
+  private toTemplateQuestionRows(questions: TemplateQuestionInput[]) {
+    return questions.map((q, index) => ({
+      questionBankItemId: q.questionBankItemId,
+      displayOrder: q.displayOrder ?? index + 1,
+    }));
+  }
+
+  // Retrieves the active form templates of the scope's colleges.
+  public async getAllTemplates(
+    scope: CollegeScope
+  ): Promise<FormTemplateWithQuestions[]> {
+    try {
+      const templates = await prisma.formTemplate.findMany({
+        where: { isDeleted: false, ...collegeSharedRecordScopeWhere(scope) },
+        include: templateInclude,
+        orderBy: { name: 'asc' },
+      });
+      return templates;
+    } catch (error: any) {
+      console.error('Error in FormTemplateService.getAllTemplates:', error);
+      throw new AppError('Failed to retrieve form templates.', 500);
+    }
+  }
+
+  // Retrieves a single active form template of the scope's colleges.
+  public async getTemplateById(
+    id: string,
+    scope: CollegeScope
+  ): Promise<FormTemplateWithQuestions | null> {
+    try {
+      const template = await prisma.formTemplate.findFirst({
+        where: {
+          id: id,
+          isDeleted: false,
+          ...collegeSharedRecordScopeWhere(scope),
+        },
+        include: templateInclude,
+      });
+      return template;
+    } catch (error: any) {
+      console.error(
+        `Error in FormTemplateService.getTemplateById for ID ${id}:`,
+        error
+      );
+      throw new AppError('Failed to retrieve form template.', 500);
+    }
+  }
+
+  // Creates a new form template for a college in the scope from its question bank items.
+  public async createTemplate(
+    data: CreateFormTemplateInput,
+    scope: CollegeScope
+  ): Promise<FormTemplateWithQuestions> {
+    const collegeScope = getRecordCollegeScope(scope, data.collegeId);
+    const collegeId = collegeScope.collegeIds?.[0] ?? null;
+    await this.assertQuestionsExist(data.questions, collegeId, scope);
+
+    try {
+      const template = await prisma.formTemplate.create({
+        data: {
+          name: data.name,
+          description: data.description,
+          collegeId,
+          departmentId: collegeScope.departmentIds?.[0],
+          questions: {
+            create: this.toTemplateQuestionRows(data.questions),
+          },
+        },
+        include: templateInclude,
+      });
+      return template;
+    } catch (error: any) {
+      console.error('Error in FormTemplateService.createTemplate:', error);
+      if (error.code === 'P2002') {
+        throw new AppError(
+          'A form template with this name already exists in this college.',
+          409
+        );
+      }
+      throw new AppError('Failed to create form template.', 500);
+    }
+  }
+
+  // Updates a form template the scope can change; a provided question list replaces the existing one.
+  public async updateTemplate(
+    id: string,
+    data: UpdateFormTemplateInput,
+    scope: CollegeScope
+  ): Promise<FormTemplateWithQuestions> {
+    const existingTemplate = await this.findEditableTemplate(id, scope);
+
+    if (data.questions) {
+      await this.assertQuestionsExist(
+        data.questions,
+        existingTemplate.collegeId,
+        scope
+      );
+    }
+
+    try {
+      const template = await prisma.$transaction(async (tx) => {
+        if (data.questions) {
+          await tx.formTemplateQuestion.deleteMany({
+            where: { templateId: id },
+          });
+        }
+
+        return tx.formTemplate.update({
+          where: { id: id, isDeleted: false },
+          data: {
+            name: data.name,
+            description: data.description,
+            ...(data.questions && {
+              questions: {
+                create: this.toTemplateQuestionRows(data.questions),
+              },
+            }),
+          },
+          include: templateInclude,
+        });
+      });
+      return template;
+    } catch (error: any) {
+      console.error(
+        `Error in FormTemplateService.updateTemplate for ID ${id}:`,
+        error
+      );
+      if (error.code === 'P2002') {
+        throw new AppError(
+          'A form template with this name already exists in this college.',
+          409
+        );
+      }
+      if (error.code === 'P2025') {
+        throw new AppError('Form template not found for update.', 404);
+      }
+      throw new AppError('Failed to update form template.', 500);
+    }
+  }
+
+  // Soft deletes a form template the scope can change.
+  public async softDeleteTemplate(
+    id: string,
+    scope: CollegeScope
+  ): Promise<FormTemplate> {
+    await this.findEditableTemplate(id, scope);
+
+    try {
+      const template = await prisma.formTemplate.update({
+        where: { id: id, isDeleted: false },
+        data: { isDeleted: true },
+      });
+      return template;
+    } catch (error: any) {
+      console.error(
+        `Error in FormTemplateService.softDeleteTemplate for ID ${id}:`,
+        error
+      );
+      if (error.code === 'P2025') {
+        throw new AppError('Form template not found for deletion.', 404);
+      }
+      throw new AppError('Failed to soft delete form template.', 500);
+    }
+  }
+}
+
+export const formTemplateService = new FormTemplateService();
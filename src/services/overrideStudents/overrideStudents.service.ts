@@ -9,13 +9,27 @@ import ExcelJS from 'exceljs';
 import crypto from 'crypto';
 import { prisma } from '../common/prisma.service';
 import AppError from '../../utils/appError';
+import { loadWorkbook } from '../../utils/spreadsheet';
 import { overrideStudentExcelRowSchema } from '../../utils/validators/overrideStudents.validation';
+import { UploadRowIssue } from '../upload/uploadDiff';
+import {
+  BY_POSITION_WARNING,
+  ColumnMapping,
+  OVERRIDE_STUDENTS_COLUMNS,
+  getMappedCell,
+  resolveColumns,
+} from '../upload/columnMapping';
 
 interface OverrideStudentUploadResult {
   message: string;
   rowsAffected: number;
   skippedRows: number;
   skippedDetails: string[];
+  rejectedRows: UploadRowIssue[];
+  warnings: string[];
+  // The form's department and its college, which the upload's error report is kept for.
+  collegeId: string;
+  departmentId: string;
 }
 
 interface UpdateOverrideStudentInput {
@@ -47,8 +61,8 @@ interface PaginatedOverrideStudents {
 
 class OverrideStudentsService {
   // Extracts the string value from an ExcelJS cell.
-  private getCellValue(cell: ExcelJS.Cell): string {
-    const value = cell.value;
+  private getCellValue(cell: ExcelJS.Cell | null): string {
+    const value = cell?.value;
     if (
       value &&
       typeof value === 'object' &&
@@ -98,9 +112,12 @@ class OverrideStudentsService {
   public async uploadOverrideStudents(
     formId: string,
     fileBuffer: Buffer,
-    uploadedBy: string
+    uploadedBy: string,
+    columnMapping?: ColumnMapping
   ): Promise<OverrideStudentUploadResult> {
     let skippedRowsDetails: string[] = [];
+    const rejectedRows: UploadRowIssue[] = [];
+    const warnings: string[] = [];
     let addedRows = 0;
     let skippedCount = 0;
 
@@ -126,6 +143,26 @@ class OverrideStudentsService {
       const { semester, department } = division;
       const academicYearId = semester.academicYearId;
 
+      // Columns are resolved before previous uploads are cleared, so a sheet with missing columns changes nothing.
+      const workbook = await loadWorkbook(fileBuffer);
+      const worksheet = workbook.getWorksheet(1);
+
+      if (!worksheet) {
+        throw new AppError(
+          'Invalid worksheet: Worksheet not found in the uploaded file.',
+          400
+        );
+      }
+
+      const { positions: columns, byPosition } = resolveColumns(
+        worksheet,
+        OVERRIDE_STUDENTS_COLUMNS,
+        columnMapping
+      );
+      if (byPosition) {
+        warnings.push(BY_POSITION_WARNING);
+      }
+
       // 2. Ensure FeedbackFormOverride exists (we still use this for tracking the upload event)
       const override = await this.ensureFeedbackFormOverride(
         formId,
@@ -138,17 +175,6 @@ class OverrideStudentsService {
         data: { isDeleted: true },
       });
 
-      const workbook = new ExcelJS.Workbook();
-      await workbook.xlsx.load(fileBuffer as any);
-      const worksheet = workbook.getWorksheet(1);
-
-      if (!worksheet) {
-        throw new AppError(
-          'Invalid worksheet: Worksheet not found in the Excel file.',
-          400
-        );
-      }
-
       const emailSet = new Set<string>();
 
       for (let rowNumber = 2; rowNumber <= worksheet.rowCount; rowNumber++) {
@@ -158,14 +184,17 @@ class OverrideStudentsService {
           continue;
         }
 
+        const cellValue = (column: number | null) =>
+          this.getCellValue(getMappedCell(row, column));
+
         const rawData = {
-          studentName: this.getCellValue(row.getCell(1)),
-          email: this.getCellValue(row.getCell(2)),
-          enrollmentNumber: this.getCellValue(row.getCell(3)),
-          batch: this.getCellValue(row.getCell(4)),
-          phoneNumber: this.getCellValue(row.getCell(5)),
-          department: this.getCellValue(row.getCell(6)),
-          semester: this.getCellValue(row.getCell(7)),
+          studentName: cellValue(columns.studentName),
+          email: cellValue(columns.email),
+          enrollmentNumber: cellValue(columns.enrollmentNumber),
+          batch: cellValue(columns.batch),
+          phoneNumber: cellValue(columns.phoneNumber),
+          department: cellValue(columns.department),
+          semester: cellValue(columns.semester),
         };
 
         const validationResult =
@@ -178,6 +207,7 @@ class OverrideStudentsService {
           const message = `Row ${rowNumber}: Skipping due to validation errors: ${errors}. Email: '${rawData.email}'.`;
           console.warn(message);
           skippedRowsDetails.push(message);
+          rejectedRows.push({ row: rowNumber, reason: message });
           skippedCount++;
           continue;
         }
@@ -195,6 +225,7 @@ class OverrideStudentsService {
           const message = `Row ${rowNumber}: Skipping duplicate email '${email}' within the same upload.`;
           console.warn(message);
           skippedRowsDetails.push(message);
+          rejectedRows.push({ row: rowNumber, reason: message });
           skippedCount++;
           continue;
         }
@@ -374,6 +405,7 @@ class OverrideStudentsService {
           const message = `Row ${rowNumber}: Error processing data for Email '${email}': ${innerError.message || 'Unknown error'}.`;
           console.error(message, innerError);
           skippedRowsDetails.push(message);
+          rejectedRows.push({ row: rowNumber, reason: message });
           skippedCount++;
         }
       }
@@ -383,6 +415,10 @@ class OverrideStudentsService {
         rowsAffected: addedRows,
         skippedRows: skippedCount,
         skippedDetails: skippedRowsDetails,
+        rejectedRows,
+        warnings,
+        collegeId: department.collegeId,
+        departmentId: department.id,
       };
     } catch (error: any) {
       console.error(
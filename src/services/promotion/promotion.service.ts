@@ -0,0 +1,434 @@
+/**
+ * @file src/services/promotion/promotion.service.ts
+ * @description Service layer for student promotion operations.
+ * Moves a semester's students into the next semester in batches recorded in PromotionHistory, and undoes batches.
+ */
+
+import { PromotionBatch } from '@prisma/client';
+import { prisma } from '../common/prisma.service';
+import AppError from '../../utils/appError';
+import { studentService } from '../student/student.service';
+import {
+  CollegeScope,
+  assertDepartmentInScope,
+  assertRecordInScope,
+  departmentScopeWhere,
+} from '../college/collegeScope';
+
+interface DivisionMappingInput {
+  fromDivisionId: string;
+  toDivisionId: string;
+}
+
+interface PromoteStudentsInput {
+  fromSemesterId: string;
+  toSemesterId: string;
+  divisionMapping: DivisionMappingInput[];
+  detainedEnrollmentNumbers?: string[];
+}
+
+interface PromotionDivisionSummary {
+  fromDivisionId: string;
+  fromDivisionName: string;
+  toDivisionId: string;
+  toDivisionName: string;
+  studentCount: number;
+}
+
+interface PromotionResult {
+  dryRun: boolean;
+  batchId: string | null;
+  fromSemester: { id: string; semesterNumber: number };
+  toSemester: { id: string; semesterNumber: number; academicYearId: string };
+  promotedCount: number;
+  detainedCount: number;
+  divisions: PromotionDivisionSummary[];
+  detainedStudents: Array<{ enrollmentNumber: string; name: string }>;
+  unknownDetainedEnrollmentNumbers: string[];
+}
+
+interface UndoPromotionResult {
+  batchId: string;
+  restoredCount: number;
+}
+
+// Promotions can move whole semesters, so they get more time than Prisma's 5s default.
+const PROMOTION_TRANSACTION_OPTIONS = { maxWait: 10_000, timeout: 120_000 };
+
+class PromotionService {
+  // Ensures a promotion batch moved students of a department in the scope.
+  private assertBatchInScope(id: string, scope: CollegeScope): Promise<void> {
+    return assertRecordInScope(scope, async () => {
+      const batch = await prisma.promotionBatch.findUnique({
+        where: { id },
+        select: { fromSemester: { select: { departmentId: true } } },
+      });
+      return batch && batch.fromSemester;
+    });
+  }
+
+  /**
+   * Promotes the students of a semester into a target semester.
+   * Students are moved division by division according to the mapping; detained students stay behind.
+   * @param data - Source and target semesters, the division mapping and the detained students.
+   * @param dryRun - When true, returns the planned changes without writing anything.
+   * @param scope - The departments the admin may promote the students of.
+   * @param adminId - The admin performing the promotion, recorded on the batch.
+   */
+  public async promoteStudents(
+    data: PromoteStudentsInput,
+    dryRun: boolean,
+    scope: CollegeScope,
+    adminId?: string
+  ): Promise<PromotionResult> {
+    const [fromSemester, toSemester] = await Promise.all([
+      prisma.semester.findUnique({
+        where: { id: data.fromSemesterId, isDeleted: false },
+        include: { divisions: { where: { isDeleted: false } } },
+      }),
+      prisma.semester.findUnique({
+        where: { id: data.toSemesterId, isDeleted: false },
+        include: { divisions: { where: { isDeleted: false } } },
+      }),
+    ]);
+
+    if (!fromSemester) {
+      throw new AppError('Source semester not found or is deleted.', 404);
+    }
+    if (!toSemester) {
+      throw new AppError('Target semester not found or is deleted.', 404);
+    }
+    if (fromSemester.departmentId !== toSemester.departmentId) {
+      throw new AppError(
+        'Source and target semesters must belong to the same department.',
+        400
+      );
+    }
+    await assertDepartmentInScope(scope, fromSemester.departmentId);
+    if (toSemester.semesterNumber <= fromSemester.semesterNumber) {
+      throw new AppError(
+        'Target semester must be a later semester than the source semester.',
+        400
+      );
+    }
+
+    const fromDivisions = new Map(fromSemester.divisions.map((d) => [d.id, d]));
+    const toDivisions = new Map(toSemester.divisions.map((d) => [d.id, d]));
+
+    for (const mapping of data.divisionMapping) {
+      if (!fromDivisions.has(mapping.fromDivisionId)) {
+        throw new AppError(
+          `Division ${mapping.fromDivisionId} does not belong to the source semester.`,
+          400
+        );
+      }
+      if (!toDivisions.has(mapping.toDivisionId)) {
+        throw new AppError(
+          `Division ${mapping.toDivisionId} does not belong to the target semester.`,
+          400
+        );
+      }
+    }
+
+    const students = await prisma.student.findMany({
+      where: { semesterId: fromSemester.id, isDeleted: false },
+      select: {
+        id: true,
+        name: true,
+        enrollmentNumber: true,
+        divisionId: true,
+        academicYearId: true,
+      },
+    });
+
+    // Every source division with students must be mapped, so nobody is left behind by accident.
+    const targetByDivision = new Map(
+      data.divisionMapping.map((m) => [m.fromDivisionId, m.toDivisionId])
+    );
+    const unmappedDivisions = [
+      ...new Set(
+        students
+          .filter((student) => !targetByDivision.has(student.divisionId))
+          .map(
+            (student) =>
+              fromDivisions.get(student.divisionId)?.divisionName ??
+              student.divisionId
+          )
+      ),
+    ];
+    if (unmappedDivisions.length) {
+      throw new AppError(
+        `Students in these divisions have no target division: ${unmappedDivisions.join(', ')}.`,
+        400
+      );
+    }
+
+    const detained = new Set(data.detainedEnrollmentNumbers ?? []);
+    const detainedStudents = students.filter((s) =>
+      detained.has(s.enrollmentNumber)
+    );
+    const studentsToPromote = students.filter(
+      (s) => !detained.has(s.enrollmentNumber)
+    );
+    const knownEnrollmentNumbers = new Set(
+      students.map((s) => s.enrollmentNumber)
+    );
+
+    const divisions: PromotionDivisionSummary[] = data.divisionMapping.map(
+      (mapping) => ({
+        fromDivisionId: mapping.fromDivisionId,
+        fromDivisionName:
+          fromDivisions.get(mapping.fromDivisionId)?.divisionName ?? '',
+        toDivisionId: mapping.toDivisionId,
+        toDivisionName:
+          toDivisions.get(mapping.toDivisionId)?.divisionName ?? '',
+        studentCount: studentsToPromote.filter(
+          (s) => s.divisionId === mapping.fromDivisionId
+        ).length,
+      })
+    );
+
+    const result: PromotionResult = {
+      dryRun,
+      batchId: null,
+      fromSemester: {
+        id: fromSemester.id,
+        semesterNumber: fromSemester.semesterNumber,
+      },
+      toSemester: {
+        id: toSemester.id,
+        semesterNumber: toSemester.semesterNumber,
+        academicYearId: toSemester.academicYearId,
+      },
+      promotedCount: studentsToPromote.length,
+      detainedCount: detainedStudents.length,
+      divisions,
+      detainedStudents: detainedStudents.map((s) => ({
+        enrollmentNumber: s.enrollmentNumber,
+        name: s.name,
+      })),
+      unknownDetainedEnrollmentNumbers: [...detained].filter(
+        (enrollmentNumber) => !knownEnrollmentNumbers.has(enrollmentNumber)
+      ),
+    };
+
+    if (dryRun) {
+      return result;
+    }
+    if (!studentsToPromote.length) {
+      throw new AppError('No students to promote.', 400);
+    }
+
+    try {
+      const batch = await prisma.$transaction(async (tx) => {
+        const createdBatch = await tx.promotionBatch.create({
+          data: {
+            fromSemesterId: fromSemester.id,
+            toSemesterId: toSemester.id,
+            promotedBy: adminId,
+            studentCount: studentsToPromote.length,
+            detainedCount: detainedStudents.length,
+          },
+        });
+
+        for (const mapping of data.divisionMapping) {
+          await tx.student.updateMany({
+            where: {
+              id: {
+                in: studentsToPromote
+                  .filter((s) => s.divisionId === mapping.fromDivisionId)
+                  .map((s) => s.id),
+              },
+            },
+            data: {
+              semesterId: toSemester.id,
+              divisionId: mapping.toDivisionId,
+              academicYearId: toSemester.academicYearId,
+            },
+          });
+        }
+
+        await tx.promotionHistory.createMany({
+          data: studentsToPromote.map((student) => ({
+            batchId: createdBatch.id,
+            studentId: student.id,
+            fromSemesterId: fromSemester.id,
+            toSemesterId: toSemester.id,
+            fromDivisionId: student.divisionId,
+            toDivisionId: targetByDivision.get(student.divisionId) as string,
+            fromAcademicYearId: student.academicYearId,
+            toAcademicYearId: toSemester.academicYearId,
+          })),
+        });
+
+        return createdBatch;
+      }, PROMOTION_TRANSACTION_OPTIONS);
+
+      studentService.clearCache();
+      return { ...result, batchId: batch.id };
+    } catch (error: any) {
+      console.error('Error in PromotionService.promoteStudents:', error);
+      throw new AppError('Failed to promote students.', 500);
+    }
+  }
+
+  // Retrieves the promotion batches of the departments in the scope, newest first.
+  public async getPromotionBatches(
+    scope: CollegeScope
+  ): Promise<PromotionBatch[]> {
+    try {
+      const batches = await prisma.promotionBatch.findMany({
+        where: {
+          fromSemester: {
+            department: { isDeleted: false, ...departmentScopeWhere(scope) },
+          },
+        },
+        include: {
+          fromSemester: { select: { id: true, semesterNumber: true } },
+          toSemester: { select: { id: true, semesterNumber: true } },
+        },
+        orderBy: { createdAt: 'desc' },
+      });
+      return batches;
+    } catch (error: any) {
+      console.error('Error in PromotionService.getPromotionBatches:', error);
+      throw new AppError('Failed to retrieve promotion batches.', 500);
+    }
+  }
+
+  // Retrieves a single promotion batch with the students it moved.
+  public async getPromotionBatchById(
+    id: string,
+    scope: CollegeScope
+  ): Promise<PromotionBatch | null> {
+    await this.assertBatchInScope(id, scope);
+
+    try {
+      const batch = await prisma.promotionBatch.findUnique({
+        where: { id },
+        include: {
+          fromSemester: { select: { id: true, semesterNumber: true } },
+          toSemester: { select: { id: true, semesterNumber: true } },
+          histories: {
+            include: {
+              student: {
+                select: { id: true, name: true, enrollmentNumber: true },
+              },
+            },
+          },
+        },
+      });
+      return batch;
+    } catch (error: any) {
+      console.error(
+        `Error in PromotionService.getPromotionBatchById for ID ${id}:`,
+        error
+      );
+      throw new AppError('Failed to retrieve promotion batch.', 500);
+    }
+  }
+
+  /**
+   * Undoes a promotion batch, moving its students back to their previous semester and division.
+   * The undo is refused when any student has since been moved elsewhere. The batch is claimed and
+   * the students are checked inside the undo's transaction, so concurrent undos or moves cannot
+   * slip in between.
+   * @param id - The ID of the promotion batch.
+   * @param scope - The departments the admin may move the students of.
+   */
+  public async undoPromotion(
+    id: string,
+    scope: CollegeScope
+  ): Promise<UndoPromotionResult> {
+    await this.assertBatchInScope(id, scope);
+
+    const batch = await prisma.promotionBatch.findUnique({ where: { id } });
+    if (!batch) {
+      throw new AppError('Promotion batch not found.', 404);
+    }
+
+    try {
+      const restoredCount = await prisma.$transaction(async (tx) => {
+        // Claiming the batch first makes a concurrent undo of it wait, then find it undone.
+        const claimed = await tx.promotionBatch.updateMany({
+          where: { id, isUndone: false },
+          data: { isUndone: true, undoneAt: new Date() },
+        });
+        if (!claimed.count) {
+          throw new AppError('Promotion batch has already been undone.', 409);
+        }
+
+        const histories = await tx.promotionHistory.findMany({
+          where: { batchId: id, isDeleted: false },
+          include: {
+            student: {
+              select: {
+                enrollmentNumber: true,
+                semesterId: true,
+                divisionId: true,
+              },
+            },
+          },
+        });
+
+        const movedSince = histories.filter(
+          (history) =>
+            history.student.semesterId !== history.toSemesterId ||
+            history.student.divisionId !== history.toDivisionId
+        );
+        if (movedSince.length) {
+          throw new AppError(
+            `Cannot undo promotion: ${movedSince.length} students have been moved since (e.g. ${movedSince
+              .slice(0, 5)
+              .map((h) => h.student.enrollmentNumber)
+              .join(', ')}).`,
+            409
+          );
+        }
+
+        for (const history of histories) {
+          // Only moves the student back if still where the promotion put them.
+          const moved = await tx.student.updateMany({
+            where: {
+              id: history.studentId,
+              semesterId: history.toSemesterId,
+              divisionId: history.toDivisionId,
+            },
+            data: {
+              semesterId: history.fromSemesterId,
+              divisionId: history.fromDivisionId,
+              academicYearId: history.fromAcademicYearId,
+            },
+          });
+          if (!moved.count) {
+            throw new AppError(
+              `Cannot undo promotion: student ${history.student.enrollmentNumber} has been moved since.`,
+              409
+            );
+          }
+        }
+
+        await tx.promotionHistory.updateMany({
+          where: { batchId: id },
+          data: { isDeleted: true },
+        });
+
+        return histories.length;
+      }, PROMOTION_TRANSACTION_OPTIONS);
+
+      studentService.clearCache();
+      return { batchId: batch.id, restoredCount };
+    } catch (error: any) {
+      if (error instanceof AppError) {
+        throw error;
+      }
+      console.error(
+        `Error in PromotionService.undoPromotion for ID ${id}:`,
+        error
+      );
+      throw new AppError('Failed to undo promotion.', 500);
+    }
+  }
+}
+
+export const promotionService = new PromotionService();
@@ -0,0 +1,235 @@
+/**
+ * @file src/services/questionBank/questionBank.service.ts
+ * @description Service layer for Question Bank operations.
+ * Manages reusable questions that form templates expand into feedback form questions.
+ * Questions are kept for the college, and for an HOD the department, of the admin who added them.
+ */
+
+import { LectureType, Prisma, QuestionBankItem } from '@prisma/client';
+import { prisma } from '../common/prisma.service';
+import AppError from '../../utils/appError';
+import { resolveQuestionOptions } from '../../utils/questionTypes';
+import {
+  CollegeScope,
+  assertCollegeRecordInScope,
+  collegeSharedRecordScopeWhere,
+  getRecordCollegeScope,
+} from '../college/collegeScope';
+
+interface CreateQuestionBankItemInput {
+  categoryId: string;
+  text: string;
+  type: string;
+  options?: Record<string, any>;
+  tags?: string[];
+  applicableTo?: LectureType[];
+  isRequired?: boolean;
+  // The college the question is for, optional for admins of a single college.
+  collegeId?: string;
+}
+
+interface UpdateQuestionBankItemInput extends Partial<
+  Omit<CreateQuestionBankItemInput, 'collegeId'>
+> {}
+
+interface QuestionBankFilters {
+  categoryId?: string;
+  tag?: string;
+  lectureType?: LectureType;
+  type?: string;
+}
+
+class QuestionBankService {
+  // Ensures the referenced question category exists and is active.
+  private async assertCategoryExists(categoryId: string): Promise<void> {
+    const category = await prisma.questionCategory.findUnique({
+      where: { id: categoryId, isDeleted: false },
+    });
+    if (!category) {
+      throw new AppError('Question Category not found or is deleted.', 400);
+    }
+  }
+
+  /**
+   * Retrieves an active question bank item the scope can change, which for an HOD excludes the
+   * questions of their whole college.
+   * @throws AppError 404 when the question is not in the scope's colleges, and 403 when it is
+   * another department's or college-wide.
+   */
+  private async findEditableQuestion(
+    id: string,
+    scope: CollegeScope
+  ): Promise<QuestionBankItem> {
+    const question = await prisma.questionBankItem.findFirst({
+      where: { id, isDeleted: false, ...collegeSharedRecordScopeWhere(scope) },
+    });
+    if (!question) {
+      throw new AppError('Question bank item not found or is deleted.', 404);
+    }
+    assertCollegeRecordInScope(scope, question);
+    return question;
+  }
+
+  // Retrieves the active question bank items of the scope's colleges matching the given filters.
+  public async getAllQuestions(
+    scope: CollegeScope,
+    filters: QuestionBankFilters = {}
+  ): Promise<QuestionBankItem[]> {
+    try {
+      const questions = await prisma.questionBankItem.findMany({
+        where: {
+          isDeleted: false,
+          ...collegeSharedRecordScopeWhere(scope),
+          category: { isDeleted: false },
+          ...(filters.categoryId && { categoryId: filters.categoryId }),
+          ...(filters.tag && { tags: { has: filters.tag } }),
+          ...(filters.lectureType && {
+            applicableTo: { has: filters.lectureType },
+          }),
+          ...(filters.type && { type: filters.type }),
+        },
+        include: { category: true },
+        orderBy: { createdAt: 'asc' },
+      });
+      return questions;
+    } catch (error: any) {
+      console.error('Error in QuestionBankService.getAllQuestions:', error);
+      throw new AppError('Failed to retrieve question bank items.', 500);
+    }
+  }
+
+  // Retrieves a single active question bank item of the scope's colleges.
+  public async getQuestionById(
+    id: string,
+    scope: CollegeScope
+  ): Promise<QuestionBankItem | null> {
+    try {
+      const question = await prisma.questionBankItem.findFirst({
+        where: {
+          id: id,
+          isDeleted: false,
+          ...collegeSharedRecordScopeWhere(scope),
+        },
+        include: { category: true },
+      });
+      return question;
+    } catch (error: any) {
+      console.error(
+        `Error in QuestionBankService.getQuestionById for ID ${id}:`,
+        error
+      );
+      throw new AppError('Failed to retrieve question bank item.', 500);
+    }
+  }
+
+  // Creates a new question bank item for a college in the scope.
+  public async createQuestion(
+    data: CreateQuestionBankItemInput,
+    scope: CollegeScope
+  ): Promise<QuestionBankItem> {
+    const collegeScope = getRecordCollegeScope(scope, data.collegeId);
+    await this.assertCategoryExists(data.categoryId);
+    const options = resolveQuestionOptions(data.type, data.options);
+
+    try {
+      const question = await prisma.questionBankItem.create({
+        data: {
+          category: { connect: { id: data.categoryId } },
+          text: data.text,
+          type: data.type,
+          options,
+          tags: data.tags,
+          applicableTo: data.applicableTo,
+          isRequired: data.isRequired,
+          collegeId: collegeScope.collegeIds?.[0],
+          departmentId: collegeScope.departmentIds?.[0],
+        },
+        include: { category: true },
+      });
+      return question;
+    } catch (error: any) {
+      console.error('Error in QuestionBankService.createQuestion:', error);
+      throw new AppError('Failed to create question bank item.', 500);
+    }
+  }
+
+  // Updates an existing question bank item the scope can change.
+  public async updateQuestion(
+    id: string,
+    data: UpdateQuestionBankItemInput,
+    scope: CollegeScope
+  ): Promise<QuestionBankItem> {
+    const existingQuestion = await this.findEditableQuestion(id, scope);
+
+    const { categoryId, options, ...restOfData } = data;
+    const dataToUpdate: Prisma.QuestionBankItemUpdateInput = { ...restOfData };
+
+    if (categoryId) {
+      await this.assertCategoryExists(categoryId);
+      dataToUpdate.category = { connect: { id: categoryId } };
+    }
+
+    // Options are re-validated whenever the type or the options change.
+    const typeChanged =
+      data.type !== undefined && data.type !== existingQuestion.type;
+    if (options !== undefined || typeChanged) {
+      dataToUpdate.options = resolveQuestionOptions(
+        data.type ?? existingQuestion.type,
+        options
+      );
+    }
+
+    try {
+      const question = await prisma.questionBankItem.update({
+        where: { id: id, isDeleted: false },
+        data: dataToUpdate,
+        include: { category: true },
+      });
+      return question;
+    } catch (error: any) {
+      console.error(
+        `Error in QuestionBankService.updateQuestion for ID ${id}:`,
+        error
+      );
+      if (error.code === 'P2025') {
+        throw new AppError('Question bank item not found for update.', 404);
+      }
+      throw new AppError('Failed to update question bank item.', 500);
+    }
+  }
+
+  // Soft deletes a question bank item the scope can change and removes it from any templates.
+  public async softDeleteQuestion(
+    id: string,
+    scope: CollegeScope
+  ): Promise<QuestionBankItem> {
+    await this.findEditableQuestion(id, scope);
+
+    try {
+      const question = await prisma.$transaction(async (tx) => {
+        const deletedQuestion = await tx.questionBankItem.update({
+          where: { id: id, isDeleted: false },
+          data: { isDeleted: true },
+        });
+
+        await tx.formTemplateQuestion.deleteMany({
+          where: { questionBankItemId: id },
+        });
+
+        return deletedQuestion;
+      });
+      return question;
+    } catch (error: any) {
+      console.error(
+        `Error in QuestionBankService.softDeleteQuestion for ID ${id}:`,
+        error
+      );
+      if (error.code === 'P2025') {
+        throw new AppError('Question bank item not found for deletion.', 404);
+      }
+      throw new AppError('Failed to soft delete question bank item.', 500);
+    }
+  }
+}
+
+export const questionBankService = new QuestionBankService();
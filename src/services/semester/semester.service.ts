@@ -7,6 +7,12 @@
 import { Semester, Prisma, SemesterTypeEnum } from '@prisma/client';
 import { prisma } from '../common/prisma.service';
 import AppError from '../../utils/appError';
+import {
+  CollegeScope,
+  assertDepartmentInScope,
+  assertRecordInScope,
+  departmentScopeWhere,
+} from '../college/collegeScope';
 
 const semesterCache = new Map<string, Semester>();
 
@@ -20,17 +26,33 @@ interface SemesterDataInput {
 }
 
 class SemesterService {
-  // Retrieves all active semesters, optionally filtered.
-  public async getAllSemesters(filters: {
-    departmentId?: string;
-    academicYearId?: string;
-    semesterNumber?: number;
-    semesterType?: SemesterTypeEnum;
-  }): Promise<Semester[]> {
+  // Ensures a semester belongs to a department in the scope.
+  private assertSemesterInScope(
+    id: string,
+    scope: CollegeScope
+  ): Promise<void> {
+    return assertRecordInScope(scope, () =>
+      prisma.semester.findUnique({
+        where: { id },
+        select: { departmentId: true },
+      })
+    );
+  }
+
+  // Retrieves all active semesters in the scope, optionally filtered.
+  public async getAllSemesters(
+    filters: {
+      departmentId?: string;
+      academicYearId?: string;
+      semesterNumber?: number;
+      semesterType?: SemesterTypeEnum;
+    },
+    scope: CollegeScope
+  ): Promise<Semester[]> {
     try {
       const whereClause: Prisma.SemesterWhereInput = {
         isDeleted: false,
-        department: { isDeleted: false },
+        department: { isDeleted: false, ...departmentScopeWhere(scope) },
         academicYear: { isDeleted: false },
       };
 
@@ -70,7 +92,10 @@ class SemesterService {
   }
 
   // Creates a new semester.
-  public async createSemester(data: SemesterDataInput): Promise<Semester> {
+  public async createSemester(
+    data: SemesterDataInput,
+    scope: CollegeScope
+  ): Promise<Semester> {
     const {
       departmentId,
       semesterNumber,
@@ -80,6 +105,8 @@ class SemesterService {
       semesterType,
     } = data;
 
+    await assertDepartmentInScope(scope, departmentId);
+
     semesterCache.clear();
 
     const existingDepartment = await prisma.department.findUnique({
@@ -150,7 +177,12 @@ class SemesterService {
   }
 
   // Retrieves a single active semester by its ID.
-  public async getSemesterById(id: string): Promise<Semester | null> {
+  public async getSemesterById(
+    id: string,
+    scope: CollegeScope
+  ): Promise<Semester | null> {
+    await this.assertSemesterInScope(id, scope);
+
     let semester: Semester | null | undefined = semesterCache.get(id);
     if (semester) {
       return semester;
@@ -187,8 +219,14 @@ class SemesterService {
   // Updates an existing semester.
   public async updateSemester(
     id: string,
-    data: Partial<SemesterDataInput>
+    data: Partial<SemesterDataInput>,
+    scope: CollegeScope
   ): Promise<Semester> {
+    await this.assertSemesterInScope(id, scope);
+    if (data.departmentId) {
+      await assertDepartmentInScope(scope, data.departmentId);
+    }
+
     try {
       semesterCache.clear();
 
@@ -255,7 +293,12 @@ class SemesterService {
   }
 
   // Soft deletes a semester.
-  public async softDeleteSemester(id: string): Promise<Semester> {
+  public async softDeleteSemester(
+    id: string,
+    scope: CollegeScope
+  ): Promise<Semester> {
+    await this.assertSemesterInScope(id, scope);
+
     try {
       semesterCache.clear();
 
@@ -275,13 +318,16 @@ class SemesterService {
 
   // Performs a batch creation of semesters.
   public async batchCreateSemesters(
-    semestersData: SemesterDataInput[]
+    semestersData: SemesterDataInput[],
+    scope: CollegeScope
   ): Promise<Semester[]> {
     semesterCache.clear();
 
     const results: Semester[] = [];
 
     for (const sem of semestersData) {
+      await assertDepartmentInScope(scope, sem.departmentId);
+
       const existingDepartment = await prisma.department.findUnique({
         where: { id: sem.departmentId, isDeleted: false },
       });
@@ -359,13 +405,18 @@ class SemesterService {
     return results;
   }
 
-  // Retrieves all active semesters for a specific department.
+  // Retrieves all active semesters for a specific department in the scope.
   public async getSemestersByDepartmentId(
-    departmentId: string
+    departmentId: string,
+    scope: CollegeScope
   ): Promise<Semester[]> {
     try {
       const existingDepartment = await prisma.department.findUnique({
-        where: { id: departmentId, isDeleted: false },
+        where: {
+          id: departmentId,
+          isDeleted: false,
+          ...departmentScopeWhere(scope),
+        },
       });
       if (!existingDepartment) {
         throw new AppError('Department not found or is deleted.', 404);
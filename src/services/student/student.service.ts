@@ -7,6 +7,12 @@
 import { Student } from '@prisma/client';
 import { prisma } from '../common/prisma.service';
 import AppError from '../../utils/appError';
+import {
+  CollegeScope,
+  assertDepartmentInScope,
+  assertRecordInScope,
+  departmentScopeWhere,
+} from '../college/collegeScope';
 
 const studentCache = new Map<string, Student>();
 
@@ -24,13 +30,23 @@ interface StudentDataInput {
 }
 
 class StudentService {
-  // Retrieves all active students.
-  public async getAllStudents(): Promise<Student[]> {
+  // Ensures a student belongs to a department in the scope.
+  private assertStudentInScope(id: string, scope: CollegeScope): Promise<void> {
+    return assertRecordInScope(scope, () =>
+      prisma.student.findUnique({
+        where: { id },
+        select: { departmentId: true },
+      })
+    );
+  }
+
+  // Retrieves all active students in the scope.
+  public async getAllStudents(scope: CollegeScope): Promise<Student[]> {
     try {
       const students = await prisma.student.findMany({
         where: {
           isDeleted: false,
-          department: { isDeleted: false },
+          department: { isDeleted: false, ...departmentScopeWhere(scope) },
           semester: { isDeleted: false },
           division: { isDeleted: false },
           academicYear: { isDeleted: false },
@@ -55,7 +71,10 @@ class StudentService {
   }
 
   // Creates a new student or updates an existing one based on enrollment number.
-  public async createStudent(data: StudentDataInput): Promise<Student> {
+  public async createStudent(
+    data: StudentDataInput,
+    scope: CollegeScope
+  ): Promise<Student> {
     const {
       name,
       enrollmentNumber,
@@ -69,6 +88,15 @@ class StudentService {
       image,
     } = data;
 
+    await assertDepartmentInScope(scope, departmentId);
+    // An existing enrollment number is updated, so it must be in the scope as well.
+    await assertRecordInScope(scope, () =>
+      prisma.student.findUnique({
+        where: { enrollmentNumber },
+        select: { departmentId: true },
+      })
+    );
+
     studentCache.clear();
 
     const existingAcademicYear = await prisma.academicYear.findUnique({
@@ -166,7 +194,12 @@ class StudentService {
   }
 
   // Retrieves a single active student by their ID.
-  public async getStudentById(id: string): Promise<Student | null> {
+  public async getStudentById(
+    id: string,
+    scope: CollegeScope
+  ): Promise<Student | null> {
+    await this.assertStudentInScope(id, scope);
+
     let student: Student | null | undefined = studentCache.get(id);
     if (student) {
       return student;
@@ -208,8 +241,14 @@ class StudentService {
   // Updates an existing student.
   public async updateStudent(
     id: string,
-    data: Partial<StudentDataInput>
+    data: Partial<StudentDataInput>,
+    scope: CollegeScope
   ): Promise<Student> {
+    await this.assertStudentInScope(id, scope);
+    if (data.departmentId) {
+      await assertDepartmentInScope(scope, data.departmentId);
+    }
+
     try {
       studentCache.clear();
 
@@ -313,7 +352,12 @@ class StudentService {
   }
 
   // Soft deletes a student.
-  public async softDeleteStudent(id: string): Promise<Student> {
+  public async softDeleteStudent(
+    id: string,
+    scope: CollegeScope
+  ): Promise<Student> {
+    await this.assertStudentInScope(id, scope);
+
     try {
       studentCache.clear();
 
@@ -344,13 +388,22 @@ class StudentService {
 
   // Performs a batch creation of students.
   public async batchCreateStudents(
-    studentsData: StudentDataInput[]
+    studentsData: StudentDataInput[],
+    scope: CollegeScope
   ): Promise<Student[]> {
     studentCache.clear();
 
     const results: Student[] = [];
 
     for (const std of studentsData) {
+      await assertDepartmentInScope(scope, std.departmentId);
+      await assertRecordInScope(scope, () =>
+        prisma.student.findUnique({
+          where: { enrollmentNumber: std.enrollmentNumber },
+          select: { departmentId: true },
+        })
+      );
+
       const existingAcademicYear = await prisma.academicYear.findUnique({
         where: { id: std.academicYearId, isDeleted: false },
       });
@@ -461,6 +514,11 @@ class StudentService {
     }
     return results;
   }
+
+  // Clears cached students after they are changed in bulk outside this service.
+  public clearCache(): void {
+    studentCache.clear();
+  }
 }
 
 export const studentService = new StudentService();
@@ -7,6 +7,13 @@
 import { StudentResponse } from '@prisma/client';
 import { prisma } from '../common/prisma.service';
 import AppError from '../../utils/appError';
+import {
+  isEmptyResponse,
+  isQuestionForBatch,
+  validateResponseValue,
+} from '../../utils/questionTypes';
+import { feedbackAnalyticsService } from '../feedbackAnalytics/feedbackAnalytics.service';
+import { enqueueAllocationRecomputes } from '../feedbackAnalytics/queue';
 
 type ResponsesInput = {
   [questionId: string]: any;
@@ -127,13 +134,8 @@ class StudentResponseService {
       );
     }
 
-    const questionIds = Object.keys(responses);
-
     const questionsWithDetails = await prisma.feedbackQuestion.findMany({
       where: {
-        id: {
-          in: questionIds,
-        },
         formId: formAccess.form.id,
         isDeleted: false,
       },
@@ -146,10 +148,50 @@ class StudentResponseService {
 
     const questionsMap = new Map(questionsWithDetails.map((q) => [q.id, q]));
 
+    // Validate every answer against its question type and make sure required questions are answered.
+    // Lab questions of other batches are never required, and a student of unknown batch is only
+    // required to answer the questions every batch gets.
+    const normalizedResponses = new Map<string, unknown>();
+    const validationErrors: string[] = [];
+    const studentBatch =
+      formAccess.student?.batch ?? formAccess.OverrideStudent?.batch;
+
+    for (const question of questionsWithDetails) {
+      const value = responses[question.id];
+
+      if (isEmptyResponse(value)) {
+        const isForStudent = studentBatch
+          ? isQuestionForBatch(question.batch, studentBatch)
+          : question.batch === 'None';
+        if (question.isRequired && isForStudent) {
+          validationErrors.push(`"${question.text}": A response is required.`);
+        }
+        continue;
+      }
+
+      const result = validateResponseValue(
+        question.type,
+        question.options,
+        value
+      );
+      if (result.valid) {
+        normalizedResponses.set(question.id, result.value);
+      } else {
+        validationErrors.push(`"${question.text}": ${result.error}`);
+      }
+    }
+
+    if (validationErrors.length > 0) {
+      throw new AppError(
+        `Invalid responses. ${validationErrors.join(' ')}`,
+        400
+      );
+    }
+
     const createdResponses = await prisma.$transaction(async (tx) => {
       const newStudentResponses: StudentResponse[] = [];
 
-      for (const [questionId, value] of Object.entries(responses)) {
+      for (const questionId of Object.keys(responses)) {
         const question = questionsMap.get(questionId);
 
         if (!question) {
@@ -159,6 +201,12 @@ class StudentResponseService {
           continue;
         }
 
+        // Unanswered optional questions are not stored.
+        if (!normalizedResponses.has(questionId)) {
+          continue;
+        }
+        const value = normalizedResponses.get(questionId);
+
         const studentResponse = await tx.studentResponse.create({
           data: {
             studentId: formAccess.studentId,
@@ -298,6 +346,20 @@ class StudentResponseService {
       return newStudentResponses;
     });
 
+    // Analytics are refreshed in the background; a failure here must not fail the submission.
+    try {
+      const affectedAllocationIds =
+        await feedbackAnalyticsService.findAllocationIdsForQuestions(
+          createdResponses.map((response) => response.questionId)
+        );
+      await enqueueAllocationRecomputes(affectedAllocationIds);
+    } catch (error) {
+      console.error(
+        'Error in StudentResponseService.submitResponses while queuing analytics recompute:',
+        error
+      );
+    }
+
     return createdResponses;
   }
 
@@ -7,6 +7,12 @@
 import { Subject, SubjectType, Prisma } from '@prisma/client';
 import { prisma } from '../common/prisma.service';
 import AppError from '../../utils/appError';
+import {
+  CollegeScope,
+  assertDepartmentInScope,
+  assertRecordInScope,
+  departmentScopeWhere,
+} from '../college/collegeScope';
 
 interface SubjectDataInput {
   name: string;
@@ -18,13 +24,23 @@ interface SubjectDataInput {
 }
 
 class SubjectService {
-  // Retrieves all active subjects.
-  public async getAllSubjects(): Promise<Subject[]> {
+  // Ensures a subject belongs to a department in the scope.
+  private assertSubjectInScope(id: string, scope: CollegeScope): Promise<void> {
+    return assertRecordInScope(scope, () =>
+      prisma.subject.findUnique({
+        where: { id },
+        select: { departmentId: true },
+      })
+    );
+  }
+
+  // Retrieves all active subjects in the scope.
+  public async getAllSubjects(scope: CollegeScope): Promise<Subject[]> {
     try {
       const subjects = await prisma.subject.findMany({
         where: {
           isDeleted: false,
-          department: { isDeleted: false },
+          department: { isDeleted: false, ...departmentScopeWhere(scope) },
           semester: { isDeleted: false },
         },
         include: {
@@ -41,7 +57,12 @@ class SubjectService {
   }
 
   // Retrieves a single active subject by its ID.
-  public async getSubjectById(id: string): Promise<Subject | null> {
+  public async getSubjectById(
+    id: string,
+    scope: CollegeScope
+  ): Promise<Subject | null> {
+    await this.assertSubjectInScope(id, scope);
+
     try {
       const subject = await prisma.subject.findUnique({
         where: {
@@ -68,10 +89,15 @@ class SubjectService {
   }
 
   // Creates a new subject record.
-  public async createSubject(data: SubjectDataInput): Promise<Subject> {
+  public async createSubject(
+    data: SubjectDataInput,
+    scope: CollegeScope
+  ): Promise<Subject> {
     const { name, abbreviation, subjectCode, type, departmentId, semesterId } =
       data;
 
+    await assertDepartmentInScope(scope, departmentId);
+
     const existingDepartment = await prisma.department.findUnique({
       where: { id: departmentId, isDeleted: false },
     });
@@ -118,8 +144,14 @@ class SubjectService {
   // Updates an existing subject record.
   public async updateSubject(
     id: string,
-    data: Partial<SubjectDataInput & { isDeleted?: boolean }>
+    data: Partial<SubjectDataInput & { isDeleted?: boolean }>,
+    scope: CollegeScope
   ): Promise<Subject> {
+    await this.assertSubjectInScope(id, scope);
+    if (data.departmentId) {
+      await assertDepartmentInScope(scope, data.departmentId);
+    }
+
     try {
       const existingSubject = await prisma.subject.findUnique({
         where: { id: id, isDeleted: false },
@@ -189,7 +221,12 @@ class SubjectService {
   }
 
   // Soft deletes a subject.
-  public async softDeleteSubject(id: string): Promise<Subject> {
+  public async softDeleteSubject(
+    id: string,
+    scope: CollegeScope
+  ): Promise<Subject> {
+    await this.assertSubjectInScope(id, scope);
+
     try {
       const subject = await prisma.subject.update({
         where: { id: id, isDeleted: false },
@@ -208,11 +245,18 @@ class SubjectService {
     }
   }
 
-  // Retrieves subjects by semester ID.
-  public async getSubjectsBySemester(semesterId: string): Promise<Subject[]> {
+  // Retrieves subjects by semester ID, for a semester in the scope.
+  public async getSubjectsBySemester(
+    semesterId: string,
+    scope: CollegeScope
+  ): Promise<Subject[]> {
     try {
       const semester = await prisma.semester.findUnique({
-        where: { id: semesterId, isDeleted: false },
+        where: {
+          id: semesterId,
+          isDeleted: false,
+          department: departmentScopeWhere(scope),
+        },
       });
       if (!semester) {
         throw new AppError(
@@ -243,14 +287,24 @@ class SubjectService {
     }
   }
 
-  // Retrieves subject abbreviations, optionally filtered by department abbreviation.
-  public async getSubjectAbbreviations(deptAbbr?: string): Promise<string[]> {
+  // Retrieves subject abbreviations in the scope, optionally filtered by department abbreviation.
+  public async getSubjectAbbreviations(
+    scope: CollegeScope,
+    deptAbbr?: string
+  ): Promise<string[]> {
     try {
-      let whereClause: Prisma.SubjectWhereInput = { isDeleted: false };
+      let whereClause: Prisma.SubjectWhereInput = {
+        isDeleted: false,
+        department: departmentScopeWhere(scope),
+      };
 
       if (deptAbbr) {
         const department = await prisma.department.findFirst({
-          where: { abbreviation: deptAbbr.toUpperCase(), isDeleted: false },
+          where: {
+            abbreviation: deptAbbr.toUpperCase(),
+            isDeleted: false,
+            ...departmentScopeWhere(scope),
+          },
         });
 
         if (!department) {
@@ -279,13 +333,17 @@ class SubjectService {
 
   // Creates multiple subject records in a single transaction.
   public async batchCreateSubjects(
-    subjectsData: SubjectDataInput[]
+    subjectsData: SubjectDataInput[],
+    scope: CollegeScope
   ): Promise<Subject[]> {
     const results: Subject[] = [];
 
     const departmentIds = Array.from(
       new Set(subjectsData.map((s) => s.departmentId))
     );
+    for (const departmentId of departmentIds) {
+      await assertDepartmentInScope(scope, departmentId);
+    }
     const semesterIds = Array.from(
       new Set(subjectsData.map((s) => s.semesterId))
     );
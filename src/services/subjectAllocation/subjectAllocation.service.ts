@@ -7,6 +7,12 @@
 import { SubjectAllocation, LectureType, Prisma } from '@prisma/client';
 import { prisma } from '../common/prisma.service';
 import AppError from '../../utils/appError';
+import {
+  CollegeScope,
+  assertDepartmentInScope,
+  assertRecordInScope,
+  departmentScopeWhere,
+} from '../college/collegeScope';
 
 interface SubjectAllocationDataInput {
   facultyId: string;
@@ -20,8 +26,23 @@ interface SubjectAllocationDataInput {
 }
 
 class SubjectAllocationService {
-  // Retrieves all active subject allocations.
-  public async getAllSubjectAllocations(): Promise<SubjectAllocation[]> {
+  // Ensures a subject allocation belongs to a department in the scope.
+  private assertAllocationInScope(
+    id: string,
+    scope: CollegeScope
+  ): Promise<void> {
+    return assertRecordInScope(scope, () =>
+      prisma.subjectAllocation.findUnique({
+        where: { id },
+        select: { departmentId: true },
+      })
+    );
+  }
+
+  // Retrieves all active subject allocations in the scope.
+  public async getAllSubjectAllocations(
+    scope: CollegeScope
+  ): Promise<SubjectAllocation[]> {
     try {
       const subjectAllocations = await prisma.subjectAllocation.findMany({
         where: {
@@ -30,7 +51,7 @@ class SubjectAllocationService {
           subject: { isDeleted: false },
           division: { isDeleted: false },
           semester: { isDeleted: false },
-          department: { isDeleted: false },
+          department: { isDeleted: false, ...departmentScopeWhere(scope) },
           academicYear: { isDeleted: false },
         },
         include: {
@@ -54,8 +75,11 @@ class SubjectAllocationService {
 
   // Retrieves a single active subject allocation by its ID.
   public async getSubjectAllocationById(
-    id: string
+    id: string,
+    scope: CollegeScope
   ): Promise<SubjectAllocation | null> {
+    await this.assertAllocationInScope(id, scope);
+
     try {
       const subjectAllocation = await prisma.subjectAllocation.findUnique({
         where: {
@@ -91,7 +115,8 @@ class SubjectAllocationService {
 
   // Creates a new subject allocation record.
   public async createSubjectAllocation(
-    data: SubjectAllocationDataInput
+    data: SubjectAllocationDataInput,
+    scope: CollegeScope
   ): Promise<SubjectAllocation> {
     const {
       facultyId,
@@ -104,6 +129,8 @@ class SubjectAllocationService {
       batch,
     } = data;
 
+    await assertDepartmentInScope(scope, departmentId);
+
     const existingFaculty = await prisma.faculty.findUnique({
       where: { id: facultyId, isDeleted: false },
     });
@@ -189,8 +216,14 @@ class SubjectAllocationService {
   // Updates an existing subject allocation record.
   public async updateSubjectAllocation(
     id: string,
-    data: Partial<SubjectAllocationDataInput & { isDeleted?: boolean }>
+    data: Partial<SubjectAllocationDataInput & { isDeleted?: boolean }>,
+    scope: CollegeScope
   ): Promise<SubjectAllocation> {
+    await this.assertAllocationInScope(id, scope);
+    if (data.departmentId) {
+      await assertDepartmentInScope(scope, data.departmentId);
+    }
+
     try {
       const existingAllocation = await prisma.subjectAllocation.findUnique({
         where: { id: id, isDeleted: false },
@@ -314,8 +347,11 @@ class SubjectAllocationService {
 
   // Soft deletes a subject allocation.
   public async softDeleteSubjectAllocation(
-    id: string
+    id: string,
+    scope: CollegeScope
   ): Promise<SubjectAllocation> {
+    await this.assertAllocationInScope(id, scope);
+
     try {
       const subjectAllocation = await prisma.$transaction(async (tx) => {
         const deletedAllocation = await tx.subjectAllocation.update({
@@ -0,0 +1,429 @@
+/**
+ * @file src/services/upload/columnMapping.ts
+ * @description Header-based column detection for uploaded sheets.
+ * Each sheet type lists its fields with the header names they may appear under, so columns
+ * can be in any order. A saved column mapping profile can name the header of any field
+ * instead. Sheets without any recognised header are read by the original column positions.
+ */
+
+import ExcelJS from 'exceljs';
+import AppError from '../../utils/appError';
+
+export type ColumnMappingUploadType =
+  | 'student-data'
+  | 'faculty-data'
+  | 'subject-data'
+  | 'override-students';
+
+export interface UploadColumn<F extends string = string> {
+  field: F;
+  label: string;
+  description: string;
+  // A sample value, shown in the example row of upload templates.
+  example: string;
+  // Other header names the column is recognised by, besides its label.
+  aliases: readonly string[];
+  // The column the field is read from when the sheet has no recognised header.
+  position: number;
+  required: boolean;
+}
+
+// The header each field is read from, as saved on a column mapping profile.
+export type ColumnMapping = Record<string, string>;
+
+export interface ResolvedColumns<F extends string = string> {
+  // The column number of each field, or null when the sheet has no such column.
+  positions: Record<F, number | null>;
+  // True when no header was recognised and the original column positions were used.
+  byPosition: boolean;
+}
+
+export const HEADER_ROW = 1;
+
+// Reported as a warning on uploads whose columns had to be read by position.
+export const BY_POSITION_WARNING =
+  'No recognised column headers were found, so columns were read by their standard positions.';
+
+export const STUDENT_DATA_COLUMNS = [
+  {
+    field: 'studentName',
+    label: 'Student Name',
+    description: "The student's full name.",
+    example: 'Jane Smith',
+    aliases: ['Name', 'Full Name', 'Name of Student'],
+    position: 2,
+    required: true,
+  },
+  {
+    field: 'enrollmentNumber',
+    label: 'Enrollment Number',
+    description: "The student's unique enrollment number.",
+    example: '210010107001',
+    aliases: [
+      'Enrollment No',
+      'Enrollment',
+      'Enrolment Number',
+      'Enrolment No',
+      'Enrolment',
+      'Enroll No',
+    ],
+    position: 3,
+    required: true,
+  },
+  {
+    field: 'deptAbbreviation',
+    label: 'Department',
+    description: 'The department abbreviation, e.g. CE or IT.',
+    example: 'CE',
+    aliases: ['Dept', 'Branch', 'Department Abbreviation'],
+    position: 4,
+    required: true,
+  },
+  {
+    field: 'semesterNumber',
+    label: 'Semester',
+    description: 'The current semester, from 1 to 8.',
+    example: '5',
+    aliases: ['Sem', 'Semester Number', 'Semester No'],
+    position: 5,
+    required: true,
+  },
+  {
+    field: 'divisionName',
+    label: 'Division',
+    description: 'The division within the semester.',
+    example: 'A',
+    aliases: ['Div', 'Division Name', 'Class'],
+    position: 6,
+    required: true,
+  },
+  {
+    field: 'studentBatch',
+    label: 'Batch',
+    description: 'The lab batch within the division.',
+    example: 'A1',
+    aliases: ['Student Batch', 'Lab Batch'],
+    position: 7,
+    required: true,
+  },
+  {
+    field: 'email',
+    label: 'Email',
+    description:
+      "The student's email address, which identifies them across uploads.",
+    example: 'jane.smith@example.com',
+    aliases: ['Email Address', 'Email ID', 'Mail'],
+    position: 8,
+    required: true,
+  },
+  {
+    field: 'academicYearString',
+    label: 'Academic Year',
+    description: 'An existing academic year, written as YYYY-YYYY.',
+    example: '2024-2025',
+    aliases: ['AY'],
+    position: 9,
+    required: true,
+  },
+  {
+    field: 'intakeYear',
+    label: 'Intake Year',
+    description: 'The four-digit year the student was admitted.',
+    example: '2022',
+    aliases: ['Intake', 'Admission Year', 'Year of Admission'],
+    position: 10,
+    required: true,
+  },
+] as const satisfies readonly UploadColumn[];
+
+export const FACULTY_DATA_COLUMNS = [
+  {
+    field: 'name',
+    label: 'Name',
+    description: "The faculty member's full name.",
+    example: 'John Doe',
+    aliases: ['Faculty Name', 'Full Name'],
+    position: 2,
+    required: true,
+  },
+  {
+    field: 'email',
+    label: 'Email',
+    description:
+      "The faculty member's email address, which identifies them across uploads.",
+    example: 'john.doe@example.com',
+    aliases: ['Email Address', 'Email ID', 'Mail'],
+    position: 3,
+    required: true,
+  },
+  {
+    field: 'facultyAbbreviation',
+    label: 'Abbreviation',
+    description: 'The short name used in timetables and the faculty matrix.',
+    example: 'JD',
+    aliases: ['Faculty Abbreviation', 'Abbr', 'Short Name', 'Initials'],
+    position: 4,
+    required: false,
+  },
+  {
+    field: 'designationString',
+    label: 'Designation',
+    description: 'The designation, e.g. HOD, AsstProf or LabAsst.',
+    example: 'AsstProf',
+    aliases: ['Post', 'Position'],
+    position: 5,
+    required: true,
+  },
+  {
+    field: 'deptInput',
+    label: 'Department',
+    description: 'The department abbreviation or full name.',
+    example: 'CE',
+    aliases: ['Dept', 'Branch'],
+    position: 6,
+    required: true,
+  },
+  {
+    field: 'joiningDate',
+    label: 'Joining Date',
+    description: 'The joining date, written as DD-MM-YYYY.',
+    example: '01-07-2020',
+    aliases: ['Date of Joining', 'DOJ', 'Joined On'],
+    position: 7,
+    required: false,
+  },
+] as const satisfies readonly UploadColumn[];
+
+export const SUBJECT_DATA_COLUMNS = [
+  {
+    field: 'subjectName',
+    label: 'Subject Name',
+    description: "The subject's full name.",
+    example: 'Operating Systems',
+    aliases: ['Subject', 'Name'],
+    position: 2,
+    required: true,
+  },
+  {
+    field: 'subjectAbbreviation',
+    label: 'Abbreviation',
+    description: 'The short name used in timetables and the faculty matrix.',
+    example: 'OS',
+    aliases: ['Subject Abbreviation', 'Abbr', 'Short Name'],
+    position: 3,
+    required: true,
+  },
+  {
+    field: 'subjectCode',
+    label: 'Subject Code',
+    description: "The subject's unique code.",
+    example: '3140702',
+    aliases: ['Code', 'Course Code'],
+    position: 4,
+    required: true,
+  },
+  {
+    field: 'semesterNumberStr',
+    label: 'Semester',
+    description: 'The semester the subject is taught in, from 1 to 8.',
+    example: '4',
+    aliases: ['Sem', 'Semester Number', 'Semester No'],
+    position: 5,
+    required: true,
+  },
+  {
+    field: 'isElectiveStr',
+    label: 'Subject Type',
+    description:
+      'MANDATORY or ELECTIVE; TRUE and FALSE are read as elective or not.',
+    example: 'MANDATORY',
+    aliases: ['Is Elective?', 'Is Elective', 'Elective', 'Type'],
+    position: 6,
+    required: true,
+  },
+  {
+    field: 'deptAbbreviationInput',
+    label: 'Department',
+    description: 'The department abbreviation, e.g. CE or IT.',
+    example: 'CE',
+    aliases: ['Dept', 'Branch', 'Department Abbreviation'],
+    position: 7,
+    required: true,
+  },
+] as const satisfies readonly UploadColumn[];
+
+export const OVERRIDE_STUDENTS_COLUMNS = [
+  {
+    field: 'studentName',
+    label: 'Student Name',
+    description: "The student's full name.",
+    example: 'Jane Smith',
+    aliases: ['Name', 'Full Name', 'Name of Student'],
+    position: 1,
+    required: true,
+  },
+  {
+    field: 'email',
+    label: 'Email',
+    description: "The student's email address.",
+    example: 'jane.smith@example.com',
+    aliases: ['Email Address', 'Email ID', 'Mail'],
+    position: 2,
+    required: true,
+  },
+  {
+    field: 'enrollmentNumber',
+    label: 'Enrollment Number',
+    description:
+      'The enrollment number, which links the student to the master list.',
+    example: '210010107001',
+    aliases: [
+      'Enrollment No',
+      'Enrollment',
+      'Enrolment Number',
+      'Enrolment No',
+      'Enrolment',
+      'Enroll No',
+    ],
+    position: 3,
+    required: false,
+  },
+  {
+    field: 'batch',
+    label: 'Batch',
+    description: 'The lab batch.',
+    example: 'A1',
+    aliases: ['Student Batch', 'Lab Batch'],
+    position: 4,
+    required: false,
+  },
+  {
+    field: 'phoneNumber',
+    label: 'Phone Number',
+    description: "The student's phone number.",
+    example: '9876543210',
+    aliases: ['Phone', 'Mobile', 'Mobile Number', 'Contact Number'],
+    position: 5,
+    required: false,
+  },
+  {
+    field: 'department',
+    label: 'Department',
+    description: 'The department abbreviation.',
+    example: 'CE',
+    aliases: ['Dept', 'Branch'],
+    position: 6,
+    required: false,
+  },
+  {
+    field: 'semester',
+    label: 'Semester',
+    description: 'The semester.',
+    example: '5',
+    aliases: ['Sem', 'Semester Number', 'Semester No'],
+    position: 7,
+    required: false,
+  },
+] as const satisfies readonly UploadColumn[];
+
+export const UPLOAD_COLUMNS: Record<
+  ColumnMappingUploadType,
+  readonly UploadColumn[]
+> = {
+  'student-data': STUDENT_DATA_COLUMNS,
+  'faculty-data': FACULTY_DATA_COLUMNS,
+  'subject-data': SUBJECT_DATA_COLUMNS,
+  'override-students': OVERRIDE_STUDENTS_COLUMNS,
+};
+
+// Compares headers regardless of case, spacing and punctuation, so "Enrollment No." matches "enrollment no".
+const normalizeHeader = (header: string): string =>
+  header.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+// Reads the header row into a map of normalized header text to column number.
+const readHeaders = (worksheet: ExcelJS.Worksheet): Map<string, number> => {
+  const headers = new Map<string, number>();
+  worksheet.getRow(HEADER_ROW).eachCell((cell, columnNumber) => {
+    const header = normalizeHeader(cell.text ?? '');
+    if (header && !headers.has(header)) {
+      headers.set(header, columnNumber);
+    }
+  });
+  return headers;
+};
+
+/**
+ * Finds the column of each field from the sheet's header row.
+ * @param worksheet - The uploaded worksheet, with its headers in the first row.
+ * @param columns - The fields of the sheet type.
+ * @param mapping - The headers of a column mapping profile, which take precedence over the aliases.
+ * @throws AppError when a required column, or a column named by the profile, is missing.
+ */
+export const resolveColumns = <F extends string>(
+  worksheet: ExcelJS.Worksheet,
+  columns: readonly UploadColumn<F>[],
+  mapping?: ColumnMapping
+): ResolvedColumns<F> => {
+  const headers = readHeaders(worksheet);
+  const claimed = new Set<number>();
+  const positions = {} as Record<F, number | null>;
+  const missing: string[] = [];
+
+  // Profile headers are claimed first, so aliases of other fields cannot take their column.
+  const ordered = [...columns].sort(
+    (a, b) => Number(!mapping?.[a.field]) - Number(!mapping?.[b.field])
+  );
+
+  for (const column of ordered) {
+    const mappedHeader = mapping?.[column.field];
+    const candidates = mappedHeader
+      ? [mappedHeader]
+      : [column.label, ...column.aliases];
+    const position = candidates
+      .map((candidate) => headers.get(normalizeHeader(candidate)))
+      .find(
+        (columnNumber) =>
+          columnNumber !== undefined && !claimed.has(columnNumber)
+      );
+
+    if (position !== undefined) {
+      claimed.add(position);
+      positions[column.field] = position;
+      continue;
+    }
+
+    positions[column.field] = null;
+    if (mappedHeader) {
+      missing.push(`'${mappedHeader}' (mapped to ${column.label})`);
+    } else if (column.required) {
+      missing.push(
+        `${column.label} (accepted headers: ${candidates.join(', ')})`
+      );
+    }
+  }
+
+  // Sheets made before header detection have no recognisable headers at all.
+  if (!claimed.size && !mapping) {
+    return {
+      positions: Object.fromEntries(
+        columns.map((column) => [column.field, column.position])
+      ) as Record<F, number>,
+      byPosition: true,
+    };
+  }
+
+  if (missing.length) {
+    throw new AppError(
+      `The uploaded sheet is missing required columns: ${missing.join('; ')}.`,
+      400
+    );
+  }
+
+  return { positions, byPosition: false };
+};
+
+// Returns a row's cell for a resolved column, or null when the sheet has no such column.
+export const getMappedCell = (
+  row: ExcelJS.Row,
+  column: number | null
+): ExcelJS.Cell | null => (column === null ? null : row.getCell(column));
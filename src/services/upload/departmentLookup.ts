@@ -0,0 +1,90 @@
+/**
+ * @file src/services/upload/departmentLookup.ts
+ * @description Resolves the departments named in uploaded sheets.
+ * A sheet may name a department by its abbreviation, its full name or any of its aliases,
+ * regardless of case, spacing and punctuation. Departments are never created by uploads;
+ * one that matches nothing is rejected so it can be added, or aliased, first.
+ */
+
+import { Department } from '@prisma/client';
+import AppError from '../../utils/appError';
+import { UploadClient } from './uploadDiff';
+import {
+  CollegeScope,
+  departmentScopeWhere,
+  isDepartmentInScope,
+} from '../college/collegeScope';
+
+export type DepartmentLookup = (input: string) => Promise<Department>;
+
+// Compares department names regardless of case, spacing and punctuation, so "AI & DS" matches "AIDS".
+export const normalizeDepartmentName = (name: string): string =>
+  name.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+/**
+ * Creates a lookup of the active departments and their aliases, loaded once per upload.
+ * @param db - The client of the upload, so departments are read within its transaction.
+ * @param scope - The college the upload is for; departments of other colleges are not matched.
+ * @throws AppError from the lookup when a name matches no department, or more than one, and
+ * 403 when it names a department outside the uploader's own.
+ */
+export const createDepartmentLookup = (
+  db: UploadClient,
+  scope: CollegeScope
+): DepartmentLookup => {
+  let index: Promise<Map<string, Department[]>> | null = null;
+
+  const loadIndex = async (): Promise<Map<string, Department[]>> => {
+    const departments = await db.department.findMany({
+      where: {
+        isDeleted: false,
+        college: { isDeleted: false },
+        // Matches every department of the college, so one outside the uploader's own is
+        // refused rather than reported missing.
+        ...departmentScopeWhere({ ...scope, departmentIds: null }),
+      },
+      include: { aliases: { where: { isDeleted: false } } },
+    });
+
+    const byName = new Map<string, Department[]>();
+    for (const { aliases, ...department } of departments) {
+      const names = [
+        department.abbreviation,
+        department.name,
+        ...aliases.map((a) => a.alias),
+      ];
+      for (const key of new Set(names.map(normalizeDepartmentName))) {
+        if (!key) continue;
+        byName.set(key, [...(byName.get(key) ?? []), department]);
+      }
+    }
+    return byName;
+  };
+
+  return async (input: string): Promise<Department> => {
+    index ??= loadIndex();
+    const matches = (await index).get(normalizeDepartmentName(input)) ?? [];
+
+    if (!matches.length) {
+      throw new AppError(
+        `Department '${input}' not found. Please create it, or add '${input}' as an alias of an existing department, via the Department management API.`,
+        400
+      );
+    }
+    if (matches.length > 1) {
+      throw new AppError(
+        `Department '${input}' is ambiguous: it matches ${matches
+          .map((d) => `${d.name} (${d.abbreviation})`)
+          .join(', ')}.`,
+        400
+      );
+    }
+    if (!isDepartmentInScope(scope, matches[0])) {
+      throw new AppError(
+        `You do not have access to department '${input}'.`,
+        403
+      );
+    }
+    return matches[0];
+  };
+};
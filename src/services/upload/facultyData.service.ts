@@ -1,57 +1,38 @@
 /**
  * @file src/services/upload/facultyData.service.ts
  * @description Service layer for handling faculty data upload and processing from Excel files.
- * It manages department and faculty record creation/updates, including HOD assignments.
+ * It manages faculty record creation/updates, including HOD assignments of departments.
  */
 
 import ExcelJS from 'exceljs';
-import { Designation, College, Department } from '@prisma/client';
-import { prisma } from '../common/prisma.service';
+import { Designation } from '@prisma/client';
 import AppError from '../../utils/appError';
+import { loadWorkbook } from '../../utils/spreadsheet';
 import { facultyExcelRowSchema } from '../../utils/validators/upload.validation';
-
-const COLLEGE_ID = 'LDRP-ITR';
-const collegeCache = new Map<string, College>();
-const departmentCache = new Map<string, Department>();
-
-const DEPARTMENT_MAPPING: Record<
-  string,
-  { name: string; abbreviation: string }
-> = {
-  CE: { name: 'Computer Engineering', abbreviation: 'CE' },
-  IT: { name: 'Information Technology', abbreviation: 'IT' },
-  EC: { name: 'Electronics & Communication Engineering', abbreviation: 'EC' },
-  MECH: { name: 'Mechanical Engineering', abbreviation: 'MECH' },
-  CIVIL: { name: 'Civil Engineering', abbreviation: 'CIVIL' },
-  AUTO: { name: 'Automobile Engineering', abbreviation: 'AUTO' },
-  EE: { name: 'Electrical Engineering', abbreviation: 'EE' },
-};
+import {
+  UploadClient,
+  UploadDiffRecorder,
+  UploadFileInfo,
+  runUpload,
+  startUploadRow,
+} from './uploadDiff';
+import {
+  BY_POSITION_WARNING,
+  ColumnMapping,
+  FACULTY_DATA_COLUMNS,
+  HEADER_ROW,
+  getMappedCell,
+  resolveColumns,
+} from './columnMapping';
+import { createDepartmentLookup } from './departmentLookup';
+import { CollegeScope } from '../college/collegeScope';
 
 class FacultyDataUploadService {
-  // Ensures the College record exists in the database and caches it.
-  private async ensureCollege(): Promise<College> {
-    let college = collegeCache.get(COLLEGE_ID);
-    if (!college) {
-      college = await prisma.college.upsert({
-        where: { id: COLLEGE_ID, isDeleted: false },
-        create: {
-          id: COLLEGE_ID,
-          name: 'LDRP Institute of Technology and Research',
-          websiteUrl: 'https://ldrp.ac.in',
-          address: 'Sector 15, Gandhinagar, Gujarat',
-          contactNumber: '+91-79-23241492',
-          isDeleted: false,
-        },
-        update: {},
-      });
-      collegeCache.set(COLLEGE_ID, college);
-    }
-    return college;
-  }
-
   // Extracts the string, number, or Date value from an ExcelJS cell.
-  private getCellValue(cell: ExcelJS.Cell): string | number | Date | null {
-    const value = cell.value;
+  private getCellValue(
+    cell: ExcelJS.Cell | null
+  ): string | number | Date | null {
+    const value = cell?.value;
 
     if (value === null || value === undefined) {
       return null;
@@ -113,71 +94,30 @@ class FacultyDataUploadService {
     return null;
   }
 
-  // Upserts (creates or updates) a Department record, using a canonical mapping.
-  private async upsertDepartment(
-    deptInput: string,
-    collegeId: string
-  ): Promise<Department> {
-    let department = departmentCache.get(deptInput);
-    let canonicalDept: { name: string; abbreviation: string } | undefined;
-
-    if (department) return department;
-
-    canonicalDept = DEPARTMENT_MAPPING[deptInput.toUpperCase()];
-
-    if (!canonicalDept) {
-      for (const key in DEPARTMENT_MAPPING) {
-        if (
-          DEPARTMENT_MAPPING[key].name.toLowerCase() === deptInput.toLowerCase()
-        ) {
-          canonicalDept = DEPARTMENT_MAPPING[key];
-          break;
-        }
-      }
-    }
-
-    if (!canonicalDept) {
-      console.warn(
-        `Department '${deptInput}' not found in predefined mapping. Using input as canonical.`
-      );
-      canonicalDept = { name: deptInput, abbreviation: deptInput };
-    }
-
-    department = await prisma.department.upsert({
-      where: {
-        name_collegeId: {
-          name: canonicalDept.name,
-          collegeId: collegeId,
-        },
-        isDeleted: false,
-      },
-      create: {
-        name: canonicalDept.name,
-        abbreviation: canonicalDept.abbreviation,
-        hodName: `HOD of ${canonicalDept.name}`,
-        hodEmail: `hod.${canonicalDept.abbreviation.toLowerCase()}@ldrp.ac.in`,
-        collegeId: collegeId,
-        isDeleted: false,
-      },
-      update: {
-        name: canonicalDept.name,
-        abbreviation: canonicalDept.abbreviation,
-      },
-    });
-
-    if (!department) {
-      throw new AppError(
-        `Department '${deptInput}' could not be created or found.`,
-        500
-      );
-    }
-
-    departmentCache.set(deptInput, department);
-    return department;
+  // Processes an Excel file containing faculty data, or previews it when dryRun is set.
+  public async processFacultyData(
+    fileBuffer: Buffer,
+    scope: CollegeScope,
+    dryRun = false,
+    file?: UploadFileInfo,
+    columnMapping?: ColumnMapping
+  ) {
+    return runUpload(
+      dryRun,
+      (db, recorder) =>
+        this.importFacultyData(fileBuffer, scope, db, recorder, columnMapping),
+      file && { ...file, uploadType: 'faculty-data', fileBuffer }
+    );
   }
 
-  // Processes an Excel file containing faculty data.
-  public async processFacultyData(fileBuffer: Buffer): Promise<{
+  // Imports the faculties of an Excel file through the given client.
+  private async importFacultyData(
+    fileBuffer: Buffer,
+    scope: CollegeScope,
+    db: UploadClient,
+    recorder: UploadDiffRecorder,
+    columnMapping?: ColumnMapping
+  ): Promise<{
     message: string;
     rowsAffected: number;
   }> {
@@ -185,42 +125,47 @@ class FacultyDataUploadService {
     let updatedRows = 0;
     let _unchangedRows = 0;
     let _skippedRows = 0;
-    const skippedRowsDetails: string[] = [];
 
     try {
-      const workbook = new ExcelJS.Workbook();
-      await workbook.xlsx.load(fileBuffer as any);
+      const workbook = await loadWorkbook(fileBuffer);
       const worksheet = workbook.getWorksheet(1);
 
       if (!worksheet) {
         throw new AppError(
-          'Invalid worksheet: Worksheet not found in the Excel file.',
+          'Invalid worksheet: Worksheet not found in the uploaded file.',
           400
         );
       }
 
-      collegeCache.clear();
-      departmentCache.clear();
+      const { positions: columns, byPosition } = resolveColumns(
+        worksheet,
+        FACULTY_DATA_COLUMNS,
+        columnMapping
+      );
+      if (byPosition) {
+        recorder.warn(HEADER_ROW, BY_POSITION_WARNING);
+      }
 
-      const college = await this.ensureCollege();
+      const findDepartment = createDepartmentLookup(db, scope);
 
+      const rowsTotal = worksheet.rowCount - 1;
       for (let rowNumber = 2; rowNumber <= worksheet.rowCount; rowNumber++) {
+        recorder.reportProgress(rowNumber - 2, rowsTotal);
         const row = worksheet.getRow(rowNumber);
 
+        const cellValue = (column: number | null) =>
+          this.getCellValue(getMappedCell(row, column));
+
         const rawData = {
-          name: this.getCellValue(row.getCell(2))?.toString()?.trim() || '',
+          name: cellValue(columns.name)?.toString()?.trim() || '',
           email:
-            this.getCellValue(row.getCell(3))
-              ?.toString()
-              ?.trim()
-              ?.toLowerCase() || '',
+            cellValue(columns.email)?.toString()?.trim()?.toLowerCase() || '',
           facultyAbbreviation:
-            this.getCellValue(row.getCell(4))?.toString()?.trim() || null,
+            cellValue(columns.facultyAbbreviation)?.toString()?.trim() || null,
           designationString:
-            this.getCellValue(row.getCell(5))?.toString()?.trim() || '',
-          deptInput:
-            this.getCellValue(row.getCell(6))?.toString()?.trim() || '',
-          joiningDate: this.getCellValue(row.getCell(7)),
+            cellValue(columns.designationString)?.toString()?.trim() || '',
+          deptInput: cellValue(columns.deptInput)?.toString()?.trim() || '',
+          joiningDate: cellValue(columns.joiningDate),
         };
 
         const validationResult = facultyExcelRowSchema.safeParse(rawData);
@@ -231,7 +176,7 @@ class FacultyDataUploadService {
             .join(', ');
           const message = `Row ${rowNumber}: Skipping due to validation errors: ${errors}. Faculty Name: '${rawData.name}', Email: '${rawData.email}'.`;
           console.warn(message);
-          skippedRowsDetails.push(message);
+          recorder.skip(rowNumber, message);
           _skippedRows++;
           continue;
         }
@@ -276,13 +221,14 @@ class FacultyDataUploadService {
           default:
             const message = `Row ${rowNumber}: Unknown designation '${designationString}' for faculty '${name}'. Defaulting to AsstProf.`;
             console.warn(message);
-            skippedRowsDetails.push(message);
+            recorder.warn(rowNumber, message);
             facultyDesignation = Designation.AsstProf;
             break;
         }
 
+        const savepoint = await startUploadRow(db, recorder);
         try {
-          const department = await this.upsertDepartment(deptInput, college.id);
+          const department = await findDepartment(deptInput);
 
           let actualJoiningDate: Date | null = null;
           if (rawJoiningDateValue instanceof Date) {
@@ -297,7 +243,7 @@ class FacultyDataUploadService {
             } else {
               const message = `Row ${rowNumber}: Invalid Joining Date string format (Column G): '${rawJoiningDateValue}'. Expected DD-MM-YYYY or DD/MM/YYYY if not a standard date cell.`;
               console.warn(message);
-              skippedRowsDetails.push(message);
+              recorder.skip(rowNumber, message);
               _skippedRows++;
               continue;
             }
@@ -313,7 +259,7 @@ class FacultyDataUploadService {
             departmentId: department.id,
           };
 
-          const existingFaculty = await prisma.faculty.findUnique({
+          const existingFaculty = await db.faculty.findUnique({
             where: { email: newFacultyData.email, isDeleted: false },
             select: {
               id: true,
@@ -366,8 +312,16 @@ class FacultyDataUploadService {
               existingNormalizedData.departmentId !==
               newNormalizedData.departmentId;
 
+            recorder.track(
+              'faculty',
+              email,
+              existingNormalizedData,
+              newNormalizedData,
+              rowNumber,
+              { id: existingFaculty.id, previous: existingFaculty }
+            );
             if (isChanged) {
-              await prisma.faculty.update({
+              await db.faculty.update({
                 where: { id: existingFaculty.id },
                 data: {
                   name: newFacultyData.name,
@@ -385,7 +339,7 @@ class FacultyDataUploadService {
               _unchangedRows++;
             }
           } else {
-            await prisma.faculty.create({
+            const createdFaculty = await db.faculty.create({
               data: {
                 name: newFacultyData.name,
                 email: newFacultyData.email,
@@ -399,13 +353,16 @@ class FacultyDataUploadService {
                 isDeleted: false,
               },
             });
+            recorder.track('faculty', email, null, newFacultyData, rowNumber, {
+              id: createdFaculty.id,
+            });
             addedRows++;
           }
 
           if (facultyDesignation === Designation.HOD) {
-            const currentDepartment = await prisma.department.findUnique({
+            const currentDepartment = await db.department.findUnique({
               where: { id: department.id, isDeleted: false },
-              select: { hodName: true, hodEmail: true },
+              select: { id: true, hodName: true, hodEmail: true },
             });
 
             if (
@@ -413,25 +370,39 @@ class FacultyDataUploadService {
               (currentDepartment.hodName !== newFacultyData.name ||
                 currentDepartment.hodEmail !== newFacultyData.email)
             ) {
-              await prisma.$transaction(async (tx) => {
-                await tx.department.update({
-                  where: { id: department.id },
-                  data: {
-                    hodName: newFacultyData.name,
-                    hodEmail: newFacultyData.email,
-                  },
-                });
+              await db.department.update({
+                where: { id: department.id },
+                data: {
+                  hodName: newFacultyData.name,
+                  hodEmail: newFacultyData.email,
+                },
               });
+              recorder.track(
+                'department',
+                department.abbreviation,
+                currentDepartment,
+                {
+                  hodName: newFacultyData.name,
+                  hodEmail: newFacultyData.email,
+                },
+                rowNumber,
+                { id: currentDepartment.id }
+              );
             }
           }
         } catch (innerError: any) {
+          await savepoint.rollback();
           const message = `Row ${rowNumber}: Error processing data for Faculty '${name}', Email '${email}': ${innerError.message || 'Unknown error'}.`;
           console.error(message, innerError);
-          skippedRowsDetails.push(message);
+          recorder.skip(rowNumber, message);
           _skippedRows++;
+        } finally {
+          await savepoint.release();
         }
       }
 
+      recorder.reportProgress(rowsTotal, rowsTotal);
+
       const rowsAffected = addedRows + updatedRows;
       console.log('Faculty rowsAffected:', rowsAffected);
 
@@ -448,9 +419,6 @@ class FacultyDataUploadService {
         error.message || 'Error processing faculty data.',
         500
       );
-    } finally {
-      collegeCache.clear();
-      departmentCache.clear();
     }
   }
 }
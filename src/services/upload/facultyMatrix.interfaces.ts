@@ -0,0 +1,58 @@
+/**
+ * @file src/services/upload/facultyMatrix.interfaces.ts
+ * @description TypeScript interfaces for parsed faculty matrix data.
+ * Shared by the faculty matrix parser and the upload service that persists its output.
+ */
+
+export interface FacultyAssignment {
+  designated_faculty: string;
+}
+
+export interface SubjectAllocationData {
+  lectures?: {
+    designated_faculty?: string;
+    [batch: string]: FacultyAssignment | string | undefined;
+  };
+  labs?: {
+    [batch: string]: FacultyAssignment;
+  };
+}
+
+export interface DivisionData {
+  [subjectAbbreviation: string]: SubjectAllocationData;
+}
+
+export interface SemesterData {
+  [divisionName: string]: DivisionData;
+}
+
+export interface DepartmentData {
+  [semesterNumber: string]: SemesterData;
+}
+
+export interface CollegeData {
+  [departmentName: string]: DepartmentData;
+}
+
+export interface ProcessedData {
+  [collegeName: string]: CollegeData;
+}
+
+export interface TimetableEntry {
+  Subject: string;
+  Type: string;
+  Batch: string;
+  Day: string;
+  Time_Slot: number | string;
+  Faculty: string;
+}
+
+export interface FacultyMatrixParseResult {
+  results: ProcessedData;
+  division_timetables: Record<string, TimetableEntry[]>;
+  status: {
+    success: boolean;
+    message: string;
+    errors: string[];
+  };
+}
@@ -1,85 +1,34 @@
 /**
  * @file src/services/upload/facultyMatrix.service.ts
  * @description Service layer for handling faculty matrix upload and processing.
- * It interacts with an external Flask server for data parsing and manages
- * the creation/updating of SubjectAllocation records in the database.
+ * It parses the matrix workbook in-process and manages the creation/updating
+ * of SubjectAllocation records in the database.
  */
 
-import FormData from 'form-data';
-import fetch from 'node-fetch';
 import {
   SemesterTypeEnum,
-  College,
-  Department,
   AcademicYear,
   Semester,
   Division,
   Subject,
   Faculty,
 } from '@prisma/client';
-import { prisma } from '../common/prisma.service';
+import crypto from 'crypto';
 import AppError from '../../utils/appError';
-
-const FLASK_SERVER =
-  process.env.NODE_ENV === 'development'
-    ? process.env.FLASK_DEV_SERVER
-    : process.env.FLASK_PROD_SERVER;
-const COLLEGE_ID = 'LDRP-ITR';
-
-interface FacultyAssignment {
-  designated_faculty: string;
-}
-
-interface SubjectAllocationData {
-  lectures?: {
-    designated_faculty?: string;
-    [batch: string]: FacultyAssignment | string | undefined;
-  };
-  labs?: {
-    [batch: string]: FacultyAssignment;
-  };
-}
-
-interface DivisionData {
-  [subjectAbbreviation: string]: SubjectAllocationData;
-}
-
-interface SemesterData {
-  [divisionName: string]: DivisionData;
-}
-
-interface DepartmentData {
-  [semesterNumber: string]: SemesterData;
-}
-
-interface CollegeData {
-  [departmentName: string]: DepartmentData;
-}
-
-interface ProcessedData {
-  [collegeName: string]: CollegeData;
-}
-
-interface TimetableEntry {
-  Subject: string;
-  Type: string;
-  Batch: string;
-  Day: string;
-  Time_Slot: number | string;
-  Faculty: string;
-}
-
-interface FlaskResponse {
-  results: ProcessedData;
-  division_timetables?: Record<string, TimetableEntry[]>;
-  status: {
-    success: boolean;
-    message: string;
-    errors?: string[];
-  };
-}
+import { facultyMatrixParserService } from './facultyMatrixParser.service';
+import { FacultyAssignment } from './facultyMatrix.interfaces';
+import {
+  UploadClient,
+  UploadDiffRecorder,
+  UploadFileInfo,
+  runUpload,
+  startUploadRow,
+} from './uploadDiff';
+import { createDepartmentLookup } from './departmentLookup';
+import { CollegeScope } from '../college/collegeScope';
 
 interface AllocationBatchItem {
+  id?: string;
   departmentId: string;
   facultyId: string;
   subjectId: string;
@@ -91,78 +40,23 @@ interface AllocationBatchItem {
   isDeleted: boolean;
 }
 
-const DEPARTMENT_MAPPING: Record<
-  string,
-  { name: string; abbreviation: string }
-> = {
-  CE: { name: 'Computer Engineering', abbreviation: 'CE' },
-  IT: { name: 'Information Technology', abbreviation: 'IT' },
-  EC: { name: 'Electronics & Communication Engineering', abbreviation: 'EC' },
-  MECH: { name: 'Mechanical Engineering', abbreviation: 'MECH' },
-  CIVIL: { name: 'Civil Engineering', abbreviation: 'CIVIL' },
-  AUTO: { name: 'Automobile Engineering', abbreviation: 'AUTO' },
-  EE: { name: 'Electrical Engineering', abbreviation: 'EE' },
-};
-
 class FacultyMatrixUploadService {
-  private collegeCache = new Map<string, College>();
-  private departmentCache = new Map<string, Department>();
   private academicYearCache = new Map<string, AcademicYear>();
   private semesterCache = new Map<string, Semester>();
   private divisionCache = new Map<string, Division>();
   private subjectCache = new Map<string, Subject>();
   private facultyCache = new Map<string, Faculty>();
 
-  // Fetches data from a given URL with retry logic.
-  private async fetchWithRetry(
-    url: string,
-    options: any,
-    maxRetries = 3
-  ): Promise<any> {
-    if (!url) {
-      throw new AppError('Flask server URL is not defined.', 500);
-    }
-
-    for (let i = 0; i < maxRetries; i++) {
-      try {
-        const response = await fetch(url, options);
-        const text = await response.text();
-
-        if (!response.ok) {
-          try {
-            const errorJson = JSON.parse(text);
-            throw new AppError(
-              `Flask server error: ${errorJson.message || JSON.stringify(errorJson)}`,
-              response.status || 500
-            );
-          } catch {
-            throw new AppError(
-              `Flask server error: ${text || response.statusText}`,
-              response.status || 500
-            );
-          }
-        }
-
-        return JSON.parse(text);
-      } catch (error: unknown) {
-        const apiError = error as AppError;
-        console.error(`Fetch attempt ${i + 1} failed:`, apiError.message);
-        if (i === maxRetries - 1) {
-          throw apiError;
-        }
-        await new Promise((resolve) => setTimeout(resolve, 1000 * (i + 1)));
-      }
-    }
-    throw new AppError('Failed to fetch data after multiple retries.', 500);
-  }
-
   // Finds the AcademicYear record in the database and caches it.
-  private async findAcademicYear(yearString: string): Promise<AcademicYear> {
+  private async findAcademicYear(
+    yearString: string,
+    db: UploadClient
+  ): Promise<AcademicYear> {
     let academicYear: AcademicYear | null | undefined =
       this.academicYearCache.get(yearString);
     if (academicYear) return academicYear;
 
-    academicYear = await prisma.academicYear.findFirst({
+    academicYear = await db.academicYear.findFirst({
       where: { yearString: yearString, isDeleted: false },
     });
 
@@ -177,89 +71,31 @@ class FacultyMatrixUploadService {
     return academicYear;
   }
 
-  // Ensures the College record exists in the database and caches it.
-  private async ensureCollege(): Promise<College> {
-    let college = this.collegeCache.get(COLLEGE_ID);
-    if (!college) {
-      college = await prisma.college.upsert({
-        where: { id: COLLEGE_ID, isDeleted: false },
-        create: {
-          id: COLLEGE_ID,
-          name: 'LDRP Institute of Technology and Research',
-          websiteUrl: 'https://ldrp.ac.in',
-          address: 'Sector 15, Gandhinagar, Gujarat',
-          contactNumber: '+91-79-23241492',
-          isDeleted: false,
-        },
-        update: {},
-      });
-      this.collegeCache.set(COLLEGE_ID, college);
-    }
-    return college;
-  }
-
-  // Finds a Department record by its abbreviation or name within the college.
-  private async findDepartment(
-    deptAbbreviationInput: string,
-    collegeId: string
-  ): Promise<Department> {
-    let department: Department | null | undefined = this.departmentCache.get(
-      deptAbbreviationInput
-    );
-    if (department) return department;
-
-    let canonicalDept: { name: string; abbreviation: string } | undefined;
-
-    canonicalDept = DEPARTMENT_MAPPING[deptAbbreviationInput.toUpperCase()];
-    if (!canonicalDept) {
-      for (const key in DEPARTMENT_MAPPING) {
-        if (
-          DEPARTMENT_MAPPING[key].name.toLowerCase() ===
-          deptAbbreviationInput.toLowerCase()
-        ) {
-          canonicalDept = DEPARTMENT_MAPPING[key];
-          break;
-        }
-      }
-    }
-
-    const deptNameToSearch = canonicalDept
-      ? canonicalDept.name
-      : deptAbbreviationInput;
-
-    department = await prisma.department.findFirst({
-      where: {
-        OR: [
-          { abbreviation: deptAbbreviationInput, isDeleted: false },
-          { name: deptNameToSearch, isDeleted: false },
-        ],
-        collegeId: collegeId,
-      },
-    });
-
-    if (!department) {
-      throw new AppError(
-        `Department '${deptAbbreviationInput}' not found for College '${collegeId}'. Please ensure the department exists and is not soft-deleted.`,
-        400
-      );
-    }
-
-    this.departmentCache.set(deptAbbreviationInput, department);
-    return department;
-  }
-
   // Upserts a Semester record.
   private async upsertSemester(
     departmentId: string,
     semesterNumber: number,
     academicYearId: string,
-    semesterType: SemesterTypeEnum
+    semesterType: SemesterTypeEnum,
+    db: UploadClient,
+    recorder: UploadDiffRecorder
   ): Promise<Semester> {
     const semesterKey = `${departmentId}_${semesterNumber}_${academicYearId}_${semesterType}`;
     let semester = this.semesterCache.get(semesterKey);
     if (semester) return semester;
 
-    semester = await prisma.semester.upsert({
+    const existing = await db.semester.findUnique({
+      where: {
+        departmentId_semesterNumber_academicYearId_semesterType: {
+          departmentId: departmentId,
+          semesterNumber: semesterNumber,
+          academicYearId: academicYearId,
+          semesterType: semesterType,
+        },
+      },
+    });
+
+    semester = await db.semester.upsert({
       where: {
         departmentId_semesterNumber_academicYearId_semesterType: {
           departmentId: departmentId,
@@ -279,6 +115,14 @@ class FacultyMatrixUploadService {
         semesterType: semesterType,
       },
     });
+    recorder.track(
+      'semester',
+      semesterKey,
+      existing,
+      { semesterType: semester.semesterType },
+      null,
+      { id: semester.id }
+    );
     this.semesterCache.set(semesterKey, semester);
     return semester;
   }
@@ -287,13 +131,25 @@ class FacultyMatrixUploadService {
   private async upsertDivision(
     departmentId: string,
     divisionName: string,
-    semesterId: string
+    semesterId: string,
+    db: UploadClient,
+    recorder: UploadDiffRecorder
   ): Promise<Division> {
     const divisionKey = `${departmentId}_${divisionName}_${semesterId}`;
     let division = this.divisionCache.get(divisionKey);
     if (division) return division;
 
-    division = await prisma.division.upsert({
+    const existing = await db.division.findUnique({
+      where: {
+        departmentId_divisionName_semesterId: {
+          departmentId: departmentId,
+          divisionName: divisionName,
+          semesterId: semesterId,
+        },
+      },
+    });
+
+    division = await db.division.upsert({
       where: {
         departmentId_divisionName_semesterId: {
           departmentId: departmentId,
@@ -310,6 +166,14 @@ class FacultyMatrixUploadService {
       },
       update: {},
     });
+    recorder.track(
+      'division',
+      divisionKey,
+      existing,
+      { divisionName: division.divisionName },
+      null,
+      { id: division.id }
+    );
     this.divisionCache.set(divisionKey, division);
     return division;
   }
@@ -317,13 +181,14 @@ class FacultyMatrixUploadService {
   // Finds a Subject record by departmentId and abbreviation.
   private async findSubject(
     departmentId: string,
-    subjectAbbreviation: string
+    subjectAbbreviation: string,
+    db: UploadClient
   ): Promise<Subject> {
     const subjectKey = `${departmentId}_${subjectAbbreviation}`;
     let subject: Subject | null | undefined = this.subjectCache.get(subjectKey);
     if (subject) return subject;
 
-    subject = await prisma.subject.findFirst({
+    subject = await db.subject.findFirst({
       where: {
         departmentId: departmentId,
         abbreviation: subjectAbbreviation,
@@ -345,13 +210,14 @@ class FacultyMatrixUploadService {
   // Finds a Faculty record by departmentId and abbreviation.
   private async findFaculty(
     departmentId: string,
-    facultyAbbreviation: string
+    facultyAbbreviation: string,
+    db: UploadClient
   ): Promise<Faculty> {
     const facultyKey = `${departmentId}_${facultyAbbreviation}`;
     let faculty: Faculty | null | undefined = this.facultyCache.get(facultyKey);
     if (faculty) return faculty;
 
-    faculty = await prisma.faculty.findFirst({
+    faculty = await db.faculty.findFirst({
       where: {
         departmentId: departmentId,
         abbreviation: facultyAbbreviation,
@@ -370,12 +236,71 @@ class FacultyMatrixUploadService {
     return faculty;
   }
 
-  // Processes the faculty matrix Excel file.
+  // Records whether a queued allocation is new or already exists.
+  // New allocations get their ID up front, as createMany does not return the IDs it inserts.
+  private async trackAllocation(
+    allocation: AllocationBatchItem,
+    label: string,
+    db: UploadClient,
+    recorder: UploadDiffRecorder
+  ): Promise<void> {
+    const existing = await db.subjectAllocation.findUnique({
+      where: {
+        facultyId_subjectId_divisionId_semesterId_lectureType_batch_academicYearId:
+          {
+            facultyId: allocation.facultyId,
+            subjectId: allocation.subjectId,
+            divisionId: allocation.divisionId,
+            semesterId: allocation.semesterId,
+            lectureType: allocation.lectureType,
+            batch: allocation.batch,
+            academicYearId: allocation.academicYearId,
+          },
+      },
+      select: { id: true },
+    });
+    const id = existing?.id ?? crypto.randomUUID();
+    if (!existing) {
+      allocation.id = id;
+    }
+    recorder.track('subjectAllocation', label, existing, {}, null, { id });
+  }
+
+  // Processes the faculty matrix Excel file, or previews it when dryRun is set.
   public async processFacultyMatrix(
     fileBuffer: Buffer,
     academicYearString: string,
     semesterType: SemesterTypeEnum,
-    deptAbbreviation: string
+    deptAbbreviation: string,
+    scope: CollegeScope,
+    dryRun = false,
+    file?: UploadFileInfo
+  ) {
+    return runUpload(
+      dryRun,
+      (db, recorder) =>
+        this.importFacultyMatrix(
+          fileBuffer,
+          academicYearString,
+          semesterType,
+          deptAbbreviation,
+          scope,
+          db,
+          recorder
+        ),
+      file && { ...file, uploadType: 'faculty-matrix', fileBuffer }
+    );
+  }
+
+  // Imports the allocations and timetables of a faculty matrix through the given client.
+  private async importFacultyMatrix(
+    fileBuffer: Buffer,
+    academicYearString: string,
+    semesterType: SemesterTypeEnum,
+    deptAbbreviation: string,
+    scope: CollegeScope,
+    db: UploadClient,
+    recorder: UploadDiffRecorder
   ): Promise<{
     message: string;
     rowsAffected: number;
@@ -383,9 +308,9 @@ class FacultyMatrixUploadService {
     missingSubjects: string[];
     totalRowsSkippedDueToMissingEntities: number;
     skippedRowsDetails: string[];
-    flaskWarnings: string[];
-    flaskErrors: string[];
-    flaskSuccess: boolean;
+    parseWarnings: string[];
+    parseErrors: string[];
+    parseSuccess: boolean;
   }> {
     const batchSize = 500;
     let allocationBatch: AllocationBatchItem[] = [];
@@ -394,77 +319,58 @@ class FacultyMatrixUploadService {
     const skippedRowsDetails: string[] = [];
     const missingFaculties = new Set<string>();
     const missingSubjects = new Set<string>();
-    const flaskWarnings: string[] = [];
-    const flaskErrors: string[] = [];
-    let flaskSuccess = true;
+    const parseWarnings: string[] = [];
+    const parseErrors: string[] = [];
+    let parseSuccess = true;
 
-    if (!FLASK_SERVER) {
-      throw new AppError('Flask server URL is not configured.', 500);
-    }
-
-    this.collegeCache.clear();
-    this.departmentCache.clear();
     this.academicYearCache.clear();
     this.semesterCache.clear();
     this.divisionCache.clear();
     this.subjectCache.clear();
     this.facultyCache.clear();
 
-    const college = await this.ensureCollege();
+    const academicYear = await this.findAcademicYear(academicYearString, db);
 
-    const academicYear = await this.findAcademicYear(academicYearString);
+    const findDepartment = createDepartmentLookup(db, scope);
+    const department = await findDepartment(deptAbbreviation);
 
-    const department = await this.findDepartment(deptAbbreviation, college.id);
-
-    const formData = new FormData();
-    formData.append('facultyMatrix', fileBuffer, {
-      filename: 'facultyMatrix.xlsx',
-      contentType:
-        'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
-    });
-    formData.append('deptAbbreviation', deptAbbreviation);
-    formData.append('academicYear', academicYearString);
-    formData.append('semesterRun', semesterType);
-
-    let flaskResponse: FlaskResponse;
-    try {
-      flaskResponse = (await this.fetchWithRetry(`${FLASK_SERVER}`, {
-        method: 'POST',
-        headers: {
-          ...formData.getHeaders(),
-          Accept: 'application/json',
-        },
-        body: formData,
-      })) as FlaskResponse;
-    } catch (flaskError: any) {
-      console.error('Error communicating with Flask server:', flaskError);
-      throw new AppError(
-        `Failed to get processed data from Flask server: ${flaskError.message || 'Unknown Flask error.'}`,
-        flaskError.status || 500
-      );
-    }
+    const parseResult = await facultyMatrixParserService.parseFacultyMatrix(
+      fileBuffer,
+      department.collegeId,
+      department.abbreviation
+    );
 
-    const processedData = flaskResponse.results;
-    flaskSuccess = flaskResponse.status.success;
+    const processedData = parseResult.results;
+    parseSuccess = parseResult.status.success;
 
-    if (flaskResponse.status.errors && flaskResponse.status.errors.length > 0) {
-      flaskResponse.status.errors.forEach((error) => {
+    if (parseResult.status.errors.length > 0) {
+      parseResult.status.errors.forEach((error) => {
         if (error.toLowerCase().includes('warning')) {
-          flaskWarnings.push(error);
+          parseWarnings.push(error);
         } else {
-          flaskErrors.push(error);
+          parseErrors.push(error);
         }
       });
     }
 
     const processingStartTime = Date.now();
 
+    // Progress is counted in divisions, the unit allocations are processed in.
+    const divisionsTotal = Object.values(processedData)
+      .flatMap((collegeData) => Object.values(collegeData))
+      .flatMap((deptData) => Object.values(deptData))
+      .reduce(
+        (total, semesterData) => total + Object.keys(semesterData).length,
+        0
+      );
+    let divisionsProcessed = 0;
+
     for (const [_collegeName, collegeData] of Object.entries(processedData)) {
       for (const [deptName, deptData] of Object.entries(collegeData)) {
         for (const [semesterNum, semesterData] of Object.entries(deptData)) {
           const parsedSemesterNum = parseInt(semesterNum);
           if (isNaN(parsedSemesterNum)) {
-            const message = `Skipping invalid semester number: '${semesterNum}' found in Flask data for department '${deptName}'.`;
+            const message = `Skipping invalid semester number: '${semesterNum}' found in faculty matrix data for department '${deptName}'.`;
             console.warn(message);
             skippedRowsDetails.push(message);
             totalRowsSkippedDueToMissingEntities++;
@@ -485,37 +391,50 @@ class FacultyMatrixUploadService {
           }
 
           let semester: Semester;
+          const semesterSavepoint = await startUploadRow(db, recorder);
           try {
             semester = await this.upsertSemester(
               department.id,
               parsedSemesterNum,
               academicYear.id,
-              semesterType
+              semesterType,
+              db,
+              recorder
             );
           } catch (error: any) {
+            await semesterSavepoint.rollback();
             const message = `Skipping semester data for Semester ${parsedSemesterNum}: Could not upsert semester. ${error.message || 'Unknown error'}`;
             console.warn(message);
             skippedRowsDetails.push(message);
             totalRowsSkippedDueToMissingEntities++;
             continue;
+          } finally {
+            await semesterSavepoint.release();
           }
 
           for (const [divisionName, divisionData] of Object.entries(
             semesterData
           )) {
+            recorder.reportProgress(divisionsProcessed++, divisionsTotal);
             let division: Division;
+            const divisionSavepoint = await startUploadRow(db, recorder);
             try {
               division = await this.upsertDivision(
                 department.id,
                 divisionName,
-                semester.id
+                semester.id,
+                db,
+                recorder
               );
             } catch (error: any) {
+              await divisionSavepoint.rollback();
               const message = `Skipping division data for Division '${divisionName}': Could not upsert division. ${error.message || 'Unknown error'}`;
               console.warn(message);
               skippedRowsDetails.push(message);
               totalRowsSkippedDueToMissingEntities++;
               continue;
+            } finally {
+              await divisionSavepoint.release();
             }
 
             for (const [subjectAbbreviation, subjectData] of Object.entries(
@@ -525,7 +444,8 @@ class FacultyMatrixUploadService {
               try {
                 subject = await this.findSubject(
                   department.id,
-                  subjectAbbreviation
+                  subjectAbbreviation,
+                  db
                 );
               } catch (error: any) {
                 missingSubjects.add(subjectAbbreviation);
@@ -543,7 +463,11 @@ class FacultyMatrixUploadService {
                   for (const facultyAbbr of facultyAbbrs) {
                     let faculty: Faculty;
                     try {
-                      faculty = await this.findFaculty(department.id, facultyAbbr);
+                      faculty = await this.findFaculty(
+                        department.id,
+                        facultyAbbr,
+                        db
+                      );
 
                       const lectureAllocation: AllocationBatchItem = {
                         departmentId: department.id,
@@ -556,6 +480,12 @@ class FacultyMatrixUploadService {
                         academicYearId: academicYear.id,
                         isDeleted: false,
                       };
+                      await this.trackAllocation(
+                        lectureAllocation,
+                        `${parsedSemesterNum}${divisionName}/${subjectAbbreviation}/LECTURE/${lectureAllocation.batch}/${facultyAbbr}`,
+                        db,
+                        recorder
+                      );
                       allocationBatch.push(lectureAllocation);
                     } catch (error: any) {
                       missingFaculties.add(facultyAbbr);
@@ -577,7 +507,11 @@ class FacultyMatrixUploadService {
                   for (const facultyAbbr of facultyAbbrs) {
                     let faculty: Faculty;
                     try {
-                      faculty = await this.findFaculty(department.id, facultyAbbr);
+                      faculty = await this.findFaculty(
+                        department.id,
+                        facultyAbbr,
+                        db
+                      );
 
                       const lectureAllocation: AllocationBatchItem = {
                         departmentId: department.id,
@@ -590,6 +524,12 @@ class FacultyMatrixUploadService {
                         academicYearId: academicYear.id,
                         isDeleted: false,
                       };
+                      await this.trackAllocation(
+                        lectureAllocation,
+                        `${parsedSemesterNum}${divisionName}/${subjectAbbreviation}/LECTURE/${lectureAllocation.batch}/${facultyAbbr}`,
+                        db,
+                        recorder
+                      );
                       allocationBatch.push(lectureAllocation);
                     } catch (error: any) {
                       missingFaculties.add(facultyAbbr);
@@ -612,7 +552,8 @@ class FacultyMatrixUploadService {
                     try {
                       faculty = await this.findFaculty(
                         department.id,
-                        facultyAbbr
+                        facultyAbbr,
+                        db
                       );
 
                       const labAllocation: AllocationBatchItem = {
@@ -626,6 +567,12 @@ class FacultyMatrixUploadService {
                         academicYearId: academicYear.id,
                         isDeleted: false,
                       };
+                      await this.trackAllocation(
+                        labAllocation,
+                        `${parsedSemesterNum}${divisionName}/${subjectAbbreviation}/LAB/${batch}/${facultyAbbr}`,
+                        db,
+                        recorder
+                      );
                       allocationBatch.push(labAllocation);
                     } catch (error: any) {
                       missingFaculties.add(facultyAbbr);
@@ -639,17 +586,20 @@ class FacultyMatrixUploadService {
               }
 
               if (allocationBatch.length >= batchSize) {
+                const batchSavepoint = await startUploadRow(db, recorder);
                 try {
-                  const result = await prisma.subjectAllocation.createMany({
+                  const result = await db.subjectAllocation.createMany({
                     data: allocationBatch,
                     skipDuplicates: true,
                   });
                   totalAllocationsAdded += result.count;
                 } catch (dbError: any) {
+                  await batchSavepoint.rollback();
                   const message = `Error inserting batch of SubjectAllocations: ${dbError.message || 'Unknown database error'}`;
                   console.error(message, dbError);
                   skippedRowsDetails.push(message);
                 } finally {
+                  await batchSavepoint.release();
                   allocationBatch = [];
                 }
               }
@@ -660,23 +610,30 @@ class FacultyMatrixUploadService {
     }
 
     if (allocationBatch.length > 0) {
+      const batchSavepoint = await startUploadRow(db, recorder);
       try {
-        const result = await prisma.subjectAllocation.createMany({
+        const result = await db.subjectAllocation.createMany({
           data: allocationBatch,
           skipDuplicates: true,
         });
         totalAllocationsAdded += result.count;
       } catch (dbError: any) {
+        await batchSavepoint.rollback();
         const message = `Error inserting final batch of SubjectAllocations: ${dbError.message || 'Unknown database error'}`;
         console.error(message, dbError);
         skippedRowsDetails.push(message);
+      } finally {
+        await batchSavepoint.release();
       }
     }
 
+    recorder.reportProgress(divisionsTotal, divisionsTotal);
+
     // Store division timetables with day/slot data
-    if (flaskResponse.division_timetables) {
+    if (parseResult.division_timetables) {
       let timetablesStored = 0;
-      for (const [divKey, entries] of Object.entries(flaskResponse.division_timetables)) {
+      for (const [divKey, entries] of Object.entries(parseResult.division_timetables)) {
+        const timetableSavepoint = await startUploadRow(db, recorder);
         try {
           // divKey format: "4A" => semester 4, division "A"
           // Use regex to split numeric prefix from alpha suffix (handles multi-digit semesters like "10A")
@@ -695,7 +652,7 @@ class FacultyMatrixUploadService {
           let semRecord = this.semesterCache.get(semCacheKey);
           if (!semRecord) {
             // Try to find via DB
-            const dbSem = await prisma.semester.findFirst({
+            const dbSem = await db.semester.findFirst({
               where: { departmentId: department.id, semesterNumber: semNum, academicYearId: academicYear.id, semesterType, isDeleted: false },
             });
             if (dbSem) semRecord = dbSem;
@@ -712,14 +669,17 @@ class FacultyMatrixUploadService {
 
           if (!divisionRecord) {
             // Try to find via DB
-            const div = await prisma.division.findFirst({
+            const div = await db.division.findFirst({
               where: { departmentId: department.id, divisionName: divName, semesterId: semRecord.id, isDeleted: false },
             });
             if (div) divisionRecord = div;
           }
 
           if (divisionRecord) {
-            await prisma.divisionTimetable.upsert({
+            const existingTimetable = await db.divisionTimetable.findUnique({
+              where: { divisionId: divisionRecord.id },
+            });
+            const timetable = await db.divisionTimetable.upsert({
               where: { divisionId: divisionRecord.id },
               create: {
                 divisionId: divisionRecord.id,
@@ -731,17 +691,32 @@ class FacultyMatrixUploadService {
                 isDeleted: false,
               },
             });
+            recorder.track(
+              'divisionTimetable',
+              divKey,
+              existingTimetable,
+              { timetableData: entries, isDeleted: false },
+              null,
+              { id: timetable.id }
+            );
             timetablesStored++;
           } else {
             console.warn(`Warning: Division '${divName}' not found for semester ${semNum} (key: '${divKey}')`);
           }
         } catch (ttError: any) {
+          await timetableSavepoint.rollback();
           console.warn(`Warning: Could not store timetable for division key '${divKey}': ${ttError.message}`);
+        } finally {
+          await timetableSavepoint.release();
         }
       }
-      console.log(`📅 Division timetables stored: ${timetablesStored}/${Object.keys(flaskResponse.division_timetables).length}`);
+      console.log(`📅 Division timetables stored: ${timetablesStored}/${Object.keys(parseResult.division_timetables).length}`);
     }
 
+    skippedRowsDetails.forEach((message) => recorder.skip(null, message));
+    parseErrors.forEach((message) => recorder.skip(null, message));
+    parseWarnings.forEach((message) => recorder.warn(null, message));
+
     const processingEndTime = Date.now();
     console.log(
       '🕒 Faculty Matrix processing completed in',
@@ -756,9 +731,9 @@ class FacultyMatrixUploadService {
       missingSubjects: Array.from(missingSubjects),
       totalRowsSkippedDueToMissingEntities,
       skippedRowsDetails,
-      flaskWarnings,
-      flaskErrors,
-      flaskSuccess,
+      parseWarnings,
+      parseErrors,
+      parseSuccess,
     };
     console.log(noob_data);
 
@@ -769,9 +744,9 @@ class FacultyMatrixUploadService {
       missingSubjects: Array.from(missingSubjects),
       totalRowsSkippedDueToMissingEntities,
       skippedRowsDetails,
-      flaskWarnings,
-      flaskErrors,
-      flaskSuccess,
+      parseWarnings,
+      parseErrors,
+      parseSuccess,
     };
   }
 }
@@ -0,0 +1,327 @@
+/**
+ * @file src/services/upload/facultyMatrixParser.service.ts
+ * @description Parses faculty matrix workbooks into allocation and timetable data.
+ * Each worksheet is a weekly timetable grid: a header row with a "Day" column, an optional
+ * time slot column ("Time", "Slot" or "Period") and one column per faculty abbreviation.
+ * Every cell below lists the classes that faculty takes in that slot, written as
+ * `<semester><division>[<batch number>] <subject> [LAB|LEC]`, e.g. `4A OS` or `4A1 OS LAB`.
+ */
+
+import ExcelJS from 'exceljs';
+import AppError from '../../utils/appError';
+import { loadWorkbook } from '../../utils/spreadsheet';
+import {
+  DepartmentData,
+  FacultyMatrixParseResult,
+  SubjectAllocationData,
+  TimetableEntry,
+} from './facultyMatrix.interfaces';
+
+// Header rows are searched for within the first few rows of each sheet.
+const HEADER_SEARCH_ROWS = 10;
+
+const DAY_HEADER_PATTERN = /^days?$/i;
+const SLOT_HEADER_PATTERN = /^(time|time ?slot|slot|period|lecture no\.?)$/i;
+
+const DAY_NAMES = [
+  'Monday',
+  'Tuesday',
+  'Wednesday',
+  'Thursday',
+  'Friday',
+  'Saturday',
+  'Sunday',
+];
+
+// Cell contents that mark a free slot rather than a class.
+const FREE_SLOT_VALUES = new Set([
+  '-',
+  '--',
+  'FREE',
+  'NA',
+  'N/A',
+  'LUNCH',
+  'BREAK',
+  'RECESS',
+]);
+
+// Classes in one cell are separated by line breaks, semicolons or commas.
+const CLASS_SEPARATOR_PATTERN = /[\n;,]+/;
+
+// Matches a single class, e.g. "4A OS", "4A-OS", "4A1 OS LAB" or "6B2 DBMS (PR)".
+const CLASS_PATTERN =
+  /^(\d{1,2})\s*([A-Z])(\d{0,2})\s*[-:]?\s*([A-Z][A-Z0-9&.+]*)(?:\s*[-(]?\s*(LAB|PR|LEC|LECTURE)\s*\)?)?$/;
+
+interface ParsedClass {
+  semesterNumber: number;
+  divisionName: string;
+  batch: string;
+  subjectAbbreviation: string;
+  lectureType: 'LECTURE' | 'LAB';
+}
+
+interface SheetHeader {
+  rowNumber: number;
+  dayColumn: number;
+  slotColumn: number | null;
+  facultyColumns: Map<number, string>;
+}
+
+class FacultyMatrixParserService {
+  // Appends a faculty abbreviation to a comma separated list, skipping duplicates.
+  private appendFaculty(existing: string | undefined, faculty: string): string {
+    const faculties = existing ? existing.split(', ') : [];
+    if (!faculties.includes(faculty)) {
+      faculties.push(faculty);
+    }
+    return faculties.join(', ');
+  }
+
+  // Locates the header row of a sheet and maps its faculty columns.
+  private findHeader(worksheet: ExcelJS.Worksheet): SheetHeader | null {
+    const lastRow = Math.min(worksheet.rowCount, HEADER_SEARCH_ROWS);
+
+    for (let rowNumber = 1; rowNumber <= lastRow; rowNumber++) {
+      const row = worksheet.getRow(rowNumber);
+      let dayColumn: number | null = null;
+      let slotColumn: number | null = null;
+      const headerCells = new Map<number, string>();
+
+      row.eachCell((cell, columnNumber) => {
+        const text = cell.text.trim();
+        if (!text) return;
+        if (dayColumn === null && DAY_HEADER_PATTERN.test(text)) {
+          dayColumn = columnNumber;
+        } else if (slotColumn === null && SLOT_HEADER_PATTERN.test(text)) {
+          slotColumn = columnNumber;
+        } else {
+          headerCells.set(columnNumber, text);
+        }
+      });
+
+      if (dayColumn !== null) {
+        return {
+          rowNumber,
+          dayColumn,
+          slotColumn,
+          facultyColumns: headerCells,
+        };
+      }
+    }
+    return null;
+  }
+
+  // Resolves a day cell such as "MON" or "monday" to its full day name.
+  private normalizeDay(text: string): string | null {
+    const prefix = text.trim().slice(0, 3).toLowerCase();
+    if (prefix.length < 3) return null;
+    return (
+      DAY_NAMES.find((day) => day.toLowerCase().startsWith(prefix)) ?? null
+    );
+  }
+
+  // Reads a time slot cell, keeping numbers as numbers and formatting times as HH:MM.
+  private readTimeSlot(cell: ExcelJS.Cell): number | string {
+    const value = cell.value;
+    if (typeof value === 'number') return value;
+    if (value instanceof Date) {
+      return value.toISOString().slice(11, 16);
+    }
+    return cell.text.trim();
+  }
+
+  // Parses a single class written in a faculty's cell.
+  private parseClass(text: string): ParsedClass | null {
+    const match = text.match(CLASS_PATTERN);
+    if (!match) return null;
+
+    const [, semester, divisionName, batchNumber, subject, keyword] = match;
+    const batch = batchNumber ? `${divisionName}${batchNumber}` : '-';
+
+    let lectureType: 'LECTURE' | 'LAB';
+    if (keyword === 'LAB' || keyword === 'PR') {
+      lectureType = 'LAB';
+    } else if (keyword === 'LEC' || keyword === 'LECTURE') {
+      lectureType = 'LECTURE';
+    } else {
+      // Batched classes without a keyword are practical sessions.
+      lectureType = batchNumber ? 'LAB' : 'LECTURE';
+    }
+
+    return {
+      semesterNumber: parseInt(semester, 10),
+      divisionName,
+      batch,
+      subjectAbbreviation: subject,
+      lectureType,
+    };
+  }
+
+  // Records a faculty's class in the department's allocation tree.
+  private addAllocation(
+    deptData: DepartmentData,
+    parsed: ParsedClass,
+    faculty: string
+  ): void {
+    const semesterData = (deptData[String(parsed.semesterNumber)] ??= {});
+    const divisionData = (semesterData[parsed.divisionName] ??= {});
+    const subjectData: SubjectAllocationData = (divisionData[
+      parsed.subjectAbbreviation
+    ] ??= {});
+
+    if (parsed.lectureType === 'LAB') {
+      const labs = (subjectData.labs ??= {});
+      labs[parsed.batch] = {
+        designated_faculty: this.appendFaculty(
+          labs[parsed.batch]?.designated_faculty,
+          faculty
+        ),
+      };
+      return;
+    }
+
+    const lectures = (subjectData.lectures ??= {});
+    if (parsed.batch === '-') {
+      lectures.designated_faculty = this.appendFaculty(
+        lectures.designated_faculty,
+        faculty
+      );
+    } else {
+      const existing = lectures[parsed.batch];
+      lectures[parsed.batch] = {
+        designated_faculty: this.appendFaculty(
+          typeof existing === 'object'
+            ? existing.designated_faculty
+            : undefined,
+          faculty
+        ),
+      };
+    }
+  }
+
+  /**
+   * Parses a faculty matrix workbook into subject allocations and division timetables.
+   * Cells that cannot be read are reported as warnings in `status.errors` and skipped.
+   * @param fileBuffer - The uploaded .xlsx or CSV file.
+   * @param collegeName - The key the parsed departments are grouped under.
+   * @param deptAbbreviation - The department the matrix belongs to.
+   */
+  public async parseFacultyMatrix(
+    fileBuffer: Buffer,
+    collegeName: string,
+    deptAbbreviation: string
+  ): Promise<FacultyMatrixParseResult> {
+    const workbook = await loadWorkbook(fileBuffer);
+
+    const deptData: DepartmentData = {};
+    const divisionTimetables: Record<string, TimetableEntry[]> = {};
+    const errors: string[] = [];
+    let classCount = 0;
+    let sheetsParsed = 0;
+
+    workbook.eachSheet((worksheet) => {
+      const header = this.findHeader(worksheet);
+      if (!header) {
+        errors.push(
+          `Warning: Sheet '${worksheet.name}' skipped: no header row with a 'Day' column was found.`
+        );
+        return;
+      }
+      if (!header.facultyColumns.size) {
+        errors.push(
+          `Warning: Sheet '${worksheet.name}' skipped: the header row has no faculty columns.`
+        );
+        return;
+      }
+      sheetsParsed++;
+
+      let currentDay: string | null = null;
+      let slotIndex = 0;
+
+      for (
+        let rowNumber = header.rowNumber + 1;
+        rowNumber <= worksheet.rowCount;
+        rowNumber++
+      ) {
+        const row = worksheet.getRow(rowNumber);
+
+        // Day cells are usually merged over the day's rows, so blanks continue the previous day.
+        const dayText = row.getCell(header.dayColumn).text.trim();
+        if (FREE_SLOT_VALUES.has(dayText.toUpperCase())) continue;
+        if (dayText) {
+          const day = this.normalizeDay(dayText);
+          if (day !== currentDay) {
+            slotIndex = 0;
+          }
+          currentDay = day;
+          if (!day) {
+            errors.push(
+              `Warning: Sheet '${worksheet.name}' row ${rowNumber}: '${dayText}' is not a day of the week, row skipped.`
+            );
+            continue;
+          }
+        }
+        if (!currentDay) continue;
+        slotIndex++;
+
+        let timeSlot: number | string = slotIndex;
+        if (header.slotColumn !== null) {
+          timeSlot =
+            this.readTimeSlot(row.getCell(header.slotColumn)) || slotIndex;
+        }
+
+        for (const [columnNumber, faculty] of header.facultyColumns) {
+          const cell = row.getCell(columnNumber);
+          const entries = cell.text
+            .toUpperCase()
+            .split(CLASS_SEPARATOR_PATTERN)
+            .map((entry) => entry.trim().replace(/\s+/g, ' '))
+            .filter((entry) => entry && !FREE_SLOT_VALUES.has(entry));
+
+          for (const entry of entries) {
+            const parsed = this.parseClass(entry);
+            if (!parsed) {
+              errors.push(
+                `Warning: Sheet '${worksheet.name}' cell ${cell.address}: could not read '${entry}' for faculty '${faculty}'.`
+              );
+              continue;
+            }
+
+            this.addAllocation(deptData, parsed, faculty);
+
+            const divisionKey = `${parsed.semesterNumber}${parsed.divisionName}`;
+            (divisionTimetables[divisionKey] ??= []).push({
+              Subject: parsed.subjectAbbreviation,
+              Type: parsed.lectureType,
+              Batch: parsed.batch,
+              Day: currentDay,
+              Time_Slot: timeSlot,
+              Faculty: faculty,
+            });
+            classCount++;
+          }
+        }
+      }
+    });
+
+    if (!classCount) {
+      errors.push(
+        `No classes could be read from the faculty matrix (${sheetsParsed} sheets parsed).`
+      );
+    }
+
+    return {
+      results: { [collegeName]: { [deptAbbreviation]: deptData } },
+      division_timetables: divisionTimetables,
+      status: {
+        success: classCount > 0,
+        message: classCount
+          ? `Parsed ${classCount} classes from ${sheetsParsed} sheets.`
+          : 'Faculty matrix contained no readable classes.',
+        errors,
+      },
+    };
+  }
+}
+
+export const facultyMatrixParserService = new FacultyMatrixParserService();
@@ -0,0 +1,56 @@
+// src/services/upload/queue.ts
+
+import crypto from 'crypto';
+import { Queue } from 'bullmq';
+import { SemesterTypeEnum } from '@prisma/client';
+import { connection } from '../email/queue';
+import { UploadType } from './uploadDiff';
+import { ColumnMapping } from './columnMapping';
+import { CollegeScope } from '../college/collegeScope';
+
+export const UPLOAD_QUEUE_NAME = 'upload-queue';
+
+// Faculty matrix uploads also carry the academic context the matrix belongs to.
+export interface FacultyMatrixUploadOptions {
+  academicYear: string;
+  semesterRun: SemesterTypeEnum;
+  deptAbbreviation: string;
+}
+
+export interface UploadJobData {
+  uploadType: UploadType;
+  fileName: string;
+  // Base64 encoded, as job data is stored in Redis as JSON.
+  fileBase64: string;
+  uploadedBy?: string;
+  // The college the upload is for, with the uploader's departments in it that the sheet may name.
+  collegeScope: CollegeScope;
+  dryRun: boolean;
+  // The headers of the column mapping profile selected for the upload.
+  columnMapping?: ColumnMapping;
+  facultyMatrix?: FacultyMatrixUploadOptions;
+}
+
+// Queue for processing uploads in the background, sharing the email queue's Redis connection.
+// Uploads are not retried: a failed upload is rolled back and has to be uploaded again.
+const uploadQueue = new Queue<UploadJobData>(UPLOAD_QUEUE_NAME, {
+  connection,
+  defaultJobOptions: {
+    attempts: 1,
+    // Finished jobs are kept for a while so their outcome can still be fetched.
+    removeOnComplete: { age: 24 * 60 * 60 },
+    removeOnFail: { age: 7 * 24 * 60 * 60 },
+  },
+});
+
+// Enqueues an upload and returns the job ID, which is random so other uploads cannot be guessed.
+const enqueueUpload = async (
+  data: UploadJobData
+): Promise<string | undefined> => {
+  const job = await uploadQueue.add(data.uploadType, data, {
+    jobId: crypto.randomUUID(),
+  });
+  return job.id;
+};
+
+export { uploadQueue, enqueueUpload };
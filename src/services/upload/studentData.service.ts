@@ -7,63 +7,40 @@
 import {
   Prisma,
   SemesterTypeEnum,
-  College,
-  Department,
   AcademicYear,
   Semester,
   Division,
 } from '@prisma/client';
 import ExcelJS from 'exceljs';
-import { prisma } from '../common/prisma.service';
 import AppError from '../../utils/appError';
+import { loadWorkbook } from '../../utils/spreadsheet';
 import { studentExcelRowSchema } from '../../utils/validators/upload.validation';
+import {
+  UploadClient,
+  UploadDiffRecorder,
+  UploadFileInfo,
+  runUpload,
+  startUploadRow,
+} from './uploadDiff';
+import {
+  BY_POSITION_WARNING,
+  ColumnMapping,
+  HEADER_ROW,
+  STUDENT_DATA_COLUMNS,
+  getMappedCell,
+  resolveColumns,
+} from './columnMapping';
+import { createDepartmentLookup } from './departmentLookup';
+import { CollegeScope } from '../college/collegeScope';
 
-const collegeCache = new Map<string, College>();
-const departmentCache = new Map<string, Department>();
 const academicYearCache = new Map<string, AcademicYear>();
 const semesterCache = new Map<string, Semester>();
 const divisionCache = new Map<string, Division>();
 
-const DEPARTMENT_MAPPING: Record<
-  string,
-  { name: string; abbreviation: string }
-> = {
-  CE: { name: 'Computer Engineering', abbreviation: 'CE' },
-  IT: { name: 'Information Technology', abbreviation: 'IT' },
-  EC: { name: 'Electronics & Communication Engineering', abbreviation: 'EC' },
-  MECH: { name: 'Mechanical Engineering', abbreviation: 'MECH' },
-  CIVIL: { name: 'Civil Engineering', abbreviation: 'CIVIL' },
-  AUTO: { name: 'Automobile Engineering', abbreviation: 'AUTO' },
-  EE: { name: 'Electrical Engineering', abbreviation: 'EE' },
-};
-
 class StudentDataUploadService {
-  private COLLEGE_ID = 'LDRP-ITR';
-
-  // Ensures the College record exists in the database and caches it.
-  private async ensureCollege(): Promise<College> {
-    let college = collegeCache.get(this.COLLEGE_ID);
-    if (!college) {
-      college = await prisma.college.upsert({
-        where: { id: this.COLLEGE_ID, isDeleted: false },
-        create: {
-          id: this.COLLEGE_ID,
-          name: 'LDRP Institute of Technology and Research',
-          websiteUrl: 'https://ldrp.ac.in',
-          address: 'Sector 15, Gandhinagar, Gujarat',
-          contactNumber: '+91-79-23241492',
-          isDeleted: false,
-        },
-        update: {},
-      });
-      collegeCache.set(this.COLLEGE_ID, college);
-    }
-    return college;
-  }
-
   // Extracts the string value from an ExcelJS cell.
-  private getCellValue(cell: ExcelJS.Cell): string {
-    const value = cell.value;
+  private getCellValue(cell: ExcelJS.Cell | null): string {
+    const value = cell?.value;
     if (
       value &&
       typeof value === 'object' &&
@@ -75,81 +52,17 @@ class StudentDataUploadService {
     return value?.toString() || '';
   }
 
-  // Upserts (creates or updates) a Department record, using a canonical mapping.
-  private async upsertDepartment(
-    deptAbbreviationInput: string,
-    collegeId: string
-  ): Promise<Department> {
-    let department = departmentCache.get(deptAbbreviationInput);
-    if (department) return department;
-
-    let canonicalDept: { name: string; abbreviation: string } | undefined;
-
-    canonicalDept = DEPARTMENT_MAPPING[deptAbbreviationInput.toUpperCase()];
-    if (!canonicalDept) {
-      for (const key in DEPARTMENT_MAPPING) {
-        if (
-          DEPARTMENT_MAPPING[key].name.toLowerCase() ===
-          deptAbbreviationInput.toLowerCase()
-        ) {
-          canonicalDept = DEPARTMENT_MAPPING[key];
-          break;
-        }
-      }
-    }
-
-    if (!canonicalDept) {
-      console.warn(
-        `Department '${deptAbbreviationInput}' not found in predefined mapping. Using input as canonical.`
-      );
-      canonicalDept = {
-        name: deptAbbreviationInput,
-        abbreviation: deptAbbreviationInput,
-      };
-    }
-
-    department = await prisma.department.upsert({
-      where: {
-        name_collegeId: {
-          name: canonicalDept.name,
-          collegeId: collegeId,
-        },
-        isDeleted: false,
-      },
-      create: {
-        name: canonicalDept.name,
-        abbreviation: canonicalDept.abbreviation,
-        hodName: `HOD of ${canonicalDept.name}`,
-        hodEmail: `hod.${canonicalDept.abbreviation.toLowerCase()}@ldrp.ac.in`,
-        collegeId: collegeId,
-        isDeleted: false,
-      },
-      update: {
-        name: canonicalDept.name,
-        abbreviation: canonicalDept.abbreviation,
-      },
-    });
-
-    if (!department) {
-      throw new AppError(
-        `Department '${deptAbbreviationInput}' could not be created or found.`,
-        500
-      );
-    }
-
-    departmentCache.set(deptAbbreviationInput, department);
-    return department;
-  }
-
   // Finds an AcademicYear record by its year string and handles activation.
   private async findAcademicYear(
-    academicYearString: string
+    academicYearString: string,
+    db: UploadClient,
+    recorder: UploadDiffRecorder
   ): Promise<AcademicYear> {
     let academicYear: AcademicYear | null =
       academicYearCache.get(academicYearString) || null;
     if (academicYear) return academicYear;
 
-    academicYear = await prisma.academicYear.findFirst({
+    academicYear = await db.academicYear.findFirst({
       where: {
         yearString: academicYearString,
         isDeleted: false,
@@ -164,28 +77,42 @@ class StudentDataUploadService {
     }
 
     if (!academicYear.isActive) {
-      await prisma.$transaction(async (tx) => {
-        const currentActiveYear = await tx.academicYear.findFirst({
-          where: { isActive: true, isDeleted: false },
-        });
-
-        if (currentActiveYear && currentActiveYear.id !== academicYear!.id) {
-          await tx.academicYear.update({
-            where: { id: currentActiveYear.id },
-            data: { isActive: false },
-          });
-          console.log(
-            `Deactivated previous active Academic Year: ${currentActiveYear.yearString}`
-          );
-        }
+      const currentActiveYear = await db.academicYear.findFirst({
+        where: { isActive: true, isDeleted: false },
+      });
 
-        await tx.academicYear.update({
-          where: { id: academicYear!.id },
-          data: { isActive: true },
+      if (currentActiveYear && currentActiveYear.id !== academicYear.id) {
+        await db.academicYear.update({
+          where: { id: currentActiveYear.id },
+          data: { isActive: false },
         });
-        console.log(`Activated Academic Year: ${academicYear!.yearString}`);
-        academicYear!.isActive = true;
+        recorder.track(
+          'academicYear',
+          currentActiveYear.yearString,
+          currentActiveYear,
+          { isActive: false },
+          null,
+          { id: currentActiveYear.id }
+        );
+        console.log(
+          `Deactivated previous active Academic Year: ${currentActiveYear.yearString}`
+        );
+      }
+
+      await db.academicYear.update({
+        where: { id: academicYear.id },
+        data: { isActive: true },
       });
+      recorder.track(
+        'academicYear',
+        academicYear.yearString,
+        academicYear,
+        { isActive: true },
+        null,
+        { id: academicYear.id }
+      );
+      console.log(`Activated Academic Year: ${academicYear.yearString}`);
+      academicYear.isActive = true;
     }
 
     academicYearCache.set(academicYearString, academicYear);
@@ -197,13 +124,26 @@ class StudentDataUploadService {
     departmentId: string,
     semesterNumber: number,
     academicYearId: string,
-    semesterType: SemesterTypeEnum
+    semesterType: SemesterTypeEnum,
+    db: UploadClient,
+    recorder: UploadDiffRecorder
   ): Promise<Semester> {
     const semesterKey = `${departmentId}_${semesterNumber}_${academicYearId}_${semesterType}`;
     let semester = semesterCache.get(semesterKey);
     if (semester) return semester;
 
-    semester = await prisma.semester.upsert({
+    const existing = await db.semester.findUnique({
+      where: {
+        departmentId_semesterNumber_academicYearId_semesterType: {
+          departmentId: departmentId,
+          semesterNumber: semesterNumber,
+          academicYearId: academicYearId,
+          semesterType: semesterType,
+        },
+      },
+    });
+
+    semester = await db.semester.upsert({
       where: {
         departmentId_semesterNumber_academicYearId_semesterType: {
           departmentId: departmentId,
@@ -223,6 +163,14 @@ class StudentDataUploadService {
         semesterType: semesterType,
       },
     });
+    recorder.track(
+      'semester',
+      semesterKey,
+      existing,
+      { semesterType: semester.semesterType },
+      null,
+      { id: semester.id }
+    );
     semesterCache.set(semesterKey, semester);
     return semester;
   }
@@ -231,13 +179,25 @@ class StudentDataUploadService {
   private async upsertDivision(
     departmentId: string,
     divisionName: string,
-    semesterId: string
+    semesterId: string,
+    db: UploadClient,
+    recorder: UploadDiffRecorder
   ): Promise<Division> {
     const divisionKey = `${departmentId}_${divisionName}_${semesterId}`;
     let division = divisionCache.get(divisionKey);
     if (division) return division;
 
-    division = await prisma.division.upsert({
+    const existing = await db.division.findUnique({
+      where: {
+        departmentId_divisionName_semesterId: {
+          departmentId: departmentId,
+          divisionName: divisionName,
+          semesterId: semesterId,
+        },
+      },
+    });
+
+    division = await db.division.upsert({
       where: {
         departmentId_divisionName_semesterId: {
           departmentId: departmentId,
@@ -254,53 +214,93 @@ class StudentDataUploadService {
       },
       update: {},
     });
+    recorder.track(
+      'division',
+      divisionKey,
+      existing,
+      { divisionName: division.divisionName },
+      null,
+      { id: division.id }
+    );
     divisionCache.set(divisionKey, division);
     return division;
   }
 
-  // Processes an Excel file containing student data.
-  public async processStudentData(fileBuffer: Buffer): Promise<{
+  // Processes an Excel file containing student data, or previews it when dryRun is set.
+  public async processStudentData(
+    fileBuffer: Buffer,
+    scope: CollegeScope,
+    dryRun = false,
+    file?: UploadFileInfo,
+    columnMapping?: ColumnMapping
+  ) {
+    return runUpload(
+      dryRun,
+      (db, recorder) =>
+        this.importStudentData(fileBuffer, scope, db, recorder, columnMapping),
+      file && { ...file, uploadType: 'student-data', fileBuffer }
+    );
+  }
+
+  // Imports the students of an Excel file through the given client.
+  private async importStudentData(
+    fileBuffer: Buffer,
+    scope: CollegeScope,
+    db: UploadClient,
+    recorder: UploadDiffRecorder,
+    columnMapping?: ColumnMapping
+  ): Promise<{
     message: string;
     rowsAffected: number;
   }> {
-    let skippedRowsDetails: string[] = [];
     let updatedRows = 0;
     let addedRows = 0;
     let _skippedCount = 0;
 
     try {
-      const workbook = new ExcelJS.Workbook();
-      await workbook.xlsx.load(fileBuffer as any);
+      const workbook = await loadWorkbook(fileBuffer);
       const worksheet = workbook.getWorksheet(1);
 
       if (!worksheet) {
         throw new AppError(
-          'Invalid worksheet: Worksheet not found in the Excel file.',
+          'Invalid worksheet: Worksheet not found in the uploaded file.',
           400
         );
       }
 
-      collegeCache.clear();
-      departmentCache.clear();
+      const { positions: columns, byPosition } = resolveColumns(
+        worksheet,
+        STUDENT_DATA_COLUMNS,
+        columnMapping
+      );
+      if (byPosition) {
+        recorder.warn(HEADER_ROW, BY_POSITION_WARNING);
+      }
+
       academicYearCache.clear();
       semesterCache.clear();
       divisionCache.clear();
 
-      const college = await this.ensureCollege();
+      const findDepartment = createDepartmentLookup(db, scope);
 
+      const rowsTotal = worksheet.rowCount - 1;
       for (let rowNumber = 2; rowNumber <= worksheet.rowCount; rowNumber++) {
+        recorder.reportProgress(rowNumber - 2, rowsTotal);
         const row = worksheet.getRow(rowNumber);
 
+        const cellValue = (column: number | null) =>
+          this.getCellValue(getMappedCell(row, column));
+
         const rawData = {
-          studentName: this.getCellValue(row.getCell(2)),
-          enrollmentNumber: this.getCellValue(row.getCell(3)),
-          deptAbbreviation: this.getCellValue(row.getCell(4)),
-          semesterNumber: parseInt(this.getCellValue(row.getCell(5))),
-          divisionName: this.getCellValue(row.getCell(6)),
-          studentBatch: this.getCellValue(row.getCell(7)),
-          email: this.getCellValue(row.getCell(8)),
-          academicYearString: this.getCellValue(row.getCell(9)),
-          intakeYear: this.getCellValue(row.getCell(10)),
+          studentName: cellValue(columns.studentName),
+          enrollmentNumber: cellValue(columns.enrollmentNumber),
+          deptAbbreviation: cellValue(columns.deptAbbreviation),
+          semesterNumber: parseInt(cellValue(columns.semesterNumber)),
+          divisionName: cellValue(columns.divisionName),
+          studentBatch: cellValue(columns.studentBatch),
+          email: cellValue(columns.email),
+          academicYearString: cellValue(columns.academicYearString),
+          intakeYear: cellValue(columns.intakeYear),
         };
 
         const validationResult = studentExcelRowSchema.safeParse(rawData);
@@ -311,7 +311,7 @@ class StudentDataUploadService {
             .join(', ');
           const message = `Row ${rowNumber}: Skipping due to validation errors: ${errors}. Enrollment: '${rawData.enrollmentNumber}', Email: '${rawData.email}'.`;
           console.warn(message);
-          skippedRowsDetails.push(message);
+          recorder.skip(rowNumber, message);
           _skippedCount++;
           continue;
         }
@@ -334,25 +334,42 @@ class StudentDataUploadService {
             ? SemesterTypeEnum.ODD
             : SemesterTypeEnum.EVEN;
 
+        const savepoint = await startUploadRow(db, recorder);
         try {
-          const department = await this.upsertDepartment(
-            deptAbbreviation,
-            college.id
+          const department = await findDepartment(deptAbbreviation);
+          const academicYear = await this.findAcademicYear(
+            academicYearString,
+            db,
+            recorder
           );
-          const academicYear = await this.findAcademicYear(academicYearString);
           const semester = await this.upsertSemester(
             department.id,
             semesterNumber,
             academicYear.id,
-            semesterType
+            semesterType,
+            db,
+            recorder
           );
           const division = await this.upsertDivision(
             department.id,
             divisionName,
-            semester.id
+            semester.id,
+            db,
+            recorder
           );
-
-          let studentRecord = await prisma.student.findUnique({
+          const studentFields = {
+            name: studentName,
+            enrollmentNumber: enrollmentNumber,
+            phoneNumber: email,
+            academicYearId: academicYear.id,
+            batch: studentBatch,
+            intakeYear: intakeYear,
+            departmentId: department.id,
+            semesterId: semester.id,
+            divisionId: division.id,
+          };
+
+          let studentRecord = await db.student.findUnique({
             where: { email: email, isDeleted: false },
           });
 
@@ -395,7 +412,7 @@ class StudentDataUploadService {
 
             if (studentRecord.enrollmentNumber !== enrollmentNumber) {
               const existingStudentWithNewEnrollmentNumber =
-                await prisma.student.findUnique({
+                await db.student.findUnique({
                   where: {
                     enrollmentNumber: enrollmentNumber,
                     isDeleted: false,
@@ -408,7 +425,7 @@ class StudentDataUploadService {
               ) {
                 const message = `Row ${rowNumber}: Skipping update for student with email '${email}': New enrollment number '${enrollmentNumber}' is already taken by another active student (ID: ${existingStudentWithNewEnrollmentNumber.id}).`;
                 console.warn(message);
-                skippedRowsDetails.push(message);
+                recorder.skip(rowNumber, message);
                 _skippedCount++;
                 continue;
               }
@@ -416,8 +433,16 @@ class StudentDataUploadService {
               hasChanges = true;
             }
 
+            recorder.track(
+              'student',
+              email,
+              studentRecord,
+              studentFields,
+              rowNumber,
+              { id: studentRecord.id }
+            );
             if (hasChanges) {
-              await prisma.student.update({
+              await db.student.update({
                 where: { id: studentRecord.id },
                 data: dataToUpdate,
               });
@@ -425,19 +450,19 @@ class StudentDataUploadService {
             }
           } else {
             const existingStudentByEnrollmentNumber =
-              await prisma.student.findUnique({
+              await db.student.findUnique({
                 where: { enrollmentNumber: enrollmentNumber, isDeleted: false },
               });
 
             if (existingStudentByEnrollmentNumber) {
               const message = `Row ${rowNumber}: Skipping creation for student with enrollment number '${enrollmentNumber}': This enrollment number is already taken by an active student (ID: ${existingStudentByEnrollmentNumber.id}, Email: ${existingStudentByEnrollmentNumber.email}), but the email '${email}' is new. Manual review needed.`;
               console.warn(message);
-              skippedRowsDetails.push(message);
+              recorder.skip(rowNumber, message);
               _skippedCount++;
               continue;
             }
 
-            await prisma.student.create({
+            const createdStudent = await db.student.create({
               data: {
                 name: studentName,
                 enrollmentNumber: enrollmentNumber,
@@ -452,16 +477,28 @@ class StudentDataUploadService {
                 isDeleted: false,
               },
             });
+            recorder.track('student', email, null, studentFields, rowNumber, {
+              id: createdStudent.id,
+            });
             addedRows++;
           }
         } catch (innerError: any) {
+          await savepoint.rollback();
+          // The row may have created cached records that were just rolled back.
+          academicYearCache.clear();
+          semesterCache.clear();
+          divisionCache.clear();
           const message = `Row ${rowNumber}: Error processing data for Enrollment '${enrollmentNumber}', Email '${email}': ${innerError.message || 'Unknown error'}.`;
           console.error(message, innerError);
-          skippedRowsDetails.push(message);
+          recorder.skip(rowNumber, message);
           _skippedCount++;
+        } finally {
+          await savepoint.release();
         }
       }
 
+      recorder.reportProgress(rowsTotal, rowsTotal);
+
       return {
         message: 'Student data processing complete.',
         rowsAffected: addedRows + updatedRows,
@@ -476,8 +513,6 @@ class StudentDataUploadService {
         500
       );
     } finally {
-      collegeCache.clear();
-      departmentCache.clear();
       academicYearCache.clear();
       semesterCache.clear();
       divisionCache.clear();
@@ -1,45 +1,44 @@
 /**
  * @file src/services/upload/subjectData.service.ts
  * @description Service layer for handling subject data upload and processing from Excel files.
- * It manages department, academic year, semester, and subject record creation/updates.
+ * It manages academic year, semester, and subject record creation/updates.
  */
 
 import ExcelJS from 'exceljs';
 import {
   SubjectType,
   SemesterTypeEnum,
-  College,
-  Department,
   AcademicYear,
   Semester,
 } from '@prisma/client';
-import { prisma } from '../common/prisma.service';
 import AppError from '../../utils/appError';
+import { loadWorkbook } from '../../utils/spreadsheet';
 import { subjectExcelRowSchema } from '../../utils/validators/upload.validation';
+import {
+  UploadClient,
+  UploadDiffRecorder,
+  UploadFileInfo,
+  runUpload,
+  startUploadRow,
+} from './uploadDiff';
+import {
+  BY_POSITION_WARNING,
+  ColumnMapping,
+  HEADER_ROW,
+  SUBJECT_DATA_COLUMNS,
+  getMappedCell,
+  resolveColumns,
+} from './columnMapping';
+import { createDepartmentLookup } from './departmentLookup';
+import { CollegeScope } from '../college/collegeScope';
 
-const COLLEGE_ID = 'LDRP-ITR';
-const collegeCache = new Map<string, College>();
-const departmentCache = new Map<string, Department>();
 const academicYearCache = new Map<string, AcademicYear>();
 const semesterCache = new Map<string, Semester>();
 
-const DEPARTMENT_MAPPING: Record<
-  string,
-  { name: string; abbreviation: string }
-> = {
-  CE: { name: 'Computer Engineering', abbreviation: 'CE' },
-  IT: { name: 'Information Technology', abbreviation: 'IT' },
-  EC: { name: 'Electronics & Communication Engineering', abbreviation: 'EC' },
-  MECH: { name: 'Mechanical Engineering', abbreviation: 'MECH' },
-  CIVIL: { name: 'Civil Engineering', abbreviation: 'CIVIL' },
-  AUTO: { name: 'Automobile Engineering', abbreviation: 'AUTO' },
-  EE: { name: 'Electrical Engineering', abbreviation: 'EE' },
-};
-
 class SubjectDataUploadService {
   // Extracts the string value from an ExcelJS cell.
-  private getCellValue(cell: ExcelJS.Cell): string {
-    const value = cell.value;
+  private getCellValue(cell: ExcelJS.Cell | null): string {
+    const value = cell?.value;
     if (
       value &&
       typeof value === 'object' &&
@@ -51,103 +50,17 @@ class SubjectDataUploadService {
     return value?.toString() || '';
   }
 
-  // Ensures the College record exists in the database and caches it.
-  private async ensureCollege(): Promise<College> {
-    let college = collegeCache.get(COLLEGE_ID);
-    if (!college) {
-      college = await prisma.college.upsert({
-        where: { id: COLLEGE_ID, isDeleted: false },
-        create: {
-          id: COLLEGE_ID,
-          name: 'LDRP Institute of Technology and Research',
-          websiteUrl: 'https://ldrp.ac.in',
-          address: 'Sector 15, Gandhinagar, Gujarat',
-          contactNumber: '+91-79-23241492',
-          isDeleted: false,
-        },
-        update: {},
-      });
-      collegeCache.set(COLLEGE_ID, college);
-    }
-    return college;
-  }
-
-  // Upserts (creates or updates) a Department record, using a canonical mapping.
-  private async upsertDepartment(
-    deptAbbreviationInput: string,
-    collegeId: string
-  ): Promise<Department> {
-    let department = departmentCache.get(deptAbbreviationInput);
-    let canonicalDept: { name: string; abbreviation: string } | undefined;
-
-    if (department) return department;
-
-    canonicalDept = DEPARTMENT_MAPPING[deptAbbreviationInput.toUpperCase()];
-
-    if (!canonicalDept) {
-      for (const key in DEPARTMENT_MAPPING) {
-        if (
-          DEPARTMENT_MAPPING[key].name.toLowerCase() ===
-          deptAbbreviationInput.toLowerCase()
-        ) {
-          canonicalDept = DEPARTMENT_MAPPING[key];
-          break;
-        }
-      }
-    }
-
-    if (!canonicalDept) {
-      console.warn(
-        `Department '${deptAbbreviationInput}' not found in predefined mapping. Using input as canonical.`
-      );
-      canonicalDept = {
-        name: deptAbbreviationInput,
-        abbreviation: deptAbbreviationInput,
-      };
-    }
-
-    department = await prisma.department.upsert({
-      where: {
-        name_collegeId: {
-          name: canonicalDept.name,
-          collegeId: collegeId,
-        },
-        isDeleted: false,
-      },
-      create: {
-        name: canonicalDept.name,
-        abbreviation: canonicalDept.abbreviation,
-        hodName: `HOD of ${canonicalDept.name}`,
-        hodEmail: `hod.${canonicalDept.abbreviation.toLowerCase()}@ldrp.ac.in`,
-        collegeId: collegeId,
-        isDeleted: false,
-      },
-      update: {
-        name: canonicalDept.name,
-        abbreviation: canonicalDept.abbreviation,
-      },
-    });
-
-    if (!department) {
-      throw new AppError(
-        `Department '${deptAbbreviationInput}' could not be created or found.`,
-        500
-      );
-    }
-
-    departmentCache.set(deptAbbreviationInput, department);
-    return department;
-  }
-
   // Finds or creates the AcademicYear record in the database and caches it.
   private async findOrCreateAcademicYear(
-    yearString: string
+    yearString: string,
+    db: UploadClient,
+    recorder: UploadDiffRecorder
   ): Promise<AcademicYear> {
     let academicYear: AcademicYear | null | undefined =
       academicYearCache.get(yearString);
     if (academicYear) return academicYear;
 
-    academicYear = await prisma.academicYear.findFirst({
+    academicYear = await db.academicYear.findFirst({
       where: { yearString: yearString, isDeleted: false },
     });
 
@@ -156,7 +69,7 @@ class SubjectDataUploadService {
         `Academic Year '${yearString}' not found. Creating it automatically.`
       );
 
-      const existingActiveYear = await prisma.academicYear.findFirst({
+      const existingActiveYear = await db.academicYear.findFirst({
         where: {
           isActive: true,
           isDeleted: false,
@@ -164,22 +77,38 @@ class SubjectDataUploadService {
       });
 
       if (existingActiveYear) {
-        await prisma.academicYear.update({
+        await db.academicYear.update({
           where: { id: existingActiveYear.id },
           data: { isActive: false },
         });
+        recorder.track(
+          'academicYear',
+          existingActiveYear.yearString,
+          existingActiveYear,
+          { isActive: false },
+          null,
+          { id: existingActiveYear.id }
+        );
         console.log(
           `Deactivated previous active academic year: ${existingActiveYear.yearString}`
         );
       }
 
-      academicYear = await prisma.academicYear.create({
+      academicYear = await db.academicYear.create({
         data: {
           yearString: yearString,
           isActive: true,
           isDeleted: false,
         },
       });
+      recorder.track(
+        'academicYear',
+        yearString,
+        null,
+        { isActive: true },
+        null,
+        { id: academicYear.id }
+      );
 
       console.log(`Academic Year '${yearString}' created successfully.`);
     }
@@ -193,13 +122,26 @@ class SubjectDataUploadService {
     departmentId: string,
     semesterNumber: number,
     academicYearId: string,
-    semesterType: SemesterTypeEnum
+    semesterType: SemesterTypeEnum,
+    db: UploadClient,
+    recorder: UploadDiffRecorder
   ): Promise<Semester> {
     const semesterKey = `${departmentId}_${semesterNumber}_${academicYearId}_${semesterType}`;
     let semester = semesterCache.get(semesterKey);
     if (semester) return semester;
 
-    semester = await prisma.semester.upsert({
+    const existing = await db.semester.findUnique({
+      where: {
+        departmentId_semesterNumber_academicYearId_semesterType: {
+          departmentId: departmentId,
+          semesterNumber: semesterNumber,
+          academicYearId: academicYearId,
+          semesterType: semesterType,
+        },
+      },
+    });
+
+    semester = await db.semester.upsert({
       where: {
         departmentId_semesterNumber_academicYearId_semesterType: {
           departmentId: departmentId,
@@ -220,12 +162,42 @@ class SubjectDataUploadService {
         isDeleted: false,
       },
     });
+    recorder.track(
+      'semester',
+      semesterKey,
+      existing,
+      { semesterType: semester.semesterType, isDeleted: semester.isDeleted },
+      null,
+      { id: semester.id }
+    );
     semesterCache.set(semesterKey, semester);
     return semester;
   }
 
-  // Processes an Excel file containing subject data.
-  public async processSubjectData(fileBuffer: Buffer): Promise<{
+  // Processes an Excel file containing subject data, or previews it when dryRun is set.
+  public async processSubjectData(
+    fileBuffer: Buffer,
+    scope: CollegeScope,
+    dryRun = false,
+    file?: UploadFileInfo,
+    columnMapping?: ColumnMapping
+  ) {
+    return runUpload(
+      dryRun,
+      (db, recorder) =>
+        this.importSubjectData(fileBuffer, scope, db, recorder, columnMapping),
+      file && { ...file, uploadType: 'subject-data', fileBuffer }
+    );
+  }
+
+  // Imports the subjects of an Excel file through the given client.
+  private async importSubjectData(
+    fileBuffer: Buffer,
+    scope: CollegeScope,
+    db: UploadClient,
+    recorder: UploadDiffRecorder,
+    columnMapping?: ColumnMapping
+  ): Promise<{
     message: string;
     rowsAffected: number;
   }> {
@@ -233,28 +205,33 @@ class SubjectDataUploadService {
     let updatedRows = 0;
     let _unchangedRows = 0;
     let _skippedRows = 0;
-    const skippedRowsDetails: string[] = [];
 
     try {
-      const workbook = new ExcelJS.Workbook();
-      await workbook.xlsx.load(fileBuffer as any);
+      const workbook = await loadWorkbook(fileBuffer);
       const worksheet = workbook.getWorksheet(1);
 
       if (!worksheet) {
         throw new AppError(
-          'Invalid worksheet: Worksheet not found in the Excel file.',
+          'Invalid worksheet: Worksheet not found in the uploaded file.',
           400
         );
       }
 
-      collegeCache.clear();
-      departmentCache.clear();
+      const { positions: columns, byPosition } = resolveColumns(
+        worksheet,
+        SUBJECT_DATA_COLUMNS,
+        columnMapping
+      );
+      if (byPosition) {
+        recorder.warn(HEADER_ROW, BY_POSITION_WARNING);
+      }
+
       academicYearCache.clear();
       semesterCache.clear();
 
-      const college = await this.ensureCollege();
+      const findDepartment = createDepartmentLookup(db, scope);
 
-      let academicYear = await prisma.academicYear.findFirst({
+      let academicYear = await db.academicYear.findFirst({
         where: {
           isActive: true,
           isDeleted: false,
@@ -270,21 +247,31 @@ class SubjectDataUploadService {
         }
         const currentYearString = `${currentYear}-${currentYear + 1}`;
 
-        academicYear = await this.findOrCreateAcademicYear(currentYearString);
+        academicYear = await this.findOrCreateAcademicYear(
+          currentYearString,
+          db,
+          recorder
+        );
       }
 
+      const rowsTotal = worksheet.rowCount - 1;
       for (let rowNumber = 2; rowNumber <= worksheet.rowCount; rowNumber++) {
+        recorder.reportProgress(rowNumber - 2, rowsTotal);
         const row = worksheet.getRow(rowNumber);
 
+        const cellValue = (column: number | null) =>
+          this.getCellValue(getMappedCell(row, column));
+
         const rawData = {
-          subjectName: this.getCellValue(row.getCell(2))?.trim() || '',
-          subjectAbbreviation: this.getCellValue(row.getCell(3))?.trim() || '',
-          subjectCode: this.getCellValue(row.getCell(4))?.trim() || '',
-          semesterNumberStr: this.getCellValue(row.getCell(5))?.trim() || '',
+          subjectName: cellValue(columns.subjectName)?.trim() || '',
+          subjectAbbreviation:
+            cellValue(columns.subjectAbbreviation)?.trim() || '',
+          subjectCode: cellValue(columns.subjectCode)?.trim() || '',
+          semesterNumberStr: cellValue(columns.semesterNumberStr)?.trim() || '',
           isElectiveStr:
-            this.getCellValue(row.getCell(6))?.toUpperCase()?.trim() || '',
+            cellValue(columns.isElectiveStr)?.toUpperCase()?.trim() || '',
           deptAbbreviationInput:
-            this.getCellValue(row.getCell(7))?.trim() || '',
+            cellValue(columns.deptAbbreviationInput)?.trim() || '',
         };
 
         const validationResult = subjectExcelRowSchema.safeParse(rawData);
@@ -295,7 +282,7 @@ class SubjectDataUploadService {
             .join(', ');
           const message = `Row ${rowNumber}: Skipping due to validation errors: ${errors}. Subject Name: '${rawData.subjectName}', Dept: '${rawData.deptAbbreviationInput}'.`;
           console.warn(message);
-          skippedRowsDetails.push(message);
+          recorder.skip(rowNumber, message);
           _skippedRows++;
           continue;
         }
@@ -317,21 +304,21 @@ class SubjectDataUploadService {
             ? SemesterTypeEnum.ODD
             : SemesterTypeEnum.EVEN;
 
+        const savepoint = await startUploadRow(db, recorder);
         try {
-          const department = await this.upsertDepartment(
-            deptAbbreviationInput,
-            college.id
-          );
+          const department = await findDepartment(deptAbbreviationInput);
 
           const semester = await this.upsertSemester(
             department.id,
             semesterNumber,
             academicYear.id,
-            semesterType
+            semesterType,
+            db,
+            recorder
           );
 
           const subjectType: SubjectType =
-            isElectiveStr === 'TRUE'
+            isElectiveStr === 'TRUE' || isElectiveStr === SubjectType.ELECTIVE
               ? SubjectType.ELECTIVE
               : SubjectType.MANDATORY;
 
@@ -342,7 +329,7 @@ class SubjectDataUploadService {
             type: subjectType,
           };
 
-          const existingSubject = await prisma.subject.findUnique({
+          const existingSubject = await db.subject.findUnique({
             where: {
               departmentId_abbreviation: {
                 departmentId: department.id,
@@ -378,8 +365,16 @@ class SubjectDataUploadService {
               existingNormalizedData.type !== newSubjectData.type ||
               existingNormalizedData.semesterId !== semester.id;
 
+            recorder.track(
+              'subject',
+              `${department.abbreviation}/${subjectAbbreviation}`,
+              existingNormalizedData,
+              { ...newSubjectData, semesterId: semester.id },
+              rowNumber,
+              { id: existingSubject.id, previous: existingSubject }
+            );
             if (isChanged) {
-              await prisma.subject.update({
+              await db.subject.update({
                 where: {
                   id: existingSubject.id,
                 },
@@ -396,7 +391,7 @@ class SubjectDataUploadService {
               _unchangedRows++;
             }
           } else {
-            await prisma.subject.create({
+            const createdSubject = await db.subject.create({
               data: {
                 ...newSubjectData,
                 department: { connect: { id: department.id } },
@@ -404,16 +399,31 @@ class SubjectDataUploadService {
                 isDeleted: false,
               },
             });
+            recorder.track(
+              'subject',
+              `${department.abbreviation}/${subjectAbbreviation}`,
+              null,
+              { ...newSubjectData, semesterId: semester.id },
+              rowNumber,
+              { id: createdSubject.id }
+            );
             addedRows++;
           }
         } catch (innerError: any) {
+          await savepoint.rollback();
+          // The row may have created a cached semester that was just rolled back.
+          semesterCache.clear();
           const message = `Row ${rowNumber}: Error processing data for Subject '${subjectName}', Dept: '${deptAbbreviationInput}': ${innerError.message || 'Unknown error'}.`;
           console.error(message, innerError);
-          skippedRowsDetails.push(message);
+          recorder.skip(rowNumber, message);
           _skippedRows++;
+        } finally {
+          await savepoint.release();
         }
       }
 
+      recorder.reportProgress(rowsTotal, rowsTotal);
+
       return {
         message: 'Subject data import complete.',
         rowsAffected: addedRows + updatedRows,
@@ -428,8 +438,6 @@ class SubjectDataUploadService {
         500
       );
     } finally {
-      collegeCache.clear();
-      departmentCache.clear();
       academicYearCache.clear();
       semesterCache.clear();
     }
@@ -0,0 +1,313 @@
+/**
+ * @file src/services/upload/uploadBatch.service.ts
+ * @description Service layer for upload batches.
+ * Records every upload with its uploader, file checksum, counts and the records it wrote,
+ * and rolls an upload back by deleting what it created and restoring what it updated.
+ */
+
+import crypto from 'crypto';
+import {
+  Prisma,
+  UploadBatch,
+  UploadBatchStatus,
+  UploadRecordAction,
+} from '@prisma/client';
+import { prisma } from '../common/prisma.service';
+import AppError from '../../utils/appError';
+import { facultyService } from '../faculty/faculty.service';
+import { studentService } from '../student/student.service';
+import {
+  CollegeScope,
+  assertCollegeRecordInScope,
+  collegeRecordScopeWhere,
+} from '../college/collegeScope';
+import {
+  UploadClient,
+  UploadDiffRecorder,
+  UploadEntity,
+  UploadSource,
+  UploadType,
+} from './uploadDiff';
+
+interface UploadHistoryFilters {
+  uploadType?: UploadType;
+  limit: number;
+}
+
+interface RollbackUploadResult {
+  batchId: string;
+  deletedCount: number;
+  restoredCount: number;
+}
+
+// Rollbacks can touch thousands of records, so they get more time than Prisma's 5s default.
+const ROLLBACK_TRANSACTION_OPTIONS = { maxWait: 10_000, timeout: 120_000 };
+
+// Records in the order the upload first wrote them, by time for those stored without a sequence.
+const RECORD_ORDER: Prisma.UploadBatchRecordOrderByWithRelationInput[] = [
+  { sequence: 'asc' },
+  { createdAt: 'asc' },
+];
+
+// Rollback only needs ID based updateMany and deleteMany, which every uploaded model supports.
+interface RollbackDelegate {
+  updateMany(args: {
+    where: { id: string };
+    data: Record<string, unknown>;
+  }): Promise<unknown>;
+  deleteMany(args: { where: { id: string } }): Promise<unknown>;
+}
+
+const getRollbackDelegate = (
+  tx: UploadClient,
+  entity: UploadEntity
+): RollbackDelegate => {
+  const delegates: Record<UploadEntity, unknown> = {
+    college: tx.college,
+    department: tx.department,
+    academicYear: tx.academicYear,
+    semester: tx.semester,
+    division: tx.division,
+    student: tx.student,
+    faculty: tx.faculty,
+    subject: tx.subject,
+    subjectAllocation: tx.subjectAllocation,
+    divisionTimetable: tx.divisionTimetable,
+  };
+  return delegates[entity] as RollbackDelegate;
+};
+
+class UploadBatchService {
+  // Ensures an upload batch was uploaded to a college, and by a department, in the scope.
+  private async assertBatchInScope(
+    id: string,
+    scope: CollegeScope
+  ): Promise<void> {
+    if (!scope.collegeIds && !scope.departmentIds) return;
+
+    const batch = await prisma.uploadBatch.findUnique({
+      where: { id },
+      select: { collegeId: true, departmentId: true },
+    });
+    if (batch) {
+      assertCollegeRecordInScope(scope, batch);
+    }
+  }
+
+  /**
+   * Records an upload as an upload batch with the records it created or updated.
+   * Failures are logged rather than thrown so they never mask the upload's own outcome.
+   * @param source - The uploaded file.
+   * @param recorder - The recorder the upload reported its changes to.
+   * @param error - The error the upload failed with, if it did not complete.
+   * @returns The ID of the upload batch, or null when it could not be recorded.
+   */
+  public async recordBatch(
+    source: UploadSource,
+    recorder: UploadDiffRecorder,
+    error?: Error
+  ): Promise<string | null> {
+    const { summary } = recorder.toDiff();
+
+    try {
+      const batch = await prisma.uploadBatch.create({
+        data: {
+          uploadType: source.uploadType,
+          fileName: source.fileName,
+          checksum: crypto
+            .createHash('sha256')
+            .update(source.fileBuffer)
+            .digest('hex'),
+          uploadedBy: source.uploadedBy,
+          collegeId: source.collegeId,
+          departmentId: source.departmentId,
+          status: error
+            ? UploadBatchStatus.FAILED
+            : UploadBatchStatus.COMPLETED,
+          errorMessage: error?.message,
+          createdCount: summary.create,
+          updatedCount: summary.update,
+          unchangedCount: summary.unchanged,
+          skippedCount: summary.skipped,
+          warningCount: summary.warnings,
+          records: {
+            createMany: {
+              data: recorder.toAuditEntries().map((entry, index) => ({
+                sequence: index + 1,
+                entity: entry.entity,
+                recordId: entry.recordId,
+                action: entry.action,
+                // Round-tripped through JSON so dates are stored as ISO strings.
+                previousValues: entry.previousValues
+                  ? JSON.parse(JSON.stringify(entry.previousValues))
+                  : Prisma.DbNull,
+              })),
+            },
+          },
+        },
+      });
+      return batch.id;
+    } catch (recordError: any) {
+      console.error('Error in UploadBatchService.recordBatch:', recordError);
+      return null;
+    }
+  }
+
+  // Retrieves the upload batches of the colleges in the scope, newest first.
+  public async getUploadHistory(
+    filters: UploadHistoryFilters,
+    scope: CollegeScope
+  ): Promise<UploadBatch[]> {
+    try {
+      const batches = await prisma.uploadBatch.findMany({
+        where: {
+          uploadType: filters.uploadType,
+          ...collegeRecordScopeWhere(scope),
+        },
+        include: { _count: { select: { records: true } } },
+        orderBy: { createdAt: 'desc' },
+        take: filters.limit,
+      });
+      return batches;
+    } catch (error: any) {
+      console.error('Error in UploadBatchService.getUploadHistory:', error);
+      throw new AppError('Failed to retrieve upload history.', 500);
+    }
+  }
+
+  // Retrieves a single upload batch with the records it created or updated.
+  public async getUploadBatchById(
+    id: string,
+    scope: CollegeScope
+  ): Promise<UploadBatch | null> {
+    await this.assertBatchInScope(id, scope);
+
+    try {
+      const batch = await prisma.uploadBatch.findUnique({
+        where: { id },
+        include: { records: { orderBy: RECORD_ORDER } },
+      });
+      return batch;
+    } catch (error: any) {
+      console.error(
+        `Error in UploadBatchService.getUploadBatchById for ID ${id}:`,
+        error
+      );
+      throw new AppError('Failed to retrieve upload batch.', 500);
+    }
+  }
+
+  /**
+   * Rolls an upload batch back, deleting the records it created and restoring the previous
+   * values of the records it updated. Created records are deleted rather than soft deleted,
+   * so that uploading them again does not clash with their unique emails and keys.
+   * The rollback is refused when a later upload changed any of the same records, or when
+   * other records now depend on ones it created.
+   * @param id - The ID of the upload batch.
+   * @param scope - The colleges whose uploads the admin may roll back.
+   * @param rolledBackBy - The ID of the admin rolling the batch back.
+   */
+  public async rollbackUploadBatch(
+    id: string,
+    scope: CollegeScope,
+    rolledBackBy?: string
+  ): Promise<RollbackUploadResult> {
+    await this.assertBatchInScope(id, scope);
+
+    const batch = await prisma.uploadBatch.findUnique({
+      where: { id },
+      include: { records: { orderBy: RECORD_ORDER } },
+    });
+
+    if (!batch) {
+      throw new AppError('Upload batch not found.', 404);
+    }
+    if (batch.status === UploadBatchStatus.ROLLED_BACK) {
+      throw new AppError('Upload batch has already been rolled back.', 409);
+    }
+
+    const recordKeys = new Set(
+      batch.records.map((record) => `${record.entity}:${record.recordId}`)
+    );
+    const laterRecords = await prisma.uploadBatchRecord.findMany({
+      where: {
+        recordId: { in: batch.records.map((record) => record.recordId) },
+        batch: {
+          createdAt: { gt: batch.createdAt },
+          status: { not: UploadBatchStatus.ROLLED_BACK },
+        },
+      },
+      select: { entity: true, recordId: true, batchId: true },
+    });
+    const laterBatchIds = new Set(
+      laterRecords
+        .filter((record) =>
+          recordKeys.has(`${record.entity}:${record.recordId}`)
+        )
+        .map((record) => record.batchId)
+    );
+    if (laterBatchIds.size) {
+      throw new AppError(
+        `Cannot roll back upload: later uploads changed the same records. Roll these batches back first: ${Array.from(
+          laterBatchIds
+        ).join(', ')}.`,
+        409
+      );
+    }
+
+    let deletedCount = 0;
+    let restoredCount = 0;
+
+    try {
+      await prisma.$transaction(async (tx) => {
+        // Undone in reverse of the order they were written, so created records go before the
+        // records they depend on.
+        for (const record of [...batch.records].reverse()) {
+          const delegate = getRollbackDelegate(
+            tx,
+            record.entity as UploadEntity
+          );
+
+          if (record.action === UploadRecordAction.CREATE) {
+            await delegate.deleteMany({ where: { id: record.recordId } });
+            deletedCount++;
+          } else if (record.previousValues) {
+            await delegate.updateMany({
+              where: { id: record.recordId },
+              data: record.previousValues as Record<string, unknown>,
+            });
+            restoredCount++;
+          }
+        }
+
+        await tx.uploadBatch.update({
+          where: { id: batch.id },
+          data: {
+            status: UploadBatchStatus.ROLLED_BACK,
+            rolledBackAt: new Date(),
+            rolledBackBy,
+          },
+        });
+      }, ROLLBACK_TRANSACTION_OPTIONS);
+
+      studentService.clearCache();
+      facultyService.clearCache();
+      return { batchId: batch.id, deletedCount, restoredCount };
+    } catch (error: any) {
+      // P2003 is a foreign key failure and P2014 its emulation under relationMode "prisma".
+      if (error.code === 'P2003' || error.code === 'P2014') {
+        throw new AppError(
+          'Cannot roll back upload: other records now depend on records it created.',
+          409
+        );
+      }
+      console.error(
+        `Error in UploadBatchService.rollbackUploadBatch for ID ${id}:`,
+        error
+      );
+      throw new AppError('Failed to roll back upload batch.', 500);
+    }
+  }
+}
+
+export const uploadBatchService = new UploadBatchService();
@@ -0,0 +1,222 @@
+/**
+ * @file src/services/upload/uploadColumnMapping.service.ts
+ * @description Service layer for saved column mapping profiles.
+ * A profile names the header each field of an upload type is read from, for sheets whose
+ * headers are not among the recognised aliases. Uploads select a profile by its ID.
+ */
+
+import { UploadColumnMapping } from '@prisma/client';
+import { prisma } from '../common/prisma.service';
+import AppError from '../../utils/appError';
+import {
+  ColumnMapping,
+  ColumnMappingUploadType,
+  UPLOAD_COLUMNS,
+  UploadColumn,
+} from './columnMapping';
+import {
+  CollegeScope,
+  assertCollegeRecordInScope,
+  collegeRecordScopeWhere,
+  getSingleCollegeScope,
+} from '../college/collegeScope';
+
+interface CreateColumnMappingInput {
+  uploadType: ColumnMappingUploadType;
+  name: string;
+  mapping: ColumnMapping;
+  // The college the profile is for, optional for admins of a single college.
+  collegeId?: string;
+}
+
+interface UpdateColumnMappingInput {
+  name?: string;
+  mapping?: ColumnMapping;
+}
+
+class UploadColumnMappingService {
+  // Ensures a mapping only names fields of its upload type, each under a different header.
+  private validateMapping(
+    uploadType: ColumnMappingUploadType,
+    mapping: ColumnMapping
+  ): void {
+    const fields = new Set(UPLOAD_COLUMNS[uploadType].map((c) => c.field));
+    const unknownFields = Object.keys(mapping).filter(
+      (field) => !fields.has(field)
+    );
+    if (unknownFields.length) {
+      throw new AppError(
+        `Unknown ${uploadType} fields: ${unknownFields.join(
+          ', '
+        )}. Valid fields are: ${Array.from(fields).join(', ')}.`,
+        400
+      );
+    }
+
+    const headers = Object.values(mapping).map((header) =>
+      header.trim().toLowerCase()
+    );
+    if (new Set(headers).size !== headers.length) {
+      throw new AppError(
+        'Each field must be mapped to a different header.',
+        400
+      );
+    }
+  }
+
+  // Lists the fields of each upload type with the headers they are recognised by.
+  public getUploadColumns(): Record<
+    ColumnMappingUploadType,
+    readonly UploadColumn[]
+  > {
+    return UPLOAD_COLUMNS;
+  }
+
+  // Retrieves the column mapping profiles in the scope, optionally for one upload type.
+  public async getColumnMappings(
+    scope: CollegeScope,
+    uploadType?: ColumnMappingUploadType
+  ): Promise<UploadColumnMapping[]> {
+    try {
+      const columnMappings = await prisma.uploadColumnMapping.findMany({
+        where: {
+          uploadType,
+          isDeleted: false,
+          ...collegeRecordScopeWhere(scope),
+        },
+        orderBy: [{ uploadType: 'asc' }, { name: 'asc' }],
+      });
+      return columnMappings;
+    } catch (error: any) {
+      console.error(
+        'Error in UploadColumnMappingService.getColumnMappings:',
+        error
+      );
+      throw new AppError('Failed to retrieve column mappings.', 500);
+    }
+  }
+
+  // Retrieves a single column mapping profile of a college in the scope.
+  public async getColumnMappingById(
+    id: string,
+    scope: CollegeScope
+  ): Promise<UploadColumnMapping> {
+    const columnMapping = await prisma.uploadColumnMapping.findUnique({
+      where: { id, isDeleted: false },
+    });
+    if (!columnMapping) {
+      throw new AppError('Column mapping not found.', 404);
+    }
+    assertCollegeRecordInScope(scope, columnMapping);
+    return columnMapping;
+  }
+
+  /**
+   * Retrieves the mapping of a profile selected for an upload.
+   * @param id - The ID of the column mapping profile.
+   * @param uploadType - The type of the upload, which the profile must be for.
+   * @param scope - The colleges of the uploader, which the profile must be for.
+   */
+  public async getMappingForUpload(
+    id: string,
+    uploadType: ColumnMappingUploadType,
+    scope: CollegeScope
+  ): Promise<ColumnMapping> {
+    const columnMapping = await this.getColumnMappingById(id, scope);
+    if (columnMapping.uploadType !== uploadType) {
+      throw new AppError(
+        `Column mapping '${columnMapping.name}' is for ${columnMapping.uploadType} uploads, not ${uploadType}.`,
+        400
+      );
+    }
+    return columnMapping.mapping as ColumnMapping;
+  }
+
+  // Saves a new column mapping profile for a college in the scope.
+  public async createColumnMapping(
+    data: CreateColumnMappingInput,
+    scope: CollegeScope,
+    createdBy?: string
+  ): Promise<UploadColumnMapping> {
+    const { collegeId, ...input } = data;
+    const collegeScope = getSingleCollegeScope(scope, collegeId);
+    this.validateMapping(input.uploadType, input.mapping);
+
+    try {
+      const columnMapping = await prisma.uploadColumnMapping.create({
+        data: {
+          ...input,
+          collegeId: collegeScope.collegeIds?.[0],
+          departmentId: collegeScope.departmentIds?.[0],
+          createdBy,
+        },
+      });
+      return columnMapping;
+    } catch (error: any) {
+      console.error(
+        'Error in UploadColumnMappingService.createColumnMapping:',
+        error
+      );
+      throw new AppError('Failed to create column mapping.', 500);
+    }
+  }
+
+  // Updates a column mapping profile; its upload type cannot change.
+  public async updateColumnMapping(
+    id: string,
+    data: UpdateColumnMappingInput,
+    scope: CollegeScope
+  ): Promise<UploadColumnMapping> {
+    const existing = await this.getColumnMappingById(id, scope);
+    if (data.mapping) {
+      this.validateMapping(
+        existing.uploadType as ColumnMappingUploadType,
+        data.mapping
+      );
+    }
+
+    try {
+      const columnMapping = await prisma.uploadColumnMapping.update({
+        where: { id, isDeleted: false },
+        data,
+      });
+      return columnMapping;
+    } catch (error: any) {
+      console.error(
+        `Error in UploadColumnMappingService.updateColumnMapping for ID ${id}:`,
+        error
+      );
+      if (error.code === 'P2025') {
+        throw new AppError('Column mapping not found for update.', 404);
+      }
+      throw new AppError('Failed to update column mapping.', 500);
+    }
+  }
+
+  // Soft deletes a column mapping profile.
+  public async softDeleteColumnMapping(
+    id: string,
+    scope: CollegeScope
+  ): Promise<UploadColumnMapping> {
+    await this.getColumnMappingById(id, scope);
+
+    try {
+      const columnMapping = await prisma.uploadColumnMapping.update({
+        where: { id, isDeleted: false },
+        data: { isDeleted: true },
+      });
+      return columnMapping;
+    } catch (error: any) {
+      console.error(
+        `Error in UploadColumnMappingService.softDeleteColumnMapping for ID ${id}:`,
+        error
+      );
+      if (error.code === 'P2025') {
+        throw new AppError('Column mapping not found for deletion.', 404);
+      }
+      throw new AppError('Failed to soft delete column mapping.', 500);
+    }
+  }
+}
+
+export const uploadColumnMappingService = new UploadColumnMappingService();
@@ -0,0 +1,417 @@
+/**
+ * @file src/services/upload/uploadDiff.ts
+ * @description Change tracking and dry-run support for Excel uploads.
+ * Upload services report every record they create, update or leave unchanged, and every
+ * skipped row, to an UploadDiffRecorder. Dry runs execute the whole upload inside a
+ * transaction that is rolled back once the diff has been collected; real uploads are
+ * recorded as upload batches so they can be rolled back later.
+ */
+
+import { Prisma, UploadRecordAction } from '@prisma/client';
+import { prisma } from '../common/prisma.service';
+import { uploadBatchService } from './uploadBatch.service';
+import { UNRESTRICTED_SCOPE } from '../college/collegeScope';
+
+// The client upload services read and write through: prisma itself or a dry-run transaction.
+export type UploadClient = Prisma.TransactionClient;
+
+export type UploadEntity =
+  | 'college'
+  | 'department'
+  | 'academicYear'
+  | 'semester'
+  | 'division'
+  | 'student'
+  | 'faculty'
+  | 'subject'
+  | 'subjectAllocation'
+  | 'divisionTimetable';
+
+export interface UploadFieldChange {
+  from: unknown;
+  to: unknown;
+}
+
+export interface UploadRecordChange {
+  entity: UploadEntity;
+  key: string;
+  row: number | null;
+  changes?: Record<string, UploadFieldChange>;
+}
+
+export interface UploadRowIssue {
+  row: number | null;
+  reason: string;
+}
+
+// The database record a tracked change was written to.
+export interface TrackedRecord {
+  id: string;
+  // The record's raw values before the upload, when `before` holds normalized values.
+  previous?: Record<string, unknown>;
+}
+
+// A record created or updated by an upload, with the values needed to roll it back.
+export interface UploadAuditEntry {
+  entity: UploadEntity;
+  recordId: string;
+  action: UploadRecordAction;
+  previousValues: Record<string, unknown> | null;
+}
+
+export type UploadType =
+  | 'student-data'
+  | 'faculty-data'
+  | 'subject-data'
+  | 'faculty-matrix';
+
+export type UploadPhase =
+  | 'queued'
+  | 'processing'
+  | 'rolling-back'
+  | 'completed'
+  | 'failed';
+
+export interface UploadProgress {
+  phase: UploadPhase;
+  rowsProcessed: number;
+  rowsTotal: number | null;
+  skipped: number;
+  warnings: UploadRowIssue[];
+}
+
+export type UploadProgressListener = (progress: UploadProgress) => void;
+
+// The uploaded file an upload batch is recorded for.
+export interface UploadFileInfo {
+  fileName: string;
+  uploadedBy?: string;
+  // The college the upload is for, and the department of an uploader bound to one.
+  collegeId?: string;
+  departmentId?: string;
+  // Notified as rows are processed, for uploads running in the background.
+  onProgress?: UploadProgressListener;
+}
+
+export interface UploadSource extends UploadFileInfo {
+  uploadType: UploadType;
+  fileBuffer: Buffer;
+}
+
+export interface UploadDiff {
+  summary: {
+    create: number;
+    update: number;
+    unchanged: number;
+    skipped: number;
+    warnings: number;
+  };
+  create: UploadRecordChange[];
+  update: UploadRecordChange[];
+  unchanged: UploadRecordChange[];
+  skipped: UploadRowIssue[];
+  warnings: UploadRowIssue[];
+}
+
+// Dry runs can touch thousands of rows, so they get more time than Prisma's 5s default.
+const DRY_RUN_TRANSACTION_OPTIONS = { maxWait: 10_000, timeout: 120_000 };
+
+// Progress is reported every this many rows, rather than on every row.
+const PROGRESS_INTERVAL = 50;
+
+// Normalizes values so dates and JSON compare by content, whatever their key order.
+const comparable = (value: unknown): unknown => {
+  if (value instanceof Date) return value.toISOString();
+  if (value !== null && typeof value === 'object') {
+    return JSON.stringify(value, (_key, nested) =>
+      nested && typeof nested === 'object' && !Array.isArray(nested)
+        ? Object.fromEntries(
+            Object.entries(nested).sort(([a], [b]) => a.localeCompare(b))
+          )
+        : nested
+    );
+  }
+  return value ?? null;
+};
+
+// The number of entries a recorder held at some point, so a rolled-back row's entries can be dropped.
+export interface UploadDiffMark {
+  created: number;
+  updated: number;
+  unchanged: number;
+  skipped: number;
+  warnings: number;
+  auditEntries: number;
+}
+
+export class UploadDiffRecorder {
+  private readonly created: UploadRecordChange[] = [];
+  private readonly updated: UploadRecordChange[] = [];
+  private readonly unchanged: UploadRecordChange[] = [];
+  private readonly skipped: UploadRowIssue[] = [];
+  private readonly warnings: UploadRowIssue[] = [];
+  private readonly auditEntries = new Map<string, UploadAuditEntry>();
+  private rowsProcessed = 0;
+  private rowsTotal: number | null = null;
+
+  constructor(private readonly onProgress?: UploadProgressListener) {}
+
+  /**
+   * Records a record as created, updated or unchanged by comparing its state before and after.
+   * Only the fields present in `after` are compared.
+   * @param before - The existing record, or null when it did not exist.
+   * @param after - The field values the upload writes.
+   * @param record - The written record, so real uploads can be rolled back.
+   */
+  public track(
+    entity: UploadEntity,
+    key: string,
+    before: Record<string, unknown> | null,
+    after: Record<string, unknown>,
+    row: number | null = null,
+    record?: TrackedRecord
+  ): void {
+    if (!before) {
+      this.created.push({ entity, key, row });
+      if (record) {
+        this.audit(entity, record.id, UploadRecordAction.CREATE, null);
+      }
+      return;
+    }
+
+    const changes: Record<string, UploadFieldChange> = {};
+    for (const [field, value] of Object.entries(after)) {
+      if (comparable(before[field]) !== comparable(value)) {
+        changes[field] = { from: before[field] ?? null, to: value ?? null };
+      }
+    }
+
+    if (Object.keys(changes).length) {
+      this.updated.push({ entity, key, row, changes });
+      if (record) {
+        const previous = record.previous ?? before;
+        this.audit(
+          entity,
+          record.id,
+          UploadRecordAction.UPDATE,
+          Object.fromEntries(
+            Object.keys(changes).map((field) => [
+              field,
+              previous[field] ?? null,
+            ])
+          )
+        );
+      }
+    } else {
+      this.unchanged.push({ entity, key, row });
+    }
+  }
+
+  // Keeps the earliest known value of each field, so rollback restores the state before the upload.
+  private audit(
+    entity: UploadEntity,
+    recordId: string,
+    action: UploadRecordAction,
+    previousValues: Record<string, unknown> | null
+  ): void {
+    const auditKey = `${entity}:${recordId}`;
+    const existing = this.auditEntries.get(auditKey);
+    if (!existing) {
+      this.auditEntries.set(auditKey, {
+        entity,
+        recordId,
+        action,
+        previousValues,
+      });
+      return;
+    }
+    if (existing.previousValues && previousValues) {
+      existing.previousValues = {
+        ...previousValues,
+        ...existing.previousValues,
+      };
+    }
+  }
+
+  // Records a row that was not imported.
+  public skip(row: number | null, reason: string): void {
+    this.skipped.push({ row, reason });
+  }
+
+  // Records a row that was imported with an adjustment worth reviewing.
+  public warn(row: number | null, reason: string): void {
+    this.warnings.push({ row, reason });
+  }
+
+  // Records how many rows have been processed, notifying the progress listener periodically.
+  public reportProgress(rowsProcessed: number, rowsTotal: number): void {
+    this.rowsProcessed = rowsProcessed;
+    this.rowsTotal = rowsTotal;
+    if (
+      rowsProcessed % PROGRESS_INTERVAL === 0 ||
+      rowsProcessed === rowsTotal
+    ) {
+      this.notify('processing');
+    }
+  }
+
+  // Notifies the progress listener of the upload's current phase.
+  public notify(phase: UploadPhase): void {
+    this.onProgress?.({
+      phase,
+      rowsProcessed: this.rowsProcessed,
+      rowsTotal: this.rowsTotal,
+      skipped: this.skipped.length,
+      warnings: this.warnings,
+    });
+  }
+
+  public toDiff(): UploadDiff {
+    return {
+      summary: {
+        create: this.created.length,
+        update: this.updated.length,
+        unchanged: this.unchanged.length,
+        skipped: this.skipped.length,
+        warnings: this.warnings.length,
+      },
+      create: this.created,
+      update: this.updated,
+      unchanged: this.unchanged,
+      skipped: this.skipped,
+      warnings: this.warnings,
+    };
+  }
+
+  // Marks the entries recorded so far, before a row whose writes may be rolled back.
+  public mark(): UploadDiffMark {
+    return {
+      created: this.created.length,
+      updated: this.updated.length,
+      unchanged: this.unchanged.length,
+      skipped: this.skipped.length,
+      warnings: this.warnings.length,
+      auditEntries: this.auditEntries.size,
+    };
+  }
+
+  // Drops the entries recorded since a mark, after the writes they describe were rolled back.
+  public truncate(mark: UploadDiffMark): void {
+    this.created.length = mark.created;
+    this.updated.length = mark.updated;
+    this.unchanged.length = mark.unchanged;
+    this.skipped.length = mark.skipped;
+    this.warnings.length = mark.warnings;
+    Array.from(this.auditEntries.keys())
+      .slice(mark.auditEntries)
+      .forEach((auditKey) => this.auditEntries.delete(auditKey));
+  }
+
+  // Lists the records created or updated so far, in the order they were first written.
+  public toAuditEntries(): UploadAuditEntry[] {
+    return Array.from(this.auditEntries.values());
+  }
+}
+
+// Thrown after a dry run completes to roll its transaction back.
+class DryRunRollback extends Error {}
+
+// A savepoint around the writes of one uploaded row.
+export interface UploadRowSavepoint {
+  // Undoes what the row wrote, and what it reported to the recorder, after one of its writes failed.
+  rollback(): Promise<void>;
+  // Ends the savepoint, whether or not it was rolled back.
+  release(): Promise<void>;
+}
+
+/**
+ * Starts a savepoint for the writes of one row, so a failed write skips only that row.
+ * Dry runs write inside one transaction, which Postgres aborts on its first failed statement;
+ * real uploads write outside a transaction and get a savepoint that does nothing, keeping
+ * what the row already wrote on the record.
+ * @param recorder - The recorder the row reports to, returned to its current state on rollback.
+ */
+export const startUploadRow = async (
+  db: UploadClient,
+  recorder: UploadDiffRecorder
+): Promise<UploadRowSavepoint> => {
+  if (db === prisma) {
+    return { rollback: async () => {}, release: async () => {} };
+  }
+  await db.$executeRaw`SAVEPOINT upload_row`;
+  const mark = recorder.mark();
+  return {
+    rollback: async () => {
+      await db.$executeRaw`ROLLBACK TO SAVEPOINT upload_row`;
+      recorder.truncate(mark);
+    },
+    release: async () => {
+      await db.$executeRaw`RELEASE SAVEPOINT upload_row`;
+    },
+  };
+};
+
+/**
+ * Runs an upload against the database, or inside a rolled-back transaction for dry runs.
+ * Real uploads of a known file are recorded as an upload batch. When one fails part way,
+ * its batch is recorded as failed and whatever it wrote is rolled back.
+ * @param dryRun - When true, nothing the upload writes is committed.
+ * @param upload - The upload to run with the client and recorder it must use.
+ * @param source - The uploaded file to record the upload batch for.
+ * @returns The upload's result together with the diff it recorded and its upload batch ID.
+ */
+export const runUpload = async <T>(
+  dryRun: boolean,
+  upload: (db: UploadClient, recorder: UploadDiffRecorder) => Promise<T>,
+  source?: UploadSource
+): Promise<
+  T & { dryRun: boolean; diff: UploadDiff; uploadBatchId: string | null }
+> => {
+  const recorder = new UploadDiffRecorder(source?.onProgress);
+
+  if (!dryRun) {
+    let result: T;
+    try {
+      result = await upload(prisma, recorder);
+    } catch (error: any) {
+      const failedBatchId = source
+        ? await uploadBatchService.recordBatch(source, recorder, error)
+        : null;
+      if (failedBatchId) {
+        recorder.notify('rolling-back');
+        await uploadBatchService
+          .rollbackUploadBatch(failedBatchId, UNRESTRICTED_SCOPE)
+          .catch((rollbackError) =>
+            console.error(
+              `Failed to roll back failed upload batch ${failedBatchId}:`,
+              rollbackError
+            )
+          );
+      }
+      throw error;
+    }
+    const uploadBatchId = source
+      ? await uploadBatchService.recordBatch(source, recorder)
+      : null;
+    return { ...result, dryRun, diff: recorder.toDiff(), uploadBatchId };
+  }
+
+  let result: T | undefined;
+  try {
+    await prisma.$transaction(async (tx) => {
+      result = await upload(tx, recorder);
+      throw new DryRunRollback();
+    }, DRY_RUN_TRANSACTION_OPTIONS);
+  } catch (error) {
+    if (!(error instanceof DryRunRollback)) {
+      throw error;
+    }
+  }
+
+  return {
+    ...(result as T),
+    dryRun,
+    diff: recorder.toDiff(),
+    uploadBatchId: null,
+  };
+};
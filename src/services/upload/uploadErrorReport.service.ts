@@ -0,0 +1,210 @@
+/**
+ * @file src/services/upload/uploadErrorReport.service.ts
+ * @description Service layer for upload error reports.
+ * Keeps a copy of uploaded workbooks that had rejected rows, and renders it back with an
+ * "Error" column and the rejected rows highlighted so staff can fix and re-upload them.
+ */
+
+import { Prisma } from '@prisma/client';
+import ExcelJS from 'exceljs';
+import { prisma } from '../common/prisma.service';
+import AppError from '../../utils/appError';
+import { loadWorkbook } from '../../utils/spreadsheet';
+import { UploadRowIssue } from './uploadDiff';
+import {
+  CollegeScope,
+  assertCollegeRecordInScope,
+} from '../college/collegeScope';
+
+export type UploadErrorReportType = 'student-data' | 'override-students';
+
+interface CreateErrorReportInput {
+  uploadType: UploadErrorReportType;
+  fileName: string;
+  fileBuffer: Buffer;
+  rejectedRows: UploadRowIssue[];
+  createdBy?: string;
+  // The college the upload was for, and the department of an uploader bound to one.
+  collegeId?: string;
+  departmentId?: string;
+}
+
+export interface UploadErrorReportSummary {
+  id: string;
+  rejectedRows: number;
+  expiresAt: Date;
+  downloadUrl: string;
+}
+
+interface ErrorReportWorkbook {
+  fileName: string;
+  buffer: Buffer;
+}
+
+// Error reports hold a copy of the uploaded file, so they are only kept for a week.
+const ERROR_REPORT_RETENTION_DAYS = 7;
+
+const HEADER_ROW = 1;
+
+const REJECTED_ROW_FILL: ExcelJS.Fill = {
+  type: 'pattern',
+  pattern: 'solid',
+  fgColor: { argb: 'FFFFC7CE' },
+};
+
+const ERROR_FONT: Partial<ExcelJS.Font> = { color: { argb: 'FF9C0006' } };
+
+// Skip messages repeat the row number, which the report already shows by position.
+const ROW_PREFIX_PATTERN = /^Row \d+:\s*/;
+
+class UploadErrorReportService {
+  // Groups the rejection reasons of each row, ignoring issues not tied to a row.
+  private groupByRow(rejectedRows: UploadRowIssue[]): Map<number, string[]> {
+    const reasons = new Map<number, string[]>();
+    for (const { row, reason } of rejectedRows) {
+      if (row === null || row <= HEADER_ROW) continue;
+      const list = reasons.get(row) ?? [];
+      list.push(reason.replace(ROW_PREFIX_PATTERN, ''));
+      reasons.set(row, list);
+    }
+    return reasons;
+  }
+
+  // Builds the report file name from the uploaded file's name.
+  private toReportFileName(fileName: string): string {
+    const baseName = fileName.replace(/\.[^.]+$/, '') || 'upload';
+    return `${baseName.replace(/["\\\r\n]/g, '')}-errors.xlsx`;
+  }
+
+  /**
+   * Stores an error report for an upload that rejected rows.
+   * @param input - The uploaded file and the rows it rejected.
+   * @returns The stored report, or null when no row was rejected.
+   */
+  public async createReport(
+    input: CreateErrorReportInput
+  ): Promise<UploadErrorReportSummary | null> {
+    const reasons = this.groupByRow(input.rejectedRows);
+    if (!reasons.size) {
+      return null;
+    }
+
+    try {
+      await prisma.uploadErrorReport.deleteMany({
+        where: { expiresAt: { lt: new Date() } },
+      });
+
+      const report = await prisma.uploadErrorReport.create({
+        data: {
+          uploadType: input.uploadType,
+          fileName: input.fileName,
+          originalFile: input.fileBuffer,
+          rejectedRows: Array.from(reasons, ([row, list]) => ({
+            row,
+            reason: list.join('; '),
+          })) as Prisma.InputJsonValue,
+          createdBy: input.createdBy,
+          collegeId: input.collegeId,
+          departmentId: input.departmentId,
+          expiresAt: new Date(
+            Date.now() + ERROR_REPORT_RETENTION_DAYS * 24 * 60 * 60 * 1000
+          ),
+        },
+      });
+
+      return {
+        id: report.id,
+        rejectedRows: reasons.size,
+        expiresAt: report.expiresAt,
+        downloadUrl: `/api/v1/upload/error-reports/${report.id}`,
+      };
+    } catch (error: any) {
+      console.error('Error in UploadErrorReportService.createReport:', error);
+      throw new AppError('Failed to store upload error report.', 500);
+    }
+  }
+
+  /**
+   * Renders a stored error report as a workbook.
+   * @param id - The error report ID returned by the upload.
+   * @param rejectedOnly - When true, accepted rows are removed so the file can be re-uploaded as is.
+   * @param scope - The colleges whose uploads the admin may see.
+   */
+  public async getReportWorkbook(
+    id: string,
+    rejectedOnly: boolean,
+    scope: CollegeScope
+  ): Promise<ErrorReportWorkbook> {
+    const report = await prisma.uploadErrorReport.findUnique({
+      where: { id },
+    });
+
+    if (!report || report.expiresAt < new Date()) {
+      throw new AppError('Upload error report not found or has expired.', 404);
+    }
+    assertCollegeRecordInScope(scope, report);
+
+    const reasons = new Map(
+      (report.rejectedRows as unknown as UploadRowIssue[]).map(
+        ({ row, reason }) => [row as number, reason]
+      )
+    );
+
+    try {
+      // CSV uploads are loaded as a workbook too, so every report is an .xlsx file.
+      const workbook = await loadWorkbook(report.originalFile);
+      const worksheet = workbook.getWorksheet(1);
+
+      if (!worksheet) {
+        throw new AppError('The uploaded file has no worksheet.', 500);
+      }
+
+      const lastRow = worksheet.rowCount;
+      const errorColumn = worksheet.columnCount + 1;
+
+      const headerCell = worksheet.getRow(HEADER_ROW).getCell(errorColumn);
+      headerCell.value = 'Error';
+      headerCell.font = { ...ERROR_FONT, bold: true };
+      headerCell.fill = REJECTED_ROW_FILL;
+      worksheet.getColumn(errorColumn).width = 60;
+
+      for (let rowNumber = HEADER_ROW + 1; rowNumber <= lastRow; rowNumber++) {
+        const reason = reasons.get(rowNumber);
+        const row = worksheet.getRow(rowNumber);
+        if (!reason || !row.hasValues) continue;
+
+        for (let column = 1; column <= errorColumn; column++) {
+          row.getCell(column).fill = REJECTED_ROW_FILL;
+        }
+        const errorCell = row.getCell(errorColumn);
+        errorCell.value = reason;
+        errorCell.font = ERROR_FONT;
+        errorCell.alignment = { wrapText: true, vertical: 'top' };
+      }
+
+      // Rows are removed bottom-up so the remaining row numbers stay valid.
+      if (rejectedOnly) {
+        for (let rowNumber = lastRow; rowNumber > HEADER_ROW; rowNumber--) {
+          const row = worksheet.getRow(rowNumber);
+          if (!reasons.has(rowNumber) || !row.hasValues) {
+            worksheet.spliceRows(rowNumber, 1);
+          }
+        }
+      }
+
+      return {
+        fileName: this.toReportFileName(report.fileName),
+        buffer: Buffer.from(await workbook.xlsx.writeBuffer()),
+      };
+    } catch (error: any) {
+      console.error(
+        `Error in UploadErrorReportService.getReportWorkbook for ID ${id}:`,
+        error
+      );
+      if (error instanceof AppError) throw error;
+      throw new AppError('Failed to generate upload error report.', 500);
+    }
+  }
+}
+
+export const uploadErrorReportService = new UploadErrorReportService();
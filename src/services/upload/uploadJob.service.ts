@@ -0,0 +1,284 @@
+/**
+ * @file src/services/upload/uploadJob.service.ts
+ * @description Service layer for background upload jobs.
+ * Runs queued uploads through the matching upload service and reports the progress and
+ * outcome of their jobs.
+ */
+
+import { Job } from 'bullmq';
+import AppError from '../../utils/appError';
+import {
+  CollegeScope,
+  assertCollegeRecordInScope,
+} from '../college/collegeScope';
+import { studentDataUploadService } from './studentData.service';
+import { facultyDataUploadService } from './facultyData.service';
+import { subjectDataUploadService } from './subjectData.service';
+import { facultyMatrixUploadService } from './facultyMatrix.service';
+import { uploadErrorReportService } from './uploadErrorReport.service';
+import { UploadJobData, uploadQueue } from './queue';
+import {
+  UploadFileInfo,
+  UploadPhase,
+  UploadProgress,
+  UploadProgressListener,
+  UploadType,
+} from './uploadDiff';
+
+type UploadJobResult = Record<string, unknown>;
+
+interface UploadJobStatus extends Omit<UploadProgress, 'phase'> {
+  id: string;
+  uploadType: UploadType;
+  fileName: string;
+  dryRun: boolean;
+  phase: UploadPhase;
+  result: UploadJobResult | null;
+  error: string | null;
+  createdAt: Date;
+  finishedAt: Date | null;
+}
+
+const DRY_RUN_MESSAGE = 'Dry run complete. No changes were saved.';
+
+class UploadJobService {
+  // Processes a queued student data upload.
+  private async processStudentData(
+    data: UploadJobData,
+    fileBuffer: Buffer,
+    file: UploadFileInfo
+  ): Promise<UploadJobResult> {
+    const result = await studentDataUploadService.processStudentData(
+      fileBuffer,
+      data.collegeScope,
+      data.dryRun,
+      file,
+      data.columnMapping
+    );
+
+    const errorReport = await uploadErrorReportService.createReport({
+      uploadType: 'student-data',
+      fileName: data.fileName,
+      fileBuffer,
+      rejectedRows: result.diff.skipped,
+      createdBy: data.uploadedBy,
+      collegeId: file.collegeId,
+      departmentId: file.departmentId,
+    });
+
+    return {
+      message: data.dryRun ? DRY_RUN_MESSAGE : result.message,
+      rowsAffected: result.rowsAffected,
+      errorReport,
+      ...(data.dryRun
+        ? { dryRun: true, diff: result.diff }
+        : { uploadBatchId: result.uploadBatchId }),
+    };
+  }
+
+  // Processes a queued faculty data upload.
+  private async processFacultyData(
+    data: UploadJobData,
+    fileBuffer: Buffer,
+    file: UploadFileInfo
+  ): Promise<UploadJobResult> {
+    const result = await facultyDataUploadService.processFacultyData(
+      fileBuffer,
+      data.collegeScope,
+      data.dryRun,
+      file,
+      data.columnMapping
+    );
+
+    return {
+      message: data.dryRun ? DRY_RUN_MESSAGE : result.message,
+      rowsAffected: result.rowsAffected,
+      ...(data.dryRun
+        ? { dryRun: true, diff: result.diff }
+        : { uploadBatchId: result.uploadBatchId }),
+    };
+  }
+
+  // Processes a queued subject data upload.
+  private async processSubjectData(
+    data: UploadJobData,
+    fileBuffer: Buffer,
+    file: UploadFileInfo
+  ): Promise<UploadJobResult> {
+    const result = await subjectDataUploadService.processSubjectData(
+      fileBuffer,
+      data.collegeScope,
+      data.dryRun,
+      file,
+      data.columnMapping
+    );
+
+    return {
+      message: data.dryRun ? DRY_RUN_MESSAGE : result.message,
+      rowsAffected: result.rowsAffected,
+      ...(data.dryRun
+        ? { dryRun: true, diff: result.diff }
+        : { uploadBatchId: result.uploadBatchId }),
+    };
+  }
+
+  // Processes a queued faculty matrix upload.
+  private async processFacultyMatrix(
+    data: UploadJobData,
+    fileBuffer: Buffer,
+    file: UploadFileInfo
+  ): Promise<UploadJobResult> {
+    if (!data.facultyMatrix) {
+      throw new AppError('Faculty matrix upload is missing its options.', 400);
+    }
+    const { academicYear, semesterRun, deptAbbreviation } = data.facultyMatrix;
+
+    const result = await facultyMatrixUploadService.processFacultyMatrix(
+      fileBuffer,
+      academicYear,
+      semesterRun,
+      deptAbbreviation,
+      data.collegeScope,
+      data.dryRun,
+      file
+    );
+
+    const hasBackendErrors =
+      result.missingFaculties.length > 0 || result.missingSubjects.length > 0;
+    const hasParseErrors = result.parseErrors.length > 0;
+    const hasParseWarnings = result.parseWarnings.length > 0;
+    const hasAnyIssues = hasBackendErrors || hasParseErrors || hasParseWarnings;
+
+    let statusMessage = result.message;
+    if (data.dryRun) {
+      statusMessage = DRY_RUN_MESSAGE;
+    } else if (!result.parseSuccess) {
+      statusMessage =
+        'Faculty matrix processing completed with parse errors. Please review the issues.';
+    } else if (hasAnyIssues) {
+      statusMessage =
+        'Faculty matrix processing completed with some warnings. Please review the issues.';
+    }
+
+    return {
+      message: statusMessage,
+      rowsAffected: result.rowsAffected,
+      totalRowsSkippedDueToMissingEntities:
+        result.totalRowsSkippedDueToMissingEntities,
+      missingFaculties: result.missingFaculties,
+      missingSubjects: result.missingSubjects,
+      skippedRowsDetails: result.skippedRowsDetails,
+      // Parse results keep their original response keys for existing clients.
+      flaskWarnings: result.parseWarnings,
+      flaskErrors: result.parseErrors,
+      flaskSuccess: result.parseSuccess,
+      ...(data.dryRun
+        ? { dryRun: true, diff: result.diff }
+        : { uploadBatchId: result.uploadBatchId }),
+    };
+  }
+
+  /**
+   * Runs a queued upload.
+   * @param data - The job's upload data.
+   * @param onProgress - Notified as the upload's rows are processed.
+   * @returns The upload's result, as returned by the job status endpoint.
+   */
+  public async processUpload(
+    data: UploadJobData,
+    onProgress?: UploadProgressListener
+  ): Promise<UploadJobResult> {
+    const fileBuffer = Buffer.from(data.fileBase64, 'base64');
+    const file: UploadFileInfo = {
+      fileName: data.fileName,
+      uploadedBy: data.uploadedBy,
+      collegeId: data.collegeScope.collegeIds?.[0],
+      departmentId: data.collegeScope.departmentIds?.[0],
+      onProgress,
+    };
+
+    switch (data.uploadType) {
+      case 'student-data':
+        return this.processStudentData(data, fileBuffer, file);
+      case 'faculty-data':
+        return this.processFacultyData(data, fileBuffer, file);
+      case 'subject-data':
+        return this.processSubjectData(data, fileBuffer, file);
+      case 'faculty-matrix':
+        return this.processFacultyMatrix(data, fileBuffer, file);
+      default:
+        throw new AppError(`Unknown upload type '${data.uploadType}'.`, 400);
+    }
+  }
+
+  // Derives an upload's phase from its job state and last reported progress.
+  private getPhase(
+    state: string,
+    progress: UploadProgress | null
+  ): UploadPhase {
+    if (state === 'completed') return 'completed';
+    if (state === 'failed') return 'failed';
+    if (state === 'active') return progress?.phase ?? 'processing';
+    return 'queued';
+  }
+
+  /**
+   * Retrieves the progress and outcome of an upload job, for its uploader or an admin of the
+   * college and department it was uploaded to.
+   * @param id - The job ID returned when the upload was queued.
+   * @param scope - The colleges and departments whose uploads the admin may see.
+   * @param adminId - The ID of the admin asking.
+   * @throws AppError 403 when the job is another admin's upload outside the scope.
+   */
+  public async getUploadJob(
+    id: string,
+    scope: CollegeScope,
+    adminId?: string
+  ): Promise<UploadJobStatus> {
+    let job: Job<UploadJobData, UploadJobResult> | undefined;
+    let state: string;
+    try {
+      job = await uploadQueue.getJob(id);
+      state = job ? await job.getState() : 'unknown';
+    } catch (error: any) {
+      console.error(
+        `Error in UploadJobService.getUploadJob for ID ${id}:`,
+        error
+      );
+      throw new AppError('Failed to retrieve upload job.', 500);
+    }
+
+    if (!job) {
+      throw new AppError('Upload job not found or has expired.', 404);
+    }
+    if (!adminId || job.data.uploadedBy !== adminId) {
+      assertCollegeRecordInScope(scope, {
+        collegeId: job.data.collegeScope.collegeIds?.[0] ?? null,
+        departmentId: job.data.collegeScope.departmentIds?.[0] ?? null,
+      });
+    }
+
+    const progress =
+      typeof job.progress === 'object'
+        ? (job.progress as unknown as UploadProgress)
+        : null;
+
+    return {
+      id: job.id as string,
+      uploadType: job.data.uploadType,
+      fileName: job.data.fileName,
+      dryRun: job.data.dryRun,
+      phase: this.getPhase(state, progress),
+      rowsProcessed: progress?.rowsProcessed ?? 0,
+      rowsTotal: progress?.rowsTotal ?? null,
+      skipped: progress?.skipped ?? 0,
+      warnings: progress?.warnings ?? [],
+      result: job.returnvalue ?? null,
+      error: job.failedReason ?? null,
+      createdAt: new Date(job.timestamp),
+      finishedAt: job.finishedOn ? new Date(job.finishedOn) : null,
+    };
+  }
+}
+
+export const uploadJobService = new UploadJobService();
@@ -0,0 +1,429 @@
+/**
+ * @file src/services/upload/uploadTemplate.service.ts
+ * @description Service layer for blank upload templates.
+ * Builds an .xlsx template for each upload type with the expected headers, an example row,
+ * dropdowns filled from the current departments, designations, subject types and academic
+ * years, and a hidden instructions sheet.
+ */
+
+import ExcelJS from 'exceljs';
+import { Designation, SubjectType } from '@prisma/client';
+import { prisma } from '../common/prisma.service';
+import AppError from '../../utils/appError';
+import { CollegeScope, departmentScopeWhere } from '../college/collegeScope';
+import {
+  ColumnMappingUploadType,
+  HEADER_ROW,
+  UPLOAD_COLUMNS,
+  UploadColumn,
+} from './columnMapping';
+
+export type UploadTemplateType =
+  | 'student'
+  | 'faculty'
+  | 'subject'
+  | 'faculty-matrix'
+  | 'override-students';
+
+interface TemplateWorkbook {
+  fileName: string;
+  buffer: Buffer;
+}
+
+type ChoiceListName =
+  | 'departments'
+  | 'designations'
+  | 'subjectTypes'
+  | 'academicYears'
+  | 'days';
+
+type ChoiceLists = Record<ChoiceListName, string[]>;
+
+interface ColumnTemplate {
+  uploadType: ColumnMappingUploadType;
+  sheetName: string;
+  // The dropdown offered for each field that has one.
+  choices: Record<string, ChoiceListName>;
+}
+
+const COLUMN_TEMPLATES: Record<
+  Exclude<UploadTemplateType, 'faculty-matrix'>,
+  ColumnTemplate
+> = {
+  student: {
+    uploadType: 'student-data',
+    sheetName: 'Students',
+    choices: {
+      deptAbbreviation: 'departments',
+      academicYearString: 'academicYears',
+    },
+  },
+  faculty: {
+    uploadType: 'faculty-data',
+    sheetName: 'Faculty',
+    choices: { designationString: 'designations', deptInput: 'departments' },
+  },
+  subject: {
+    uploadType: 'subject-data',
+    sheetName: 'Subjects',
+    choices: {
+      isElectiveStr: 'subjectTypes',
+      deptAbbreviationInput: 'departments',
+    },
+  },
+  'override-students': {
+    uploadType: 'override-students',
+    sheetName: 'Students',
+    choices: { department: 'departments' },
+  },
+};
+
+const CHOICE_LIST_HEADERS: Record<ChoiceListName, string> = {
+  departments: 'Departments',
+  designations: 'Designations',
+  subjectTypes: 'Subject Types',
+  academicYears: 'Academic Years',
+  days: 'Days',
+};
+
+const TEMPLATE_DAYS = [
+  'Monday',
+  'Tuesday',
+  'Wednesday',
+  'Thursday',
+  'Friday',
+  'Saturday',
+];
+
+// Dropdowns are added to this many rows below the header.
+const TEMPLATE_ROWS = 500;
+
+// Older sheets number their rows in the first column, so templates keep it.
+const SERIAL_NUMBER_HEADER = 'Sr No';
+
+// Used as faculty columns when the matrix template is not for a department with faculty.
+const PLACEHOLDER_FACULTY = ['FAC1', 'FAC2', 'FAC3'];
+
+const HEADER_FILL: ExcelJS.Fill = {
+  type: 'pattern',
+  pattern: 'solid',
+  fgColor: { argb: 'FF1F4E78' },
+};
+
+const EXAMPLE_FONT: Partial<ExcelJS.Font> = {
+  italic: true,
+  color: { argb: 'FF808080' },
+};
+
+const LISTS_SHEET_NAME = 'Lists';
+const INSTRUCTIONS_SHEET_NAME = 'Instructions';
+
+class UploadTemplateService {
+  // Creates an empty workbook with standard metadata.
+  private createWorkbook(): ExcelJS.Workbook {
+    const workbook = new ExcelJS.Workbook();
+    workbook.creator = 'Reflectify';
+    workbook.created = new Date();
+    return workbook;
+  }
+
+  // Styles the header row of a sheet and freezes it.
+  private styleHeaderRow(worksheet: ExcelJS.Worksheet): void {
+    const headerRow = worksheet.getRow(HEADER_ROW);
+    headerRow.font = { bold: true, color: { argb: 'FFFFFFFF' } };
+    headerRow.fill = HEADER_FILL;
+    headerRow.alignment = { vertical: 'middle', horizontal: 'center' };
+    headerRow.height = 20;
+    worksheet.views = [{ state: 'frozen', ySplit: HEADER_ROW }];
+  }
+
+  // Loads the values offered in template dropdowns from the database.
+  private async getChoiceLists(scope: CollegeScope): Promise<ChoiceLists> {
+    try {
+      const [departments, academicYears] = await Promise.all([
+        prisma.department.findMany({
+          where: { isDeleted: false, ...departmentScopeWhere(scope) },
+          select: { abbreviation: true },
+          distinct: ['abbreviation'],
+          orderBy: { abbreviation: 'asc' },
+        }),
+        prisma.academicYear.findMany({
+          where: { isDeleted: false },
+          select: { yearString: true },
+          orderBy: { yearString: 'desc' },
+        }),
+      ]);
+
+      return {
+        departments: departments.map((d) => d.abbreviation),
+        designations: Object.values(Designation),
+        subjectTypes: Object.values(SubjectType),
+        academicYears: academicYears.map((y) => y.yearString),
+        days: TEMPLATE_DAYS,
+      };
+    } catch (error: any) {
+      console.error('Error in UploadTemplateService.getChoiceLists:', error);
+      throw new AppError('Failed to load upload template values.', 500);
+    }
+  }
+
+  /**
+   * Writes each dropdown list into a column of a hidden sheet.
+   * @returns The range formula of each list, for use in data validations.
+   */
+  private addListsSheet(
+    workbook: ExcelJS.Workbook,
+    lists: Partial<ChoiceLists>
+  ): Partial<Record<ChoiceListName, string>> {
+    const worksheet = workbook.addWorksheet(LISTS_SHEET_NAME, {
+      state: 'hidden',
+    });
+    const ranges: Partial<Record<ChoiceListName, string>> = {};
+
+    Object.entries(lists).forEach(([name, values], index) => {
+      if (!values?.length) return;
+      const column = worksheet.getColumn(index + 1);
+      column.values = [CHOICE_LIST_HEADERS[name as ChoiceListName], ...values];
+      column.width = 20;
+      ranges[name as ChoiceListName] =
+        `${LISTS_SHEET_NAME}!$${column.letter}$2:$${column.letter}$${
+          values.length + 1
+        }`;
+    });
+
+    return ranges;
+  }
+
+  // Restricts a column's cells below the header to the values of a list.
+  private addDropdown(
+    worksheet: ExcelJS.Worksheet,
+    columnNumber: number,
+    range: string,
+    label: string
+  ): void {
+    for (
+      let rowNumber = HEADER_ROW + 1;
+      rowNumber <= TEMPLATE_ROWS;
+      rowNumber++
+    ) {
+      worksheet.getRow(rowNumber).getCell(columnNumber).dataValidation = {
+        type: 'list',
+        allowBlank: true,
+        formulae: [range],
+        showErrorMessage: true,
+        errorTitle: `Invalid ${label}`,
+        error: `Choose a ${label} from the list.`,
+      };
+    }
+  }
+
+  // Adds the hidden instructions sheet, with general notes followed by a table of rows.
+  private addInstructionsSheet(
+    workbook: ExcelJS.Workbook,
+    notes: string[],
+    header: string[],
+    rows: string[][]
+  ): void {
+    const worksheet = workbook.addWorksheet(INSTRUCTIONS_SHEET_NAME, {
+      state: 'hidden',
+    });
+    worksheet.columns = header.map((_, index) => ({
+      width: index === 0 ? 24 : 48,
+    }));
+
+    for (const note of notes) {
+      worksheet.addRow([note]);
+    }
+    worksheet.addRow([]);
+    const headerRow = worksheet.addRow(header);
+    headerRow.font = { bold: true };
+    for (const row of rows) {
+      worksheet.addRow(row).alignment = { wrapText: true, vertical: 'top' };
+    }
+  }
+
+  // Builds the template of a sheet read by column headers.
+  private buildColumnTemplate(
+    workbook: ExcelJS.Workbook,
+    template: ColumnTemplate,
+    lists: ChoiceLists
+  ): void {
+    const columns = UPLOAD_COLUMNS[template.uploadType];
+    const worksheet = workbook.addWorksheet(template.sheetName);
+
+    // Columns keep their original positions so the template also reads without headers.
+    const columnCount = Math.max(...columns.map((c) => c.position));
+    const byPosition = new Map<number, UploadColumn>(
+      columns.map((column) => [column.position, column])
+    );
+
+    const usedLists: Partial<ChoiceLists> = {};
+    for (const listName of Object.values(template.choices)) {
+      usedLists[listName] = lists[listName];
+    }
+    const ranges = this.addListsSheet(workbook, usedLists);
+
+    const headerRow = worksheet.getRow(HEADER_ROW);
+    const exampleRow = worksheet.getRow(HEADER_ROW + 1);
+    for (let position = 1; position <= columnCount; position++) {
+      const column = byPosition.get(position);
+      const headerCell = headerRow.getCell(position);
+      const exampleCell = exampleRow.getCell(position);
+      worksheet.getColumn(position).width = Math.max(
+        (column?.label.length ?? 0) + 6,
+        column ? 18 : 8
+      );
+
+      if (!column) {
+        headerCell.value = SERIAL_NUMBER_HEADER;
+        exampleCell.value = 1;
+        continue;
+      }
+
+      headerCell.value = column.label;
+      headerCell.note = `${column.description}${
+        column.required ? ' Required.' : ' Optional.'
+      }`;
+
+      // Example values come from the dropdown, so the example row is valid as is.
+      const listName = template.choices[column.field];
+      const choices = listName ? lists[listName] : [];
+      exampleCell.value =
+        !choices.length || choices.includes(column.example)
+          ? column.example
+          : choices[0];
+      const range = listName && ranges[listName];
+      if (range) {
+        this.addDropdown(worksheet, position, range, column.label);
+      }
+    }
+    exampleRow.font = EXAMPLE_FONT;
+    this.styleHeaderRow(worksheet);
+
+    this.addInstructionsSheet(
+      workbook,
+      [
+        `Fill in one row per record on the '${template.sheetName}' sheet, starting below the header row.`,
+        'The second row is an example: replace or delete it before uploading.',
+        'Columns may be reordered; they are recognised by their header or any of the accepted headers below.',
+        'Dropdowns list the values currently in the system. The file can also be saved as CSV.',
+      ],
+      [
+        'Column',
+        'Required',
+        'Accepted headers',
+        'Description',
+        'Allowed values',
+      ],
+      columns.map((column) => {
+        const listName = template.choices[column.field];
+        return [
+          column.label,
+          column.required ? 'Yes' : 'No',
+          [column.label, ...column.aliases].join(', '),
+          column.description,
+          listName ? lists[listName].join(', ') : '',
+        ];
+      })
+    );
+  }
+
+  // Builds the faculty matrix template: one timetable grid with a column per faculty.
+  private async buildFacultyMatrixTemplate(
+    workbook: ExcelJS.Workbook,
+    lists: ChoiceLists,
+    scope: CollegeScope,
+    deptAbbreviation?: string
+  ): Promise<void> {
+    let faculties = PLACEHOLDER_FACULTY;
+    if (deptAbbreviation) {
+      const departmentFaculties = await prisma.faculty.findMany({
+        where: {
+          isDeleted: false,
+          abbreviation: { not: null },
+          department: {
+            abbreviation: deptAbbreviation,
+            isDeleted: false,
+            ...departmentScopeWhere(scope),
+          },
+        },
+        select: { abbreviation: true },
+        orderBy: { abbreviation: 'asc' },
+      });
+      if (departmentFaculties.length) {
+        faculties = departmentFaculties.map((f) => f.abbreviation as string);
+      }
+    }
+
+    const worksheet = workbook.addWorksheet('Timetable');
+    const ranges = this.addListsSheet(workbook, { days: lists.days });
+
+    worksheet.columns = [
+      { header: 'Day', width: 14 },
+      { header: 'Time', width: 16 },
+      ...faculties.map((faculty) => ({ header: faculty, width: 16 })),
+    ];
+    const exampleRow = worksheet.addRow([
+      TEMPLATE_DAYS[0],
+      '09:00 - 10:00',
+      '4A OS',
+      faculties.length > 1 ? '4A1 DBMS LAB' : null,
+    ]);
+    exampleRow.font = EXAMPLE_FONT;
+    this.addDropdown(worksheet, 1, ranges.days as string, 'day');
+    this.styleHeaderRow(worksheet);
+
+    this.addInstructionsSheet(
+      workbook,
+      [
+        'Each worksheet is a weekly timetable. Add more sheets for more timetables.',
+        'The second row is an example: replace or delete it before uploading.',
+        "The header row needs a 'Day' column, an optional 'Time', 'Slot' or 'Period' column, and one column per faculty abbreviation.",
+        'Write the day on the first row of each day; blank day cells continue the day above.',
+        'Free slots can be left blank or written as -, FREE, LUNCH or BREAK.',
+      ],
+      ['Cell content', 'Meaning'],
+      [
+        ['4A OS', 'Semester 4, division A, a lecture of the subject OS.'],
+        ['4A1 DBMS LAB', 'Semester 4, division A, batch A1, a DBMS lab.'],
+        [
+          '4A OS; 6B DBMS',
+          'Several classes in one slot, separated by line breaks, semicolons or commas.',
+        ],
+      ]
+    );
+  }
+
+  /**
+   * Builds the blank upload template of an upload type.
+   * @param type - The upload the template is for.
+   * @param scope - The colleges whose departments the dropdowns offer.
+   * @param deptAbbreviation - For faculty matrix templates, the department whose faculty become columns.
+   */
+  public async getTemplate(
+    type: UploadTemplateType,
+    scope: CollegeScope,
+    deptAbbreviation?: string
+  ): Promise<TemplateWorkbook> {
+    const lists = await this.getChoiceLists(scope);
+    const workbook = this.createWorkbook();
+
+    if (type === 'faculty-matrix') {
+      await this.buildFacultyMatrixTemplate(
+        workbook,
+        lists,
+        scope,
+        deptAbbreviation
+      );
+    } else {
+      this.buildColumnTemplate(workbook, COLUMN_TEMPLATES[type], lists);
+    }
+
+    return {
+      fileName: `${type}-upload-template.xlsx`,
+      buffer: Buffer.from(await workbook.xlsx.writeBuffer()),
+    };
+  }
+}
+
+export const uploadTemplateService = new UploadTemplateService();
@@ -0,0 +1,37 @@
+// src/services/upload/worker.ts
+
+import { Worker } from 'bullmq';
+import IORedis from 'ioredis';
+import config from '../../config';
+import { uploadJobService } from './uploadJob.service';
+import { UPLOAD_QUEUE_NAME, UploadJobData } from './queue';
+
+// Workers require a blocking connection, so it cannot be shared with the Queue.
+const connection = new IORedis(config.redisUrl as string, {
+  maxRetriesPerRequest: null,
+});
+
+// Processes uploads one at a time so two sheets never write the same records concurrently.
+const uploadWorker = new Worker<UploadJobData>(
+  UPLOAD_QUEUE_NAME,
+  async (job) =>
+    uploadJobService.processUpload(job.data, (progress) => {
+      job.updateProgress({ ...progress }).catch((error) => {
+        console.error(
+          `Failed to report progress of upload job ${job.id}:`,
+          error
+        );
+      });
+    }),
+  { connection, concurrency: 1 }
+);
+
+uploadWorker.on('failed', (job, err) => {
+  console.error(
+    `Upload job ${job?.id} (${job?.data.fileName}) failed: ${err.message}`
+  );
+});
+
+console.log('Upload Worker initialized and listening for jobs.');
+
+export { uploadWorker };
@@ -4,5 +4,7 @@ declare interface AppConfig {
   databaseUrl?: string;
   jwtSecret: string;
   jwtExpiresIn: string | number;
+  refreshTokenExpiresInDays: number;
+  requireSuperAdminTwoFactor: boolean;
   redisUrl?: string;
 }
@@ -9,7 +9,15 @@ declare global {
   namespace Express {
     // Adds an 'admin' property to the Request object.
     interface Request {
-      admin?: Pick<Admin, 'id' | 'email' | 'isSuper' | 'name' | 'designation'>;
+      admin?: Pick<
+        Admin,
+        'id' | 'email' | 'isSuper' | 'name' | 'designation' | 'departmentId'
+      > & {
+        // The active colleges the admin is assigned to.
+        collegeIds: string[];
+        // The session the request's access token belongs to.
+        sessionId: string;
+      };
     }
   }
 }
@@ -0,0 +1,124 @@
+/**
+ * @file src/utils/emailTemplates/adminInvitation.template.ts
+ * @description Provides an HTML template string for admin invitation emails.
+ */
+
+/**
+ * Generates the HTML content for an admin invitation email.
+ * This template is sent to people invited to administer a college or department, and links
+ * to the page where they set their password.
+ * @param name - The name of the invitee.
+ * @param inviterName - The name of the admin who sent the invitation.
+ * @param place - The college, or department and college, the invitee will administer.
+ * @param role - The designation the invitee is given.
+ * @param acceptLink - The single-use link for accepting the invitation.
+ * @param expiresAt - The date after which the link no longer works.
+ * @returns An HTML string representing the invitation email.
+ */
+export const getAdminInvitationTemplate = (
+  name: string,
+  inviterName: string,
+  place: string,
+  role: string,
+  acceptLink: string,
+  expiresAt: Date
+) => `
+    <!DOCTYPE html>
+    <html>
+    <head>
+      <style>
+        /* Styles for the main email container */
+        .email-container {
+          max-width: 600px;
+          margin: 0 auto;
+          padding: 20px;
+          font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;
+          color: #1f2937;
+          background-color: #ffffff;
+        }
+        /* Styles for the header section */
+        .header {
+          background: linear-gradient(135deg, #fb923c 0%, #f97316 100%);
+          color: white;
+          padding: 32px 24px;
+          text-align: center;
+          border-radius: 12px 12px 0 0;
+        }
+        /* Styles for the header title */
+        .header h1 {
+          margin: 0;
+          font-size: 28px;
+          font-weight: 700;
+        }
+        /* Styles for the main content area */
+        .content {
+          padding: 40px 32px;
+          border: 1px solid #e5e7eb;
+          border-top: none;
+          border-radius: 0 0 12px 12px;
+        }
+        /* Styles for general description paragraphs */
+        .description {
+          color: #4b5563;
+          font-size: 16px;
+          line-height: 1.6;
+          margin: 16px 0;
+        }
+        /* Styles for the button container */
+        .button-container {
+          text-align: center;
+          margin: 32px 0;
+        }
+        /* Styles for the call-to-action button */
+        .button {
+          display: inline-block;
+          background: linear-gradient(135deg, #fb923c 0%, #f97316 100%);
+          color: white;
+          padding: 16px 32px;
+          text-decoration: none;
+          border-radius: 8px;
+          font-weight: 600;
+          font-size: 16px;
+        }
+        /* Styles for the email footer */
+        .footer {
+          text-align: center;
+          margin-top: 32px;
+          padding-top: 24px;
+          border-top: 1px solid #e5e7eb;
+          font-size: 14px;
+          color: #6b7280;
+        }
+      </style>
+    </head>
+    <body>
+      <div class="email-container">
+        <div class="header">
+          <h1>✉️ You're Invited</h1>
+        </div>
+        <div class="content">
+          <p class="description">Hello ${name},</p>
+          <p class="description">
+            ${inviterName} has invited you to join the Academic Feedback System as ${role} for ${place}.
+          </p>
+
+          <div class="button-container">
+            <a href="${acceptLink}" class="button">Set Your Password</a>
+          </div>
+
+          <p class="description">
+            The link can be used once and expires on ${expiresAt.toLocaleString('en-IN', { dateStyle: 'full', timeStyle: 'short' })}.
+          </p>
+          <p class="description">
+            If you were not expecting this invitation, you can ignore this email.
+          </p>
+        </div>
+
+        <div class="footer">
+          <p>This is an automated message from the Academic Feedback System.</p>
+          <p>Please do not reply to this email.</p>
+        </div>
+      </div>
+    </body>
+    </html>
+  `;
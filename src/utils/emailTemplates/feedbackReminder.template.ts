@@ -0,0 +1,170 @@
+/**
+ * @file src/utils/emailTemplates/feedbackReminder.template.ts
+ * @description Provides an HTML template string for feedback form reminder emails.
+ */
+
+/**
+ * Generates the HTML content for a feedback form reminder email.
+ * This template is sent to students who have not yet submitted a feedback form
+ * and highlights the submission deadline.
+ * @param semesterNumber - The semester number for which the feedback form is relevant.
+ * @param divisionName - The name of the division for which the feedback form is relevant.
+ * @param formTitle - The title of the feedback form.
+ * @param accessLink - The unique access token/ID for the feedback form.
+ * @param apiUrl - The base URL of the application's frontend.
+ * @param endDate - The date after which the form no longer accepts submissions.
+ * @returns An HTML string representing the feedback form reminder email.
+ */
+export const getFeedbackReminderTemplate = (
+  semesterNumber: number,
+  divisionName: string,
+  formTitle: string,
+  accessLink: string,
+  apiUrl: string,
+  endDate: Date
+) => `
+    <!DOCTYPE html>
+    <html>
+    <head>
+      <style>
+        /* Styles for the main email container */
+        .email-container {
+          max-width: 600px;
+          margin: 0 auto;
+          padding: 20px;
+          font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;
+          color: #1f2937;
+          background-color: #ffffff;
+        }
+        /* Styles for the header section */
+        .header {
+          background: linear-gradient(135deg, #fb923c 0%, #f97316 100%);
+          color: white;
+          padding: 32px 24px;
+          text-align: center;
+          border-radius: 12px 12px 0 0;
+          box-shadow: 0 4px 6px -1px rgba(0, 0, 0, 0.1);
+        }
+        /* Styles for the header title */
+        .header h1 {
+          margin: 0;
+          font-size: 28px;
+          font-weight: 700;
+          letter-spacing: -0.025em;
+        }
+        /* Styles for the main content area */
+        .content {
+          background: #ffffff;
+          padding: 40px 32px;
+          border-radius: 0 0 12px 12px;
+          border: 1px solid #e5e7eb;
+          border-top: none;
+          box-shadow: 0 4px 6px -1px rgba(0, 0, 0, 0.1);
+        }
+        /* Styles for the deadline block */
+        .deadline {
+          background: #fff7ed;
+          border: 1px solid #fed7aa;
+          border-radius: 8px;
+          padding: 16px;
+          margin: 20px 0;
+          text-align: center;
+        }
+        /* Styles for the deadline heading */
+        .deadline h2 {
+          margin: 0 0 8px 0;
+          color: #ea580c;
+          font-size: 20px;
+          font-weight: 600;
+        }
+        /* Styles for the deadline date */
+        .deadline p {
+          margin: 0;
+          color: #9a3412;
+          font-size: 16px;
+          font-weight: 600;
+        }
+        /* Styles for the feedback form title */
+        .form-title {
+          color: #1f2937;
+          font-size: 22px;
+          font-weight: 600;
+          margin: 24px 0 16px 0;
+          text-align: center;
+        }
+        /* Styles for general description paragraphs */
+        .description {
+          color: #4b5563;
+          font-size: 16px;
+          line-height: 1.6;
+          margin: 16px 0;
+        }
+        /* Styles for the button container */
+        .button-container {
+          text-align: center;
+          margin: 32px 0;
+        }
+        /* Styles for the call-to-action button */
+        .button {
+          display: inline-block;
+          text-align: center;
+          background: linear-gradient(135deg, #fb923c 0%, #f97316 100%);
+          color: white;
+          padding: 16px 32px;
+          text-decoration: none;
+          border-radius: 8px;
+          font-weight: 600;
+          font-size: 16px;
+          box-shadow: 0 4px 6px -1px rgba(251, 146, 60, 0.3);
+        }
+        /* Styles for the email footer */
+        .footer {
+          text-align: center;
+          margin-top: 32px;
+          padding-top: 24px;
+          border-top: 1px solid #e5e7eb;
+          font-size: 14px;
+          color: #6b7280;
+        }
+      </style>
+    </head>
+    <body>
+      <div class="email-container">
+        <div class="header">
+          <h1>⏰ Feedback Reminder</h1>
+        </div>
+        <div class="content">
+          <p class="description">
+            We noticed you haven't submitted your feedback for Semester ${semesterNumber} • Division ${divisionName} yet.
+          </p>
+
+          <h3 class="form-title">${formTitle}</h3>
+
+          <div class="deadline">
+            <h2>Submission closes</h2>
+            <p>${endDate.toLocaleString('en-IN', { dateStyle: 'full', timeStyle: 'short' })}</p>
+          </div>
+
+          <p class="description">
+            It only takes a few minutes, and your responses remain completely anonymous.
+          </p>
+
+          <div class="button-container">
+            <a href="${apiUrl}/feedback/${accessLink}" class="button">
+              ✔️ Complete Feedback Form
+            </a>
+          </div>
+
+          <p class="description">
+            If you have already submitted this form, please ignore this email.
+          </p>
+        </div>
+
+        <div class="footer">
+          <p>This is an automated message from the Academic Feedback System.</p>
+          <p>Please do not reply to this email.</p>
+        </div>
+      </div>
+    </body>
+    </html>
+  `;
@@ -0,0 +1,112 @@
+/**
+ * @file src/utils/emailTemplates/otp.template.ts
+ * @description Provides an HTML template string for one-time password emails.
+ */
+
+/**
+ * Generates the HTML content for a one-time password email.
+ * This template is sent to admins who asked to reset their password or to log in with an OTP.
+ * @param name - The name of the admin the OTP is for.
+ * @param otp - The one-time password.
+ * @param action - What the OTP is for, e.g. "reset your password".
+ * @param expiresInMinutes - How long the OTP remains valid.
+ * @returns An HTML string representing the OTP email.
+ */
+export const getOtpTemplate = (
+  name: string,
+  otp: string,
+  action: string,
+  expiresInMinutes: number
+) => `
+    <!DOCTYPE html>
+    <html>
+    <head>
+      <style>
+        /* Styles for the main email container */
+        .email-container {
+          max-width: 600px;
+          margin: 0 auto;
+          padding: 20px;
+          font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;
+          color: #1f2937;
+          background-color: #ffffff;
+        }
+        /* Styles for the header section */
+        .header {
+          background: linear-gradient(135deg, #fb923c 0%, #f97316 100%);
+          color: white;
+          padding: 32px 24px;
+          text-align: center;
+          border-radius: 12px 12px 0 0;
+        }
+        /* Styles for the header title */
+        .header h1 {
+          margin: 0;
+          font-size: 28px;
+          font-weight: 700;
+        }
+        /* Styles for the main content area */
+        .content {
+          padding: 40px 32px;
+          border: 1px solid #e5e7eb;
+          border-top: none;
+          border-radius: 0 0 12px 12px;
+        }
+        /* Styles for the one-time password */
+        .otp {
+          margin: 24px 0;
+          padding: 16px;
+          text-align: center;
+          font-size: 32px;
+          font-weight: 700;
+          letter-spacing: 8px;
+          color: #ea580c;
+          background: #fff7ed;
+          border: 1px solid #fed7aa;
+          border-radius: 8px;
+        }
+        /* Styles for general description paragraphs */
+        .description {
+          color: #4b5563;
+          font-size: 16px;
+          line-height: 1.6;
+          margin: 16px 0;
+        }
+        /* Styles for the email footer */
+        .footer {
+          text-align: center;
+          margin-top: 32px;
+          padding-top: 24px;
+          border-top: 1px solid #e5e7eb;
+          font-size: 14px;
+          color: #6b7280;
+        }
+      </style>
+    </head>
+    <body>
+      <div class="email-container">
+        <div class="header">
+          <h1>🔐 Your One-Time Password</h1>
+        </div>
+        <div class="content">
+          <p class="description">Hello ${name},</p>
+          <p class="description">Use this code to ${action}:</p>
+
+          <div class="otp">${otp}</div>
+
+          <p class="description">
+            The code expires in ${expiresInMinutes} minutes and can only be used once.
+          </p>
+          <p class="description">
+            If you did not ask for this code, you can ignore this email; your account is unchanged.
+          </p>
+        </div>
+
+        <div class="footer">
+          <p>This is an automated message from the Academic Feedback System.</p>
+          <p>Please do not reply to this email.</p>
+        </div>
+      </div>
+    </body>
+    </html>
+  `;
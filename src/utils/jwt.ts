@@ -6,16 +6,17 @@
 import jwt, { SignOptions } from 'jsonwebtoken'; // Import SignOptions
 import config from '../config';
 
-// Generates a JWT token for an administrator.
+// Generates a short-lived JWT access token for an administrator's session.
 export const generateAuthToken = (
   id: string,
   email: string,
-  isSuper: boolean
+  isSuper: boolean,
+  sessionId: string
 ): string => {
   if (!config.jwtSecret) {
     throw new Error('Server configuration error: JWT secret missing.');
   }
-  const payload = { id, email, isSuper };
+  const payload = { id, email, isSuper, sid: sessionId };
   const secret: jwt.Secret = config.jwtSecret;
   const options: SignOptions = {
     expiresIn: config.jwtExpiresIn as SignOptions['expiresIn'],
@@ -24,6 +25,28 @@ export const generateAuthToken = (
   return jwt.sign(payload, secret, options);
 };
 
+// Generates the short-lived token of a login that still awaits its two-factor code.
+export const generateTwoFactorToken = (id: string): string => {
+  if (!config.jwtSecret) {
+    throw new Error('Server configuration error: JWT secret missing.');
+  }
+  return jwt.sign({ id, purpose: 'two-factor' }, config.jwtSecret, {
+    expiresIn: '5m',
+  });
+};
+
+// Verifies a two-factor login token, returning the ID of the admin logging in.
+export const verifyTwoFactorToken = (token: string): string => {
+  if (!config.jwtSecret) {
+    throw new Error('Server configuration error: JWT secret missing.');
+  }
+  const payload = jwt.verify(token, config.jwtSecret) as jwt.JwtPayload;
+  if (payload.purpose !== 'two-factor' || typeof payload.id !== 'string') {
+    throw new jwt.JsonWebTokenError('Not a two-factor login token.');
+  }
+  return payload.id;
+};
+
 // Verifies the authenticity and validity of a given JWT token.
 export const verifyAuthToken = (token: string): jwt.JwtPayload => {
   // Ensures JWT secret is configured.
@@ -0,0 +1,330 @@
+/**
+ * @file src/utils/questionTypes.ts
+ * @description Registry of supported feedback question types.
+ * Each type defines the options it accepts and how a student's response is validated and normalized.
+ */
+
+import { Prisma } from '@prisma/client';
+import { z } from 'zod';
+import AppError from './appError';
+
+export const QUESTION_TYPES = [
+  'rating',
+  'single_choice',
+  'multi_choice',
+  'text',
+  'yes_no',
+] as const;
+
+export type QuestionType = (typeof QUESTION_TYPES)[number];
+
+// Zod schema for validating a question type against the registry.
+export const questionTypeSchema = z.enum(QUESTION_TYPES, {
+  errorMap: () => ({
+    message: `Question type must be one of: ${QUESTION_TYPES.join(', ')}.`,
+  }),
+});
+
+// Zod schema for the raw options object; type-specific checks run in the services.
+export const questionOptionsSchema = z.record(z.any());
+
+// Result of validating a single response value against its question.
+export type ResponseValidationResult =
+  | { valid: true; value: unknown }
+  | { valid: false; error: string };
+
+interface QuestionTypeDefinition {
+  label: string;
+  optionsSchema: z.ZodTypeAny;
+  validateResponse: (value: unknown, options: any) => ResponseValidationResult;
+}
+
+// Zod schema for a list of unique, non-empty choice labels.
+const choicesSchema = z
+  .array(z.string().trim().min(1, 'Choice labels cannot be empty.'))
+  .min(2, 'At least two choices are required.')
+  .refine((choices) => new Set(choices).size === choices.length, {
+    message: 'Choices must be unique.',
+  });
+
+// Zod schema for rating question options (scale bounds and step).
+const ratingOptionsSchema = z
+  .object({
+    min: z.number().int().default(1),
+    max: z.number().int().default(10),
+    step: z.number().positive().default(1),
+    labels: z.record(z.string()).optional(),
+  })
+  .refine((options) => options.min < options.max, {
+    message: 'Rating scale minimum must be less than its maximum.',
+    path: ['max'],
+  });
+
+// Zod schema for single choice question options.
+const singleChoiceOptionsSchema = z.object({
+  choices: choicesSchema,
+});
+
+// Zod schema for multiple choice question options.
+const multiChoiceOptionsSchema = z
+  .object({
+    choices: choicesSchema,
+    minSelections: z.number().int().min(0).default(1),
+    maxSelections: z.number().int().positive().optional(),
+  })
+  .refine(
+    (options) =>
+      options.maxSelections === undefined ||
+      (options.maxSelections >= options.minSelections &&
+        options.maxSelections <= options.choices.length),
+    {
+      message:
+        'maxSelections must be between minSelections and the number of choices.',
+      path: ['maxSelections'],
+    }
+  );
+
+// Zod schema for free text question options.
+const textOptionsSchema = z
+  .object({
+    minLength: z.number().int().min(0).default(0),
+    maxLength: z.number().int().positive().max(5000).default(1000),
+  })
+  .refine((options) => options.minLength <= options.maxLength, {
+    message: 'minLength cannot exceed maxLength.',
+    path: ['minLength'],
+  });
+
+// Zod schema for yes/no question options.
+const yesNoOptionsSchema = z.object({
+  yesLabel: z.string().min(1).default('Yes'),
+  noLabel: z.string().min(1).default('No'),
+});
+
+const questionTypeRegistry: Record<QuestionType, QuestionTypeDefinition> = {
+  rating: {
+    label: 'Rating',
+    optionsSchema: ratingOptionsSchema,
+    validateResponse: (value, options) => {
+      const score =
+        typeof value === 'string' && value.trim() !== ''
+          ? Number(value)
+          : value;
+      if (typeof score !== 'number' || !Number.isFinite(score)) {
+        return { valid: false, error: 'Rating must be a number.' };
+      }
+      if (score < options.min || score > options.max) {
+        return {
+          valid: false,
+          error: `Rating must be between ${options.min} and ${options.max}.`,
+        };
+      }
+      const steps = (score - options.min) / options.step;
+      if (Math.abs(steps - Math.round(steps)) > 1e-9) {
+        return {
+          valid: false,
+          error: `Rating must be in increments of ${options.step}.`,
+        };
+      }
+      return { valid: true, value: score };
+    },
+  },
+  single_choice: {
+    label: 'Single Choice',
+    optionsSchema: singleChoiceOptionsSchema,
+    validateResponse: (value, options) => {
+      if (typeof value !== 'string' || !options.choices.includes(value)) {
+        return {
+          valid: false,
+          error: 'Response must be one of the available choices.',
+        };
+      }
+      return { valid: true, value };
+    },
+  },
+  multi_choice: {
+    label: 'Multiple Choice',
+    optionsSchema: multiChoiceOptionsSchema,
+    validateResponse: (value, options) => {
+      if (
+        !Array.isArray(value) ||
+        !value.every((choice) => typeof choice === 'string')
+      ) {
+        return {
+          valid: false,
+          error: 'Response must be a list of choices.',
+        };
+      }
+      if (new Set(value).size !== value.length) {
+        return { valid: false, error: 'Choices cannot be repeated.' };
+      }
+      if (value.some((choice) => !options.choices.includes(choice))) {
+        return {
+          valid: false,
+          error: 'Response contains a choice that is not available.',
+        };
+      }
+      if (value.length < options.minSelections) {
+        return {
+          valid: false,
+          error: `Select at least ${options.minSelections} choice(s).`,
+        };
+      }
+      if (
+        options.maxSelections !== undefined &&
+        value.length > options.maxSelections
+      ) {
+        return {
+          valid: false,
+          error: `Select at most ${options.maxSelections} choice(s).`,
+        };
+      }
+      return { valid: true, value };
+    },
+  },
+  text: {
+    label: 'Text',
+    optionsSchema: textOptionsSchema,
+    validateResponse: (value, options) => {
+      if (typeof value !== 'string') {
+        return { valid: false, error: 'Response must be text.' };
+      }
+      const text = value.trim();
+      if (text.length < options.minLength) {
+        return {
+          valid: false,
+          error: `Response must be at least ${options.minLength} characters.`,
+        };
+      }
+      if (text.length > options.maxLength) {
+        return {
+          valid: false,
+          error: `Response must be at most ${options.maxLength} characters.`,
+        };
+      }
+      return { valid: true, value: text };
+    },
+  },
+  yes_no: {
+    label: 'Yes / No',
+    optionsSchema: yesNoOptionsSchema,
+    validateResponse: (value) => {
+      if (typeof value === 'boolean') {
+        return { valid: true, value };
+      }
+      if (typeof value === 'string') {
+        const normalized = value.trim().toLowerCase();
+        if (normalized === 'yes' || normalized === 'true') {
+          return { valid: true, value: true };
+        }
+        if (normalized === 'no' || normalized === 'false') {
+          return { valid: true, value: false };
+        }
+      }
+      return { valid: false, error: 'Response must be yes or no.' };
+    },
+  },
+};
+
+// The scale of rating questions without their own bounds, which analytics maps every rating onto.
+const { min: DEFAULT_RATING_MIN, max: DEFAULT_RATING_MAX } =
+  ratingOptionsSchema.parse({});
+
+const RAW_SCORE_SQL = Prisma.sql`COALESCE(NULLIF(response_value->>'score', ''), NULLIF(response_value#>>'{}', ''))`;
+
+const QUESTION_MIN_SQL = Prisma.sql`COALESCE((question.options->>'min')::numeric, ${Prisma.raw(String(DEFAULT_RATING_MIN))})`;
+const QUESTION_MAX_SQL = Prisma.sql`COALESCE((question.options->>'max')::numeric, ${Prisma.raw(String(DEFAULT_RATING_MAX))})`;
+
+/**
+ * SQL for the score of a row of feedback_snapshots, mapped from its question's rating scale
+ * onto the default one so ratings on different scales can be averaged together.
+ * Answers to other question types, and ratings that are not numbers, have no score (NULL).
+ */
+export const RATING_SCORE_SQL = Prisma.sql`CASE WHEN question_type = 'rating' AND ${RAW_SCORE_SQL} ~ '^-?[0-9]+([.][0-9]+)?$' THEN COALESCE((
+  SELECT ${Prisma.raw(String(DEFAULT_RATING_MIN))} + (CAST(${RAW_SCORE_SQL} AS NUMERIC) - ${QUESTION_MIN_SQL})
+    * ${Prisma.raw(String(DEFAULT_RATING_MAX - DEFAULT_RATING_MIN))}
+    / NULLIF(${QUESTION_MAX_SQL} - ${QUESTION_MIN_SQL}, 0)
+  FROM feedback_questions question
+  WHERE question.id = feedback_snapshots.question_id
+), CAST(${RAW_SCORE_SQL} AS NUMERIC)) END`;
+
+// Checks whether a string is a supported question type.
+export const isQuestionType = (type: string): type is QuestionType =>
+  (QUESTION_TYPES as readonly string[]).includes(type);
+
+// Validates question options for a type, filling in defaults where omitted.
+export const parseQuestionOptions = (
+  type: QuestionType,
+  options: unknown
+): z.SafeParseReturnType<unknown, Record<string, any>> =>
+  questionTypeRegistry[type].optionsSchema.safeParse(options ?? {});
+
+// Returns the default options for a question type.
+export const getDefaultQuestionOptions = (
+  type: QuestionType
+): Record<string, any> => questionTypeRegistry[type].optionsSchema.parse({});
+
+// Lists the supported question types with their default options.
+export const listQuestionTypes = () =>
+  QUESTION_TYPES.map((type) => ({
+    type,
+    label: questionTypeRegistry[type].label,
+    defaultOptions: getDefaultQuestionOptions(type),
+  }));
+
+// Checks whether a response value counts as unanswered.
+export const isEmptyResponse = (value: unknown): boolean =>
+  value === undefined ||
+  value === null ||
+  (typeof value === 'string' && value.trim() === '') ||
+  (Array.isArray(value) && value.length === 0);
+
+/**
+ * Checks whether a question applies to a student's lab batch. Questions without a batch
+ * ('None') apply to everyone; a student whose batch is unknown is shown every question.
+ */
+export const isQuestionForBatch = (
+  questionBatch: string,
+  studentBatch: string | null | undefined
+): boolean =>
+  questionBatch === 'None' ||
+  !studentBatch ||
+  questionBatch.trim().toLowerCase() === studentBatch.trim().toLowerCase();
+
+// Validates and normalizes a response value against a question's type and options.
+export const validateResponseValue = (
+  type: string,
+  options: unknown,
+  value: unknown
+): ResponseValidationResult => {
+  // Questions created before the registry existed may carry free-form types; accept their values as-is.
+  if (!isQuestionType(type)) {
+    return { valid: true, value };
+  }
+  const parsedOptions = parseQuestionOptions(type, options);
+  if (!parsedOptions.success) {
+    return { valid: false, error: 'Question has invalid options.' };
+  }
+  return questionTypeRegistry[type].validateResponse(value, parsedOptions.data);
+};
+
+// Resolves the options to store for a question, rejecting options that do not fit its type.
+export const resolveQuestionOptions = (
+  type: string,
+  options: unknown
+): Prisma.InputJsonValue | undefined => {
+  if (!isQuestionType(type)) {
+    throw new AppError(`Unsupported question type '${type}'.`, 400);
+  }
+  const parsedOptions = parseQuestionOptions(type, options);
+  if (!parsedOptions.success) {
+    const details = parsedOptions.error.errors
+      .map((issue) => issue.message)
+      .join(' ');
+    throw new AppError(
+      `Invalid options for '${type}' question. ${details}`,
+      400
+    );
+  }
+  return parsedOptions.data as Prisma.InputJsonValue;
+};
@@ -1,33 +1,114 @@
 /**
  * @file src/utils/scheduler.ts
  * @description Utility for scheduling automated tasks in the application.
+ * Tasks run as BullMQ repeatable jobs so schedules survive restarts and run once across instances.
  */
 
+import { Queue, Worker } from 'bullmq';
+import IORedis from 'ioredis';
+import config from '../config';
+import { connection } from '../services/email/queue';
 import { feedbackFormService } from '../services/feedbackForm/feedbackForm.service';
+import { feedbackReminderService } from '../services/feedbackReminder/feedbackReminder.service';
 
-// Sets up all recurring scheduled tasks for the application.
-export const setupScheduledTasks = () => {
-  scheduleFormExpiration();
-};
+const SCHEDULER_QUEUE_NAME = 'scheduled-tasks';
 
-// Schedules the feedback form expiration task to run periodically.
-const scheduleFormExpiration = () => {
-  const ONE_DAY_MS = 24 * 60 * 60 * 1000;
+const ONE_MINUTE_MS = 60 * 1000;
+const ONE_HOUR_MS = 60 * ONE_MINUTE_MS;
+const ONE_DAY_MS = 24 * ONE_HOUR_MS;
 
-  // Defines the asynchronous function that performs the expiration task.
-  const runExpirationTask = async () => {
-    try {
-      console.log('[Scheduler] Running feedback form expiration task...');
+interface ScheduledTask {
+  name: string;
+  every: number;
+  run: () => Promise<void>;
+}
+
+// Recurring tasks, keyed by job name.
+const scheduledTasks: ScheduledTask[] = [
+  {
+    name: 'form-lifecycle',
+    every: ONE_MINUTE_MS,
+    run: async () => {
+      const activated = await feedbackFormService.activateScheduledForms();
+      const closed = await feedbackFormService.closeEndedForms();
+      if (activated || closed) {
+        console.log(
+          `[Scheduler] Activated ${activated} and closed ${closed} feedback forms.`
+        );
+      }
+    },
+  },
+  {
+    name: 'form-reminders',
+    every: ONE_HOUR_MS,
+    run: async () => {
+      const count = await feedbackReminderService.sendDueReminders();
+      console.log(`[Scheduler] Successfully queued ${count} reminder emails.`);
+    },
+  },
+  {
+    name: 'form-expiration',
+    every: ONE_DAY_MS,
+    run: async () => {
       const count = await feedbackFormService.expireOldForms();
       console.log(`[Scheduler] Successfully expired ${count} feedback forms.`);
-    } catch (error) {
-      console.error('[Scheduler] Error expiring feedback forms:', error);
+    },
+  },
+];
+
+const schedulerQueue = new Queue(SCHEDULER_QUEUE_NAME, {
+  connection,
+  defaultJobOptions: {
+    removeOnComplete: true,
+    removeOnFail: 100,
+  },
+});
+
+// Sets up all recurring scheduled tasks for the application.
+export const setupScheduledTasks = async () => {
+  // Remove repeatable jobs left over from renamed tasks or changed intervals.
+  const existingJobs = await schedulerQueue.getRepeatableJobs();
+  for (const job of existingJobs) {
+    const isCurrent = scheduledTasks.some(
+      (task) => task.name === job.name && String(task.every) === job.pattern
+    );
+    if (!isCurrent) {
+      await schedulerQueue.removeRepeatableByKey(job.key);
     }
+  }
+
+  // Repeatable jobs are deduplicated by name and interval, so every instance can register them safely.
+  for (const task of scheduledTasks) {
+    await schedulerQueue.add(
+      task.name,
+      {},
+      { repeat: { every: task.every, immediately: true } }
+    );
+  }
+
+  // Workers need their own blocking connection, so it cannot be shared with the Queue.
+  const workerConnection = new IORedis(config.redisUrl as string, {
+    maxRetriesPerRequest: null,
+  });
 
-    setTimeout(runExpirationTask, ONE_DAY_MS);
-  };
+  const schedulerWorker = new Worker(
+    SCHEDULER_QUEUE_NAME,
+    async (job) => {
+      const task = scheduledTasks.find((t) => t.name === job.name);
+      if (!task) {
+        console.warn(`[Scheduler] No handler for scheduled job '${job.name}'.`);
+        return;
+      }
+      await task.run();
+    },
+    { connection: workerConnection, concurrency: 1 }
+  );
 
-  runExpirationTask();
+  schedulerWorker.on('failed', (job, err) => {
+    console.error(
+      `[Scheduler] Scheduled job '${job?.name}' failed: ${err.message}`
+    );
+  });
 
-  console.log('[Scheduler] Form expiration task scheduled successfully.');
+  console.log('[Scheduler] Scheduled tasks registered successfully.');
 };
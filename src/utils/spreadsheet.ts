@@ -0,0 +1,200 @@
+/**
+ * @file src/utils/spreadsheet.ts
+ * @description Utility functions for reading uploaded spreadsheets.
+ * Files are recognised by their content rather than their extension or MIME type. Excel
+ * workbooks are loaded as they are; CSV exports are decoded, split on their detected
+ * delimiter and loaded into a single-sheet workbook so upload services read both alike.
+ */
+
+import ExcelJS from 'exceljs';
+import { TextDecoder } from 'util';
+import AppError from './appError';
+
+export type SpreadsheetFormat = 'xlsx' | 'xls' | 'csv';
+
+// .xlsx files are zip archives; legacy .xls files are OLE2 compound documents.
+const ZIP_SIGNATURE = Buffer.from([0x50, 0x4b, 0x03, 0x04]);
+const OLE2_SIGNATURE = Buffer.from([
+  0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1,
+]);
+
+const UTF8_BOM = Buffer.from([0xef, 0xbb, 0xbf]);
+const UTF16LE_BOM = Buffer.from([0xff, 0xfe]);
+const UTF16BE_BOM = Buffer.from([0xfe, 0xff]);
+
+const CSV_DELIMITERS = [',', ';', '\t', '|'];
+
+// The number of lines the delimiter is detected from.
+const DELIMITER_SAMPLE_LINES = 10;
+
+// Excel writes a "sep=;" line first when a CSV does not use its locale's delimiter.
+const SEPARATOR_HINT_PATTERN = /^sep=(.)\r?\n/i;
+
+export const CSV_SHEET_NAME = 'Sheet1';
+
+/**
+ * Decodes a text file, honouring a UTF-8 or UTF-16 byte order mark.
+ * Files without one are read as UTF-8, or as Windows-1252 when they are not valid UTF-8,
+ * which is what Excel uses for CSV files on Windows.
+ * @returns The decoded text, or null when the file is not text.
+ */
+export const decodeText = (buffer: Buffer): string | null => {
+  let text: string;
+  if (buffer.subarray(0, 3).equals(UTF8_BOM)) {
+    text = buffer.subarray(3).toString('utf8');
+  } else if (buffer.subarray(0, 2).equals(UTF16LE_BOM)) {
+    text = buffer.subarray(2).toString('utf16le');
+  } else if (buffer.subarray(0, 2).equals(UTF16BE_BOM)) {
+    text = Buffer.from(buffer.subarray(2)).swap16().toString('utf16le');
+  } else {
+    try {
+      text = new TextDecoder('utf-8', { fatal: true }).decode(buffer);
+    } catch {
+      text = new TextDecoder('windows-1252').decode(buffer);
+    }
+  }
+  return text.includes('\u0000') ? null : text;
+};
+
+// Identifies a spreadsheet from its content, or returns null when it is not one.
+export const detectSpreadsheetFormat = (
+  buffer: Buffer
+): SpreadsheetFormat | null => {
+  if (buffer.subarray(0, 4).equals(ZIP_SIGNATURE)) return 'xlsx';
+  if (buffer.subarray(0, 8).equals(OLE2_SIGNATURE)) return 'xls';
+
+  const text = decodeText(buffer);
+  // Some systems export HTML tables with an .xls extension; those are not CSV either.
+  if (!text?.trim() || text.trimStart().startsWith('<')) return null;
+  return 'csv';
+};
+
+/**
+ * Splits CSV text into rows of fields, following RFC 4180: fields may be quoted, quoted
+ * fields may contain delimiters and line breaks, and quotes inside them are doubled.
+ */
+export const parseCsv = (text: string, delimiter: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\r' || char === '\n') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows;
+};
+
+// Picks the delimiter that splits the first lines into the most, and most consistent, fields.
+export const detectDelimiter = (text: string): string => {
+  const sample = text
+    .split(/\r?\n|\r/)
+    .filter((line) => line.trim())
+    .slice(0, DELIMITER_SAMPLE_LINES)
+    .join('\n');
+
+  let best = { delimiter: ',', consistentLines: 0, fieldCount: 1 };
+  for (const delimiter of CSV_DELIMITERS) {
+    const rows = parseCsv(sample, delimiter);
+    const fieldCount = rows[0]?.length ?? 0;
+    if (fieldCount < 2) continue;
+
+    const consistentLines = rows.filter(
+      (row) => row.length === fieldCount
+    ).length;
+    if (
+      consistentLines > best.consistentLines ||
+      (consistentLines === best.consistentLines && fieldCount > best.fieldCount)
+    ) {
+      best = { delimiter, consistentLines, fieldCount };
+    }
+  }
+  return best.delimiter;
+};
+
+// Builds a single-sheet workbook from CSV text, keeping every value as text.
+const csvToWorkbook = (text: string): ExcelJS.Workbook => {
+  let delimiter: string;
+  const separatorHint = text.match(SEPARATOR_HINT_PATTERN);
+  if (separatorHint) {
+    delimiter = separatorHint[1];
+    text = text.slice(separatorHint[0].length);
+  } else {
+    delimiter = detectDelimiter(text);
+  }
+
+  const workbook = new ExcelJS.Workbook();
+  const worksheet = workbook.addWorksheet(CSV_SHEET_NAME);
+  // Blank lines are kept as empty rows so row numbers match the lines of the file.
+  for (const fields of parseCsv(text, delimiter)) {
+    worksheet.addRow(fields.map((value) => (value.trim() ? value : null)));
+  }
+  return workbook;
+};
+
+/**
+ * Loads an uploaded .xlsx workbook or CSV file as a workbook.
+ * @param fileBuffer - The uploaded file.
+ * @throws AppError when the file is not a readable workbook or CSV file.
+ */
+export const loadWorkbook = async (
+  fileBuffer: Buffer
+): Promise<ExcelJS.Workbook> => {
+  const format = detectSpreadsheetFormat(fileBuffer);
+
+  if (format === 'xlsx') {
+    const workbook = new ExcelJS.Workbook();
+    try {
+      await workbook.xlsx.load(fileBuffer as any);
+    } catch (error: any) {
+      console.error('Error reading uploaded workbook:', error);
+      throw new AppError('The uploaded workbook could not be read.', 400);
+    }
+    return workbook;
+  }
+
+  if (format === 'xls') {
+    throw new AppError(
+      'Legacy .xls workbooks are not supported. Save the file as .xlsx or CSV and upload it again.',
+      400
+    );
+  }
+
+  if (format === 'csv') {
+    return csvToWorkbook(decodeText(fileBuffer) as string);
+  }
+
+  throw new AppError(
+    'Unsupported file format. Upload an .xlsx workbook or a CSV file.',
+    400
+  );
+};
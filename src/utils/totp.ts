@@ -0,0 +1,109 @@
+/**
+ * @file src/utils/totp.ts
+ * @description Utility functions for time-based one-time passwords (TOTP, RFC 6238), as shown
+ * by authenticator apps. Codes are HMAC-SHA1 based, 6 digits long and change every 30 seconds.
+ */
+
+import crypto from 'crypto';
+
+const TOTP_DIGITS = 6;
+const TOTP_PERIOD_SECONDS = 30;
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+// Encodes bytes as unpadded base32 (RFC 4648), the format authenticator apps expect secrets in.
+const base32Encode = (bytes: Buffer): string => {
+  let bits = '';
+  for (const byte of bytes) {
+    bits += byte.toString(2).padStart(8, '0');
+  }
+  let encoded = '';
+  for (let i = 0; i < bits.length; i += 5) {
+    encoded +=
+      BASE32_ALPHABET[parseInt(bits.slice(i, i + 5).padEnd(5, '0'), 2)];
+  }
+  return encoded;
+};
+
+// Decodes a base32 secret, ignoring case, spaces and padding.
+const base32Decode = (encoded: string): Buffer => {
+  let bits = '';
+  for (const char of encoded.toUpperCase().replace(/[\s=]/g, '')) {
+    const value = BASE32_ALPHABET.indexOf(char);
+    if (value === -1) {
+      throw new Error('Invalid base32 character in TOTP secret.');
+    }
+    bits += value.toString(2).padStart(5, '0');
+  }
+  const bytes: number[] = [];
+  for (let i = 0; i + 8 <= bits.length; i += 8) {
+    bytes.push(parseInt(bits.slice(i, i + 8), 2));
+  }
+  return Buffer.from(bytes);
+};
+
+// Generates a random 160-bit TOTP secret, base32 encoded.
+export const generateTotpSecret = (): string =>
+  base32Encode(crypto.randomBytes(20));
+
+// Returns the TOTP time step of a moment, the number of periods since the Unix epoch.
+export const getTotpStep = (time: number = Date.now()): number =>
+  Math.floor(time / 1000 / TOTP_PERIOD_SECONDS);
+
+// Computes the code of a secret for a time step (HOTP, RFC 4226, with the step as counter).
+export const generateTotp = (secret: string, step: number): string => {
+  const counter = Buffer.alloc(8);
+  counter.writeBigUInt64BE(BigInt(step));
+  const hmac = crypto
+    .createHmac('sha1', base32Decode(secret))
+    .update(counter)
+    .digest();
+
+  // Dynamic truncation: four bytes at an offset given by the last nibble.
+  const offset = hmac[hmac.length - 1] & 0x0f;
+  const binary = hmac.readUInt32BE(offset) & 0x7fffffff;
+  return (binary % 10 ** TOTP_DIGITS).toString().padStart(TOTP_DIGITS, '0');
+};
+
+/**
+ * Finds the time step a code was generated for, allowing for clock drift between the server
+ * and the authenticator app.
+ * @param window - The number of steps before and after the current one that are accepted.
+ * @returns The matching step, or null when the code is wrong or too old.
+ */
+export const findTotpStep = (
+  secret: string,
+  code: string,
+  window: number = 1,
+  time: number = Date.now()
+): number | null => {
+  const current = getTotpStep(time);
+  for (let step = current - window; step <= current + window; step++) {
+    const expected = Buffer.from(generateTotp(secret, step));
+    const given = Buffer.from(code);
+    if (
+      given.length === expected.length &&
+      crypto.timingSafeEqual(given, expected)
+    ) {
+      return step;
+    }
+  }
+  return null;
+};
+
+// Builds the otpauth:// URI that authenticator apps import, usually from a QR code.
+export const buildOtpauthUri = (
+  secret: string,
+  accountName: string,
+  issuer: string
+): string => {
+  const params = new URLSearchParams({
+    secret,
+    issuer,
+    algorithm: 'SHA1',
+    digits: String(TOTP_DIGITS),
+    period: String(TOTP_PERIOD_SECONDS),
+  });
+  return `otpauth://totp/${encodeURIComponent(issuer)}:${encodeURIComponent(
+    accountName
+  )}?${params.toString()}`;
+};
@@ -0,0 +1,40 @@
+/**
+ * @file src/utils/validators/adminInvitation.validation.ts
+ * @description Zod schemas for validating admin invitation requests.
+ */
+
+import { z } from 'zod';
+import { Designation } from '@prisma/client';
+import { passwordSchema } from './auth.validation';
+
+// Schema for inviting an admin.
+export const createInvitationSchema = z.object({
+  email: z.string().email('Invalid email address.'),
+  name: z.string().min(1, 'Name is required.'),
+  designation: z.nativeEnum(Designation, {
+    errorMap: () => ({ message: 'Invalid designation.' }),
+  }),
+  // Colleges created before multi-college support kept a fixed, non-UUID ID.
+  collegeId: z.string().min(1, 'College ID cannot be empty.').optional(),
+  departmentId: z
+    .string()
+    .uuid({ message: 'Invalid department ID format. Must be a UUID.' })
+    .optional(),
+});
+
+// Schema for accepting an invitation.
+export const acceptInvitationSchema = z.object({
+  token: z.string().min(1, 'Invitation token is required.'),
+  password: passwordSchema,
+  name: z.string().min(1, 'Name cannot be empty.').optional(),
+});
+
+// Schema for ID parameter validation.
+export const idParamSchema = z.object({
+  id: z.string().uuid({ message: 'Invalid ID format. Must be a UUID.' }),
+});
+
+// Schema for invitation token parameter validation.
+export const tokenParamSchema = z.object({
+  token: z.string().min(1, 'Invitation token is required.'),
+});
@@ -0,0 +1,42 @@
+/**
+ * @file src/utils/validators/adminUser.validation.ts
+ * @description Zod schemas for validating admin user management requests.
+ */
+
+import { z } from 'zod';
+import { Designation } from '@prisma/client';
+import { passwordSchema } from './auth.validation';
+
+// Colleges created before multi-college support kept a fixed, non-UUID ID.
+const collegeIdsSchema = z
+  .array(z.string().min(1, 'College ID cannot be empty.'))
+  .min(1, 'At least one college is required.');
+
+// Schema for creating an admin.
+export const createAdminUserSchema = z.object({
+  name: z.string().min(1, 'Name is required.'),
+  email: z.string().email('Invalid email address.'),
+  password: passwordSchema,
+  designation: z.nativeEnum(Designation, {
+    errorMap: () => ({ message: 'Invalid designation.' }),
+  }),
+  collegeIds: collegeIdsSchema,
+  // Required for every designation but SUPER_ADMIN.
+  departmentId: z
+    .string()
+    .uuid({ message: 'Invalid department ID format. Must be a UUID.' })
+    .optional(),
+});
+
+// Schema for updating an admin.
+export const updateAdminUserSchema = createAdminUserSchema
+  .partial()
+  .refine((data) => Object.keys(data).length > 0, {
+    message:
+      'No update data provided. At least one field is required for update.',
+  });
+
+// Schema for ID parameter validation.
+export const idParamSchema = z.object({
+  id: z.string().uuid({ message: 'Invalid ID format. Must be a UUID.' }),
+});
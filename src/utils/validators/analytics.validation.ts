@@ -55,3 +55,36 @@ export const allFacultyPerformanceParamsSchema = z.object({
   academicYearId: z.string(),
   // .uuid('Invalid academicYearId format. Must be a UUID.'),
 });
+
+// Schema for faculty ID route parameters.
+export const facultyIdParamSchema = z.object({
+  facultyId: z.string().uuid('Invalid facultyId format. Must be a UUID.'),
+});
+
+// Schema for subject ID route parameters.
+export const subjectIdParamSchema = z.object({
+  subjectId: z.string().uuid('Invalid subjectId format. Must be a UUID.'),
+});
+
+// Schema for division ID route parameters.
+export const divisionIdParamSchema = z.object({
+  divisionId: z.string().uuid('Invalid divisionId format. Must be a UUID.'),
+});
+
+// Schema for query parameters to filter detailed analytics exports.
+export const detailedAnalyticsExportQuerySchema = z.object({
+  academicYearId: z
+    .string()
+    .uuid('Invalid academic year ID format.')
+    .optional(),
+  semesterId: z.string().uuid('Invalid semester ID format.').optional(),
+  departmentId: z.string().uuid('Invalid department ID format.').optional(),
+});
+
+// Schema for query parameters to filter a faculty report card.
+export const facultyReportQuerySchema = z.object({
+  academicYearId: z
+    .string()
+    .uuid('Invalid academic year ID format.')
+    .optional(),
+});
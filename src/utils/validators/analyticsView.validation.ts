@@ -0,0 +1,50 @@
+/**
+ * @file src/utils/validators/analyticsView.validation.ts
+ * @description Zod schemas for validating saved analytics view requests.
+ */
+
+import { z } from 'zod';
+
+// Zod schema for validating the filter set stored on a view; mirrors OptimizedAnalyticsResponse.filters.
+export const analyticsViewParametersSchema = z
+  .object({
+    academicYearId: z.string().uuid('Invalid academic year ID format.'),
+    departmentId: z.string().uuid('Invalid department ID format.'),
+    semesterId: z.string().uuid('Invalid semester ID format.'),
+    divisionId: z.string().uuid('Invalid division ID format.'),
+    subjectId: z.string().uuid('Invalid subject ID format.'),
+    lectureType: z.enum(['LECTURE', 'LAB']),
+  })
+  .partial()
+  .strict();
+
+export type AnalyticsViewParameters = z.infer<
+  typeof analyticsViewParametersSchema
+>;
+
+// Zod schema for validating the creation of a new analytics view.
+export const createAnalyticsViewSchema = z.object({
+  viewName: z.string().trim().min(1, 'View name is required.'),
+  parameters: analyticsViewParametersSchema,
+  isShared: z.boolean().optional().default(false),
+  collegeId: z.string().uuid('Invalid college ID format.').optional(),
+});
+
+// Zod schema for validating the update of an existing analytics view.
+export const updateAnalyticsViewSchema = z
+  .object({
+    viewName: z.string().trim().min(1, 'View name is required.'),
+    parameters: analyticsViewParametersSchema,
+    isShared: z.boolean(),
+  })
+  .partial()
+  .refine((data) => Object.keys(data).length > 0, {
+    message:
+      'No update data provided. At least one field is required for update.',
+    path: [],
+  });
+
+// Zod schema for validating ID parameters in requests.
+export const idParamSchema = z.object({
+  id: z.string().uuid({ message: 'Invalid ID format. Must be a UUID.' }),
+});
@@ -6,7 +6,7 @@
 import { z } from 'zod';
 
 // Common password schema for reusability.
-const passwordSchema = z
+export const passwordSchema = z
   .string()
   .min(8, 'Password must be at least 8 characters long.')
   .max(100, 'Password cannot exceed 100 characters.')
@@ -32,6 +32,55 @@ export const loginAdminSchema = z.object({
   password: z.string().min(1, 'Password is required.'),
 });
 
+// Six digit one-time password, as emailed by the OTP flows.
+const otpSchema = z.string().regex(/^\d{6}$/, 'OTP must be a 6 digit code.');
+
+// Schema for requesting an OTP, for a password reset or a passwordless login.
+export const requestOtpSchema = z.object({
+  email: z.string().email('Invalid email address.'),
+});
+
+// Schema for resetting a forgotten password with an OTP.
+export const resetPasswordSchema = z.object({
+  email: z.string().email('Invalid email address.'),
+  otp: otpSchema,
+  newPassword: passwordSchema,
+});
+
+// Schema for logging in with an OTP.
+export const otpLoginSchema = z.object({
+  email: z.string().email('Invalid email address.'),
+  otp: otpSchema,
+});
+
+// A code from an authenticator app, or a recovery code such as "K7QF-2M9X-PW4D".
+const twoFactorCodeField = z
+  .string()
+  .trim()
+  .min(1, 'Two-factor code is required.')
+  .max(20, 'Two-factor code is too long.');
+
+// Schema for completing a login with a two-factor code.
+export const twoFactorLoginSchema = z.object({
+  twoFactorToken: z.string().min(1, 'Two-factor token is required.'),
+  code: twoFactorCodeField,
+});
+
+// Schema for the two-factor code confirming an action.
+export const twoFactorCodeSchema = z.object({
+  code: twoFactorCodeField,
+});
+
+// Schema for exchanging a refresh token for new tokens.
+export const refreshTokenSchema = z.object({
+  refreshToken: z.string().min(1, 'Refresh token is required.'),
+});
+
+// Schema for the ID of a session in route parameters.
+export const sessionIdParamSchema = z.object({
+  id: z.string().uuid({ message: 'Invalid ID format. Must be a UUID.' }),
+});
+
 // Schema for updating password.
 export const updatePasswordSchema = z.object({
   currentPassword: z.string().min(1, 'Current password is required.'),
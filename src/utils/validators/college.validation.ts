@@ -5,7 +5,7 @@
 
 import { z } from 'zod';
 
-// Schema for creating/upserting a college.
+// Schema for creating a college.
 export const createCollegeSchema = z.object({
   name: z.string().min(1, 'College name is required.'),
   websiteUrl: z
@@ -52,12 +52,8 @@ export const updateCollegeSchema = z
     }
   );
 
-// Schema for batch updating college data.
-export const batchUpdateCollegeSchema = z.object({
-  updates: updateCollegeSchema,
-});
-
 // Schema for ID parameter validation.
+// Colleges created before multi-college support kept a fixed, non-UUID ID.
 export const idParamSchema = z.object({
-  id: z.string().uuid({ message: 'Invalid ID format. Must be a UUID.' }),
+  id: z.string().min(1, 'College ID is required.'),
 });
@@ -0,0 +1,132 @@
+/**
+ * @file src/utils/validators/customReport.validation.ts
+ * @description Zod schemas for validating custom report related requests.
+ * Report configurations are restricted to whitelisted dimensions, metrics and filters,
+ * so a saved report can never carry arbitrary query fragments.
+ */
+
+import { z } from 'zod';
+import { LectureType } from '@prisma/client';
+
+export const REPORT_DIMENSIONS = [
+  'department',
+  'semester',
+  'division',
+  'subject',
+  'faculty',
+  'lectureType',
+  'batch',
+] as const;
+
+export const REPORT_METRICS = [
+  'average',
+  'count',
+  'distribution',
+  'completionRate',
+] as const;
+
+// Metrics that rows can be sorted by; the distribution metric has no single value.
+const SORTABLE_METRICS = ['average', 'count', 'completionRate'] as const;
+
+export type ReportDimension = (typeof REPORT_DIMENSIONS)[number];
+export type ReportMetric = (typeof REPORT_METRICS)[number];
+
+// Checks that an array contains no duplicate values.
+const isUnique = (values: string[]) => new Set(values).size === values.length;
+
+// Zod schema for validating the filters applied to a custom report.
+export const reportFiltersSchema = z
+  .object({
+    academicYearId: z.string().uuid('Invalid academic year ID format.'),
+    departmentId: z.string().uuid('Invalid department ID format.'),
+    semesterId: z.string().uuid('Invalid semester ID format.'),
+    divisionId: z.string().uuid('Invalid division ID format.'),
+    subjectId: z.string().uuid('Invalid subject ID format.'),
+    facultyId: z.string().uuid('Invalid faculty ID format.'),
+    lectureType: z.nativeEnum(LectureType),
+    batch: z.string().trim().min(1, 'Batch cannot be empty.'),
+    submittedFrom: z.coerce.date(),
+    submittedTo: z.coerce.date(),
+  })
+  .partial()
+  .strict()
+  .refine(
+    (filters) =>
+      !filters.submittedFrom ||
+      !filters.submittedTo ||
+      filters.submittedFrom <= filters.submittedTo,
+    {
+      message: 'submittedFrom must be on or before submittedTo.',
+      path: ['submittedTo'],
+    }
+  );
+
+// Zod schema for validating a custom report configuration.
+export const reportConfigSchema = z
+  .object({
+    dimensions: z
+      .array(z.enum(REPORT_DIMENSIONS))
+      .min(1, 'At least one dimension is required.')
+      .max(4, 'A report can have at most 4 dimensions.')
+      .refine(isUnique, 'Dimensions must be unique.'),
+    metrics: z
+      .array(z.enum(REPORT_METRICS))
+      .min(1, 'At least one metric is required.')
+      .refine(isUnique, 'Metrics must be unique.'),
+    filters: reportFiltersSchema.optional().default({}),
+    sort: z
+      .object({
+        by: z.enum([...REPORT_DIMENSIONS, ...SORTABLE_METRICS]),
+        order: z.enum(['asc', 'desc']).optional().default('desc'),
+      })
+      .strict()
+      .optional(),
+    limit: z.number().int().min(1).max(1000).optional(),
+  })
+  .strict()
+  .refine(
+    (config) =>
+      !config.sort ||
+      config.dimensions.includes(config.sort.by as ReportDimension) ||
+      config.metrics.includes(config.sort.by as ReportMetric),
+    {
+      message: 'Reports can only be sorted by a selected dimension or metric.',
+      path: ['sort', 'by'],
+    }
+  );
+
+export type ReportConfig = z.infer<typeof reportConfigSchema>;
+
+// Zod schema for validating the creation of a new custom report.
+export const createCustomReportSchema = z.object({
+  reportName: z.string().trim().min(1, 'Report name is required.'),
+  description: z.string().trim().optional().default(''),
+  reportConfig: reportConfigSchema,
+  isActive: z.boolean().optional().default(true),
+  collegeId: z.string().uuid('Invalid college ID format.').optional(),
+});
+
+// Zod schema for validating the update of an existing custom report.
+export const updateCustomReportSchema = z
+  .object({
+    reportName: z.string().trim().min(1, 'Report name is required.'),
+    description: z.string().trim(),
+    reportConfig: reportConfigSchema,
+    isActive: z.boolean(),
+  })
+  .partial()
+  .refine((data) => Object.keys(data).length > 0, {
+    message:
+      'No update data provided. At least one field is required for update.',
+    path: [],
+  });
+
+// Zod schema for validating an unsaved report configuration to preview.
+export const previewCustomReportSchema = z.object({
+  reportConfig: reportConfigSchema,
+});
+
+// Zod schema for validating ID parameters in requests.
+export const idParamSchema = z.object({
+  id: z.string().uuid({ message: 'Invalid ID format. Must be a UUID.' }),
+});
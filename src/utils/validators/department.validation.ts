@@ -11,10 +11,7 @@ export const createDepartmentSchema = z.object({
   abbreviation: z.string().min(1, 'Abbreviation is required.').optional(),
   hodName: z.string().min(1, 'HOD name is required.').optional(),
   hodEmail: z.string().email('Invalid HOD email address.').optional(),
-  collegeId: z
-    .string()
-    .uuid('Invalid college ID format. Must be a UUID.')
-    .optional(),
+  collegeId: z.string().min(1, 'College ID cannot be empty.').optional(),
 });
 
 // Schema for updating an existing department.
@@ -24,10 +21,7 @@ export const updateDepartmentSchema = z
     abbreviation: z.string().min(1, 'Abbreviation cannot be empty.').optional(),
     hodName: z.string().min(1, 'HOD name cannot be empty.').optional(),
     hodEmail: z.string().email('Invalid HOD email address.').optional(),
-    collegeId: z
-      .string()
-      .uuid('Invalid college ID format. Must be a UUID.')
-      .optional(),
+    collegeId: z.string().min(1, 'College ID cannot be empty.').optional(),
   })
   .refine(
     (data) => {
@@ -59,3 +53,16 @@ export const batchCreateDepartmentsSchema = z.object({
 export const idParamSchema = z.object({
   id: z.string().uuid({ message: 'Invalid ID format. Must be a UUID.' }),
 });
+
+// Schema for adding an alias to a department.
+export const createDepartmentAliasSchema = z.object({
+  alias: z.string().trim().min(1, 'Alias is required.'),
+});
+
+// Schema for department alias parameter validation.
+export const departmentAliasParamSchema = z.object({
+  id: z.string().uuid({ message: 'Invalid ID format. Must be a UUID.' }),
+  aliasId: z
+    .string()
+    .uuid({ message: 'Invalid alias ID format. Must be a UUID.' }),
+});
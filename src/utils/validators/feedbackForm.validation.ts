@@ -4,6 +4,7 @@
  */
 
 import { z } from 'zod';
+import { questionOptionsSchema, questionTypeSchema } from '../questionTypes';
 import { FormStatus } from '@prisma/client';
 
 // Zod schema for validating a single semester selection within form generation.
@@ -22,6 +23,10 @@ export const generateFormsSchema = z.object({
   selectedSemesters: z
     .array(semesterSelectionSchema)
     .min(1, 'At least one semester selection is required.'),
+  templateId: z
+    .string()
+    .uuid('Invalid template ID format. Must be a UUID.')
+    .optional(),
 });
 
 // Zod schema for validating the creation of a new feedback question when adding to an existing form.
@@ -31,7 +36,8 @@ export const addQuestionToFormSchema = z.object({
   subjectId: z.string().uuid('Invalid subject ID format. Must be a UUID.'),
   batch: z.string().optional().default('None'),
   text: z.string().min(1, 'Question text is required.'),
-  type: z.string().min(1, 'Question type is required.'),
+  type: questionTypeSchema,
+  options: questionOptionsSchema.optional(),
   isRequired: z.boolean().optional().default(true),
   displayOrder: z
     .number()
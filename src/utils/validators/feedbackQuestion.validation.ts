@@ -4,6 +4,7 @@
  */
 
 import { z } from 'zod';
+import { questionOptionsSchema, questionTypeSchema } from '../questionTypes';
 
 // Zod schema for validating the creation of a new Question Category.
 export const createQuestionCategorySchema = z.object({
@@ -28,7 +29,8 @@ export const createFeedbackQuestionSchema = z.object({
   subjectId: z.string().uuid('Invalid subject ID format. Must be a UUID.'),
   batch: z.string().optional().default('None'),
   text: z.string().min(1, 'Question text is required.'),
-  type: z.string().min(1, 'Question type is required.'),
+  type: questionTypeSchema,
+  options: questionOptionsSchema.optional(),
   isRequired: z.boolean().optional().default(true),
   displayOrder: z
     .number()
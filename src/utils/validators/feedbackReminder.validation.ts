@@ -0,0 +1,36 @@
+/**
+ * @file src/utils/validators/feedbackReminder.validation.ts
+ * @description Zod schemas for validating feedback form reminder related requests.
+ */
+
+import { z } from 'zod';
+
+// Zod schema for validating the form ID parameter in reminder routes.
+export const formIdParamSchema = z.object({
+  id: z.string().uuid({ message: 'Invalid form ID format. Must be a UUID.' }),
+});
+
+// Zod schema for validating updates to a form's reminder settings.
+export const updateReminderSettingsSchema = z
+  .object({
+    reminderDaysBeforeEnd: z
+      .array(
+        z
+          .number()
+          .int()
+          .min(0, 'Reminder offsets must be non-negative whole days.')
+          .max(30, 'Reminder offsets cannot exceed 30 days.')
+      )
+      .max(10, 'At most 10 reminder offsets are allowed.'),
+    maxRemindersPerStudent: z
+      .number()
+      .int()
+      .min(0, 'Reminder cap must be a non-negative integer.')
+      .max(10, 'Reminder cap cannot exceed 10.'),
+  })
+  .partial()
+  .refine((data) => Object.keys(data).length > 0, {
+    message:
+      'No update data provided. At least one field is required for update.',
+    path: [],
+  });
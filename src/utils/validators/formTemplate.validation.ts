@@ -0,0 +1,52 @@
+/**
+ * @file src/utils/validators/formTemplate.validation.ts
+ * @description Zod schemas for validating form template related requests.
+ */
+
+import { z } from 'zod';
+
+// Zod schema for validating a single question entry within a template.
+export const templateQuestionSchema = z.object({
+  questionBankItemId: z
+    .string()
+    .uuid('Invalid question bank item ID format. Must be a UUID.'),
+  displayOrder: z
+    .number()
+    .int()
+    .min(0, 'Display order must be a non-negative integer.')
+    .optional(),
+});
+
+// Zod schema for the list of questions in a template, rejecting duplicates.
+const templateQuestionsSchema = z
+  .array(templateQuestionSchema)
+  .min(1, 'A template must contain at least one question.')
+  .refine(
+    (questions) =>
+      new Set(questions.map((q) => q.questionBankItemId)).size ===
+      questions.length,
+    { message: 'A question can only appear once in a template.' }
+  );
+
+// Zod schema for validating the creation of a new form template.
+export const createFormTemplateSchema = z.object({
+  name: z.string().trim().min(1, 'Template name is required.'),
+  description: z.string().nullable().optional(),
+  questions: templateQuestionsSchema,
+  collegeId: z.string().uuid('Invalid college ID format.').optional(),
+});
+
+// Zod schema for validating the update of an existing form template; its college cannot change.
+export const updateFormTemplateSchema = createFormTemplateSchema
+  .omit({ collegeId: true })
+  .partial()
+  .refine((data) => Object.keys(data).length > 0, {
+    message:
+      'No update data provided. At least one field is required for update.',
+    path: [],
+  });
+
+// Zod schema for validating ID parameters in requests.
+export const idParamSchema = z.object({
+  id: z.string().uuid({ message: 'Invalid ID format. Must be a UUID.' }),
+});
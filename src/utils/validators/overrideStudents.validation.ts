@@ -4,6 +4,7 @@
  */
 
 import { z } from 'zod';
+import { spreadsheetBufferSchema } from './upload.validation';
 
 // Schema for validating a single override student row from Excel.
 export const overrideStudentExcelRowSchema = z.object({
@@ -61,17 +62,9 @@ export const overrideStudentsFileUploadSchema = z.object({
     fieldname: z.string(),
     originalname: z.string(),
     encoding: z.string(),
-    mimetype: z.enum(
-      [
-        'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
-        'application/vnd.ms-excel',
-        'text/csv',
-      ],
-      {
-        message: 'File must be an Excel (.xlsx, .xls) or CSV file',
-      }
-    ),
-    buffer: z.instanceof(Buffer),
+    mimetype: z.string(),
+    // The file type is sniffed from its content, as CSV exports arrive with many MIME types.
+    buffer: spreadsheetBufferSchema,
     size: z.number().max(5 * 1024 * 1024, 'File size must be less than 5MB'),
   }),
 });
@@ -81,6 +74,14 @@ export const formIdParamSchema = z.object({
   id: z.string().uuid('Invalid form ID format'),
 });
 
+// Schema for the query parameters of an override students upload.
+export const uploadOverrideStudentsQuerySchema = z.object({
+  columnMappingId: z
+    .string()
+    .uuid('Invalid column mapping ID format')
+    .optional(),
+});
+
 // Schema for getting override students list.
 export const getOverrideStudentsQuerySchema = z.object({
   page: z
@@ -0,0 +1,47 @@
+/**
+ * @file src/utils/validators/promotion.validation.ts
+ * @description Zod schemas for validating student promotion requests.
+ */
+
+import { z } from 'zod';
+
+// Zod schema for validating a student promotion request.
+export const promoteStudentsSchema = z
+  .object({
+    fromSemesterId: z.string().uuid('Invalid source semester ID format.'),
+    toSemesterId: z.string().uuid('Invalid target semester ID format.'),
+    divisionMapping: z
+      .array(
+        z.object({
+          fromDivisionId: z.string().uuid('Invalid source division ID format.'),
+          toDivisionId: z.string().uuid('Invalid target division ID format.'),
+        })
+      )
+      .min(1, 'At least one division mapping is required.')
+      .refine(
+        (mapping) =>
+          new Set(mapping.map((m) => m.fromDivisionId)).size === mapping.length,
+        'Each source division can only be mapped once.'
+      ),
+    detainedEnrollmentNumbers: z
+      .array(z.string().trim().min(1, 'Enrollment number cannot be empty.'))
+      .optional()
+      .default([]),
+  })
+  .refine((data) => data.fromSemesterId !== data.toSemesterId, {
+    message: 'Source and target semesters must be different.',
+    path: ['toSemesterId'],
+  });
+
+// Zod schema for validating promotion query parameters.
+export const promotionQuerySchema = z.object({
+  dryRun: z
+    .enum(['true', 'false'])
+    .optional()
+    .transform((value) => value === 'true'),
+});
+
+// Zod schema for validating ID parameters in requests.
+export const idParamSchema = z.object({
+  id: z.string().uuid({ message: 'Invalid ID format. Must be a UUID.' }),
+});
@@ -0,0 +1,60 @@
+/**
+ * @file src/utils/validators/questionBank.validation.ts
+ * @description Zod schemas for validating question bank related requests.
+ */
+
+import { z } from 'zod';
+import { LectureType } from '@prisma/client';
+import { questionOptionsSchema, questionTypeSchema } from '../questionTypes';
+
+// Zod schema for validating the creation of a new question bank item.
+export const createQuestionBankItemSchema = z.object({
+  categoryId: z.string().min(1, 'Category ID is required.'),
+  text: z.string().min(1, 'Question text is required.'),
+  type: questionTypeSchema,
+  options: questionOptionsSchema.optional(),
+  tags: z
+    .array(z.string().trim().min(1, 'Tags cannot be empty.'))
+    .optional()
+    .default([]),
+  applicableTo: z
+    .array(z.nativeEnum(LectureType))
+    .min(1, 'At least one lecture type is required.')
+    .optional()
+    .default([LectureType.LECTURE, LectureType.LAB]),
+  isRequired: z.boolean().optional().default(true),
+  collegeId: z.string().uuid('Invalid college ID format.').optional(),
+});
+
+// Zod schema for validating the update of an existing question bank item.
+export const updateQuestionBankItemSchema = z
+  .object({
+    categoryId: z.string().min(1, 'Category ID is required.'),
+    text: z.string().min(1, 'Question text is required.'),
+    type: questionTypeSchema,
+    options: questionOptionsSchema,
+    tags: z.array(z.string().trim().min(1, 'Tags cannot be empty.')),
+    applicableTo: z
+      .array(z.nativeEnum(LectureType))
+      .min(1, 'At least one lecture type is required.'),
+    isRequired: z.boolean(),
+  })
+  .partial()
+  .refine((data) => Object.keys(data).length > 0, {
+    message:
+      'No update data provided. At least one field is required for update.',
+    path: [],
+  });
+
+// Zod schema for validating question bank list filters.
+export const questionBankFilterSchema = z.object({
+  categoryId: z.string().optional(),
+  tag: z.string().optional(),
+  lectureType: z.nativeEnum(LectureType).optional(),
+  type: questionTypeSchema.optional(),
+});
+
+// Zod schema for validating ID parameters in requests.
+export const idParamSchema = z.object({
+  id: z.string().uuid({ message: 'Invalid ID format. Must be a UUID.' }),
+});
@@ -4,7 +4,8 @@
  */
 
 import { z } from 'zod';
-import { Designation, SemesterTypeEnum } from '@prisma/client';
+import { Designation, SemesterTypeEnum, SubjectType } from '@prisma/client';
+import { detectSpreadsheetFormat } from '../spreadsheet';
 
 // Zod schema for validating the structure of a single row of student data from an Excel file.
 export const studentExcelRowSchema = z.object({
@@ -79,12 +80,17 @@ export const subjectExcelRowSchema = z
     semesterNumberStr: z.string().min(1, 'Semester number is required.').trim(), // Keep as string for initial parsing
     isElectiveStr: z
       .string()
-      .min(1, 'Is Elective? field is required.')
+      .min(1, 'Subject type is required.')
       .toUpperCase()
       .trim()
       .refine(
-        (val) => val === 'TRUE' || val === 'FALSE',
-        "Is Elective? must be 'TRUE' or 'FALSE'."
+        (val) =>
+          val === 'TRUE' ||
+          val === 'FALSE' ||
+          Object.values(SubjectType).includes(val as SubjectType),
+        `Subject type must be one of: ${Object.values(SubjectType).join(
+          ', '
+        )}, or 'TRUE'/'FALSE' for Is Elective?.`
       ),
     deptAbbreviationInput: z.string().min(1, 'Department is required.').trim(),
   })
@@ -100,22 +106,33 @@ export const subjectExcelRowSchema = z
     }
   );
 
+// Zod schema for validating an uploaded spreadsheet by its content, whatever its extension or MIME type.
+export const spreadsheetBufferSchema = z
+  .instanceof(Buffer)
+  .superRefine((buffer, ctx) => {
+    const format = detectSpreadsheetFormat(buffer);
+    if (format === 'xls') {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message:
+          'Legacy .xls workbooks are not supported. Save the file as .xlsx or CSV.',
+      });
+    } else if (!format) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: 'Only .xlsx workbooks or CSV files are allowed.',
+      });
+    }
+  });
+
 // Zod schema for validating the properties of an uploaded file object.
 export const multerFileSchema = z.object({
   fieldname: z.string().min(1, 'File fieldname is required.'),
   originalname: z.string().min(1, 'Original filename is required.'),
   encoding: z.string().min(1, 'File encoding is required.'),
-  mimetype: z
-    .string()
-    .refine(
-      (mimetype) =>
-        mimetype ===
-          'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' ||
-        mimetype === 'application/vnd.ms-excel',
-      'Only .xlsx or .xls Excel files are allowed.'
-    ),
+  mimetype: z.string(),
   size: z.number().max(5 * 1024 * 1024, 'File size must not exceed 5MB.'), // 5MB limit
-  buffer: z.instanceof(Buffer), // Ensure it's a buffer from memory storage
+  buffer: spreadsheetBufferSchema, // Ensure it's a buffer from memory storage
 });
 
 // Zod schema for validating the file upload itself.
@@ -143,3 +160,115 @@ export const uploadFacultyMatrixBodySchema = z.object({
     .min(1, 'Department Abbreviation is required.')
     .trim(),
 });
+
+// Zod schema for validating upload query parameters.
+export const uploadQuerySchema = z.object({
+  dryRun: z
+    .enum(['true', 'false'])
+    .optional()
+    .transform((value) => value === 'true'),
+  columnMappingId: z
+    .string()
+    .uuid('Invalid column mapping ID format.')
+    .optional(),
+  collegeId: z.string().uuid('Invalid college ID format.').optional(),
+});
+
+// Zod schema for validating the upload error report ID parameter.
+export const errorReportIdParamSchema = z.object({
+  id: z.string().uuid('Invalid error report ID format.'),
+});
+
+// Zod schema for validating upload error report query parameters.
+export const errorReportQuerySchema = z.object({
+  rejectedOnly: z
+    .enum(['true', 'false'])
+    .optional()
+    .transform((value) => value === 'true'),
+});
+
+// Zod schema for validating upload history query parameters.
+export const uploadHistoryQuerySchema = z.object({
+  uploadType: z
+    .enum(['student-data', 'faculty-data', 'subject-data', 'faculty-matrix'])
+    .optional(),
+  limit: z
+    .string()
+    .optional()
+    .transform((val) => (val ? parseInt(val, 10) : 50))
+    .refine((val) => val > 0 && val <= 200, 'Limit must be between 1 and 200.'),
+});
+
+// Zod schema for validating the upload batch ID parameter.
+export const uploadBatchIdParamSchema = z.object({
+  id: z.string().uuid('Invalid upload batch ID format.'),
+});
+
+// Zod schema for validating the upload job ID parameter.
+export const uploadJobIdParamSchema = z.object({
+  id: z.string().min(1, 'Upload job ID is required.'),
+});
+
+// Zod schema for validating the upload types that support column mapping profiles.
+export const columnMappingUploadTypeSchema = z.enum([
+  'student-data',
+  'faculty-data',
+  'subject-data',
+  'override-students',
+]);
+
+// Zod schema for validating a column mapping, keyed by field with the header it is read from.
+const columnMappingSchema = z
+  .record(z.string().trim().min(1, 'Header name cannot be empty.'))
+  .refine((mapping) => Object.keys(mapping).length > 0, {
+    message: 'At least one field must be mapped to a header.',
+  });
+
+// Zod schema for validating the creation of a column mapping profile.
+export const createColumnMappingSchema = z.object({
+  uploadType: columnMappingUploadTypeSchema,
+  name: z.string().trim().min(1, 'Column mapping name is required.'),
+  mapping: columnMappingSchema,
+  collegeId: z.string().uuid('Invalid college ID format.').optional(),
+});
+
+// Zod schema for validating the update of a column mapping profile.
+export const updateColumnMappingSchema = z
+  .object({
+    name: z.string().trim().min(1, 'Column mapping name is required.'),
+    mapping: columnMappingSchema,
+  })
+  .partial()
+  .refine((data) => Object.keys(data).length > 0, {
+    message:
+      'No update data provided. At least one field is required for update.',
+    path: [],
+  });
+
+// Zod schema for validating column mapping list query parameters.
+export const columnMappingQuerySchema = z.object({
+  uploadType: columnMappingUploadTypeSchema.optional(),
+});
+
+// Zod schema for validating the column mapping ID parameter.
+export const columnMappingIdParamSchema = z.object({
+  id: z.string().uuid('Invalid column mapping ID format.'),
+});
+
+// Zod schema for validating the upload template type parameter.
+export const uploadTemplateParamSchema = z.object({
+  type: z.enum(
+    ['student', 'faculty', 'subject', 'faculty-matrix', 'override-students'],
+    {
+      errorMap: () => ({
+        message:
+          'Template type must be one of: student, faculty, subject, faculty-matrix, override-students.',
+      }),
+    }
+  ),
+});
+
+// Zod schema for validating upload template query parameters.
+export const uploadTemplateQuerySchema = z.object({
+  deptAbbreviation: z.string().trim().min(1).optional(),
+});